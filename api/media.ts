@@ -0,0 +1,116 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+
+// Video CDNs used by playurl responses (upos mirrors, mcdn/PCDN nodes)
+const ALLOWED_HOSTS = ['bilivideo.com', 'bilivideo.cn', 'szbdyd.com'];
+// Bilibili's overseas upos mirrors on Akamai, e.g. upos-hz-mirrorakam.akamaized.net.
+// Only these: akamaized.net as a whole is shared by every Akamai customer.
+const AKAMAI_MIRROR_PATTERN = /^upos-[a-z0-9-]+\.akamaized\.net$/;
+
+// Headers forwarded from the browser so seeking and resumable downloads work
+const REQUEST_HEADERS = ['range', 'if-range'];
+const RESPONSE_HEADERS = [
+  'content-type',
+  'content-length',
+  'content-range',
+  'accept-ranges',
+  'etag',
+  'last-modified',
+];
+
+function isAllowedHost(hostname: string): boolean {
+  return AKAMAI_MIRROR_PATTERN.test(hostname)
+    || ALLOWED_HOSTS.some(domain => hostname === domain || hostname.endsWith(`.${domain}`));
+}
+
+function sendError(res: ServerResponse, status: number, error: string) {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify({ error }));
+}
+
+// Plain Node request/response types so the vite dev server can reuse this handler
+export default async function handler(req: IncomingMessage, res: ServerResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, HEAD, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Range, If-Range');
+  res.setHeader('Access-Control-Expose-Headers', 'Content-Length, Content-Range, Accept-Ranges');
+
+  if (req.method === 'OPTIONS') {
+    res.statusCode = 204;
+    res.end();
+    return;
+  }
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    sendError(res, 405, 'Method not allowed');
+    return;
+  }
+
+  const rawUrl = new URL(req.url || '/', 'http://localhost').searchParams.get('url');
+  if (!rawUrl) {
+    sendError(res, 400, 'Missing url parameter');
+    return;
+  }
+
+  let target: URL;
+  try {
+    target = new URL(rawUrl.startsWith('//') ? `https:${rawUrl}` : rawUrl);
+  } catch {
+    sendError(res, 400, 'Invalid url parameter');
+    return;
+  }
+  if (!isAllowedHost(target.hostname)) {
+    sendError(res, 403, 'Domain not allowed');
+    return;
+  }
+
+  const headers: Record<string, string> = {
+    'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+    'Referer': 'https://www.bilibili.com',
+    'Origin': 'https://www.bilibili.com',
+  };
+  for (const name of REQUEST_HEADERS) {
+    const value = req.headers[name];
+    if (typeof value === 'string') {
+      headers[name] = value;
+    }
+  }
+
+  // Stop pulling from the CDN as soon as the browser goes away (seek, tab closed)
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  try {
+    const response = await fetch(target.toString(), {
+      method: req.method,
+      headers,
+      signal: controller.signal,
+    });
+
+    res.statusCode = response.status;
+    for (const name of RESPONSE_HEADERS) {
+      const value = response.headers.get(name);
+      if (value) res.setHeader(name, value);
+    }
+    // Signed CDN URLs expire, so only let the browser cache them briefly
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+
+    if (!response.body || req.method === 'HEAD') {
+      res.end();
+      return;
+    }
+    // Stream chunks straight through; never hold the whole file in memory
+    await pipeline(Readable.fromWeb(response.body as NodeReadableStream<Uint8Array>), res);
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    if (!res.headersSent) {
+      sendError(res, 502, 'Media proxy failed');
+    } else {
+      res.destroy(error instanceof Error ? error : undefined);
+    }
+  }
+}
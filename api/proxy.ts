@@ -3,6 +3,7 @@ import type { VercelRequest, VercelResponse } from '@vercel/node';
 const BILIBILI_API = 'https://api.bilibili.com';
 const TRANSLATE_API = 'https://translate.googleapis.com';
 const PASSPORT_API = 'https://passport.bilibili.com';
+const LIVE_API = 'https://api.live.bilibili.com';
 
 function generateBuvid(): string {
   const chars = '0123456789ABCDEF';
@@ -45,6 +46,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     };
   } else if (service === 'translate') {
     targetUrl = `${TRANSLATE_API}/${pathStr}`;
+  } else if (service === 'live') {
+    targetUrl = `${LIVE_API}/${pathStr}`;
+    headers = {
+      ...headers,
+      'Referer': 'https://live.bilibili.com',
+      'Origin': 'https://live.bilibili.com',
+      'Accept': 'application/json, text/plain, */*',
+      'Cookie': `buvid3=${generateBuvid()}`,
+    };
   } else if (service === 'passport') {
     targetUrl = `${PASSPORT_API}/${pathStr}`;
     headers['Referer'] = 'https://www.bilibili.com';
@@ -66,8 +76,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       headers,
     });
 
-    const data = await response.text();
-    res.setHeader('Content-Type', 'application/json');
+    // Pass bytes through untouched: danmaku segments (seg.so) are protobuf, not JSON
+    const data = Buffer.from(await response.arrayBuffer());
+    res.setHeader('Content-Type', response.headers.get('content-type') || 'application/json');
     res.setHeader('Cache-Control', 'public, s-maxage=60, stale-while-revalidate=300');
     return res.status(response.status).send(data);
   } catch (error) {
@@ -1,13 +1,19 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { Header } from './components/Header';
 import { CategoryNav } from './components/CategoryNav';
 import { VideoGrid } from './components/VideoGrid';
 import { VideoPlayer } from './components/VideoPlayer';
+import type { DanmakuDisplayOptions } from './components/DanmakuOverlay';
 import { PlaylistPanel, type PlaylistContext } from './components/PlaylistPanel';
 import { HistoryPanel } from './components/HistoryPanel';
 import { FavoritesPanel } from './components/FavoritesPanel';
 import { SettingsPanel } from './components/SettingsPanel';
 import { SubscriptionsPanel } from './components/SubscriptionsPanel';
+import { ChannelPanel } from './components/ChannelPanel';
+import { SeasonPanel, SeasonStrip } from './components/SeasonPanel';
+import { LiveView } from './components/LiveView';
+import { LivePlayer } from './components/LivePlayer';
+import { HotSearches } from './components/HotSearches';
 import { AddToPlaylistModal } from './components/AddToPlaylistModal';
 import { useAuth } from './hooks/useAuth';
 import { usePlaylist } from './hooks/usePlaylist';
@@ -16,12 +22,15 @@ import { useFavorites } from './hooks/useFavorites';
 import { useSettings } from './hooks/useSettings';
 import { useSubscriptions } from './hooks/useSubscriptions';
 import { useIsMobile } from './hooks/useMediaQuery';
-import { getTrending, searchVideos, getVideosByCategory, type SearchFilters } from './services/bilibili';
+import { useRouter } from './hooks/useRouter';
+import { getTrending, searchVideos, getVideosByCategory, getVideoInfo, PGC_SEASON_TYPES, type SearchFilters } from './services/bilibili';
+import { DEFAULT_SEARCH_FILTERS, parseSeasonLink, type FeedRoute } from './services/router';
 import { SearchFiltersBar } from './components/SearchFilters';
 import type { BiliVideo } from './types/bilibili';
 import { CATEGORIES } from './types/bilibili';
 
-type ViewMode = 'home' | 'search' | 'category';
+type ViewMode = FeedRoute['name'];
+type VideoOwner = BiliVideo['owner'];
 const FEED_PAGE_SIZE = 20;
 
 // Loading skeleton component
@@ -146,7 +155,12 @@ function PageHeader({
 }
 
 // Quick category pills for home view
-function QuickCategories({ selected, onSelect, isMobile }: { selected: number; onSelect: (tid: number) => void; isMobile: boolean }) {
+function QuickCategories({ selected, onSelect, onLiveSelect, isMobile }: {
+  selected: number;
+  onSelect: (tid: number) => void;
+  onLiveSelect: () => void;
+  isMobile: boolean;
+}) {
   const [expanded, setExpanded] = useState(false);
   // On mobile, show all categories in horizontal scroll; on desktop, use expand/collapse
   const visibleCats = isMobile ? CATEGORIES : (expanded ? CATEGORIES : CATEGORIES.slice(0, 10));
@@ -169,6 +183,28 @@ function QuickCategories({ selected, onSelect, isMobile }: { selected: number; o
         msOverflowStyle: 'none',
       }}
     >
+      <button
+        onClick={onLiveSelect}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '6px',
+          padding: isMobile ? '6px 12px' : '8px 16px',
+          borderRadius: isMobile ? '16px' : '20px',
+          fontSize: isMobile ? '12px' : '13px',
+          fontWeight: 500,
+          whiteSpace: 'nowrap',
+          flexShrink: 0,
+          border: '1px solid rgba(251, 114, 153, 0.4)',
+          background: 'rgba(251, 114, 153, 0.1)',
+          color: '#fb7299',
+          cursor: 'pointer',
+          transition: 'all 0.2s',
+        }}
+      >
+        <span style={{ width: '6px', height: '6px', borderRadius: '50%', background: '#fb7299' }} />
+        Live
+      </button>
       {visibleCats.map(cat => {
         const isSelected = selected === cat.tid;
         return (
@@ -276,19 +312,20 @@ function App() {
   const {
     subscriptions,
     unsubscribe,
+    toggleSubscription,
+    isSubscribed,
     clearSubscriptions,
   } = useSubscriptions();
+  const { route, feedRoute, navigate, closeOverlay } = useRouter();
   const [videos, setVideos] = useState<BiliVideo[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [debugResult, setDebugResult] = useState<string | null>(null);
-  const [viewMode, setViewMode] = useState<ViewMode>('home');
-  const [selectedCategory, setSelectedCategory] = useState(0);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [searchFilters, setSearchFilters] = useState<SearchFilters>({ order: 'totalrank', duration: 0 });
   const [page, setPage] = useState(1);
   const [hasMore, setHasMore] = useState(true);
   const [selectedVideo, setSelectedVideo] = useState<BiliVideo | null>(null);
+  const [videoLoadError, setVideoLoadError] = useState<string | null>(null);
+  const [channelOwner, setChannelOwner] = useState<VideoOwner | null>(null);
   const [showPlaylistPanel, setShowPlaylistPanel] = useState(false);
   const [showHistoryPanel, setShowHistoryPanel] = useState(false);
   const [showFavoritesPanel, setShowFavoritesPanel] = useState(false);
@@ -302,6 +339,27 @@ function App() {
   // Web version always has proxy via Vercel Edge Functions
   const showProxyNotice = false;
 
+  // The feed is driven by the URL; overlays (player, channel) sit on top of it
+  const viewMode: ViewMode = feedRoute.name;
+  const selectedCategory = feedRoute.name === 'category' ? feedRoute.tid : 0;
+  const searchQuery = feedRoute.name === 'search' ? feedRoute.query : '';
+  const searchFilters = feedRoute.name === 'search' ? feedRoute.filters : DEFAULT_SEARCH_FILTERS;
+  const searchExact = feedRoute.name === 'search' && feedRoute.exact === true;
+  const activeVideo = route.name === 'video' && selectedVideo?.bvid === route.bvid ? selectedVideo : null;
+
+  const danmakuOptions = useMemo<DanmakuDisplayOptions>(() => ({
+    translate: settings.translateDanmaku,
+    opacity: settings.danmakuOpacity,
+    density: settings.danmakuDensity,
+    fontScale: settings.danmakuFontScale,
+    blockedKeywords: settings.danmakuBlockedKeywords,
+    modes: {
+      scroll: settings.danmakuShowScroll,
+      top: settings.danmakuShowTop,
+      bottom: settings.danmakuShowBottom,
+    },
+  }), [settings]);
+
   const beginLoad = useCallback((feedKey: string, reset: boolean) => {
     if (reset || feedKeyRef.current !== feedKey) {
       feedKeyRef.current = feedKey;
@@ -376,6 +434,9 @@ function App() {
     try {
       const result = await getVideosByCategory(tid, pageNum);
       if (feedKeyRef.current !== feedKey) return;
+      if (result.error) {
+        setError(result.error);
+      }
       if (pageNum === 1) {
         setVideos(result.videos);
       } else {
@@ -398,16 +459,19 @@ function App() {
     }
   }, [beginLoad, endLoad, resolveHasMore]);
 
-  const loadSearch = useCallback(async (query: string, pageNum: number = 1, filters?: SearchFilters) => {
+  const loadSearch = useCallback(async (query: string, pageNum: number = 1, filters?: SearchFilters, exact = false) => {
     const trimmed = query.trim();
     if (!trimmed) return;
     const filterKey = filters ? `${filters.order || ''}:${filters.duration || 0}` : '';
-    const feedKey = `search:${trimmed}:${filterKey}`;
+    const feedKey = `search:${trimmed}:${filterKey}${exact ? ':exact' : ''}`;
     beginLoad(feedKey, pageNum === 1);
     setError(null);
     try {
-      const result = await searchVideos(trimmed, pageNum, true, filters);
+      const result = await searchVideos(trimmed, pageNum, !exact, filters);
       if (feedKeyRef.current !== feedKey) return;
+      if (result.error) {
+        setError(result.error);
+      }
       if (pageNum === 1) {
         setVideos(result.videos);
       } else {
@@ -430,46 +494,91 @@ function App() {
     }
   }, [beginLoad, endLoad, resolveHasMore]);
 
+  const loadFeed = useCallback((target: FeedRoute, pageNum: number) => {
+    if (target.name === 'home') {
+      loadTrending(pageNum);
+    } else if (target.name === 'category') {
+      loadCategory(target.tid, pageNum);
+    } else if (target.name === 'search') {
+      loadSearch(target.query, pageNum, target.filters, target.exact);
+    }
+    // Live rooms load inside LiveView
+  }, [loadTrending, loadCategory, loadSearch]);
+
   const handleSearch = useCallback((query: string) => {
     const trimmed = query.trim();
     if (!trimmed) return;
-    setSearchQuery(trimmed);
-    setViewMode('search');
-    setPage(1);
-    setSearchFilters({ order: 'totalrank', duration: 0 }); // Reset filters on new search
-    loadSearch(trimmed, 1, { order: 'totalrank', duration: 0 });
-  }, [loadSearch]);
+    // A pasted anime or film link (ss/ep) opens the season instead of searching
+    const seasonRoute = parseSeasonLink(trimmed);
+    if (seasonRoute) {
+      navigate(seasonRoute);
+      return;
+    }
+    // Filters reset on a new search
+    navigate({ name: 'search', query: trimmed, filters: DEFAULT_SEARCH_FILTERS });
+  }, [navigate]);
+
+  // Trending keywords are searched as Bilibili lists them, skipping translation
+  const handleKeywordSelect = useCallback((keyword: string) => {
+    navigate({ name: 'search', query: keyword, filters: DEFAULT_SEARCH_FILTERS, exact: true });
+  }, [navigate]);
 
   const handleFiltersChange = useCallback((newFilters: SearchFilters) => {
-    setSearchFilters(newFilters);
-    setPage(1);
-    loadSearch(searchQuery, 1, newFilters);
-  }, [loadSearch, searchQuery]);
+    navigate(searchExact
+      ? { name: 'search', query: searchQuery, filters: newFilters, exact: true }
+      : { name: 'search', query: searchQuery, filters: newFilters });
+  }, [navigate, searchQuery, searchExact]);
 
   const handleCategorySelect = useCallback((tid: number) => {
-    setSelectedCategory(tid);
-    setPage(1);
-    if (tid === 0) {
-      setViewMode('home');
+    navigate(tid === 0 ? { name: 'home' } : { name: 'category', tid });
+  }, [navigate]);
+
+  const handleLogoClick = useCallback(() => {
+    if (feedRoute.name === 'home') {
+      // Already home: the URL won't change, so refresh the feed directly
+      setPage(1);
       loadTrending(1);
-    } else {
-      setViewMode('category');
-      loadCategory(tid, 1);
+      return;
     }
-  }, [loadTrending, loadCategory]);
+    navigate({ name: 'home' });
+  }, [feedRoute.name, navigate, loadTrending]);
 
-  const handleLogoClick = useCallback(() => {
-    setViewMode('home');
-    setSelectedCategory(0);
-    setSearchQuery('');
+  const openVideo = useCallback((video: BiliVideo, context: PlaylistContext | null = null) => {
+    setSelectedVideo(video);
+    setPlaylistContext(context);
+    navigate({ name: 'video', bvid: video.bvid });
+  }, [navigate]);
+
+  const openChannel = useCallback((owner: VideoOwner) => {
+    setChannelOwner(owner);
+    navigate({ name: 'channel', mid: owner.mid });
+  }, [navigate]);
+
+  // Load the feed whenever the URL points at a different one, or the translation
+  // language changes and the loaded titles are in the old one
+  const { targetLanguage } = settings;
+  useEffect(() => {
     setPage(1);
-    loadTrending(1);
-  }, [loadTrending]);
+    loadFeed(feedRoute, 1);
+  }, [feedRoute, loadFeed, targetLanguage]);
 
-  // Initial load
+  // Deep links only carry the bvid, so fetch the video details
   useEffect(() => {
-    loadTrending(1);
-  }, [loadTrending]);
+    if (route.name !== 'video' || selectedVideo?.bvid === route.bvid) return;
+    let cancelled = false;
+    setVideoLoadError(null);
+    getVideoInfo(route.bvid).then(video => {
+      if (cancelled) return;
+      if (video) {
+        setSelectedVideo(video);
+      } else {
+        setVideoLoadError('This video could not be loaded. It may have been removed or made private.');
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [route, selectedVideo?.bvid]);
 
   // Infinite scroll - use ref for page to avoid stale closure issues
   const pageRef = useRef(page);
@@ -477,7 +586,7 @@ function App() {
 
   useEffect(() => {
     const handleScroll = () => {
-      if (pendingCountRef.current > 0 || !hasMore) return;
+      if (pendingCountRef.current > 0 || !hasMore || feedRoute.name === 'live') return;
 
       const scrollHeight = document.documentElement.scrollHeight;
       const scrollTop = document.documentElement.scrollTop;
@@ -488,19 +597,13 @@ function App() {
         const nextPage = pageRef.current + 1;
         setPage(nextPage);
 
-        if (viewMode === 'home') {
-          loadTrending(nextPage);
-        } else if (viewMode === 'category') {
-          loadCategory(selectedCategory, nextPage);
-        } else if (viewMode === 'search' && searchQuery) {
-          loadSearch(searchQuery, nextPage, searchFilters);
-        }
+        loadFeed(feedRoute, nextPage);
       }
     };
 
     window.addEventListener('scroll', handleScroll);
     return () => window.removeEventListener('scroll', handleScroll);
-  }, [viewMode, selectedCategory, searchQuery, searchFilters, hasMore, loadTrending, loadCategory, loadSearch]);
+  }, [feedRoute, hasMore, loadFeed]);
 
   const getCategoryName = () => {
     const cat = CATEGORIES.find(c => c.tid === selectedCategory);
@@ -512,6 +615,7 @@ function App() {
       <Header
         user={user}
         onSearch={handleSearch}
+        onKeywordSelect={handleKeywordSelect}
         onLogout={logout}
         onLoginSuccess={refreshAuth}
         onLogoClick={handleLogoClick}
@@ -548,10 +652,23 @@ function App() {
                 onSelectCategory={handleCategorySelect}
               />
             </>
+          ) : viewMode === 'live' ? (
+            <PageHeader
+              title="Live"
+              showBack
+              onBack={handleLogoClick}
+              isMobile={isMobile}
+            />
           ) : (
             <>
               <PageHeader title="Home" isMobile={isMobile} />
-              <QuickCategories selected={selectedCategory} onSelect={handleCategorySelect} isMobile={isMobile} />
+              <QuickCategories
+                selected={selectedCategory}
+                onSelect={handleCategorySelect}
+                onLiveSelect={() => navigate({ name: 'live', areaId: 0 })}
+                isMobile={isMobile}
+              />
+              <HotSearches onKeywordSelect={handleKeywordSelect} />
             </>
           )}
         </div>
@@ -578,8 +695,18 @@ function App() {
           </div>
         )}
 
+        {viewMode === 'live' && (
+          <LiveView
+            areaId={feedRoute.name === 'live' ? feedRoute.areaId : 0}
+            onAreaSelect={(areaId) => navigate({ name: 'live', areaId })}
+            onRoomSelect={(room) => navigate({ name: 'liveRoom', roomId: room.roomId })}
+            translateTitles={settings.translateTitles}
+            translateChannelNames={settings.translateChannelNames}
+          />
+        )}
+
         {/* Error state */}
-        {error && (
+        {error && viewMode !== 'live' && (
           <div style={{
             background: 'rgba(239, 68, 68, 0.1)',
             border: '1px solid rgba(239, 68, 68, 0.3)',
@@ -597,9 +724,8 @@ function App() {
             <span style={{ color: '#ef4444', fontSize: '14px', flex: 1 }}>{error}</span>
             <button
               onClick={() => {
-                if (viewMode === 'home') loadTrending(1);
-                else if (viewMode === 'category') loadCategory(selectedCategory, 1);
-                else if (viewMode === 'search') loadSearch(searchQuery, 1);
+                setPage(1);
+                loadFeed(feedRoute, 1);
               }}
               style={{
                 background: '#ef4444',
@@ -618,26 +744,39 @@ function App() {
         )}
 
         {/* Content */}
-        <div style={{ animation: 'fadeIn 0.3s ease-out' }} key={`${viewMode}-${selectedCategory}-content`}>
-          {initialLoad && loading ? (
-            <LoadingSkeleton count={8} />
-          ) : videos.length === 0 && loading ? (
-            <LoadingSkeleton count={8} />
-          ) : (
-            <VideoGrid
-              videos={videos}
-              loading={false}
-              onVideoSelect={setSelectedVideo}
-              onFavorite={toggleFavorite}
-              isFavorited={isFavorited}
-              translateTitles={settings.translateTitles}
-              translateChannelNames={settings.translateChannelNames}
-            />
-          )}
-        </div>
+        {viewMode !== 'live' && (
+          <div style={{ animation: 'fadeIn 0.3s ease-out' }} key={`${viewMode}-${selectedCategory}-content`}>
+            {viewMode === 'category' && PGC_SEASON_TYPES[selectedCategory] && (
+              <SeasonStrip
+                seasonType={PGC_SEASON_TYPES[selectedCategory]}
+                onSeasonSelect={(seasonId) => navigate({ name: 'season', ref: 'ss', id: seasonId })}
+                translateTitles={settings.translateTitles}
+              />
+            )}
+            {initialLoad && loading ? (
+              <LoadingSkeleton count={8} />
+            ) : videos.length === 0 && loading ? (
+              <LoadingSkeleton count={8} />
+            ) : (
+              <VideoGrid
+                videos={videos}
+                loading={false}
+                onVideoSelect={(video) => openVideo(video)}
+                onFavorite={toggleFavorite}
+                isFavorited={isFavorited}
+                translateTitles={settings.translateTitles}
+                translateChannelNames={settings.translateChannelNames}
+                romanizeTitles={settings.romanizeTitles}
+                romanizeChannelNames={settings.romanizeChannelNames}
+                pinyinStyle={settings.pinyinStyle}
+                translationDisplay={settings.translationDisplay}
+              />
+            )}
+          </div>
+        )}
 
         {/* Loading more indicator */}
-        {loading && videos.length > 0 && (
+        {loading && videos.length > 0 && viewMode !== 'live' && (
           <div style={{
             display: 'flex',
             justifyContent: 'center',
@@ -657,7 +796,7 @@ function App() {
           </div>
         )}
 
-        {!loading && videos.length > 0 && !hasMore && (
+        {!loading && videos.length > 0 && !hasMore && viewMode !== 'live' && (
           <div style={{
             textAlign: 'center',
             padding: '24px',
@@ -669,7 +808,7 @@ function App() {
         )}
 
         {/* Empty state */}
-        {!loading && videos.length === 0 && !error && (
+        {!loading && videos.length === 0 && !error && viewMode !== 'live' && (
           <div style={{
             textAlign: 'center',
             padding: '80px 20px',
@@ -770,13 +909,62 @@ function App() {
         }
       `}</style>
 
+      {/* Deep-linked video still loading */}
+      {route.name === 'video' && !activeVideo && (
+        <div style={{
+          position: 'fixed',
+          inset: 0,
+          background: '#000',
+          zIndex: 1000,
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          justifyContent: 'center',
+          gap: '16px',
+        }}>
+          {videoLoadError ? (
+            <>
+              <p style={{ color: '#ef4444', fontSize: '14px', textAlign: 'center', padding: '0 20px' }}>
+                {videoLoadError}
+              </p>
+              <button
+                onClick={closeOverlay}
+                style={{
+                  background: 'rgba(255, 255, 255, 0.1)',
+                  border: 'none',
+                  borderRadius: '8px',
+                  padding: '10px 16px',
+                  color: '#fff',
+                  fontSize: '14px',
+                  cursor: 'pointer',
+                }}
+              >
+                Back
+              </button>
+            </>
+          ) : (
+            <>
+              <div style={{
+                width: '32px',
+                height: '32px',
+                border: '3px solid rgba(255, 255, 255, 0.1)',
+                borderTopColor: '#00a1d6',
+                borderRadius: '50%',
+                animation: 'spin 1s linear infinite',
+              }} />
+              <span style={{ color: '#666', fontSize: '14px' }}>Loading video...</span>
+            </>
+          )}
+        </div>
+      )}
+
       {/* Video Player Modal */}
-      {selectedVideo && (
+      {activeVideo && (
         <VideoPlayer
-          video={selectedVideo}
+          video={activeVideo}
           onClose={() => {
-            setSelectedVideo(null);
             setPlaylistContext(null);
+            closeOverlay();
           }}
           onAddToPlaylist={(video) => {
             setVideoToAdd(video);
@@ -784,32 +972,76 @@ function App() {
           onWatched={addToHistory}
           onProgress={(video, progress) => updateProgress(video.bvid, progress)}
           onFavorite={toggleFavorite}
-          isFavorited={isFavorited(selectedVideo.bvid)}
+          isFavorited={isFavorited(activeVideo.bvid)}
           isLoggedIn={isLoggedIn}
           onVideoChange={(video) => {
-            setSelectedVideo(video);
             // Clear playlist context when switching via related videos
-            if (!playlistContext || !playlistContext.videos.some(v => v.bvid === video.bvid)) {
-              setPlaylistContext(null);
-            }
+            const keepContext = playlistContext && playlistContext.videos.some(v => v.bvid === video.bvid);
+            openVideo(video, keepContext ? playlistContext : null);
           }}
+          onChannelSelect={openChannel}
           playlistContext={playlistContext}
           onPlayNext={() => {
             if (playlistContext && playlistContext.currentIndex < playlistContext.videos.length - 1) {
               const nextIndex = playlistContext.currentIndex + 1;
               const nextVideo = playlistContext.videos[nextIndex];
-              setSelectedVideo(nextVideo);
-              setPlaylistContext({
+              openVideo(nextVideo, {
                 ...playlistContext,
                 currentIndex: nextIndex,
               });
             }
           }}
+          onSaveAsPlaylist={createPlaylist}
           translateTitles={settings.translateTitles}
           translateDescriptions={settings.translateDescriptions}
           translateComments={settings.translateComments}
           translateChannelNames={settings.translateChannelNames}
           translateSubtitles={settings.translateSubtitles}
+          romanizeTitles={settings.romanizeTitles}
+          romanizeDescriptions={settings.romanizeDescriptions}
+          romanizeChannelNames={settings.romanizeChannelNames}
+          romanizeSubtitles={settings.romanizeSubtitles}
+          pinyinStyle={settings.pinyinStyle}
+          learningMode={settings.learningMode}
+          translationDisplay={settings.translationDisplay}
+          targetLanguage={settings.targetLanguage}
+          defaultQuality={settings.defaultQuality}
+          autoplay={settings.autoplay}
+          danmakuOptions={danmakuOptions}
+        />
+      )}
+
+      {/* Channel Panel */}
+      {route.name === 'channel' && (
+        <ChannelPanel
+          owner={channelOwner?.mid === route.mid ? channelOwner : { mid: route.mid, name: '', face: '' }}
+          onClose={closeOverlay}
+          onVideoSelect={(video) => openVideo(video)}
+          isSubscribed={isSubscribed(route.mid)}
+          onToggleSubscription={(channel) => void toggleSubscription(channel)}
+          translateTitles={settings.translateTitles}
+          translateChannelNames={settings.translateChannelNames}
+        />
+      )}
+
+      {route.name === 'season' && (
+        <SeasonPanel
+          seasonRef={route.ref}
+          id={route.id}
+          onClose={closeOverlay}
+          onEpisodeSelect={(video) => openVideo(video)}
+          translateTitles={settings.translateTitles}
+          translateDescriptions={settings.translateDescriptions}
+        />
+      )}
+
+      {route.name === 'liveRoom' && (
+        <LivePlayer
+          roomId={route.roomId}
+          onClose={closeOverlay}
+          danmakuOptions={danmakuOptions}
+          translateTitles={settings.translateTitles}
+          translateChannelNames={settings.translateChannelNames}
         />
       )}
 
@@ -818,7 +1050,7 @@ function App() {
         <HistoryPanel
           history={history}
           onVideoSelect={(video) => {
-            setSelectedVideo(video);
+            openVideo(video);
             setShowHistoryPanel(false);
           }}
           onRemove={removeFromHistory}
@@ -832,7 +1064,7 @@ function App() {
         <FavoritesPanel
           favorites={favorites}
           onVideoSelect={(video) => {
-            setSelectedVideo(video);
+            openVideo(video);
             setShowFavoritesPanel(false);
           }}
           onRemove={removeFromFavorites}
@@ -856,7 +1088,7 @@ function App() {
         <SubscriptionsPanel
           subscriptions={subscriptions}
           onVideoSelect={(video) => {
-            setSelectedVideo(video);
+            openVideo(video);
             setShowSubscriptionsPanel(false);
           }}
           onUnsubscribe={unsubscribe}
@@ -874,8 +1106,7 @@ function App() {
           onRenamePlaylist={renamePlaylist}
           onRemoveVideo={removeVideoFromPlaylist}
           onVideoSelect={(video, context) => {
-            setSelectedVideo(video);
-            setPlaylistContext(context || null);
+            openVideo(video, context || null);
             setShowPlaylistPanel(false);
           }}
           onClose={() => setShowPlaylistPanel(false)}
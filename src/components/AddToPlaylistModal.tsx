@@ -145,7 +145,7 @@ export function AddToPlaylistModal({
               textOverflow: 'ellipsis',
               whiteSpace: 'nowrap',
             }}>
-              {video.titleEn || video.title}
+              {video.titleTranslated || video.title}
             </p>
             <p style={{
               margin: '4px 0 0 0',
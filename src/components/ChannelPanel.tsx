@@ -21,13 +21,13 @@ interface ChannelPanelProps {
   owner: {
     mid: number;
     name: string;
-    nameEn?: string;
+    nameTranslated?: string;
     face: string;
   };
   onClose: () => void;
   onVideoSelect: (video: BiliVideo) => void;
   isSubscribed?: boolean;
-  onToggleSubscription?: () => void;
+  onToggleSubscription?: (channel: { mid: number; name: string; face: string }) => void;
   translateTitles?: boolean;
   translateChannelNames?: boolean;
 }
@@ -85,6 +85,9 @@ export function ChannelPanel({ owner, onClose, onVideoSelect, isSubscribed, onTo
       });
       setVideos(normalizeVideos(videoResult.videos, channelInfo));
       setTotal(videoResult.total);
+      if (videoResult.error && videoResult.videos.length === 0) {
+        setError(videoResult.error);
+      }
     } catch (err) {
       console.error('Failed to load channel:', err);
       setError('Failed to load channel');
@@ -96,8 +99,8 @@ export function ChannelPanel({ owner, onClose, onVideoSelect, isSubscribed, onTo
   const [hasMore, setHasMore] = useState(true);
 
   // Determine displayed channel name based on translation settings
-  const displayChannelName = translateChannelNames && (channel?.nameEn || owner.nameEn)
-    ? (channel?.nameEn || owner.nameEn)
+  const displayChannelName = translateChannelNames && (channel?.nameTranslated || owner.nameTranslated)
+    ? (channel?.nameTranslated || owner.nameTranslated)
     : (channel?.name || owner.name);
 
   const loadMore = useCallback(async () => {
@@ -106,6 +109,10 @@ export function ChannelPanel({ owner, onClose, onVideoSelect, isSubscribed, onTo
     setLoadingMore(true);
     try {
       const result = await getChannelVideos(owner.mid, nextPage, 20);
+      if (result.error) {
+        setError(result.error);
+        return;
+      }
       // Deduplicate by bvid
       const existingBvids = new Set(videos.map(v => v.bvid));
       const newVideos = normalizeVideos(result.videos, channel).filter(v => !existingBvids.has(v.bvid));
@@ -208,7 +215,11 @@ export function ChannelPanel({ owner, onClose, onVideoSelect, isSubscribed, onTo
         <div style={{ display: 'flex', gap: '8px' }}>
           {onToggleSubscription && (
             <button
-              onClick={onToggleSubscription}
+              onClick={() => onToggleSubscription({
+                mid: owner.mid,
+                name: channel?.name || owner.name,
+                face: channel?.face || owner.face,
+              })}
               style={{
                 background: isSubscribed ? 'rgba(239, 68, 68, 0.1)' : 'rgba(251, 114, 153, 0.2)',
                 border: `1px solid ${isSubscribed ? 'rgba(239, 68, 68, 0.3)' : 'rgba(251, 114, 153, 0.4)'}`,
@@ -439,7 +450,7 @@ export function ChannelPanel({ owner, onClose, onVideoSelect, isSubscribed, onTo
                     textOverflow: 'ellipsis',
                     whiteSpace: 'nowrap',
                   }}>
-                    {translateTitles && video.titleEn ? video.titleEn : video.title}
+                    {translateTitles && video.titleTranslated ? video.titleTranslated : video.title}
                   </p>
                   <p style={{
                     margin: '4px 0 0 0',
@@ -0,0 +1,191 @@
+import { useEffect, useRef } from 'react';
+import { danmakuColor, isDanmakuBlocked, type DanmakuItem, type DanmakuMode } from '../services/danmaku';
+
+export interface DanmakuDisplayOptions {
+  translate: boolean;
+  opacity: number;
+  density: number; // Max on screen, 0 = unlimited
+  fontScale: number;
+  blockedKeywords: string[];
+  modes: Record<DanmakuMode, boolean>;
+}
+
+interface DanmakuOverlayProps {
+  video: HTMLVideoElement;
+  items: DanmakuItem[];
+  options: DanmakuDisplayOptions;
+}
+
+interface ActiveDanmaku {
+  item: DanmakuItem;
+  text: string;
+  lane: number;
+  width: number;
+  fontSize: number;
+}
+
+const SCROLL_DURATION = 8; // Seconds to cross the screen
+const FIXED_DURATION = 4; // Seconds top/bottom danmaku stay pinned
+const LANE_GAP = 4;
+const MIN_FONT_SIZE = 12;
+const REFERENCE_HEIGHT = 720; // Bilibili sizes are authored for a 720p stage
+
+function findIndexAt(items: DanmakuItem[], time: number): number {
+  let low = 0;
+  let high = items.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (items[mid].time < time) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+// Canvas renderer that reads the playhead every frame, so it stays in sync through pauses,
+// seeks and rate changes without listening to each media event
+export function DanmakuOverlay({ video, items, options }: DanmakuOverlayProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  // Read from the draw loop, so changing a setting doesn't restart the animation
+  const optionsRef = useRef(options);
+
+  useEffect(() => {
+    optionsRef.current = options;
+  }, [options]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    let frame = 0;
+    let width = 0;
+    let height = 0;
+    let scale = 1;
+    let active: ActiveDanmaku[] = [];
+    let nextIndex = findIndexAt(items, video.currentTime);
+    let lastTime = video.currentTime;
+
+    const resize = () => {
+      const dpr = window.devicePixelRatio || 1;
+      width = canvas.clientWidth;
+      height = canvas.clientHeight;
+      scale = height / REFERENCE_HEIGHT;
+      canvas.width = Math.round(width * dpr);
+      canvas.height = Math.round(height * dpr);
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    };
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(canvas);
+
+    const fontFor = (item: DanmakuItem) =>
+      Math.max(MIN_FONT_SIZE, Math.round(item.size * scale * optionsRef.current.fontScale));
+
+    const scrollX = (entry: ActiveDanmaku, time: number) => {
+      const progress = (time - entry.item.time) / SCROLL_DURATION;
+      return width - progress * (width + entry.width);
+    };
+
+    const isExpired = (entry: ActiveDanmaku, time: number) => {
+      const elapsed = time - entry.item.time;
+      return entry.item.mode === 'scroll' ? elapsed > SCROLL_DURATION : elapsed > FIXED_DURATION;
+    };
+
+    // First lane whose previous occupant won't overlap the new one
+    const pickLane = (item: DanmakuItem, itemWidth: number, fontSize: number, time: number): number => {
+      const laneHeight = fontSize + LANE_GAP;
+      const laneCount = Math.max(1, Math.floor((height * (item.mode === 'scroll' ? 0.75 : 0.5)) / laneHeight));
+      for (let lane = 0; lane < laneCount; lane++) {
+        const blocked = active.some(entry => {
+          if (entry.lane !== lane || entry.item.mode !== item.mode) return false;
+          if (item.mode !== 'scroll') return true;
+          // The older one must have fully entered, and must not be caught by the (faster) newcomer
+          const tail = scrollX(entry, time) + entry.width;
+          if (tail > width) return true;
+          const oldSpeed = (width + entry.width) / SCROLL_DURATION;
+          const newSpeed = (width + itemWidth) / SCROLL_DURATION;
+          const remaining = tail / oldSpeed;
+          return newSpeed > oldSpeed && width - (newSpeed * remaining) < 0;
+        });
+        if (!blocked) return lane;
+      }
+      return -1;
+    };
+
+    const draw = () => {
+      const time = video.currentTime;
+
+      // Seeking (or looping) invalidates everything on screen
+      if (time < lastTime || time - lastTime > 1) {
+        active = [];
+        nextIndex = findIndexAt(items, time);
+      }
+      lastTime = time;
+
+      active = active.filter(entry => !isExpired(entry, time));
+
+      const current = optionsRef.current;
+      while (nextIndex < items.length && items[nextIndex].time <= time) {
+        const item = items[nextIndex++];
+        if (time - item.time > 1) continue; // Too late to show it meaningfully
+        if (!current.modes[item.mode] || isDanmakuBlocked(item, current.blockedKeywords)) continue;
+        if (current.density > 0 && active.length >= current.density) continue;
+        // Text is fixed when the item spawns; later translations apply to later items
+        const text = current.translate && item.contentTranslated ? item.contentTranslated : item.content;
+        const fontSize = fontFor(item);
+        ctx.font = `bold ${fontSize}px sans-serif`;
+        const itemWidth = ctx.measureText(text).width;
+        const lane = pickLane(item, itemWidth, fontSize, time);
+        if (lane >= 0) {
+          active.push({ item, text, lane, width: itemWidth, fontSize });
+        }
+      }
+
+      ctx.clearRect(0, 0, width, height);
+      ctx.globalAlpha = current.opacity;
+      ctx.textBaseline = 'top';
+      ctx.lineWidth = 2;
+      ctx.strokeStyle = 'rgba(0, 0, 0, 0.7)';
+      for (const entry of active) {
+        const laneHeight = entry.fontSize + LANE_GAP;
+        let x: number;
+        let y: number;
+        if (entry.item.mode === 'scroll') {
+          x = scrollX(entry, time);
+          y = entry.lane * laneHeight + LANE_GAP;
+        } else {
+          x = (width - entry.width) / 2;
+          y = entry.item.mode === 'top'
+            ? entry.lane * laneHeight + LANE_GAP
+            : height - (entry.lane + 1) * laneHeight - LANE_GAP;
+        }
+        ctx.font = `bold ${entry.fontSize}px sans-serif`;
+        ctx.strokeText(entry.text, x, y);
+        ctx.fillStyle = danmakuColor(entry.item.color);
+        ctx.fillText(entry.text, x, y);
+      }
+
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      observer.disconnect();
+    };
+  }, [video, items]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      aria-hidden="true"
+      style={{
+        position: 'absolute',
+        inset: 0,
+        width: '100%',
+        height: '100%',
+        pointerEvents: 'none',
+      }}
+    />
+  );
+}
@@ -238,7 +238,7 @@ export function FavoritesPanel({
                       lineHeight: 1.3,
                     }}
                   >
-                    {item.video.titleEn || item.video.title}
+                    {item.video.titleTranslated || item.video.title}
                   </p>
                   <p
                     style={{
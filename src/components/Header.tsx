@@ -7,12 +7,13 @@ import type { BiliUser } from '../types/bilibili';
 interface HeaderProps {
   user: BiliUser | null;
   onSearch: (query: string) => void;
+  onKeywordSelect?: (keyword: string) => void;
   onLogout: () => void;
   onLoginSuccess: () => void;
   onLogoClick?: () => void;
 }
 
-export function Header({ user, onSearch, onLogout, onLoginSuccess, onLogoClick }: HeaderProps) {
+export function Header({ user, onSearch, onKeywordSelect, onLogout, onLoginSuccess, onLogoClick }: HeaderProps) {
   const [showUserMenu, setShowUserMenu] = useState(false);
   const [showLoginModal, setShowLoginModal] = useState(false);
   const isMobile = useIsMobile();
@@ -64,7 +65,7 @@ export function Header({ user, onSearch, onLogout, onLoginSuccess, onLogoClick }
 
           {/* Search */}
           <div style={{ flex: 1, display: 'flex', justifyContent: 'center', maxWidth: isMobile ? 'none' : '600px' }}>
-            <SearchBar onSearch={onSearch} />
+            <SearchBar onSearch={onSearch} onKeywordSelect={onKeywordSelect} />
           </div>
 
           {/* User section */}
@@ -243,7 +243,7 @@ export function HistoryPanel({
                       lineHeight: 1.3,
                     }}
                   >
-                    {item.video.titleEn || item.video.title}
+                    {item.video.titleTranslated || item.video.title}
                   </p>
                   <p
                     style={{
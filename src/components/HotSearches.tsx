@@ -0,0 +1,95 @@
+import { useHotSearches } from '../hooks/useHotSearches';
+import { useIsMobile } from '../hooks/useMediaQuery';
+
+interface HotSearchesProps {
+  onKeywordSelect: (keyword: string) => void;
+}
+
+// Trending keywords for the home page, in English with the Chinese underneath
+export function HotSearches({ onKeywordSelect }: HotSearchesProps) {
+  const isMobile = useIsMobile();
+  const keywords = useHotSearches();
+
+  if (keywords.length === 0) return null;
+
+  return (
+    <div style={{ marginTop: isMobile ? '12px' : '16px' }}>
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '6px',
+        marginBottom: '8px',
+        color: '#888',
+        fontSize: '12px',
+        fontWeight: 600,
+        textTransform: 'uppercase',
+        letterSpacing: '0.5px',
+      }}>
+        <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="#fb7299" strokeWidth="2">
+          <path d="M12 2c1 4 5 6 5 11a5 5 0 0 1-10 0c0-2 1-3.5 2-4.5 0 2 1 3 2 3 0-3-1-6 1-9.5z" />
+        </svg>
+        Trending searches
+      </div>
+      <div
+        className={isMobile ? 'hide-scrollbar' : undefined}
+        style={{
+          display: 'flex',
+          gap: isMobile ? '6px' : '8px',
+          flexWrap: isMobile ? 'nowrap' : 'wrap',
+          overflowX: isMobile ? 'auto' : 'visible',
+        }}
+      >
+        {keywords.map((item, index) => {
+          const label = item.showNameTranslated || item.showName;
+          return (
+            <button
+              key={item.keyword}
+              onClick={() => onKeywordSelect(item.keyword)}
+              title={item.keyword}
+              style={{
+                display: 'flex',
+                flexDirection: 'column',
+                alignItems: 'flex-start',
+                gap: '2px',
+                padding: isMobile ? '6px 12px' : '8px 14px',
+                borderRadius: '12px',
+                border: '1px solid rgba(255, 255, 255, 0.08)',
+                background: 'rgba(255, 255, 255, 0.03)',
+                cursor: 'pointer',
+                flexShrink: 0,
+                maxWidth: isMobile ? '220px' : '280px',
+                textAlign: 'left',
+              }}
+            >
+              <span style={{
+                fontSize: isMobile ? '12px' : '13px',
+                color: '#ddd',
+                maxWidth: '100%',
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                whiteSpace: 'nowrap',
+              }}>
+                <span style={{ color: index < 3 ? '#fb7299' : '#666', fontWeight: 700, marginRight: '6px' }}>
+                  {index + 1}
+                </span>
+                {label}
+              </span>
+              {label !== item.showName && (
+                <span style={{
+                  fontSize: '11px',
+                  color: '#666',
+                  maxWidth: '100%',
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis',
+                  whiteSpace: 'nowrap',
+                }}>
+                  {item.showName}
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useState, useEffect } from 'react';
+import { segmentText, loadImportedDictionary, type TextSegment } from '../services/cedict';
+import { formatPinyin, romanize, type PinyinStyle } from '../services/pinyin';
+
+export interface LearningOptions {
+  pinyinStyle: PinyinStyle;
+  isSaved: (word: string) => boolean;
+  onToggleSave: (segment: TextSegment, context: string) => void;
+}
+
+interface LearningTextProps {
+  text: string;
+  options: LearningOptions;
+}
+
+const MAX_READINGS = 3;
+const MAX_DEFINITIONS = 4;
+const SENTENCE_END = /[。！？!?\n]/;
+
+// The sentence around `offset`, saved with a word as its example
+function sentenceAt(text: string, offset: number): string {
+  let start = offset;
+  while (start > 0 && !SENTENCE_END.test(text[start - 1])) start--;
+  let end = offset;
+  while (end < text.length && !SENTENCE_END.test(text[end])) end++;
+  // Keep the closing punctuation
+  if (end < text.length && text[end] !== '\n') end++;
+  return text.slice(start, end).trim();
+}
+
+// Chinese split into words; hover (or tap) a word for its pinyin and meaning
+export function LearningText({ text, options }: LearningTextProps) {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const [pinned, setPinned] = useState<number | null>(null);
+  const [, setDictionaryVersion] = useState(0);
+
+  // The full dictionary, if imported, loads in the background; segment again once it's in
+  useEffect(() => {
+    let cancelled = false;
+    loadImportedDictionary().then(() => {
+      if (!cancelled) setDictionaryVersion(version => version + 1);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const segments = segmentText(text);
+  const active = pinned ?? hovered;
+  // Where each segment starts in `text`
+  const starts: number[] = [];
+  for (let i = 0, offset = 0; i < segments.length; i++) {
+    starts.push(offset);
+    offset += segments[i].text.length;
+  }
+
+  return (
+    <span onMouseLeave={() => setHovered(null)}>
+      {segments.map((segment, i) => {
+        if (!segment.isWord) return <span key={i}>{segment.text}</span>;
+        const saved = segment.entries.length > 0 && options.isSaved(segment.text);
+        return (
+          <span
+            key={i}
+            onMouseEnter={() => setHovered(i)}
+            onClick={(e) => {
+              // Words sit inside clickable rows (transcript lines); a tap is for the word only
+              e.stopPropagation();
+              setPinned(pinned === i ? null : i);
+            }}
+            style={{
+              position: 'relative',
+              cursor: 'pointer',
+              pointerEvents: 'auto',
+              borderBottom: `1px ${saved ? 'solid #fb7299' : 'dotted rgba(255, 255, 255, 0.35)'}`,
+              background: active === i ? 'rgba(0, 161, 214, 0.25)' : 'transparent',
+              borderRadius: '2px',
+              margin: '0 1px',
+            }}
+          >
+            {segment.text}
+            {active === i && (
+              <WordPopover
+                segment={segment}
+                saved={saved}
+                pinyinStyle={options.pinyinStyle}
+                onToggleSave={() => options.onToggleSave(segment, sentenceAt(text, starts[i]))}
+                onClose={() => {
+                  setPinned(null);
+                  setHovered(null);
+                }}
+              />
+            )}
+          </span>
+        );
+      })}
+    </span>
+  );
+}
+
+interface WordPopoverProps {
+  segment: TextSegment;
+  saved: boolean;
+  pinyinStyle: PinyinStyle;
+  onToggleSave: () => void;
+  onClose: () => void;
+}
+
+function WordPopover({ segment, saved, pinyinStyle, onToggleSave, onClose }: WordPopoverProps) {
+  const known = segment.entries.length > 0;
+
+  return (
+    <span
+      role="tooltip"
+      onClick={(e) => e.stopPropagation()}
+      style={{
+        position: 'absolute',
+        bottom: 'calc(100% + 6px)',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        zIndex: 50,
+        display: 'block',
+        width: 'max-content',
+        maxWidth: '240px',
+        padding: '10px 12px',
+        background: '#1f1f1f',
+        border: '1px solid rgba(255, 255, 255, 0.12)',
+        borderRadius: '8px',
+        boxShadow: '0 8px 24px rgba(0, 0, 0, 0.5)',
+        color: '#ddd',
+        fontSize: '13px',
+        fontWeight: 400,
+        lineHeight: 1.4,
+        textAlign: 'left',
+        whiteSpace: 'normal',
+        cursor: 'default',
+      }}
+    >
+      <span style={{ display: 'flex', alignItems: 'baseline', gap: '8px' }}>
+        <span style={{ fontSize: '18px', color: '#fff' }}>{segment.text}</span>
+        {known && segment.entries[0].traditional !== segment.entries[0].simplified && (
+          <span style={{ fontSize: '13px', color: '#777' }}>{segment.entries[0].traditional}</span>
+        )}
+        <button
+          onClick={onClose}
+          aria-label="Close"
+          style={{
+            marginLeft: 'auto',
+            background: 'none',
+            border: 'none',
+            color: '#777',
+            fontSize: '14px',
+            cursor: 'pointer',
+            padding: 0,
+          }}
+        >
+          ×
+        </button>
+      </span>
+
+      {known ? (
+        segment.entries.slice(0, MAX_READINGS).map((entry, i) => (
+          <span key={i} style={{ display: 'block', marginTop: '6px' }}>
+            <span style={{ display: 'block', color: '#00a1d6' }}>{formatPinyin(entry.pinyin, pinyinStyle)}</span>
+            <span style={{ display: 'block', color: '#bbb' }}>
+              {entry.definitions.slice(0, MAX_DEFINITIONS).join('; ')}
+            </span>
+          </span>
+        ))
+      ) : (
+        <span style={{ display: 'block', marginTop: '6px' }}>
+          <span style={{ display: 'block', color: '#00a1d6' }}>{romanize(segment.text, pinyinStyle)}</span>
+          <span style={{ display: 'block', color: '#777', fontSize: '12px' }}>
+            Not in the dictionary. Import CC-CEDICT in settings for full coverage.
+          </span>
+        </span>
+      )}
+
+      {known && (
+        <button
+          onClick={onToggleSave}
+          style={{
+            marginTop: '8px',
+            padding: '4px 10px',
+            background: saved ? 'rgba(251, 114, 153, 0.15)' : 'rgba(0, 161, 214, 0.2)',
+            border: `1px solid ${saved ? 'rgba(251, 114, 153, 0.4)' : 'rgba(0, 161, 214, 0.4)'}`,
+            borderRadius: '6px',
+            color: saved ? '#fb7299' : '#00a1d6',
+            fontSize: '12px',
+            cursor: 'pointer',
+          }}
+        >
+          {saved ? 'Saved · Remove' : 'Save to vocabulary'}
+        </button>
+      )}
+    </span>
+  );
+}
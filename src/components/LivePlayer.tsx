@@ -0,0 +1,296 @@
+import { useState, useEffect, useRef } from 'react';
+import type { BiliLiveRoom } from '../types/bilibili';
+import { formatViewCount } from '../services/bilibili';
+import { getLiveRoom, getLiveStreamInfo, type LiveStreamInfo } from '../services/live';
+import { attachLiveHls } from '../services/liveHls';
+import { useLiveDanmaku } from '../hooks/useLiveDanmaku';
+import { useIsMobile } from '../hooks/useMediaQuery';
+import { DanmakuOverlay, type DanmakuDisplayOptions } from './DanmakuOverlay';
+
+interface LivePlayerProps {
+  roomId: number;
+  onClose: () => void;
+  danmakuOptions: DanmakuDisplayOptions;
+  translateTitles?: boolean;
+  translateChannelNames?: boolean;
+}
+
+const DEFAULT_LIVE_QUALITY = 10000;
+
+export function LivePlayer({ roomId, onClose, danmakuOptions, translateTitles = true, translateChannelNames = true }: LivePlayerProps) {
+  const isMobile = useIsMobile();
+  const [room, setRoom] = useState<BiliLiveRoom | null>(null);
+  const [streamInfo, setStreamInfo] = useState<LiveStreamInfo | null>(null);
+  const [quality, setQuality] = useState(DEFAULT_LIVE_QUALITY);
+  const [error, setError] = useState<string | null>(null);
+  const [mediaElement, setMediaElement] = useState<HTMLVideoElement | null>(null);
+  const [showDanmaku, setShowDanmaku] = useState(true);
+  const chatEndRef = useRef<HTMLDivElement | null>(null);
+  const { messages, overlayItems, status, viewers } = useLiveDanmaku(
+    room?.live ? room.roomId : null,
+    mediaElement,
+    danmakuOptions.translate
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    getLiveRoom(roomId).then(result => {
+      if (cancelled) return;
+      setRoom(result.room);
+      if (result.error) setError(result.error);
+      else if (result.room && !result.room.live) setError('This room is offline right now.');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId]);
+
+  // Short ids resolve to the room's long id, which the stream and chat need
+  const liveRoomId = room?.live ? room.roomId : null;
+
+  useEffect(() => {
+    if (!liveRoomId || !mediaElement) return;
+    let cancelled = false;
+    let playback: { destroy: () => void } | null = null;
+
+    getLiveStreamInfo(liveRoomId, quality).then(result => {
+      if (cancelled) return;
+      if (!result.info) {
+        setError(result.error || 'No live stream available');
+        return;
+      }
+      setStreamInfo(result.info);
+      const stream = result.info.streams.find(candidate => candidate.protocol === 'hls' && candidate.format === 'fmp4');
+      if (!stream) {
+        setError("This room only offers FLV or TS streams, which this player can't play yet.");
+        return;
+      }
+      playback = attachLiveHls(mediaElement, stream.url, {
+        onError: (playbackError) => {
+          if (!cancelled) setError(playbackError.message);
+        },
+      });
+      mediaElement.play().catch(() => {});
+    });
+
+    return () => {
+      cancelled = true;
+      playback?.destroy();
+    };
+  }, [liveRoomId, mediaElement, quality]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  useEffect(() => {
+    chatEndRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages]);
+
+  const title = room && translateTitles && room.titleTranslated ? room.titleTranslated : room?.title;
+  const anchorName = room && translateChannelNames && room.anchor.nameTranslated ? room.anchor.nameTranslated : room?.anchor.name;
+  const viewerCount = viewers ?? room?.online ?? 0;
+
+  return (
+    <div style={{
+      position: 'fixed',
+      inset: 0,
+      background: '#000',
+      zIndex: 1000,
+      display: 'flex',
+      flexDirection: 'column',
+      overflow: 'hidden',
+    }}>
+      {/* Top bar */}
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '12px',
+        padding: isMobile ? '10px 12px' : '12px 20px',
+        borderBottom: '1px solid rgba(255, 255, 255, 0.08)',
+      }}>
+        <button
+          onClick={onClose}
+          aria-label="Close"
+          style={{
+            background: 'rgba(255, 255, 255, 0.1)',
+            border: 'none',
+            borderRadius: '50%',
+            width: '32px',
+            height: '32px',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            cursor: 'pointer',
+            color: '#bbb',
+            flexShrink: 0,
+          }}
+        >
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M18 6L6 18M6 6l12 12" />
+          </svg>
+        </button>
+        <div style={{ flex: 1, minWidth: 0 }}>
+          <p style={{
+            margin: 0,
+            fontSize: isMobile ? '14px' : '16px',
+            fontWeight: 600,
+            color: '#fff',
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+            whiteSpace: 'nowrap',
+          }}>
+            {title || 'Live room'}
+          </p>
+          {room && (
+            <p style={{ margin: '2px 0 0', fontSize: '12px', color: '#888' }}>
+              {[anchorName, room.areaName, room.live ? `${formatViewCount(viewerCount)} watching` : 'Offline']
+                .filter(Boolean)
+                .join(' · ')}
+            </p>
+          )}
+        </div>
+        {streamInfo && streamInfo.qualities.length > 1 && (
+          <select
+            value={quality}
+            onChange={(e) => setQuality(Number(e.target.value))}
+            aria-label="Stream quality"
+            style={{
+              background: 'rgba(255, 255, 255, 0.08)',
+              border: '1px solid rgba(255, 255, 255, 0.15)',
+              borderRadius: '999px',
+              padding: '4px 10px',
+              color: '#fff',
+              fontSize: '12px',
+              cursor: 'pointer',
+            }}
+          >
+            {streamInfo.qualities.map(q => (
+              <option key={q.quality} value={q.quality} style={{ background: '#1a1a1a' }}>
+                {q.description}
+              </option>
+            ))}
+          </select>
+        )}
+        <button
+          onClick={() => setShowDanmaku(prev => !prev)}
+          aria-pressed={showDanmaku}
+          style={{
+            background: showDanmaku ? 'rgba(0, 161, 214, 0.2)' : 'rgba(255, 255, 255, 0.08)',
+            border: 'none',
+            borderRadius: '999px',
+            padding: '6px 12px',
+            color: showDanmaku ? '#00a1d6' : '#bbb',
+            fontSize: '12px',
+            cursor: 'pointer',
+          }}
+        >
+          Danmaku
+        </button>
+        {!isMobile && (
+          <a
+            href={`https://live.bilibili.com/${roomId}`}
+            target="_blank"
+            rel="noreferrer"
+            style={{ color: '#888', fontSize: '12px', textDecoration: 'none' }}
+          >
+            Open on Bilibili
+          </a>
+        )}
+      </div>
+
+      <div style={{
+        flex: 1,
+        minHeight: 0,
+        display: 'flex',
+        flexDirection: isMobile ? 'column' : 'row',
+      }}>
+        {/* Video */}
+        <div style={{
+          position: 'relative',
+          flex: isMobile ? '0 0 auto' : 1,
+          aspectRatio: isMobile ? '16/9' : undefined,
+          background: '#000',
+        }}>
+          <video
+            ref={setMediaElement}
+            controls
+            playsInline
+            style={{ width: '100%', height: '100%', display: 'block', background: '#000' }}
+          />
+          {showDanmaku && mediaElement && !error && (
+            <DanmakuOverlay video={mediaElement} items={overlayItems} options={danmakuOptions} />
+          )}
+          {error && (
+            <div style={{
+              position: 'absolute',
+              inset: 0,
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              padding: '24px',
+              background: 'rgba(0, 0, 0, 0.85)',
+              color: '#ddd',
+              fontSize: '14px',
+              textAlign: 'center',
+              lineHeight: 1.5,
+            }}>
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* Chat */}
+        <div style={{
+          width: isMobile ? 'auto' : '340px',
+          flex: isMobile ? 1 : '0 0 auto',
+          minHeight: 0,
+          display: 'flex',
+          flexDirection: 'column',
+          borderLeft: isMobile ? 'none' : '1px solid rgba(255, 255, 255, 0.08)',
+          background: '#0d0d0d',
+        }}>
+          <div style={{
+            padding: '12px 16px',
+            borderBottom: '1px solid rgba(255, 255, 255, 0.06)',
+            fontSize: '13px',
+            fontWeight: 600,
+            color: '#fff',
+            display: 'flex',
+            justifyContent: 'space-between',
+          }}>
+            <span>Live chat</span>
+            <span style={{ fontWeight: 400, color: status === 'open' ? '#22c55e' : '#666', fontSize: '12px' }}>
+              {status === 'open' ? 'Connected' : status === 'connecting' ? 'Connecting...' : 'Reconnecting...'}
+            </span>
+          </div>
+          <div style={{ flex: 1, overflowY: 'auto', padding: '8px 16px' }}>
+            {messages.length === 0 ? (
+              <p style={{ color: '#555', fontSize: '12px', textAlign: 'center', marginTop: '24px' }}>
+                {room?.live === false ? 'Chat is quiet while the room is offline' : 'Waiting for messages...'}
+              </p>
+            ) : (
+              messages.map(message => {
+                const text = danmakuOptions.translate && message.contentTranslated ? message.contentTranslated : message.content;
+                return (
+                  <div key={message.id} style={{ padding: '4px 0', fontSize: '13px', lineHeight: 1.4 }}>
+                    {message.uname && <span style={{ color: '#00a1d6', marginRight: '6px' }}>{message.uname}</span>}
+                    <span style={{ color: '#ddd' }}>{text}</span>
+                    {text !== message.content && (
+                      <div style={{ color: '#666', fontSize: '11px' }}>{message.content}</div>
+                    )}
+                  </div>
+                );
+              })
+            )}
+            <div ref={chatEndRef} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { BiliLiveArea, BiliLiveRoom } from '../types/bilibili';
+import { formatViewCount } from '../services/bilibili';
+import { getLiveAreas, getLiveRooms } from '../services/live';
+import { useIsMobile } from '../hooks/useMediaQuery';
+
+// Convert Bilibili image URLs to use proxy (bypasses hotlink protection)
+function proxyImageUrl(url: string): string {
+  if (!url) return '';
+  const httpsUrl = url.replace(/^http:/, 'https:');
+  return `/api/img?url=${encodeURIComponent(httpsUrl)}`;
+}
+
+interface LiveViewProps {
+  areaId: number; // 0 for recommended rooms
+  onAreaSelect: (areaId: number) => void;
+  onRoomSelect: (room: BiliLiveRoom) => void;
+  translateTitles?: boolean;
+  translateChannelNames?: boolean;
+}
+
+// Live rooms by area, with their own loading so the video feed state stays untouched
+export function LiveView({ areaId, onAreaSelect, onRoomSelect, translateTitles = true, translateChannelNames = true }: LiveViewProps) {
+  const isMobile = useIsMobile();
+  const [areas, setAreas] = useState<BiliLiveArea[]>([]);
+  const [rooms, setRooms] = useState<BiliLiveRoom[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getLiveAreas().then(setAreas);
+  }, []);
+
+  const loadRooms = useCallback(async (pageNum: number) => {
+    setLoading(true);
+    setError(null);
+    const result = await getLiveRooms(areaId, pageNum);
+    if (result.error) setError(result.error);
+    setRooms(prev => {
+      if (pageNum === 1) return result.rooms;
+      const existing = new Set(prev.map(room => room.roomId));
+      return [...prev, ...result.rooms.filter(room => !existing.has(room.roomId))];
+    });
+    setPage(pageNum);
+    setHasMore(result.hasMore);
+    setLoading(false);
+  }, [areaId]);
+
+  useEffect(() => {
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- Fetch rooms when the area changes
+    loadRooms(1);
+  }, [loadRooms]);
+
+  const chips = [{ id: 0, nameEn: 'Recommended' }, ...areas];
+
+  return (
+    <div>
+      <div
+        className={isMobile ? 'hide-scrollbar' : undefined}
+        style={{
+          display: 'flex',
+          gap: isMobile ? '6px' : '8px',
+          flexWrap: isMobile ? 'nowrap' : 'wrap',
+          overflowX: isMobile ? 'auto' : 'visible',
+          marginBottom: isMobile ? '16px' : '24px',
+        }}
+      >
+        {chips.map(area => {
+          const isSelected = area.id === areaId;
+          return (
+            <button
+              key={area.id}
+              onClick={() => onAreaSelect(area.id)}
+              style={{
+                padding: isMobile ? '6px 12px' : '8px 16px',
+                borderRadius: '20px',
+                fontSize: isMobile ? '12px' : '13px',
+                fontWeight: 500,
+                whiteSpace: 'nowrap',
+                flexShrink: 0,
+                border: isSelected
+                  ? '1px solid rgba(0, 161, 214, 0.5)'
+                  : '1px solid rgba(255, 255, 255, 0.1)',
+                background: isSelected
+                  ? 'rgba(0, 161, 214, 0.15)'
+                  : 'rgba(255, 255, 255, 0.03)',
+                color: isSelected ? '#00a1d6' : '#bbb',
+                cursor: 'pointer',
+                transition: 'all 0.2s',
+              }}
+            >
+              {area.nameEn}
+            </button>
+          );
+        })}
+      </div>
+
+      {error && (
+        <div style={{
+          background: 'rgba(239, 68, 68, 0.1)',
+          border: '1px solid rgba(239, 68, 68, 0.3)',
+          borderRadius: '12px',
+          padding: '16px 20px',
+          marginBottom: '24px',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '12px',
+        }}>
+          <span style={{ color: '#ef4444', fontSize: '14px', flex: 1 }}>{error}</span>
+          <button
+            onClick={() => loadRooms(1)}
+            style={{
+              background: '#ef4444',
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              padding: '8px 16px',
+              fontSize: '13px',
+              fontWeight: 500,
+              cursor: 'pointer',
+            }}
+          >
+            Retry
+          </button>
+        </div>
+      )}
+
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: isMobile ? 'repeat(2, 1fr)' : 'repeat(auto-fill, minmax(280px, 1fr))',
+        gap: isMobile ? '10px' : '20px',
+      }}>
+        {rooms.map((room, index) => (
+          <div
+            key={room.roomId}
+            style={{ animation: `fadeIn 0.4s ease-out ${Math.min(index, 20) * 0.05}s both` }}
+          >
+            <LiveRoomCard
+              room={room}
+              onSelect={onRoomSelect}
+              translateTitle={translateTitles}
+              translateChannelName={translateChannelNames}
+              isMobile={isMobile}
+            />
+          </div>
+        ))}
+      </div>
+
+      {!loading && !error && rooms.length === 0 && (
+        <p style={{ textAlign: 'center', color: '#666', fontSize: '14px', padding: '40px 0' }}>
+          Nobody is live in this area right now
+        </p>
+      )}
+
+      {(loading || hasMore) && (
+        <div style={{ display: 'flex', justifyContent: 'center', padding: '32px 0' }}>
+          {loading ? (
+            <div style={{
+              width: '28px',
+              height: '28px',
+              border: '3px solid rgba(255, 255, 255, 0.1)',
+              borderTopColor: '#00a1d6',
+              borderRadius: '50%',
+              animation: 'spin 1s linear infinite',
+            }} />
+          ) : (
+            <button
+              onClick={() => loadRooms(page + 1)}
+              style={{
+                background: 'rgba(255, 255, 255, 0.05)',
+                color: '#bbb',
+                border: '1px solid rgba(255, 255, 255, 0.1)',
+                borderRadius: '20px',
+                padding: '8px 20px',
+                fontSize: '13px',
+                cursor: 'pointer',
+              }}
+            >
+              Load more
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function LiveRoomCard({ room, onSelect, translateTitle, translateChannelName, isMobile }: {
+  room: BiliLiveRoom;
+  onSelect: (room: BiliLiveRoom) => void;
+  translateTitle: boolean;
+  translateChannelName: boolean;
+  isMobile: boolean;
+}) {
+  const [imgError, setImgError] = useState(false);
+  const title = translateTitle && room.titleTranslated ? room.titleTranslated : room.title;
+  const anchorName = translateChannelName && room.anchor.nameTranslated ? room.anchor.nameTranslated : room.anchor.name;
+
+  return (
+    <div
+      onClick={() => onSelect(room)}
+      style={{
+        borderRadius: isMobile ? '12px' : '16px',
+        overflow: 'hidden',
+        background: 'rgba(255, 255, 255, 0.03)',
+        border: '1px solid rgba(255, 255, 255, 0.06)',
+        cursor: 'pointer',
+      }}
+    >
+      <div style={{
+        position: 'relative',
+        aspectRatio: '16/9',
+        overflow: 'hidden',
+        background: '#1a1a1a',
+      }}>
+        {!imgError && room.cover && (
+          <img
+            src={proxyImageUrl(room.cover)}
+            alt={title}
+            style={{ width: '100%', height: '100%', objectFit: 'cover' }}
+            loading="lazy"
+            onError={() => setImgError(true)}
+          />
+        )}
+        <div style={{
+          position: 'absolute',
+          top: isMobile ? '6px' : '8px',
+          left: isMobile ? '6px' : '8px',
+          padding: '2px 8px',
+          background: '#fb7299',
+          color: '#fff',
+          fontSize: isMobile ? '10px' : '11px',
+          fontWeight: 700,
+          borderRadius: '4px',
+          letterSpacing: '0.5px',
+        }}>
+          LIVE
+        </div>
+        <div style={{
+          position: 'absolute',
+          bottom: isMobile ? '6px' : '8px',
+          right: isMobile ? '6px' : '8px',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '4px',
+          padding: isMobile ? '2px 6px' : '4px 8px',
+          background: 'rgba(0, 0, 0, 0.85)',
+          color: '#fff',
+          fontSize: isMobile ? '10px' : '12px',
+          fontWeight: 600,
+          borderRadius: isMobile ? '4px' : '6px',
+        }}>
+          <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z" />
+            <circle cx="12" cy="12" r="3" />
+          </svg>
+          {formatViewCount(room.online)}
+        </div>
+      </div>
+      <div style={{ padding: isMobile ? '8px 10px 10px' : '12px 14px 14px' }}>
+        <p style={{
+          margin: 0,
+          fontSize: isMobile ? '12px' : '14px',
+          fontWeight: 600,
+          color: '#fff',
+          overflow: 'hidden',
+          textOverflow: 'ellipsis',
+          whiteSpace: 'nowrap',
+        }}>
+          {title}
+        </p>
+        <p style={{
+          margin: '6px 0 0',
+          fontSize: isMobile ? '11px' : '12px',
+          color: '#888',
+          overflow: 'hidden',
+          textOverflow: 'ellipsis',
+          whiteSpace: 'nowrap',
+        }}>
+          {anchorName}{room.areaName ? ` · ${room.areaName}` : ''}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+import { useState, useEffect, useRef, type ReactNode } from 'react';
+import { getEpisodeStreamInfo, getVideoStreamInfo, getMediaProxyUrl, type VideoQuality, type VideoStreamInfo } from '../services/bilibili';
+import { canUseMediaSource, selectDashStreams, attachDashPlayback, type DashPlayback } from '../services/dash';
+
+interface NativeVideoPlayerProps {
+  bvid: string;
+  cid?: number; // Part to play; the first part when unset
+  epId?: number; // PGC episode, streamed through the PGC endpoints
+  title: string;
+  defaultQuality: number;
+  autoplay: boolean;
+  showControls: boolean;
+  onFallback: (reason: string) => void;
+  onProgress?: (seconds: number) => void;
+  onEnded?: () => void;
+  // Lets the parent drive overlays (danmaku, subtitles) from the media element
+  onMediaElement?: (video: HTMLVideoElement | null) => void;
+  children?: ReactNode;
+}
+
+const PROGRESS_INTERVAL = 10; // Seconds between history progress updates
+
+// Bilibili refused the episode outright, rather than the stream failing to load
+class PlaybackBlockedError extends Error {}
+
+export function NativeVideoPlayer({ bvid, cid, epId, title, defaultQuality, autoplay, showControls, onFallback, onProgress, onEnded, onMediaElement, children }: NativeVideoPlayerProps) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [quality, setQuality] = useState(defaultQuality);
+  const [qualities, setQualities] = useState<VideoQuality[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Why a PGC episode can't play (region, premium). The embed can't play it either.
+  const [blocked, setBlocked] = useState<{ key: string; reason: string } | null>(null);
+  const blockedReason = blocked?.key === `${bvid}:${epId}` ? blocked.reason : null;
+  // Playback position carried across quality switches
+  const resumeTimeRef = useRef(0);
+  const lastProgressRef = useRef(0);
+  const onFallbackRef = useRef(onFallback);
+
+  useEffect(() => {
+    onFallbackRef.current = onFallback;
+  }, [onFallback]);
+
+  useEffect(() => {
+    onMediaElement?.(videoRef.current);
+    return () => onMediaElement?.(null);
+  }, [onMediaElement]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    let cancelled = false;
+    let playback: DashPlayback | null = null;
+
+    const fallback = (reason: string) => {
+      if (cancelled) return;
+      console.warn('[Player] Falling back to embedded player:', reason);
+      onFallbackRef.current(reason);
+    };
+
+    const start = () => {
+      if (resumeTimeRef.current > 0) {
+        video.currentTime = resumeTimeRef.current;
+      }
+      if (autoplay || resumeTimeRef.current > 0) {
+        // Browsers may block autoplay with sound; the native controls still work
+        video.play().catch(() => {});
+      }
+    };
+
+    const fetchStream = async (preferProgressive: boolean): Promise<VideoStreamInfo | null> => {
+      if (!epId) return getVideoStreamInfo(bvid, quality, { preferProgressive, cid });
+      const result = await getEpisodeStreamInfo({ epId, cid }, quality, { preferProgressive });
+      if (result.ok) return result.value;
+      if (result.error.kind === 'api') throw new PlaybackBlockedError(result.error.message);
+      return null;
+    };
+
+    const load = async () => {
+      if (canUseMediaSource()) {
+        const info = await fetchStream(false);
+        if (cancelled) return;
+        const selection = info ? selectDashStreams(info, quality) : null;
+        if (info && selection) {
+          console.log('[Player] DASH', selection.video.id, selection.video.mimeType);
+          setQualities(info.availableQualities);
+          video.addEventListener('loadedmetadata', start, { once: true });
+          playback = attachDashPlayback(video, selection, info.duration, {
+            onError: (error) => fallback(error.message),
+          });
+          return;
+        }
+      }
+
+      // No MSE or no decodable DASH track: try a single progressive file
+      const progressive = await fetchStream(true);
+      if (cancelled) return;
+      if (!progressive || progressive.format !== 'progressive') {
+        fallback('No playable stream');
+        return;
+      }
+      console.log('[Player] Progressive', progressive.quality);
+      setQualities(progressive.availableQualities);
+      video.addEventListener('loadedmetadata', start, { once: true });
+      video.src = getMediaProxyUrl(progressive.videoUrl);
+    };
+
+    void load().catch((error: unknown) => {
+      if (error instanceof PlaybackBlockedError) {
+        if (!cancelled) setBlocked({ key: `${bvid}:${epId}`, reason: error.message });
+        return;
+      }
+      fallback(error instanceof Error ? error.message : String(error));
+    });
+
+    return () => {
+      cancelled = true;
+      resumeTimeRef.current = video.currentTime;
+      video.removeEventListener('loadedmetadata', start);
+      if (playback) {
+        playback.destroy();
+      } else {
+        video.removeAttribute('src');
+        video.load();
+      }
+    };
+  }, [bvid, cid, epId, quality, autoplay]);
+
+  const handleTimeUpdate = () => {
+    const video = videoRef.current;
+    if (!video || !onProgress) return;
+    if (Math.abs(video.currentTime - lastProgressRef.current) >= PROGRESS_INTERVAL) {
+      lastProgressRef.current = video.currentTime;
+      onProgress(Math.floor(video.currentTime));
+    }
+  };
+
+  const handlePause = () => {
+    const video = videoRef.current;
+    if (!video || !onProgress) return;
+    lastProgressRef.current = video.currentTime;
+    onProgress(Math.floor(video.currentTime));
+  };
+
+  return (
+    <div style={{ position: 'relative', width: '100%', height: '100%' }}>
+      <video
+        ref={videoRef}
+        controls
+        playsInline
+        title={title}
+        style={{
+          width: '100%',
+          height: '100%',
+          background: '#000',
+          display: 'block',
+        }}
+        onLoadStart={() => setLoading(true)}
+        onCanPlay={() => setLoading(false)}
+        onWaiting={() => setLoading(true)}
+        onPlaying={() => setLoading(false)}
+        onTimeUpdate={handleTimeUpdate}
+        onPause={handlePause}
+        onEnded={onEnded}
+        onError={() => {
+          // Errors while tearing down (src removed) are expected
+          if (videoRef.current?.getAttribute('src')) {
+            onFallbackRef.current('Media element error');
+          }
+        }}
+      />
+
+      {children}
+
+      {blockedReason && (
+        <div style={{
+          position: 'absolute',
+          inset: 0,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          padding: '24px',
+          background: 'rgba(0, 0, 0, 0.85)',
+          color: '#ddd',
+          fontSize: '14px',
+          textAlign: 'center',
+          lineHeight: 1.5,
+        }}>
+          {blockedReason}
+        </div>
+      )}
+
+      {loading && !blockedReason && (
+        <div style={{
+          position: 'absolute',
+          inset: 0,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          pointerEvents: 'none',
+        }}>
+          <div style={{
+            width: '32px',
+            height: '32px',
+            border: '3px solid rgba(255, 255, 255, 0.1)',
+            borderTopColor: '#00a1d6',
+            borderRadius: '50%',
+            animation: 'spin 1s linear infinite',
+          }} />
+        </div>
+      )}
+
+      {qualities.length > 1 && (
+        <select
+          value={quality}
+          onChange={(e) => setQuality(Number(e.target.value))}
+          aria-label="Video quality"
+          style={{
+            position: 'absolute',
+            top: '12px',
+            left: '12px',
+            background: 'rgba(0, 0, 0, 0.55)',
+            border: '1px solid rgba(255, 255, 255, 0.2)',
+            borderRadius: '999px',
+            padding: '4px 10px',
+            color: '#fff',
+            fontSize: '11px',
+            cursor: 'pointer',
+            transition: 'opacity 0.2s ease',
+            opacity: showControls ? 1 : 0,
+            pointerEvents: showControls ? 'auto' : 'none',
+          }}
+        >
+          {qualities.map(q => (
+            <option key={q.quality} value={q.quality} style={{ background: '#1a1a1a' }}>
+              {q.description}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
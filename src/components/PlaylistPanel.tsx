@@ -210,7 +210,7 @@ export function PlaylistPanel({
                       textOverflow: 'ellipsis',
                       whiteSpace: 'nowrap',
                     }}>
-                      {video.titleEn || video.title}
+                      {video.titleTranslated || video.title}
                     </p>
                     <p style={{
                       margin: '4px 0 0 0',
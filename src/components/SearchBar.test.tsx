@@ -2,6 +2,14 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { render, screen, fireEvent } from '@testing-library/react'
 import { SearchBar } from './SearchBar'
 
+vi.mock('../services/bilibili', () => ({
+  getHotSearches: vi.fn(() => Promise.resolve({
+    keywords: [
+      { keyword: '原神新版本', showName: '原神4.0版本前瞻', showNameTranslated: 'Genshin 4.0 preview', icon: '' },
+    ],
+  })),
+}))
+
 describe('SearchBar Component', () => {
   const mockOnSearch = vi.fn()
 
@@ -75,4 +83,20 @@ describe('SearchBar Component', () => {
 
     expect(mockOnSearch).toHaveBeenCalledWith('games')
   })
+
+  it('should search a trending keyword as-is from the dropdown', async () => {
+    const mockOnKeywordSelect = vi.fn()
+    // jsdom has no matchMedia; useIsMobile needs one
+    vi.stubGlobal('matchMedia', vi.fn(() => ({ matches: false, addEventListener: vi.fn(), removeEventListener: vi.fn() })))
+    render(<SearchBar onSearch={mockOnSearch} onKeywordSelect={mockOnKeywordSelect} />)
+
+    fireEvent.focus(screen.getByRole('textbox'))
+    const item = await screen.findByText('Genshin 4.0 preview')
+    expect(screen.getByText('原神4.0版本前瞻')).toBeInTheDocument()
+    fireEvent.click(item)
+
+    expect(mockOnKeywordSelect).toHaveBeenCalledWith('原神新版本')
+    expect(mockOnSearch).not.toHaveBeenCalled()
+    vi.unstubAllGlobals()
+  })
 })
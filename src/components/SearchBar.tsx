@@ -1,15 +1,28 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { useIsMobile } from '../hooks/useMediaQuery';
+import { useHotSearches } from '../hooks/useHotSearches';
 
 interface SearchBarProps {
   onSearch: (query: string) => void;
+  onKeywordSelect?: (keyword: string) => void; // Trending keywords, searched as-is
   placeholder?: string;
 }
 
-export function SearchBar({ onSearch, placeholder = 'Search in English or Chinese...' }: SearchBarProps) {
+export function SearchBar({ onSearch, onKeywordSelect, placeholder = 'Search in English or Chinese...' }: SearchBarProps) {
   const [query, setQuery] = useState('');
   const [focused, setFocused] = useState(false);
+  // Trending keywords load on first focus rather than with every page
+  const [wantsKeywords, setWantsKeywords] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
   const isMobile = useIsMobile();
+  const keywords = useHotSearches(wantsKeywords && Boolean(onKeywordSelect));
+  const showKeywords = focused && !query.trim() && keywords.length > 0 && Boolean(onKeywordSelect);
+
+  const handleKeywordClick = (keyword: string) => {
+    setQuery(keyword);
+    inputRef.current?.blur();
+    onKeywordSelect?.(keyword);
+  };
 
   const handleSubmit = useCallback((e: React.FormEvent) => {
     e.preventDefault();
@@ -48,11 +61,18 @@ export function SearchBar({ onSearch, placeholder = 'Search in English or Chines
           </svg>
         </div>
         <input
+          ref={inputRef}
           type="text"
           value={query}
           onChange={(e) => setQuery(e.target.value)}
-          onFocus={() => setFocused(true)}
+          onFocus={() => {
+            setFocused(true);
+            setWantsKeywords(true);
+          }}
           onBlur={() => setFocused(false)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') inputRef.current?.blur();
+          }}
           placeholder={isMobile ? 'Search...' : placeholder}
           style={{
             width: '100%',
@@ -107,6 +127,82 @@ export function SearchBar({ onSearch, placeholder = 'Search in English or Chines
           )}
         </button>
       </div>
+
+      {showKeywords && (
+        <div
+          // Keep focus in the input so the click lands before the list closes
+          onMouseDown={(e) => e.preventDefault()}
+          style={{
+            position: 'absolute',
+            top: 'calc(100% + 8px)',
+            left: 0,
+            right: 0,
+            background: '#1a1a1a',
+            border: '1px solid rgba(255, 255, 255, 0.1)',
+            borderRadius: '16px',
+            boxShadow: '0 12px 32px rgba(0, 0, 0, 0.5)',
+            padding: '8px 0',
+            zIndex: 60,
+            maxHeight: '60vh',
+            overflowY: 'auto',
+          }}
+        >
+          <p style={{
+            margin: 0,
+            padding: '4px 16px 8px',
+            fontSize: '11px',
+            fontWeight: 600,
+            color: '#666',
+            textTransform: 'uppercase',
+            letterSpacing: '0.5px',
+          }}>
+            Trending searches
+          </p>
+          {keywords.map((item, index) => {
+            const label = item.showNameTranslated || item.showName;
+            return (
+              <button
+                key={item.keyword}
+                type="button"
+                onClick={() => handleKeywordClick(item.keyword)}
+                style={{
+                  display: 'flex',
+                  alignItems: 'baseline',
+                  gap: '10px',
+                  width: '100%',
+                  padding: '8px 16px',
+                  background: 'none',
+                  border: 'none',
+                  cursor: 'pointer',
+                  textAlign: 'left',
+                }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.background = 'rgba(255, 255, 255, 0.05)';
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.background = 'none';
+                }}
+              >
+                <span style={{
+                  width: '16px',
+                  flexShrink: 0,
+                  fontSize: '13px',
+                  fontWeight: 700,
+                  color: index < 3 ? '#fb7299' : '#666',
+                }}>
+                  {index + 1}
+                </span>
+                <span style={{ minWidth: 0, flex: 1 }}>
+                  <span style={{ display: 'block', fontSize: '14px', color: '#ddd' }}>{label}</span>
+                  {label !== item.showName && (
+                    <span style={{ display: 'block', fontSize: '12px', color: '#666' }}>{item.showName}</span>
+                  )}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      )}
     </form>
   );
 }
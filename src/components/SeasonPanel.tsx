@@ -0,0 +1,436 @@
+import { useEffect, useState, useCallback } from 'react';
+import type { BiliSeason, BiliSeasonSummary, BiliVideo } from '../types/bilibili';
+import {
+  getSeason,
+  getSeasonRanking,
+  episodeToVideo,
+  formatDuration,
+  formatViewCount,
+} from '../services/bilibili';
+import type { SeasonRef } from '../services/router';
+
+function proxyImageUrl(url: string): string {
+  if (!url) return '';
+  if (!import.meta.env.DEV) return url.replace(/^http:/, 'https:');
+  const httpsUrl = url.replace(/^http:/, 'https:');
+  const match = httpsUrl.match(/https?:\/\/[^/]+\.hdslb\.com(\/.*)/);
+  return match ? `/img/hdslb${match[1]}` : httpsUrl;
+}
+
+const SEASON_TYPE_NAMES: Record<number, string> = {
+  1: 'Anime',
+  2: 'Film',
+  3: 'Documentary',
+  4: 'Chinese Anime',
+  5: 'TV Series',
+};
+
+interface SeasonPanelProps {
+  seasonRef: SeasonRef;
+  id: number;
+  onClose: () => void;
+  onEpisodeSelect: (video: BiliVideo) => void;
+  translateTitles?: boolean;
+  translateDescriptions?: boolean;
+}
+
+export function SeasonPanel({ seasonRef, id, onClose, onEpisodeSelect, translateTitles = true, translateDescriptions = true }: SeasonPanelProps) {
+  const [season, setSeason] = useState<BiliSeason | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [synopsisExpanded, setSynopsisExpanded] = useState(false);
+
+  const loadSeason = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    const result = await getSeason(seasonRef, id);
+    setSeason(result.season);
+    if (result.error) setError(result.error);
+    setLoading(false);
+  }, [seasonRef, id]);
+
+  useEffect(() => {
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- Fetch data when the season changes
+    loadSeason();
+  }, [loadSeason]);
+
+  const displayTitle = season && translateTitles && season.titleTranslated ? season.titleTranslated : season?.title;
+  const synopsis = season && translateDescriptions && season.evaluateTranslated ? season.evaluateTranslated : season?.evaluate;
+  // An ep link opens on its own episode
+  const highlightedEp = seasonRef === 'ep' ? id : null;
+
+  return (
+    <div
+      className="panel-sidebar"
+      style={{
+        position: 'fixed',
+        top: 0,
+        right: 0,
+        bottom: 0,
+        width: '420px',
+        background: '#0d0d0d',
+        borderLeft: '1px solid rgba(255, 255, 255, 0.1)',
+        zIndex: 1001,
+        display: 'flex',
+        flexDirection: 'column',
+        boxShadow: '-10px 0 40px rgba(0, 0, 0, 0.5)',
+      }}
+    >
+      {/* Header */}
+      <div style={{
+        padding: '20px',
+        borderBottom: '1px solid rgba(255, 255, 255, 0.1)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        gap: '12px',
+      }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '12px', minWidth: 0 }}>
+          {season?.cover && (
+            <img
+              src={proxyImageUrl(season.cover)}
+              alt=""
+              style={{
+                width: '42px',
+                height: '56px',
+                borderRadius: '6px',
+                objectFit: 'cover',
+                flexShrink: 0,
+              }}
+              onError={(e) => { (e.target as HTMLImageElement).style.display = 'none'; }}
+            />
+          )}
+          <div style={{ minWidth: 0 }}>
+            <h2 style={{
+              margin: 0,
+              fontSize: '16px',
+              fontWeight: 600,
+              color: '#fff',
+              overflow: 'hidden',
+              textOverflow: 'ellipsis',
+              whiteSpace: 'nowrap',
+            }}>
+              {displayTitle || 'Season'}
+            </h2>
+            {season && (
+              <p style={{
+                margin: '4px 0 0 0',
+                fontSize: '12px',
+                color: '#666',
+              }}>
+                {[
+                  SEASON_TYPE_NAMES[season.type],
+                  `${season.episodes.length} episode${season.episodes.length === 1 ? '' : 's'}`,
+                  season.views > 0 ? `${formatViewCount(season.views)} views` : null,
+                  season.rating ? `★ ${season.rating.toFixed(1)}` : null,
+                ].filter(Boolean).join(' · ')}
+              </p>
+            )}
+          </div>
+        </div>
+        <button
+          onClick={onClose}
+          style={{
+            background: 'rgba(255, 255, 255, 0.1)',
+            border: 'none',
+            borderRadius: '50%',
+            width: '32px',
+            height: '32px',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            cursor: 'pointer',
+            color: '#888',
+            flexShrink: 0,
+          }}
+        >
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M18 6L6 18M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {/* Region lock */}
+      {season?.areaLimited && (
+        <div style={{
+          padding: '12px 20px',
+          borderBottom: '1px solid rgba(255, 255, 255, 0.05)',
+          background: 'rgba(245, 158, 11, 0.1)',
+          color: '#f59e0b',
+          fontSize: '12px',
+        }}>
+          Bilibili only licenses this title in some regions. Episodes may not play where you are.
+        </div>
+      )}
+
+      {/* Synopsis */}
+      {synopsis && (
+        <div
+          onClick={() => setSynopsisExpanded(prev => !prev)}
+          style={{
+            padding: '16px 20px',
+            borderBottom: '1px solid rgba(255, 255, 255, 0.05)',
+            color: '#888',
+            fontSize: '12px',
+            lineHeight: 1.5,
+            cursor: 'pointer',
+            display: '-webkit-box',
+            WebkitLineClamp: synopsisExpanded ? 'unset' : 3,
+            WebkitBoxOrient: 'vertical',
+            overflow: 'hidden',
+          }}
+        >
+          {synopsis}
+        </div>
+      )}
+
+      {/* Episodes */}
+      <div style={{ flex: 1, overflow: 'auto', padding: '12px' }}>
+        {loading ? (
+          <div style={{
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            justifyContent: 'center',
+            padding: '60px 20px',
+            gap: '12px',
+          }}>
+            <Spinner size={28} />
+            <p style={{ margin: 0, fontSize: '13px', color: '#666' }}>
+              Loading episodes...
+            </p>
+          </div>
+        ) : error ? (
+          <div style={{
+            textAlign: 'center',
+            padding: '40px 20px',
+            color: '#ef4444',
+          }}>
+            <p style={{ margin: 0, fontSize: '14px' }}>{error}</p>
+            <button
+              onClick={loadSeason}
+              style={{
+                marginTop: '12px',
+                background: '#3b82f6',
+                color: 'white',
+                border: 'none',
+                borderRadius: '6px',
+                padding: '8px 16px',
+                cursor: 'pointer',
+              }}
+            >
+              Retry
+            </button>
+          </div>
+        ) : !season || season.episodes.length === 0 ? (
+          <div style={{
+            textAlign: 'center',
+            padding: '40px 20px',
+            color: '#666',
+          }}>
+            <p style={{ margin: 0, fontSize: '14px' }}>No episodes available</p>
+          </div>
+        ) : (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+            {season.episodes.map(episode => {
+              const longTitle = translateTitles && episode.longTitleTranslated ? episode.longTitleTranslated : episode.longTitle;
+              const highlighted = episode.epId === highlightedEp;
+              return (
+                <div
+                  key={episode.epId}
+                  style={{
+                    display: 'flex',
+                    gap: '12px',
+                    padding: '10px',
+                    background: highlighted ? 'rgba(0, 161, 214, 0.15)' : 'rgba(255, 255, 255, 0.03)',
+                    borderRadius: '10px',
+                    cursor: 'pointer',
+                    transition: 'background 0.2s',
+                  }}
+                  onClick={() => onEpisodeSelect(episodeToVideo(season, episode))}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.background = 'rgba(255, 255, 255, 0.06)';
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.background = highlighted ? 'rgba(0, 161, 214, 0.15)' : 'rgba(255, 255, 255, 0.03)';
+                  }}
+                >
+                  <div style={{
+                    width: '85px',
+                    height: '48px',
+                    borderRadius: '6px',
+                    background: '#1a1a1a',
+                    overflow: 'hidden',
+                    flexShrink: 0,
+                    position: 'relative',
+                  }}>
+                    <img
+                      src={proxyImageUrl(episode.cover || season.cover)}
+                      alt=""
+                      style={{
+                        width: '100%',
+                        height: '100%',
+                        objectFit: 'cover',
+                      }}
+                      onError={(e) => { (e.target as HTMLImageElement).style.display = 'none'; }}
+                    />
+                    {episode.duration > 0 && (
+                      <div style={{
+                        position: 'absolute',
+                        bottom: '4px',
+                        right: '4px',
+                        background: 'rgba(0, 0, 0, 0.8)',
+                        color: '#fff',
+                        fontSize: '10px',
+                        padding: '2px 4px',
+                        borderRadius: '4px',
+                        fontFamily: 'SF Mono, monospace',
+                      }}>
+                        {formatDuration(episode.duration)}
+                      </div>
+                    )}
+                  </div>
+                  <div style={{ flex: 1, minWidth: 0 }}>
+                    <p style={{
+                      margin: 0,
+                      fontSize: '13px',
+                      color: '#fff',
+                      overflow: 'hidden',
+                      textOverflow: 'ellipsis',
+                      whiteSpace: 'nowrap',
+                    }}>
+                      <span style={{ color: '#00a1d6', marginRight: '6px' }}>
+                        {/^\d+$/.test(episode.title) ? `EP${episode.title}` : episode.title}
+                      </span>
+                      {longTitle}
+                    </p>
+                    {episode.vipOnly && (
+                      <span style={{
+                        display: 'inline-block',
+                        marginTop: '6px',
+                        padding: '1px 6px',
+                        borderRadius: '4px',
+                        background: 'rgba(251, 114, 153, 0.2)',
+                        color: '#fb7299',
+                        fontSize: '10px',
+                      }}>
+                        Premium
+                      </span>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface SeasonStripProps {
+  seasonType: number;
+  onSeasonSelect: (seasonId: number) => void;
+  translateTitles?: boolean;
+}
+
+// Top seasons for a PGC category, shown above its uploads
+export function SeasonStrip({ seasonType, onSeasonSelect, translateTitles = true }: SeasonStripProps) {
+  const [seasons, setSeasons] = useState<BiliSeasonSummary[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getSeasonRanking(seasonType).then(result => {
+      if (!cancelled) setSeasons(result.seasons.slice(0, 20));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [seasonType]);
+
+  if (seasons.length === 0) return null;
+
+  return (
+    <div style={{ marginBottom: '24px' }}>
+      <p style={{ margin: '0 0 12px', fontSize: '14px', fontWeight: 600, color: '#fff' }}>
+        Top series
+      </p>
+      <div style={{ display: 'flex', gap: '12px', overflowX: 'auto', paddingBottom: '8px' }}>
+        {seasons.map(season => (
+          <button
+            key={season.seasonId}
+            onClick={() => onSeasonSelect(season.seasonId)}
+            style={{
+              flex: '0 0 120px',
+              padding: 0,
+              background: 'none',
+              border: 'none',
+              textAlign: 'left',
+              cursor: 'pointer',
+            }}
+          >
+            <div style={{
+              position: 'relative',
+              width: '120px',
+              height: '160px',
+              borderRadius: '8px',
+              overflow: 'hidden',
+              background: '#1a1a1a',
+            }}>
+              <img
+                src={proxyImageUrl(season.cover)}
+                alt=""
+                style={{ width: '100%', height: '100%', objectFit: 'cover' }}
+                onError={(e) => { (e.target as HTMLImageElement).style.display = 'none'; }}
+              />
+              {season.badge && (
+                <span style={{
+                  position: 'absolute',
+                  top: '6px',
+                  right: '6px',
+                  padding: '1px 6px',
+                  borderRadius: '4px',
+                  background: '#fb7299',
+                  color: '#fff',
+                  fontSize: '10px',
+                }}>
+                  {season.badge}
+                </span>
+              )}
+            </div>
+            <p style={{
+              margin: '6px 0 0',
+              fontSize: '12px',
+              color: '#fff',
+              overflow: 'hidden',
+              textOverflow: 'ellipsis',
+              whiteSpace: 'nowrap',
+            }}>
+              {translateTitles && season.titleTranslated ? season.titleTranslated : season.title}
+            </p>
+            {season.latestEpisode && (
+              <p style={{ margin: '2px 0 0', fontSize: '11px', color: '#666' }}>
+                {season.latestEpisode}
+              </p>
+            )}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function Spinner({ size = 24 }: { size?: number }) {
+  return (
+    <div
+      style={{
+        width: size,
+        height: size,
+        border: `3px solid rgba(255, 255, 255, 0.1)`,
+        borderTopColor: '#00a1d6',
+        borderRadius: '50%',
+        animation: 'spin 1s linear infinite',
+      }}
+    />
+  );
+}
@@ -1,4 +1,16 @@
-import type { AppSettings } from '../services/settings';
+import { useState, useEffect } from 'react';
+import { TRANSLATION_DISPLAY_OPTIONS, type AppSettings, type TranslationDisplay } from '../services/settings';
+import { TRANSLATION_PROVIDER_OPTIONS } from '../services/translationProviders';
+import { TARGET_LANGUAGES, getLanguageLabel } from '../services/languages';
+import { getTranslationCacheStats, type TranslationCacheStats } from '../services/translationCache';
+import { clearTranslationCache } from '../services/translate';
+import { formatFileSize, saveBlob } from '../services/download';
+import { getCorrections, removeCorrection, clearCorrections, type TranslationCorrection } from '../services/corrections';
+import { glossaryToCsv, normalizeGlossary, parseGlossaryCsv } from '../services/glossary';
+import { PINYIN_STYLE_OPTIONS, formatPinyin, type PinyinStyle } from '../services/pinyin';
+import { getDictionaryInfo, importDictionary, removeImportedDictionary, type DictionaryInfo } from '../services/cedict';
+import { vocabularyToAnkiCsv } from '../services/vocabulary';
+import { useVocabulary } from '../hooks/useVocabulary';
 
 interface SettingsPanelProps {
   settings: AppSettings;
@@ -14,12 +26,130 @@ const QUALITY_OPTIONS = [
   { value: 16, label: '360p' },
 ];
 
+const DANMAKU_DENSITY_OPTIONS = [
+  { value: 0, label: 'Unlimited' },
+  { value: 60, label: 'High (60 on screen)' },
+  { value: 30, label: 'Medium (30 on screen)' },
+  { value: 12, label: 'Low (12 on screen)' },
+];
+
+const SELECT_STYLE = {
+  width: '100%',
+  padding: '10px 12px',
+  background: 'rgba(255, 255, 255, 0.05)',
+  border: '1px solid rgba(255, 255, 255, 0.1)',
+  borderRadius: '8px',
+  color: '#fff',
+  fontSize: '14px',
+  cursor: 'pointer',
+  outline: 'none',
+};
+
 export function SettingsPanel({
   settings,
   onUpdate,
   onReset,
   onClose,
 }: SettingsPanelProps) {
+  const [keywordDraft, setKeywordDraft] = useState('');
+  const [cacheStats, setCacheStats] = useState<TranslationCacheStats | null>(null);
+  const [clearingCache, setClearingCache] = useState(false);
+  const [glossarySource, setGlossarySource] = useState('');
+  const [glossaryTarget, setGlossaryTarget] = useState('');
+  const [glossaryMessage, setGlossaryMessage] = useState<string | null>(null);
+  const [dictionaryInfo, setDictionaryInfo] = useState<DictionaryInfo | null>(null);
+  const [dictionaryMessage, setDictionaryMessage] = useState<string | null>(null);
+  const [importingDictionary, setImportingDictionary] = useState(false);
+  const { vocabulary, removeWord, clearVocabulary } = useVocabulary();
+  const [corrections, setCorrections] = useState<TranslationCorrection[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getTranslationCacheStats().then(stats => {
+      if (!cancelled) setCacheStats(stats);
+    });
+    getDictionaryInfo().then(info => {
+      if (!cancelled) setDictionaryInfo(info);
+    });
+    getCorrections().then(items => {
+      if (!cancelled) setCorrections(items);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleRemoveCorrection = async (correction: TranslationCorrection) => {
+    await removeCorrection(correction.text, correction.language);
+    setCorrections(await getCorrections());
+  };
+
+  const handleClearCorrections = async () => {
+    await clearCorrections();
+    setCorrections([]);
+  };
+
+  const handleClearCache = async () => {
+    setClearingCache(true);
+    await clearTranslationCache();
+    setCacheStats(await getTranslationCacheStats());
+    setClearingCache(false);
+  };
+
+  const addGlossaryEntry = () => {
+    if (!glossarySource.trim()) return;
+    onUpdate('glossary', normalizeGlossary([...settings.glossary, { source: glossarySource, target: glossaryTarget }]));
+    setGlossarySource('');
+    setGlossaryTarget('');
+  };
+
+  const handleGlossaryImport = async (file: File) => {
+    try {
+      const imported = parseGlossaryCsv(await file.text());
+      onUpdate('glossary', normalizeGlossary([...settings.glossary, ...imported]));
+      setGlossaryMessage(`Imported ${imported.length} ${imported.length === 1 ? 'term' : 'terms'}`);
+    } catch (error) {
+      console.error('Glossary import failed:', error);
+      setGlossaryMessage('Could not read that file');
+    }
+  };
+
+  const handleGlossaryExport = () => {
+    saveBlob(new Blob(['\ufeff', glossaryToCsv(settings.glossary)], { type: 'text/csv;charset=utf-8' }), 'glossary.csv');
+  };
+
+  const handleDictionaryImport = async (file: File) => {
+    setImportingDictionary(true);
+    setDictionaryMessage(null);
+    try {
+      const entries = await importDictionary(await file.text());
+      setDictionaryMessage(entries > 0 ? null : 'That file is not in CC-CEDICT format');
+      setDictionaryInfo(await getDictionaryInfo());
+    } catch (error) {
+      console.error('Dictionary import failed:', error);
+      setDictionaryMessage('Could not read that file');
+    }
+    setImportingDictionary(false);
+  };
+
+  const handleDictionaryRemove = async () => {
+    await removeImportedDictionary();
+    setDictionaryInfo(await getDictionaryInfo());
+  };
+
+  const handleVocabularyExport = () => {
+    saveBlob(new Blob(['\ufeff', vocabularyToAnkiCsv(vocabulary)], { type: 'text/csv;charset=utf-8' }), 'bilibili-vocabulary.csv');
+  };
+
+  const addBlockedKeyword = () => {
+    const keyword = keywordDraft.trim();
+    if (!keyword) return;
+    if (!settings.danmakuBlockedKeywords.includes(keyword)) {
+      onUpdate('danmakuBlockedKeywords', [...settings.danmakuBlockedKeywords, keyword]);
+    }
+    setKeywordDraft('');
+  };
+
   return (
     <div
       className="panel-sidebar"
@@ -112,17 +242,7 @@ export function SettingsPanel({
             <select
               value={settings.defaultQuality}
               onChange={(e) => onUpdate('defaultQuality', Number(e.target.value))}
-              style={{
-                width: '100%',
-                padding: '10px 12px',
-                background: 'rgba(255, 255, 255, 0.05)',
-                border: '1px solid rgba(255, 255, 255, 0.1)',
-                borderRadius: '8px',
-                color: '#fff',
-                fontSize: '14px',
-                cursor: 'pointer',
-                outline: 'none',
-              }}
+              style={SELECT_STYLE}
             >
               {QUALITY_OPTIONS.map((opt) => (
                 <option key={opt.value} value={opt.value} style={{ background: '#1a1a1a' }}>
@@ -157,40 +277,804 @@ export function SettingsPanel({
             Translation
           </h3>
 
+          <div style={{ marginBottom: '20px' }}>
+            <label style={{
+              display: 'block',
+              marginBottom: '8px',
+              fontSize: '14px',
+              color: '#fff',
+            }}>
+              Language
+            </label>
+            <select
+              value={settings.targetLanguage}
+              onChange={(e) => onUpdate('targetLanguage', e.target.value)}
+              style={SELECT_STYLE}
+            >
+              {TARGET_LANGUAGES.map((language) => (
+                <option key={language.code} value={language.code} style={{ background: '#1a1a1a' }}>
+                  {language.label === language.nativeLabel ? language.label : `${language.label} (${language.nativeLabel})`}
+                </option>
+              ))}
+            </select>
+            <p style={{ margin: '6px 0 0 0', fontSize: '12px', color: '#666' }}>
+              Content is translated into this language, and searches typed in it are translated to Chinese
+            </p>
+          </div>
+
+          <div style={{ marginBottom: '20px' }}>
+            <label style={{
+              display: 'block',
+              marginBottom: '8px',
+              fontSize: '14px',
+              color: '#fff',
+            }}>
+              Provider
+            </label>
+            <select
+              value={settings.translationProvider}
+              onChange={(e) => onUpdate('translationProvider', e.target.value as AppSettings['translationProvider'])}
+              style={SELECT_STYLE}
+            >
+              {TRANSLATION_PROVIDER_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value} style={{ background: '#1a1a1a' }}>
+                  {opt.label}
+                </option>
+              ))}
+            </select>
+            <p style={{ margin: '6px 0 0 0', fontSize: '12px', color: '#666' }}>
+              {TRANSLATION_PROVIDER_OPTIONS.find(opt => opt.value === settings.translationProvider)?.description}
+            </p>
+          </div>
+
+          {settings.translationProvider === 'libretranslate' && (
+            <div style={{ marginBottom: '20px', display: 'flex', flexDirection: 'column', gap: '8px' }}>
+              <input
+                type="url"
+                value={settings.libreTranslateUrl}
+                onChange={(e) => onUpdate('libreTranslateUrl', e.target.value)}
+                placeholder="Server URL, e.g. http://localhost:5000"
+                aria-label="LibreTranslate server URL"
+                style={{ ...SELECT_STYLE, cursor: 'text', boxSizing: 'border-box' }}
+              />
+              <input
+                type="password"
+                value={settings.libreTranslateApiKey}
+                onChange={(e) => onUpdate('libreTranslateApiKey', e.target.value)}
+                placeholder="API key (optional)"
+                aria-label="LibreTranslate API key"
+                autoComplete="off"
+                style={{ ...SELECT_STYLE, cursor: 'text', boxSizing: 'border-box' }}
+              />
+              {!settings.libreTranslateUrl.trim() && (
+                <p style={{ margin: 0, fontSize: '12px', color: '#fb7299' }}>
+                  Enter a server URL to use LibreTranslate
+                </p>
+              )}
+            </div>
+          )}
+
+          <ToggleSetting
+            label="Automatic Failover"
+            description="Try the other providers when the chosen one fails or is rate-limited"
+            value={settings.translationFailover}
+            onChange={(v) => onUpdate('translationFailover', v)}
+          />
+
           <ToggleSetting
             label="Video Titles"
-            description="Translate video titles to English"
+            description="Translate video titles"
             value={settings.translateTitles}
             onChange={(v) => onUpdate('translateTitles', v)}
           />
 
           <ToggleSetting
             label="Descriptions"
-            description="Translate video descriptions to English"
+            description="Translate video descriptions"
             value={settings.translateDescriptions}
             onChange={(v) => onUpdate('translateDescriptions', v)}
           />
 
           <ToggleSetting
             label="Comments"
-            description="Translate comments to English"
+            description="Translate comments"
             value={settings.translateComments}
             onChange={(v) => onUpdate('translateComments', v)}
           />
 
           <ToggleSetting
             label="Channel Names"
-            description="Translate channel/uploader names to English"
+            description="Translate channel/uploader names"
             value={settings.translateChannelNames}
             onChange={(v) => onUpdate('translateChannelNames', v)}
           />
 
           <ToggleSetting
             label="Subtitles"
-            description="Translate subtitles to English"
+            description="Translate subtitles"
             value={settings.translateSubtitles}
             onChange={(v) => onUpdate('translateSubtitles', v)}
           />
+
+          <ToggleSetting
+            label="Danmaku"
+            description="Translate bullet comments shortly before they appear"
+            value={settings.translateDanmaku}
+            onChange={(v) => onUpdate('translateDanmaku', v)}
+          />
+
+          <div style={{ marginTop: '20px' }}>
+            <label style={{
+              display: 'block',
+              marginBottom: '8px',
+              fontSize: '14px',
+              color: '#fff',
+            }}>
+              Show
+            </label>
+            <select
+              value={settings.translationDisplay}
+              onChange={(e) => onUpdate('translationDisplay', e.target.value as TranslationDisplay)}
+              style={SELECT_STYLE}
+            >
+              {TRANSLATION_DISPLAY_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value} style={{ background: '#1a1a1a' }}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <p style={{ margin: '6px 0 0 0', fontSize: '12px', color: '#666' }}>
+              For video titles and comments. Each one can still show or hide its original.
+            </p>
+          </div>
+
+          {/* Glossary */}
+          <div style={{ marginTop: '20px' }}>
+            <label style={{
+              display: 'block',
+              marginBottom: '8px',
+              fontSize: '14px',
+              color: '#fff',
+            }}>
+              Glossary
+            </label>
+            <div style={{ display: 'flex', gap: '8px' }}>
+              <input
+                type="text"
+                value={glossarySource}
+                onChange={(e) => setGlossarySource(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') addGlossaryEntry();
+                }}
+                placeholder="Chinese, e.g. 三连"
+                aria-label="Glossary term"
+                style={{ ...SELECT_STYLE, flex: 1, minWidth: 0, cursor: 'text' }}
+              />
+              <input
+                type="text"
+                value={glossaryTarget}
+                onChange={(e) => setGlossaryTarget(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') addGlossaryEntry();
+                }}
+                placeholder="Translation"
+                aria-label="Glossary translation"
+                style={{ ...SELECT_STYLE, flex: 1, minWidth: 0, cursor: 'text' }}
+              />
+              <button
+                onClick={addGlossaryEntry}
+                style={{
+                  padding: '0 14px',
+                  background: 'rgba(0, 161, 214, 0.2)',
+                  border: '1px solid rgba(0, 161, 214, 0.4)',
+                  borderRadius: '8px',
+                  color: '#00a1d6',
+                  fontSize: '13px',
+                  cursor: 'pointer',
+                }}
+              >
+                Add
+              </button>
+            </div>
+            {settings.glossary.length > 0 && (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', marginTop: '10px', maxHeight: '180px', overflowY: 'auto' }}>
+                {settings.glossary.map((entry) => (
+                  <div
+                    key={entry.source}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '8px',
+                      padding: '6px 10px',
+                      background: 'rgba(255, 255, 255, 0.05)',
+                      borderRadius: '6px',
+                      fontSize: '13px',
+                    }}
+                  >
+                    <span style={{ color: '#fff' }}>{entry.source}</span>
+                    <span style={{ color: '#666' }}>→</span>
+                    <span style={{ flex: 1, color: entry.target ? '#ccc' : '#888', fontStyle: entry.target ? 'normal' : 'italic' }}>
+                      {entry.target || 'keep original'}
+                    </span>
+                    <button
+                      onClick={() => onUpdate('glossary', settings.glossary.filter(e => e.source !== entry.source))}
+                      title="Remove"
+                      aria-label={`Remove ${entry.source}`}
+                      style={{
+                        background: 'none',
+                        border: 'none',
+                        color: '#888',
+                        fontSize: '14px',
+                        cursor: 'pointer',
+                        padding: '0 2px',
+                      }}
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div style={{ display: 'flex', gap: '8px', marginTop: '10px' }}>
+              <label style={{
+                padding: '6px 12px',
+                background: 'rgba(255, 255, 255, 0.05)',
+                border: '1px solid rgba(255, 255, 255, 0.1)',
+                borderRadius: '8px',
+                color: '#ccc',
+                fontSize: '12px',
+                cursor: 'pointer',
+              }}>
+                Import CSV
+                <input
+                  type="file"
+                  accept=".csv,text/csv"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) void handleGlossaryImport(file);
+                    e.target.value = '';
+                  }}
+                  style={{ display: 'none' }}
+                />
+              </label>
+              <button
+                onClick={handleGlossaryExport}
+                disabled={settings.glossary.length === 0}
+                style={{
+                  padding: '6px 12px',
+                  background: 'rgba(255, 255, 255, 0.05)',
+                  border: '1px solid rgba(255, 255, 255, 0.1)',
+                  borderRadius: '8px',
+                  color: '#ccc',
+                  fontSize: '12px',
+                  cursor: settings.glossary.length === 0 ? 'default' : 'pointer',
+                }}
+              >
+                Export CSV
+              </button>
+              {glossaryMessage && (
+                <span style={{ alignSelf: 'center', fontSize: '12px', color: '#888' }}>{glossaryMessage}</span>
+              )}
+            </div>
+            <p style={{ margin: '6px 0 0 0', fontSize: '12px', color: '#666' }}>
+              Names, series titles and slang always translate this way. Leave the translation empty to keep the Chinese as-is.
+            </p>
+          </div>
+
+          {/* Corrections */}
+          <div style={{ marginTop: '20px' }}>
+            <label style={{
+              display: 'block',
+              marginBottom: '8px',
+              fontSize: '14px',
+              color: '#fff',
+            }}>
+              Corrections
+            </label>
+            {corrections.length === 0 ? (
+              <p style={{ margin: 0, fontSize: '13px', color: '#888' }}>
+                No corrections yet. Use "Report translation" on a title or comment to fix one.
+              </p>
+            ) : (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', maxHeight: '180px', overflowY: 'auto' }}>
+                {corrections.map((correction) => (
+                  <div
+                    key={`${correction.language}:${correction.text}`}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '8px',
+                      padding: '6px 10px',
+                      background: 'rgba(255, 255, 255, 0.05)',
+                      borderRadius: '6px',
+                      fontSize: '13px',
+                    }}
+                  >
+                    <span style={{ flex: 1, minWidth: 0 }}>
+                      <span style={{ display: 'block', color: '#fff', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                        {correction.translation}
+                      </span>
+                      <span style={{ display: 'block', color: '#888', fontSize: '12px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                        {correction.text} · {getLanguageLabel(correction.language)}
+                      </span>
+                    </span>
+                    <button
+                      onClick={() => void handleRemoveCorrection(correction)}
+                      title="Remove"
+                      aria-label={`Remove correction for ${correction.text}`}
+                      style={{
+                        background: 'none',
+                        border: 'none',
+                        color: '#888',
+                        fontSize: '14px',
+                        cursor: 'pointer',
+                        padding: '0 2px',
+                      }}
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            {corrections.length > 0 && (
+              <button
+                onClick={() => void handleClearCorrections()}
+                style={{
+                  marginTop: '10px',
+                  padding: '6px 12px',
+                  background: 'rgba(255, 255, 255, 0.05)',
+                  border: '1px solid rgba(255, 255, 255, 0.1)',
+                  borderRadius: '8px',
+                  color: '#ccc',
+                  fontSize: '12px',
+                  cursor: 'pointer',
+                }}
+              >
+                Clear corrections
+              </button>
+            )}
+          </div>
+
+          {/* Translation cache */}
+          <div style={{ marginTop: '20px' }}>
+            <label style={{
+              display: 'block',
+              marginBottom: '8px',
+              fontSize: '14px',
+              color: '#fff',
+            }}>
+              Translation Cache
+            </label>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ fontSize: '13px', color: '#ccc' }}>
+                  {cacheStats
+                    ? `${cacheStats.entries.toLocaleString()} entries · ${formatFileSize(cacheStats.bytes)} of ${formatFileSize(cacheStats.maxBytes)}`
+                    : 'Loading...'}
+                </div>
+                {cacheStats && (
+                  <div style={{ height: '3px', marginTop: '6px', background: 'rgba(255, 255, 255, 0.1)', borderRadius: '2px', overflow: 'hidden' }}>
+                    <div style={{
+                      width: `${Math.min(100, (cacheStats.bytes / cacheStats.maxBytes) * 100)}%`,
+                      height: '100%',
+                      background: '#00a1d6',
+                    }} />
+                  </div>
+                )}
+              </div>
+              <button
+                onClick={() => void handleClearCache()}
+                disabled={clearingCache || cacheStats?.entries === 0}
+                style={{
+                  padding: '8px 14px',
+                  background: 'rgba(255, 255, 255, 0.05)',
+                  border: '1px solid rgba(255, 255, 255, 0.1)',
+                  borderRadius: '8px',
+                  color: '#ccc',
+                  fontSize: '13px',
+                  cursor: clearingCache || cacheStats?.entries === 0 ? 'default' : 'pointer',
+                  whiteSpace: 'nowrap',
+                }}
+              >
+                {clearingCache ? 'Clearing...' : 'Clear translation cache'}
+              </button>
+            </div>
+            <p style={{ margin: '6px 0 0 0', fontSize: '12px', color: '#666' }}>
+              Translations are kept for 30 days; the least recently used go first when full
+            </p>
+          </div>
+        </div>
+
+        {/* Pinyin Section */}
+        <div style={{ marginBottom: '32px' }}>
+          <h3 style={{
+            margin: '0 0 16px 0',
+            fontSize: '13px',
+            fontWeight: 600,
+            color: '#888',
+            textTransform: 'uppercase',
+            letterSpacing: '0.5px',
+          }}>
+            Pinyin
+          </h3>
+
+          <div style={{ marginBottom: '20px' }}>
+            <label style={{
+              display: 'block',
+              marginBottom: '8px',
+              fontSize: '14px',
+              color: '#fff',
+            }}>
+              Tone Style
+            </label>
+            <select
+              value={settings.pinyinStyle}
+              onChange={(e) => onUpdate('pinyinStyle', e.target.value as PinyinStyle)}
+              style={SELECT_STYLE}
+            >
+              {PINYIN_STYLE_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value} style={{ background: '#1a1a1a' }}>
+                  {opt.label} ({opt.example})
+                </option>
+              ))}
+            </select>
+            <p style={{ margin: '6px 0 0 0', fontSize: '12px', color: '#666' }}>
+              Shown under the original Chinese, works offline
+            </p>
+          </div>
+
+          <ToggleSetting
+            label="Video Titles"
+            description="Show pinyin for video titles"
+            value={settings.romanizeTitles}
+            onChange={(v) => onUpdate('romanizeTitles', v)}
+          />
+
+          <ToggleSetting
+            label="Descriptions"
+            description="Show pinyin for video descriptions"
+            value={settings.romanizeDescriptions}
+            onChange={(v) => onUpdate('romanizeDescriptions', v)}
+          />
+
+          <ToggleSetting
+            label="Channel Names"
+            description="Show pinyin for channel/uploader names"
+            value={settings.romanizeChannelNames}
+            onChange={(v) => onUpdate('romanizeChannelNames', v)}
+          />
+
+          <ToggleSetting
+            label="Subtitles"
+            description="Show pinyin under Chinese subtitle lines"
+            value={settings.romanizeSubtitles}
+            onChange={(v) => onUpdate('romanizeSubtitles', v)}
+          />
+        </div>
+
+        {/* Learning Section */}
+        <div style={{ marginBottom: '32px' }}>
+          <h3 style={{
+            margin: '0 0 16px 0',
+            fontSize: '13px',
+            fontWeight: 600,
+            color: '#888',
+            textTransform: 'uppercase',
+            letterSpacing: '0.5px',
+          }}>
+            Learning
+          </h3>
+
+          <ToggleSetting
+            label="Learning Mode"
+            description="Split Chinese comments, subtitles and descriptions into words. Hover or tap a word for its pinyin and meaning."
+            value={settings.learningMode}
+            onChange={(v) => onUpdate('learningMode', v)}
+          />
+
+          {/* Dictionary */}
+          <div style={{ marginTop: '20px' }}>
+            <label style={{
+              display: 'block',
+              marginBottom: '8px',
+              fontSize: '14px',
+              color: '#fff',
+            }}>
+              Dictionary
+            </label>
+            <div style={{ fontSize: '13px', color: '#ccc' }}>
+              {!dictionaryInfo
+                ? 'Loading...'
+                : dictionaryInfo.importedEntries > 0
+                  ? `CC-CEDICT · ${dictionaryInfo.importedEntries.toLocaleString()} entries`
+                  : `Starter dictionary · ${dictionaryInfo.starterEntries.toLocaleString()} words`}
+            </div>
+            <div style={{ display: 'flex', gap: '8px', marginTop: '10px' }}>
+              <label style={{
+                padding: '6px 12px',
+                background: 'rgba(255, 255, 255, 0.05)',
+                border: '1px solid rgba(255, 255, 255, 0.1)',
+                borderRadius: '8px',
+                color: '#ccc',
+                fontSize: '12px',
+                cursor: importingDictionary ? 'default' : 'pointer',
+              }}>
+                {importingDictionary ? 'Importing...' : 'Import CC-CEDICT'}
+                <input
+                  type="file"
+                  accept=".u8,.txt,text/plain"
+                  disabled={importingDictionary}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) void handleDictionaryImport(file);
+                    e.target.value = '';
+                  }}
+                  style={{ display: 'none' }}
+                />
+              </label>
+              {dictionaryInfo && dictionaryInfo.importedEntries > 0 && (
+                <button onClick={() => void handleDictionaryRemove()} style={{
+                  padding: '6px 12px',
+                  background: 'rgba(255, 255, 255, 0.05)',
+                  border: '1px solid rgba(255, 255, 255, 0.1)',
+                  borderRadius: '8px',
+                  color: '#ccc',
+                  fontSize: '12px',
+                  cursor: 'pointer',
+                }}>
+                  Remove
+                </button>
+              )}
+            </div>
+            {dictionaryMessage && (
+              <p style={{ margin: '6px 0 0 0', fontSize: '12px', color: '#fb7299' }}>{dictionaryMessage}</p>
+            )}
+            <p style={{ margin: '6px 0 0 0', fontSize: '12px', color: '#666' }}>
+              Download cedict_ts.u8 from the CC-CEDICT project and import it for full coverage
+            </p>
+          </div>
+
+          {/* Vocabulary */}
+          <div style={{ marginTop: '20px' }}>
+            <label style={{
+              display: 'block',
+              marginBottom: '8px',
+              fontSize: '14px',
+              color: '#fff',
+            }}>
+              Vocabulary
+            </label>
+            {vocabulary.length === 0 ? (
+              <p style={{ margin: 0, fontSize: '13px', color: '#888' }}>
+                No saved words yet. Save words from their popup in learning mode.
+              </p>
+            ) : (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', maxHeight: '180px', overflowY: 'auto' }}>
+                {vocabulary.map((item) => (
+                  <div
+                    key={item.word}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '8px',
+                      padding: '6px 10px',
+                      background: 'rgba(255, 255, 255, 0.05)',
+                      borderRadius: '6px',
+                      fontSize: '13px',
+                    }}
+                  >
+                    <span style={{ color: '#fff' }}>{item.word}</span>
+                    <span style={{ color: '#00a1d6' }}>{formatPinyin(item.pinyin, settings.pinyinStyle)}</span>
+                    <span style={{
+                      flex: 1,
+                      minWidth: 0,
+                      color: '#888',
+                      overflow: 'hidden',
+                      textOverflow: 'ellipsis',
+                      whiteSpace: 'nowrap',
+                    }}>
+                      {item.definitions[0]}
+                    </span>
+                    <button
+                      onClick={() => void removeWord(item.word)}
+                      title="Remove"
+                      aria-label={`Remove ${item.word}`}
+                      style={{
+                        background: 'none',
+                        border: 'none',
+                        color: '#888',
+                        fontSize: '14px',
+                        cursor: 'pointer',
+                        padding: '0 2px',
+                      }}
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            {vocabulary.length > 0 && (
+              <div style={{ display: 'flex', gap: '8px', marginTop: '10px' }}>
+                <button onClick={handleVocabularyExport} style={{
+                  padding: '6px 12px',
+                  background: 'rgba(255, 255, 255, 0.05)',
+                  border: '1px solid rgba(255, 255, 255, 0.1)',
+                  borderRadius: '8px',
+                  color: '#ccc',
+                  fontSize: '12px',
+                  cursor: 'pointer',
+                }}>
+                  Export for Anki
+                </button>
+                <button onClick={() => void clearVocabulary()} style={{
+                  padding: '6px 12px',
+                  background: 'rgba(255, 255, 255, 0.05)',
+                  border: '1px solid rgba(255, 255, 255, 0.1)',
+                  borderRadius: '8px',
+                  color: '#ccc',
+                  fontSize: '12px',
+                  cursor: 'pointer',
+                }}>
+                  Clear
+                </button>
+              </div>
+            )}
+            <p style={{ margin: '6px 0 0 0', fontSize: '12px', color: '#666' }}>
+              Exports a CSV that Anki imports directly, with the sentence each word came from
+            </p>
+          </div>
+        </div>
+
+        {/* Danmaku Section */}
+        <div style={{ marginBottom: '32px' }}>
+          <h3 style={{
+            margin: '0 0 16px 0',
+            fontSize: '13px',
+            fontWeight: 600,
+            color: '#888',
+            textTransform: 'uppercase',
+            letterSpacing: '0.5px',
+          }}>
+            Danmaku
+          </h3>
+
+          <RangeSetting
+            label="Opacity"
+            value={settings.danmakuOpacity}
+            min={0.1}
+            max={1}
+            step={0.05}
+            format={(v) => `${Math.round(v * 100)}%`}
+            onChange={(v) => onUpdate('danmakuOpacity', v)}
+          />
+
+          <RangeSetting
+            label="Font Size"
+            value={settings.danmakuFontScale}
+            min={0.5}
+            max={2}
+            step={0.1}
+            format={(v) => `${Math.round(v * 100)}%`}
+            onChange={(v) => onUpdate('danmakuFontScale', v)}
+          />
+
+          <div style={{ marginBottom: '20px' }}>
+            <label style={{
+              display: 'block',
+              marginBottom: '8px',
+              fontSize: '14px',
+              color: '#fff',
+            }}>
+              Density
+            </label>
+            <select
+              value={settings.danmakuDensity}
+              onChange={(e) => onUpdate('danmakuDensity', Number(e.target.value))}
+              style={SELECT_STYLE}
+            >
+              {DANMAKU_DENSITY_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value} style={{ background: '#1a1a1a' }}>
+                  {opt.label}
+                </option>
+              ))}
+            </select>
+            <p style={{ margin: '6px 0 0 0', fontSize: '12px', color: '#666' }}>
+              Extra danmaku are skipped once the screen is full
+            </p>
+          </div>
+
+          <ToggleSetting
+            label="Scrolling"
+            description="Show danmaku that fly across the screen"
+            value={settings.danmakuShowScroll}
+            onChange={(v) => onUpdate('danmakuShowScroll', v)}
+          />
+
+          <ToggleSetting
+            label="Top"
+            description="Show danmaku pinned to the top"
+            value={settings.danmakuShowTop}
+            onChange={(v) => onUpdate('danmakuShowTop', v)}
+          />
+
+          <ToggleSetting
+            label="Bottom"
+            description="Show danmaku pinned to the bottom"
+            value={settings.danmakuShowBottom}
+            onChange={(v) => onUpdate('danmakuShowBottom', v)}
+          />
+
+          {/* Blocked keywords */}
+          <div style={{ marginTop: '20px' }}>
+            <label style={{
+              display: 'block',
+              marginBottom: '8px',
+              fontSize: '14px',
+              color: '#fff',
+            }}>
+              Blocked Keywords
+            </label>
+            <div style={{ display: 'flex', gap: '8px' }}>
+              <input
+                type="text"
+                value={keywordDraft}
+                onChange={(e) => setKeywordDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') addBlockedKeyword();
+                }}
+                placeholder="Original or translated text"
+                style={{
+                  ...SELECT_STYLE,
+                  flex: 1,
+                  cursor: 'text',
+                }}
+              />
+              <button
+                onClick={addBlockedKeyword}
+                style={{
+                  padding: '0 14px',
+                  background: 'rgba(0, 161, 214, 0.2)',
+                  border: '1px solid rgba(0, 161, 214, 0.4)',
+                  borderRadius: '8px',
+                  color: '#00a1d6',
+                  fontSize: '13px',
+                  cursor: 'pointer',
+                }}
+              >
+                Add
+              </button>
+            </div>
+            {settings.danmakuBlockedKeywords.length > 0 && (
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', marginTop: '10px' }}>
+                {settings.danmakuBlockedKeywords.map((keyword) => (
+                  <button
+                    key={keyword}
+                    onClick={() => onUpdate(
+                      'danmakuBlockedKeywords',
+                      settings.danmakuBlockedKeywords.filter(k => k !== keyword)
+                    )}
+                    title="Remove"
+                    style={{
+                      background: 'rgba(255, 255, 255, 0.08)',
+                      border: 'none',
+                      borderRadius: '999px',
+                      padding: '4px 10px',
+                      color: '#ccc',
+                      fontSize: '12px',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    {keyword} ×
+                  </button>
+                ))}
+              </div>
+            )}
+            <p style={{ margin: '6px 0 0 0', fontSize: '12px', color: '#666' }}>
+              Matches the original text and its translation
+            </p>
+          </div>
         </div>
 
         {/* About Section */}
@@ -307,3 +1191,40 @@ function ToggleSetting({ label, description, value, onChange }: ToggleSettingPro
     </div>
   );
 }
+
+interface RangeSettingProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+}
+
+function RangeSetting({ label, value, min, max, step, format, onChange }: RangeSettingProps) {
+  return (
+    <div style={{ marginBottom: '20px' }}>
+      <div style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        marginBottom: '8px',
+        fontSize: '14px',
+        color: '#fff',
+      }}>
+        <span>{label}</span>
+        <span style={{ color: '#888' }}>{format(value)}</span>
+      </div>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        aria-label={label}
+        style={{ width: '100%', accentColor: '#00a1d6' }}
+      />
+    </div>
+  );
+}
@@ -478,7 +478,7 @@ export function SubscriptionsPanel({
                         lineHeight: 1.3,
                       }}
                     >
-                      {video.titleEn || video.title}
+                      {video.titleTranslated || video.title}
                     </p>
                     <p
                       style={{
@@ -0,0 +1,72 @@
+import { useState, useEffect } from 'react';
+import type { SubtitleCue } from '../services/bilibili';
+import { findCueIndex, getCueDisplayLines, type SubtitleDisplayMode } from '../services/subtitles';
+import type { PinyinStyle } from '../services/pinyin';
+import { LearningText, type LearningOptions } from './LearningText';
+
+interface SubtitleOverlayProps {
+  video: HTMLVideoElement;
+  cues: SubtitleCue[];
+  mode: SubtitleDisplayMode;
+  // Pinyin of the original under it; null for none
+  pinyinStyle?: PinyinStyle | null;
+  // Word-by-word glosses on the original line; null when learning mode is off
+  learning?: LearningOptions | null;
+}
+
+export function SubtitleOverlay({ video, cues, mode, pinyinStyle = null, learning = null }: SubtitleOverlayProps) {
+  const [cueIndex, setCueIndex] = useState(-1);
+
+  useEffect(() => {
+    const update = () => {
+      setCueIndex(findCueIndex(cues, video.currentTime));
+    };
+    update();
+    video.addEventListener('timeupdate', update);
+    video.addEventListener('seeked', update);
+    return () => {
+      video.removeEventListener('timeupdate', update);
+      video.removeEventListener('seeked', update);
+    };
+  }, [video, cues]);
+
+  const cue = cueIndex >= 0 ? cues[cueIndex] : null;
+  if (!cue) return null;
+  const lines = getCueDisplayLines(cue, mode, pinyinStyle);
+  const firstText = lines.find(line => !line.romanized);
+
+  return (
+    <div style={{
+      position: 'absolute',
+      left: '5%',
+      right: '5%',
+      // Clear of the native control bar
+      bottom: '56px',
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      gap: '4px',
+      pointerEvents: 'none',
+      textAlign: 'center',
+    }}>
+      {lines.map((line, i) => (
+        <span
+          key={i}
+          style={{
+            background: 'rgba(0, 0, 0, 0.65)',
+            color: line.romanized ? '#cfe8ff' : line === firstText ? '#fff' : '#ffd666',
+            fontSize: line.romanized ? 'clamp(11px, 1.7vw, 15px)' : 'clamp(13px, 2.2vw, 20px)',
+            lineHeight: 1.35,
+            padding: '2px 8px',
+            borderRadius: '4px',
+            whiteSpace: 'pre-line',
+          }}
+        >
+          {learning && !line.romanized && line.text === cue.content
+            ? <LearningText text={line.text} options={learning} />
+            : line.text}
+        </span>
+      ))}
+    </div>
+  );
+}
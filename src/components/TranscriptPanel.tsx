@@ -0,0 +1,146 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import type { SubtitleCue } from '../services/bilibili';
+import { findCueIndex, formatCueTime, getCueDisplayLines, type SubtitleDisplayMode } from '../services/subtitles';
+import type { PinyinStyle } from '../services/pinyin';
+import { LearningText, type LearningOptions } from './LearningText';
+
+interface TranscriptPanelProps {
+  cues: SubtitleCue[];
+  mode: SubtitleDisplayMode;
+  // Null while the embedded player is in use; seeking needs our own <video>
+  video: HTMLVideoElement | null;
+  pinyinStyle?: PinyinStyle | null;
+  // Word-by-word glosses on the original line; null when learning mode is off
+  learning?: LearningOptions | null;
+}
+
+function seekVideo(video: HTMLVideoElement, time: number) {
+  video.currentTime = time;
+  void video.play().catch(() => {});
+}
+
+export function TranscriptPanel({ cues, mode, video, pinyinStyle = null, learning = null }: TranscriptPanelProps) {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const activeRef = useRef<HTMLButtonElement | null>(null);
+
+  useEffect(() => {
+    if (!video) return;
+    const update = () => {
+      setActiveIndex(findCueIndex(cues, video.currentTime));
+    };
+    update();
+    video.addEventListener('timeupdate', update);
+    video.addEventListener('seeked', update);
+    return () => {
+      video.removeEventListener('timeupdate', update);
+      video.removeEventListener('seeked', update);
+    };
+  }, [video, cues]);
+
+  const trimmedQuery = query.trim().toLowerCase();
+  const matches = useMemo(() => {
+    const indexed = cues.map((cue, index) => ({ cue, index }));
+    if (!trimmedQuery) return indexed;
+    return indexed.filter(({ cue }) =>
+      cue.content.toLowerCase().includes(trimmedQuery)
+      || (cue.contentTranslated || '').toLowerCase().includes(trimmedQuery)
+    );
+  }, [cues, trimmedQuery]);
+
+  // Follow playback, but not while the user is looking at search results
+  useEffect(() => {
+    if (trimmedQuery) return;
+    activeRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeIndex, trimmedQuery]);
+
+  const seekTo = (cue: SubtitleCue) => {
+    if (video) seekVideo(video, cue.from);
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search transcript"
+        aria-label="Search transcript"
+        style={{
+          width: '100%',
+          padding: '8px 12px',
+          background: 'rgba(255, 255, 255, 0.05)',
+          border: '1px solid rgba(255, 255, 255, 0.1)',
+          borderRadius: '8px',
+          color: '#fff',
+          fontSize: '13px',
+          outline: 'none',
+          boxSizing: 'border-box',
+        }}
+      />
+
+      {!video && (
+        <p style={{ margin: 0, fontSize: '12px', color: '#666' }}>
+          Click-to-seek is only available in the built-in player.
+        </p>
+      )}
+
+      {matches.length === 0 ? (
+        <p style={{ margin: 0, padding: '24px 0', fontSize: '13px', color: '#666', textAlign: 'center' }}>
+          No lines match "{query.trim()}"
+        </p>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '2px' }}>
+          {matches.map(({ cue, index }) => {
+            const isActive = index === activeIndex;
+            const lines = getCueDisplayLines(cue, mode, pinyinStyle);
+            const firstText = lines.find(line => !line.romanized);
+            return (
+              <button
+                key={index}
+                ref={isActive ? activeRef : undefined}
+                onClick={() => seekTo(cue)}
+                disabled={!video}
+                style={{
+                  display: 'flex',
+                  gap: '10px',
+                  alignItems: 'flex-start',
+                  width: '100%',
+                  padding: '8px 10px',
+                  background: isActive ? 'rgba(0, 161, 214, 0.15)' : 'transparent',
+                  border: 'none',
+                  borderRadius: '6px',
+                  cursor: video ? 'pointer' : 'default',
+                  textAlign: 'left',
+                  color: '#ddd',
+                }}
+              >
+                <span style={{
+                  flexShrink: 0,
+                  minWidth: '42px',
+                  fontSize: '12px',
+                  color: isActive ? '#00a1d6' : '#666',
+                  fontVariantNumeric: 'tabular-nums',
+                }}>
+                  {formatCueTime(cue.from)}
+                </span>
+                <span style={{ display: 'flex', flexDirection: 'column', gap: '2px', fontSize: '13px', lineHeight: 1.4 }}>
+                  {lines.map((line, i) => (
+                    <span
+                      key={i}
+                      style={line.romanized ? { color: '#7fb8d0', fontSize: '12px' } : { color: line === firstText ? '#ddd' : '#999' }}
+                    >
+                      {learning && !line.romanized && line.text === cue.content
+                        ? <LearningText text={line.text} options={learning} />
+                        : line.text}
+                    </span>
+                  ))}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
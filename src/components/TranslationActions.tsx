@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import type { TranslatedTextView } from '../hooks/useTranslatedText';
+
+interface TranslationActionsProps {
+  view: TranslatedTextView;
+  // Off where the original is always on screen anyway (learning mode)
+  showToggle?: boolean;
+  // False fades the links out (cards show them on hover); an open correction always shows
+  visible?: boolean;
+}
+
+const LINK_STYLE = {
+  background: 'none',
+  border: 'none',
+  padding: 0,
+  color: '#666',
+  fontSize: '11px',
+  cursor: 'pointer',
+} as const;
+
+// "Show original" and "Report bad translation" for one translated string. Clicks stay
+// here: these sit inside clickable cards.
+export function TranslationActions({ view, showToggle = true, visible = true }: TranslationActionsProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  if (!view.translation && !view.corrected) return null;
+
+  const save = async () => {
+    setSaving(true);
+    await view.correct(draft);
+    setSaving(false);
+    setEditing(false);
+  };
+
+  if (editing) {
+    return (
+      <form
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={(e) => {
+          e.preventDefault();
+          void save();
+        }}
+        style={{ display: 'flex', flexDirection: 'column', gap: '6px', marginTop: '6px' }}
+      >
+        <span style={{ fontSize: '11px', color: '#888' }}>Your translation, used from now on:</span>
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              void save();
+            }
+            if (e.key === 'Escape') setEditing(false);
+          }}
+          rows={2}
+          autoFocus
+          style={{
+            width: '100%',
+            padding: '6px 8px',
+            background: 'rgba(255, 255, 255, 0.05)',
+            border: '1px solid rgba(255, 255, 255, 0.15)',
+            borderRadius: '6px',
+            color: '#fff',
+            fontSize: '12px',
+            fontFamily: 'inherit',
+            resize: 'vertical',
+            outline: 'none',
+            boxSizing: 'border-box',
+          }}
+        />
+        <span style={{ display: 'flex', gap: '8px' }}>
+          <button
+            type="submit"
+            disabled={saving || !draft.trim()}
+            style={{
+              padding: '4px 10px',
+              background: 'rgba(0, 161, 214, 0.2)',
+              border: '1px solid rgba(0, 161, 214, 0.4)',
+              borderRadius: '6px',
+              color: '#00a1d6',
+              fontSize: '11px',
+              cursor: saving || !draft.trim() ? 'default' : 'pointer',
+            }}
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+          <button type="button" onClick={() => setEditing(false)} style={LINK_STYLE}>
+            Cancel
+          </button>
+        </span>
+      </form>
+    );
+  }
+
+  return (
+    <span
+      onClick={(e) => e.stopPropagation()}
+      style={{
+        display: 'flex',
+        gap: '10px',
+        margin: '4px 0',
+        opacity: visible ? 1 : 0,
+        transition: 'opacity 0.2s',
+      }}
+    >
+      {showToggle && view.translation && (
+        <button onClick={view.toggleOriginal} style={LINK_STYLE}>
+          {view.showOriginal ? 'Hide original' : 'Show original'}
+        </button>
+      )}
+      <button
+        onClick={() => {
+          setDraft(view.translation ?? view.original);
+          setEditing(true);
+        }}
+        title="Report bad translation and correct it"
+        style={LINK_STYLE}
+      >
+        Report translation
+      </button>
+      {view.corrected && (
+        <button onClick={() => void view.reset()} style={LINK_STYLE}>
+          Undo correction
+        </button>
+      )}
+    </span>
+  );
+}
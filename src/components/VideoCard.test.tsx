@@ -17,7 +17,7 @@ describe('VideoCard Component', () => {
     bvid: 'BV1test123',
     aid: 123456,
     title: '测试视频标题',
-    titleEn: 'Test Video Title',
+    titleTranslated: 'Test Video Title',
     desc: '测试描述',
     pic: 'http://i1.hdslb.com/test.jpg',
     duration: 180,
@@ -53,7 +53,7 @@ describe('VideoCard Component', () => {
   })
 
   it('should render video title in Chinese when no English translation', () => {
-    const videoWithoutTranslation = { ...mockVideo, titleEn: undefined }
+    const videoWithoutTranslation = { ...mockVideo, titleTranslated: undefined }
     render(<VideoCard video={videoWithoutTranslation} />)
 
     expect(screen.getByText('测试视频标题')).toBeInTheDocument()
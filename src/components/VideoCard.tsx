@@ -3,6 +3,10 @@ import { open } from '@tauri-apps/plugin-shell';
 import type { BiliVideo } from '../types/bilibili';
 import { formatDuration, formatViewCount, getVideoUrl, getChannelUrl } from '../services/bilibili';
 import { useIsMobile } from '../hooks/useMediaQuery';
+import { romanize, type PinyinStyle } from '../services/pinyin';
+import type { TranslationDisplay } from '../services/settings';
+import { useTranslatedText } from '../hooks/useTranslatedText';
+import { TranslationActions } from './TranslationActions';
 
 interface VideoCardProps {
   video: BiliVideo;
@@ -11,6 +15,10 @@ interface VideoCardProps {
   isFavorited?: boolean;
   translateTitle?: boolean;
   translateChannelName?: boolean;
+  romanizeTitle?: boolean;
+  romanizeChannelName?: boolean;
+  pinyinStyle?: PinyinStyle;
+  translationDisplay?: TranslationDisplay;
 }
 
 // Convert Bilibili image URLs to use proxy (bypasses hotlink protection)
@@ -21,7 +29,7 @@ function proxyImageUrl(url: string): string {
   return `/api/img?url=${encodeURIComponent(httpsUrl)}`;
 }
 
-export function VideoCard({ video, onVideoSelect, onFavorite, isFavorited, translateTitle = true, translateChannelName = true }: VideoCardProps) {
+export function VideoCard({ video, onVideoSelect, onFavorite, isFavorited, translateTitle = true, translateChannelName = true, romanizeTitle = false, romanizeChannelName = false, pinyinStyle = 'marks', translationDisplay = 'translated' }: VideoCardProps) {
   const [isHovered, setIsHovered] = useState(false);
   const [imgError, setImgError] = useState(false);
   const isMobile = useIsMobile();
@@ -42,8 +50,12 @@ export function VideoCard({ video, onVideoSelect, onFavorite, isFavorited, trans
   const timeAgo = getTimeAgo(video.pubdate);
 
   // Determine displayed title and channel name based on translation settings
-  const displayTitle = translateTitle && video.titleEn ? video.titleEn : video.title;
-  const displayChannelName = translateChannelName && video.owner.nameEn ? video.owner.nameEn : video.owner.name;
+  const title = useTranslatedText(video.title, translateTitle ? video.titleTranslated : null, translationDisplay);
+  const displayTitle = title.translation ?? video.title;
+  const displayChannelName = translateChannelName && video.owner.nameTranslated ? video.owner.nameTranslated : video.owner.name;
+  // Pinyin is always of the original Chinese
+  const titlePinyin = romanizeTitle ? romanize(video.title, pinyinStyle) : null;
+  const channelPinyin = romanizeChannelName ? romanize(video.owner.name, pinyinStyle) : null;
 
   return (
     <div
@@ -73,7 +85,7 @@ export function VideoCard({ video, onVideoSelect, onFavorite, isFavorited, trans
         {!imgError ? (
           <img
             src={proxyImageUrl(video.pic)}
-            alt={video.titleEn || video.title}
+            alt={video.titleTranslated || video.title}
             style={{
               width: '100%',
               height: '100%',
@@ -188,6 +200,34 @@ export function VideoCard({ video, onVideoSelect, onFavorite, isFavorited, trans
           {displayTitle}
         </h3>
 
+        {title.showOriginal && (
+          <p style={{
+            margin: isMobile ? '0 0 4px 0' : '0 0 6px 0',
+            fontSize: isMobile ? '11px' : '12px',
+            color: '#999',
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+            whiteSpace: 'nowrap',
+          }}>
+            {video.title}
+          </p>
+        )}
+
+        {titlePinyin && (
+          <p style={{
+            margin: isMobile ? '0 0 4px 0' : '0 0 6px 0',
+            fontSize: isMobile ? '11px' : '12px',
+            color: '#777',
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+            whiteSpace: 'nowrap',
+          }}>
+            {titlePinyin}
+          </p>
+        )}
+
+        <TranslationActions view={title} visible={isMobile || isHovered} />
+
         {/* Channel - hidden on mobile to save space */}
         {!isMobile && (
           <div
@@ -224,6 +264,7 @@ export function VideoCard({ video, onVideoSelect, onFavorite, isFavorited, trans
               whiteSpace: 'nowrap',
             }}>
               {displayChannelName}
+              {channelPinyin && <span style={{ color: '#555' }}> · {channelPinyin}</span>}
             </span>
           </div>
         )}
@@ -9,7 +9,7 @@ describe('VideoGrid Component', () => {
       bvid: 'BV1test1',
       aid: 1,
       title: '视频1',
-      titleEn: 'Video 1',
+      titleTranslated: 'Video 1',
       desc: '',
       pic: 'http://test1.jpg',
       duration: 60,
@@ -27,7 +27,7 @@ describe('VideoGrid Component', () => {
       bvid: 'BV1test2',
       aid: 2,
       title: '视频2',
-      titleEn: 'Video 2',
+      titleTranslated: 'Video 2',
       desc: '',
       pic: 'http://test2.jpg',
       duration: 120,
@@ -1,6 +1,8 @@
 import type { BiliVideo } from '../types/bilibili';
 import { VideoCard } from './VideoCard';
 import { useIsMobile } from '../hooks/useMediaQuery';
+import type { PinyinStyle } from '../services/pinyin';
+import type { TranslationDisplay } from '../services/settings';
 
 interface VideoGridProps {
   videos: BiliVideo[];
@@ -10,9 +12,13 @@ interface VideoGridProps {
   isFavorited?: (bvid: string) => boolean;
   translateTitles?: boolean;
   translateChannelNames?: boolean;
+  romanizeTitles?: boolean;
+  romanizeChannelNames?: boolean;
+  pinyinStyle?: PinyinStyle;
+  translationDisplay?: TranslationDisplay;
 }
 
-export function VideoGrid({ videos, loading, onVideoSelect, onFavorite, isFavorited, translateTitles = true, translateChannelNames = true }: VideoGridProps) {
+export function VideoGrid({ videos, loading, onVideoSelect, onFavorite, isFavorited, translateTitles = true, translateChannelNames = true, romanizeTitles = false, romanizeChannelNames = false, pinyinStyle = 'marks', translationDisplay = 'translated' }: VideoGridProps) {
   const isMobile = useIsMobile();
   const gridStyle = {
     display: 'grid',
@@ -53,6 +59,10 @@ export function VideoGrid({ videos, loading, onVideoSelect, onFavorite, isFavori
             isFavorited={isFavorited?.(video.bvid)}
             translateTitle={translateTitles}
             translateChannelName={translateChannelNames}
+            romanizeTitle={romanizeTitles}
+            romanizeChannelName={romanizeChannelNames}
+            pinyinStyle={pinyinStyle}
+            translationDisplay={translationDisplay}
           />
         </div>
       ))}
@@ -1,10 +1,27 @@
 import { useState, useEffect, useCallback, useRef, type ReactNode } from 'react';
-import type { BiliVideo, BiliComment } from '../types/bilibili';
+import type { BiliVideo, BiliComment, BiliVideoDetail, BiliVideoPage, Playlist } from '../types/bilibili';
 import type { PlaylistContext } from './PlaylistPanel';
 import { LoginModal } from './LoginModal';
+import { NativeVideoPlayer } from './NativeVideoPlayer';
+import { DanmakuOverlay, type DanmakuDisplayOptions } from './DanmakuOverlay';
+import { SubtitleOverlay } from './SubtitleOverlay';
+import { TranscriptPanel } from './TranscriptPanel';
 import { useIsMobile } from '../hooks/useMediaQuery';
-import { getVideoComments, getVideoUrl, getRelatedVideos, formatDuration, getChannelUrl } from '../services/bilibili';
-import { translateToEnglish } from '../services/translate';
+import { useDanmakuTranslation } from '../hooks/useDanmakuTranslation';
+import { useSubtitleTranslation } from '../hooks/useSubtitleTranslation';
+import { getVideoComments, getRelatedVideos, getVideoDanmaku, getVideoDetail, getVideoSubtitles, formatDuration, getChannelUrl, type SubtitleTrack } from '../services/bilibili';
+import type { DanmakuItem } from '../services/danmaku';
+import { pickDefaultTrack, SUBTITLE_FORMATS, type SubtitleDisplayMode, type SubtitleFormat } from '../services/subtitles';
+import { downloadSubtitles } from '../services/download';
+import { translateContent } from '../services/translate';
+import { DEFAULT_TARGET_LANGUAGE, getLanguageLabel } from '../services/languages';
+import { buildPath } from '../services/router';
+import { romanize, type PinyinStyle } from '../services/pinyin';
+import { LearningText, type LearningOptions } from './LearningText';
+import { useVocabulary } from '../hooks/useVocabulary';
+import { useTranslatedText } from '../hooks/useTranslatedText';
+import { TranslationActions } from './TranslationActions';
+import type { TranslationDisplay } from '../services/settings';
 
 // Proxy Bilibili image URLs to bypass hotlink protection
 function proxyImageUrl(url: string): string {
@@ -24,18 +41,49 @@ interface VideoPlayerProps {
   isFavorited?: boolean;
   isLoggedIn?: boolean;
   onVideoChange?: (video: BiliVideo) => void;
+  onChannelSelect?: (owner: BiliVideo['owner']) => void;
   playlistContext?: PlaylistContext | null;
   onPlayNext?: () => void;
+  onSaveAsPlaylist?: (name: string, videos: BiliVideo[]) => Promise<Playlist>;
   translateTitles?: boolean;
   translateDescriptions?: boolean;
   translateComments?: boolean;
   translateChannelNames?: boolean;
   translateSubtitles?: boolean;
+  romanizeTitles?: boolean;
+  romanizeDescriptions?: boolean;
+  romanizeChannelNames?: boolean;
+  romanizeSubtitles?: boolean;
+  pinyinStyle?: PinyinStyle;
+  learningMode?: boolean;
+  translationDisplay?: TranslationDisplay;
+  targetLanguage?: string;
+  defaultQuality?: number;
+  autoplay?: boolean;
+  danmakuOptions?: DanmakuDisplayOptions;
 }
 
 const COMMENTS_PAGE_SIZE = 20;
-
-export function VideoPlayer({ video, onClose, onAddToPlaylist, onWatched, onFavorite, isFavorited, isLoggedIn = false, onVideoChange, playlistContext, onPlayNext, translateTitles = true, translateDescriptions = true, translateComments = true, translateChannelNames = true }: VideoPlayerProps) {
+const NO_DANMAKU: DanmakuItem[] = [];
+const NO_PAGES: BiliVideoPage[] = [];
+const NO_EPISODES: BiliVideo[] = [];
+function getSubtitleModes(targetLanguage: string): { value: SubtitleDisplayMode; label: string }[] {
+  return [
+    { value: 'original', label: 'Original' },
+    { value: 'translated', label: getLanguageLabel(targetLanguage) },
+    { value: 'dual', label: 'Both' },
+  ];
+}
+const DEFAULT_DANMAKU_OPTIONS: DanmakuDisplayOptions = {
+  translate: true,
+  opacity: 0.9,
+  density: 0,
+  fontScale: 1,
+  blockedKeywords: [],
+  modes: { scroll: true, top: true, bottom: true },
+};
+
+export function VideoPlayer({ video, onClose, onAddToPlaylist, onWatched, onProgress, onFavorite, isFavorited, isLoggedIn = false, onVideoChange, onChannelSelect, playlistContext, onPlayNext, onSaveAsPlaylist, translateTitles = true, translateDescriptions = true, translateComments = true, translateChannelNames = true, translateSubtitles = true, romanizeTitles = false, romanizeDescriptions = false, romanizeChannelNames = false, romanizeSubtitles = false, pinyinStyle = 'marks', learningMode = false, translationDisplay = 'translated', targetLanguage = DEFAULT_TARGET_LANGUAGE, defaultQuality = 80, autoplay = true, danmakuOptions = DEFAULT_DANMAKU_OPTIONS }: VideoPlayerProps) {
   const isMobile = useIsMobile();
   const [comments, setComments] = useState<BiliComment[]>([]);
   const [loadingComments, setLoadingComments] = useState(true);
@@ -55,6 +103,34 @@ export function VideoPlayer({ video, onClose, onAddToPlaylist, onWatched, onFavo
   const mainContentRef = useRef<HTMLDivElement | null>(null);
   const savedScrollRef = useRef<number>(0);
 
+  // Videos that fell back to (or were switched to) the Bilibili embed
+  const [embedBvid, setEmbedBvid] = useState<string | null>(null);
+  const useEmbed = embedBvid === video.bvid;
+  const [mediaElement, setMediaElement] = useState<HTMLVideoElement | null>(null);
+
+  // Parts (分P). Until one is picked, the video's own cid (the first part) plays.
+  const [detail, setDetail] = useState<BiliVideoDetail | null>(null);
+  const [partChoice, setPartChoice] = useState<{ bvid: string; page: BiliVideoPage } | null>(null);
+  const pages = detail?.video.bvid === video.bvid ? detail.pages : NO_PAGES;
+  const selectedPage = partChoice?.bvid === video.bvid ? partChoice.page : null;
+  const partCid = selectedPage?.cid ?? video.cid;
+  const partDuration = selectedPage?.duration ?? video.duration;
+  const partKey = `${video.bvid}:${partCid ?? ''}`;
+
+  // Collection (合集). The last one loaded stays up while moving between its episodes.
+  const loadedCollection = detail?.collection;
+  const collectionEpisodes = loadedCollection?.sections.flatMap(section => section.episodes) ?? NO_EPISODES;
+  const episodeIndex = collectionEpisodes.findIndex(episode => episode.bvid === video.bvid);
+  const collection = episodeIndex >= 0 ? loadedCollection : undefined;
+  const nextEpisode = collection ? collectionEpisodes[episodeIndex + 1] : undefined;
+  const [autoAdvance, setAutoAdvance] = useState(true);
+  const [savedCollectionId, setSavedCollectionId] = useState<number | null>(null);
+  const [savingCollection, setSavingCollection] = useState(false);
+
+  // Danmaku for the native player (the embed draws its own)
+  const [danmaku, setDanmaku] = useState<{ key: string; items: DanmakuItem[] } | null>(null);
+  const [showDanmaku, setShowDanmaku] = useState(true);
+
   // Keyboard shortcuts help
   const [showShortcuts, setShowShortcuts] = useState(false);
 
@@ -66,26 +142,92 @@ export function VideoPlayer({ video, onClose, onAddToPlaylist, onWatched, onFavo
 
   // Description
   const [descExpanded, setDescExpanded] = useState(false);
-  const [descEn, setDescEn] = useState<string | null>(null);
+  const [descTranslated, setDescTranslated] = useState<string | null>(null);
 
   // Related Videos
   const [relatedVideos, setRelatedVideos] = useState<BiliVideo[]>([]);
   const [loadingRelated, setLoadingRelated] = useState(true);
 
-  // Sidebar tab (comments vs related videos)
-  const [sidebarTab, setSidebarTab] = useState<'comments' | 'related'>('comments');
+  // Subtitles (CC tracks). The chosen track is remembered per video; null means off.
+  const [subtitles, setSubtitles] = useState<SubtitleTrack[]>([]);
+  const [loadingSubtitles, setLoadingSubtitles] = useState(true);
+  const [subtitleChoice, setSubtitleChoice] = useState<{ key: string; trackId: number | null } | null>(null);
+  const [subtitleMode, setSubtitleMode] = useState<SubtitleDisplayMode>(translateSubtitles ? 'translated' : 'original');
+  const subtitleModes = getSubtitleModes(targetLanguage);
+  const [showSubtitleMenu, setShowSubtitleMenu] = useState(false);
+  const [exportingSubtitles, setExportingSubtitles] = useState<SubtitleFormat | null>(null);
+  const activeSubtitleTrack = subtitleChoice?.key === partKey
+    ? subtitles.find(track => track.id === subtitleChoice.trackId) ?? null
+    : pickDefaultTrack(subtitles);
+  const transcriptTrack = activeSubtitleTrack ?? pickDefaultTrack(subtitles);
+
+  // Sidebar tab (comments vs related videos vs transcript)
+  const [sidebarTabChoice, setSidebarTab] = useState<'comments' | 'related' | 'transcript' | 'collection'>('comments');
+  // Moving to a video outside the collection leaves its tab for Related
+  const sidebarTab = sidebarTabChoice === 'collection' && !collection ? 'related' : sidebarTabChoice;
 
   // Determine displayed values based on translation settings
-  const displayTitle = translateTitles && video.titleEn ? video.titleEn : video.title;
-  const displayChannelName = translateChannelNames && video.owner.nameEn ? video.owner.nameEn : video.owner.name;
-  const displayDescription = translateDescriptions && descEn ? descEn : video.desc;
+  const displayTitle = translateTitles && video.titleTranslated ? video.titleTranslated : video.title;
+  const displayChannelName = translateChannelNames && video.owner.nameTranslated ? video.owner.nameTranslated : video.owner.name;
+  const displayDescription = translateDescriptions && descTranslated ? descTranslated : video.desc;
+  const titlePinyin = romanizeTitles ? romanize(video.title, pinyinStyle) : null;
+  const channelPinyin = romanizeChannelNames ? romanize(video.owner.name, pinyinStyle) : null;
+  const descriptionPinyin = romanizeDescriptions && descExpanded ? romanize(video.desc, pinyinStyle) : null;
+  const { isSaved: isWordSaved, toggleWord } = useVocabulary();
+  const learning: LearningOptions | null = learningMode
+    ? {
+      pinyinStyle,
+      isSaved: isWordSaved,
+      onToggleSave: (segment, context) => void toggleWord(segment.entries, context),
+    }
+    : null;
   const loginNoteText = commentsRequireLogin ? 'Sign in to load more comments' : 'Sign in to see more comments';
 
   // Bilibili embed URL
-  const embedUrl = `https://player.bilibili.com/player.html?bvid=${video.bvid}&autoplay=1&high_quality=1`;
+  const embedUrl = `https://player.bilibili.com/player.html?bvid=${video.bvid}${selectedPage ? `&p=${selectedPage.page}` : ''}&autoplay=${autoplay ? 1 : 0}&high_quality=1`;
+
+  const handleNativeFallback = useCallback(() => {
+    setEmbedBvid(video.bvid);
+  }, [video.bvid]);
+
+  const handleNativeProgress = useCallback((seconds: number) => {
+    // History keeps one position per video, and it's a position in the first part
+    if (selectedPage && selectedPage.page > 1) return;
+    onProgress?.(video, seconds);
+  }, [video, selectedPage, onProgress]);
+
+  // Next part first, then the next video of the playlist being played, or else the
+  // next episode of the collection. A collection doesn't take over from a playlist.
+  const handleNativeEnded = useCallback(() => {
+    const pageIndex = Math.max(0, pages.findIndex(page => page.cid === partCid));
+    if (pageIndex < pages.length - 1) {
+      setPartChoice({ bvid: video.bvid, page: pages[pageIndex + 1] });
+      return;
+    }
+    if (playlistContext) {
+      onPlayNext?.();
+      return;
+    }
+    if (autoAdvance && nextEpisode) {
+      onVideoChange?.(nextEpisode);
+    }
+  }, [pages, partCid, video.bvid, autoAdvance, nextEpisode, playlistContext, onPlayNext, onVideoChange]);
+
+  const handleSaveCollection = useCallback(async () => {
+    if (!collection || !onSaveAsPlaylist) return;
+    setSavingCollection(true);
+    try {
+      const name = translateTitles && collection.titleTranslated ? collection.titleTranslated : collection.title;
+      await onSaveAsPlaylist(name, collectionEpisodes);
+      setSavedCollectionId(collection.id);
+    } finally {
+      setSavingCollection(false);
+    }
+  }, [collection, collectionEpisodes, onSaveAsPlaylist, translateTitles]);
 
   const handleShare = useCallback(async () => {
-    const url = getVideoUrl(video.bvid);
+    // Share the in-app deep link so the video opens here with translations
+    const url = `${window.location.origin}${buildPath({ name: 'video', bvid: video.bvid })}`;
     try {
       await navigator.clipboard.writeText(url);
       setShowShareToast(true);
@@ -96,6 +238,15 @@ export function VideoPlayer({ video, onClose, onAddToPlaylist, onWatched, onFavo
     }
   }, [video.bvid]);
 
+  const handleSubtitleExport = useCallback(async (track: SubtitleTrack, format: SubtitleFormat) => {
+    setExportingSubtitles(format);
+    try {
+      await downloadSubtitles(video, track, format, subtitleMode, targetLanguage);
+    } finally {
+      setExportingSubtitles(null);
+    }
+  }, [video, subtitleMode, targetLanguage]);
+
   const scheduleControlsHide = useCallback(() => {
     if (controlsHideTimerRef.current) {
       window.clearTimeout(controlsHideTimerRef.current);
@@ -165,6 +316,31 @@ export function VideoPlayer({ video, onClose, onAddToPlaylist, onWatched, onFavo
     playerContainerRef.current?.focus({ preventScroll: true });
   }, [isVideoFullscreen, scheduleControlsHide, requestDomFullscreen, exitDomFullscreen]);
 
+  useEffect(() => {
+    if (useEmbed) return;
+    let cancelled = false;
+    getVideoDanmaku(video.bvid, partCid, partDuration).then(items => {
+      if (!cancelled) setDanmaku({ key: partKey, items });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [video.bvid, partCid, partDuration, partKey, useEmbed]);
+
+  const danmakuItems = danmaku?.key === partKey ? danmaku.items : NO_DANMAKU;
+  useDanmakuTranslation(mediaElement, danmakuItems, targetLanguage, showDanmaku && danmakuOptions.translate);
+
+  // Translate the track being shown (or listed in the transcript) around the playhead
+  const subtitleProgress = useSubtitleTranslation(
+    useEmbed ? null : mediaElement,
+    transcriptTrack,
+    targetLanguage,
+    translateSubtitles && subtitleMode !== 'original',
+  );
+  const subtitleProgressLabel = subtitleProgress && subtitleProgress.translated < subtitleProgress.total
+    ? `Translating ${Math.floor((subtitleProgress.translated / Math.max(1, subtitleProgress.total)) * 100)}%`
+    : null;
+
   // Track video as watched
   useEffect(() => {
     onWatched?.(video);
@@ -379,12 +555,12 @@ export function VideoPlayer({ video, onClose, onAddToPlaylist, onWatched, onFavo
 
   // Translate description
   useEffect(() => {
-    setDescEn(null);
+    setDescTranslated(null);
     setDescExpanded(false);
     if (video.desc && video.desc.trim()) {
-      translateToEnglish(video.desc).then(setDescEn).catch(() => setDescEn(null));
+      translateContent(video.desc).then(setDescTranslated).catch(() => setDescTranslated(null));
     }
-  }, [video.bvid, video.desc]);
+  }, [video.bvid, video.desc, targetLanguage]);
 
   // Load related videos
   useEffect(() => {
@@ -396,6 +572,27 @@ export function VideoPlayer({ video, onClose, onAddToPlaylist, onWatched, onFavo
       .finally(() => setLoadingRelated(false));
   }, [video.bvid]);
 
+  // Load parts, with their translated titles
+  useEffect(() => {
+    let cancelled = false;
+    getVideoDetail(video.bvid).then(result => {
+      if (!cancelled) setDetail(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [video.bvid, targetLanguage]);
+
+  // Load subtitle tracks for the part playing
+  useEffect(() => {
+    setSubtitles([]);
+    setLoadingSubtitles(true);
+    getVideoSubtitles(video.bvid, partCid)
+      .then(setSubtitles)
+      .catch(console.error)
+      .finally(() => setLoadingSubtitles(false));
+  }, [video.bvid, partCid]);
+
   return (
     <div
       style={{
@@ -657,28 +854,142 @@ export function VideoPlayer({ video, onClose, onAddToPlaylist, onWatched, onFavo
                 </div>
               </>
             )}
-            <iframe
-              src={embedUrl}
-              style={{
-                width: '100%',
-                height: '100%',
-                border: 'none',
-              }}
-              allowFullScreen
-              allow="autoplay; fullscreen"
-              title={video.title}
-              onLoad={() => {
-                // Restore saved scroll position after iframe loads to prevent jump
-                const restoreScroll = () => {
-                  if (mainContentRef.current) {
-                    mainContentRef.current.scrollTop = savedScrollRef.current;
-                  }
-                };
-                restoreScroll();
-                requestAnimationFrame(restoreScroll);
-                setTimeout(restoreScroll, 100);
-              }}
-            />
+            {!useEmbed ? (
+              <NativeVideoPlayer
+                key={partKey}
+                bvid={video.bvid}
+                cid={partCid}
+                epId={video.epId}
+                title={video.title}
+                defaultQuality={defaultQuality}
+                autoplay={autoplay}
+                showControls={showPlayerControls}
+                onFallback={handleNativeFallback}
+                onProgress={handleNativeProgress}
+                onEnded={handleNativeEnded}
+                onMediaElement={setMediaElement}
+              >
+                {showDanmaku && mediaElement && danmakuItems.length > 0 && (
+                  <DanmakuOverlay video={mediaElement} items={danmakuItems} options={danmakuOptions} />
+                )}
+                {mediaElement && activeSubtitleTrack && (
+                  <SubtitleOverlay
+                    video={mediaElement}
+                    cues={activeSubtitleTrack.cues}
+                    mode={subtitleMode}
+                    pinyinStyle={romanizeSubtitles ? pinyinStyle : null}
+                    learning={learning}
+                  />
+                )}
+              </NativeVideoPlayer>
+            ) : (
+              <iframe
+                src={embedUrl}
+                style={{
+                  width: '100%',
+                  height: '100%',
+                  border: 'none',
+                }}
+                allowFullScreen
+                allow="autoplay; fullscreen"
+                title={video.title}
+                onLoad={() => {
+                  // Restore saved scroll position after iframe loads to prevent jump
+                  const restoreScroll = () => {
+                    if (mainContentRef.current) {
+                      mainContentRef.current.scrollTop = savedScrollRef.current;
+                    }
+                  };
+                  restoreScroll();
+                  requestAnimationFrame(restoreScroll);
+                  setTimeout(restoreScroll, 100);
+                }}
+              />
+            )}
+            {!useEmbed && (danmakuItems.length > 0 || subtitles.length > 0) && (
+              <div style={{
+                position: 'absolute',
+                top: '12px',
+                right: isVideoFullscreen ? '56px' : '48px',
+                zIndex: 2,
+                display: 'flex',
+                gap: '8px',
+                transition: 'opacity 0.2s ease',
+                opacity: showPlayerControls || showSubtitleMenu ? 1 : 0,
+                pointerEvents: showPlayerControls || showSubtitleMenu ? 'auto' : 'none',
+              }}>
+                {subtitles.length > 0 && (
+                  <div style={{ position: 'relative' }}>
+                    <button
+                      onClick={() => setShowSubtitleMenu(prev => !prev)}
+                      aria-expanded={showSubtitleMenu}
+                      style={{
+                        ...overlayPillStyle(isVideoFullscreen),
+                        background: activeSubtitleTrack ? 'rgba(0, 161, 214, 0.7)' : 'rgba(0, 0, 0, 0.55)',
+                      }}
+                      title="Subtitles"
+                    >
+                      CC
+                    </button>
+                    {showSubtitleMenu && (
+                      <div style={{
+                        position: 'absolute',
+                        top: 'calc(100% + 6px)',
+                        right: 0,
+                        minWidth: '180px',
+                        background: 'rgba(20, 20, 20, 0.95)',
+                        border: '1px solid rgba(255, 255, 255, 0.1)',
+                        borderRadius: '10px',
+                        padding: '6px',
+                        display: 'flex',
+                        flexDirection: 'column',
+                        gap: '2px',
+                      }}>
+                        {[...subtitles.map(track => ({ id: track.id as number | null, label: track.languageDoc })), { id: null, label: 'Off' }].map(option => (
+                          <button
+                            key={option.id ?? 'off'}
+                            onClick={() => setSubtitleChoice({ key: partKey, trackId: option.id })}
+                            style={menuItemStyle((activeSubtitleTrack?.id ?? null) === option.id)}
+                          >
+                            {option.label}
+                          </button>
+                        ))}
+                        <div style={{ height: '1px', background: 'rgba(255, 255, 255, 0.1)', margin: '4px 0' }} />
+                        <div style={{ display: 'flex', gap: '4px' }}>
+                          {subtitleModes.map(option => (
+                            <button
+                              key={option.value}
+                              onClick={() => setSubtitleMode(option.value)}
+                              style={{ ...menuItemStyle(subtitleMode === option.value), flex: 1, textAlign: 'center' }}
+                            >
+                              {option.label}
+                            </button>
+                          ))}
+                        </div>
+                        {subtitleProgressLabel && (
+                          <span style={{ padding: '4px 8px 2px', fontSize: '11px', color: '#999' }}>
+                            {subtitleProgressLabel}
+                          </span>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+                {danmakuItems.length > 0 && (
+                  <button
+                    onClick={() => setShowDanmaku(prev => !prev)}
+                    aria-pressed={showDanmaku}
+                    style={{
+                      ...overlayPillStyle(isVideoFullscreen),
+                      background: showDanmaku ? 'rgba(0, 161, 214, 0.7)' : 'rgba(0, 0, 0, 0.55)',
+                    }}
+                    title={showDanmaku ? 'Hide danmaku' : 'Show danmaku'}
+                  >
+                    {showDanmaku ? 'Danmaku on' : 'Danmaku off'}
+                  </button>
+                )}
+              </div>
+            )}
             {!isVideoFullscreen && (
               <button
                 onClick={toggleVideoFullscreen}
@@ -718,6 +1029,16 @@ export function VideoPlayer({ video, onClose, onAddToPlaylist, onWatched, onFavo
             )}
           </div>
 
+          {/* Parts of a multi-part video */}
+          {!isVideoFullscreen && pages.length > 1 && (
+            <PartSelector
+              pages={pages}
+              selectedCid={partCid ?? pages[0].cid}
+              translateTitles={translateTitles}
+              onSelect={(page) => setPartChoice({ bvid: video.bvid, page })}
+            />
+          )}
+
           {/* Up Next Bar - shows when playing from playlist */}
           {!isVideoFullscreen && playlistContext && playlistContext.currentIndex < playlistContext.videos.length - 1 && (
             <div style={{
@@ -764,8 +1085,8 @@ export function VideoPlayer({ video, onClose, onAddToPlaylist, onWatched, onFavo
                   textOverflow: 'ellipsis',
                   whiteSpace: 'nowrap',
                 }}>
-                  {translateTitles && playlistContext.videos[playlistContext.currentIndex + 1].titleEn
-                    ? playlistContext.videos[playlistContext.currentIndex + 1].titleEn
+                  {translateTitles && playlistContext.videos[playlistContext.currentIndex + 1].titleTranslated
+                    ? playlistContext.videos[playlistContext.currentIndex + 1].titleTranslated
                     : playlistContext.videos[playlistContext.currentIndex + 1].title}
                 </p>
               </div>
@@ -814,6 +1135,16 @@ export function VideoPlayer({ video, onClose, onAddToPlaylist, onWatched, onFavo
             }}>
               {displayTitle}
             </h2>
+            {titlePinyin && (
+              <p style={{
+                margin: '-6px 0 12px 0',
+                fontSize: isMobile ? '12px' : '13px',
+                color: '#888',
+                lineHeight: 1.4,
+              }}>
+                {titlePinyin}
+              </p>
+            )}
 
             {/* Stats row */}
             <div style={{
@@ -874,6 +1205,7 @@ export function VideoPlayer({ video, onClose, onAddToPlaylist, onWatched, onFavo
                     whiteSpace: 'nowrap',
                   }}>
                     {displayChannelName}
+                    {channelPinyin && <span style={{ color: '#666', fontWeight: 400 }}> · {channelPinyin}</span>}
                   </p>
                   <p style={{
                     margin: '2px 0 0 0',
@@ -885,7 +1217,13 @@ export function VideoPlayer({ video, onClose, onAddToPlaylist, onWatched, onFavo
                 </div>
                 {!isMobile && (
                   <button
-                    onClick={() => window.open(getChannelUrl(video.owner.mid), '_blank')}
+                    onClick={() => {
+                      if (onChannelSelect) {
+                        onChannelSelect(video.owner);
+                      } else {
+                        window.open(getChannelUrl(video.owner.mid), '_blank');
+                      }
+                    }}
                     style={{
                       background: 'rgba(255, 255, 255, 0.06)',
                       border: '1px solid rgba(255, 255, 255, 0.1)',
@@ -1006,7 +1344,26 @@ export function VideoPlayer({ video, onClose, onAddToPlaylist, onWatched, onFavo
                     lineHeight: 1.6,
                     whiteSpace: 'pre-wrap',
                   }}>
-                    {displayDescription}
+                    {learning ? <LearningText text={video.desc} options={learning} /> : displayDescription}
+                    {learning && displayDescription !== video.desc && (
+                      <div style={{
+                        marginTop: '10px',
+                        paddingTop: '10px',
+                        borderTop: '1px solid rgba(255, 255, 255, 0.06)',
+                      }}>
+                        {displayDescription}
+                      </div>
+                    )}
+                    {descriptionPinyin && (
+                      <div style={{
+                        marginTop: '10px',
+                        paddingTop: '10px',
+                        borderTop: '1px solid rgba(255, 255, 255, 0.06)',
+                        color: '#777',
+                      }}>
+                        {descriptionPinyin}
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -1066,6 +1423,42 @@ export function VideoPlayer({ video, onClose, onAddToPlaylist, onWatched, onFavo
             >
               Related ({relatedVideos.length})
             </button>
+            <button
+              onClick={() => setSidebarTab('transcript')}
+              style={{
+                flex: 1,
+                padding: '14px 16px',
+                background: 'transparent',
+                border: 'none',
+                borderBottom: sidebarTab === 'transcript' ? '2px solid #00a1d6' : '2px solid transparent',
+                color: sidebarTab === 'transcript' ? '#fff' : '#888',
+                fontSize: '14px',
+                fontWeight: 500,
+                cursor: 'pointer',
+                transition: 'all 0.2s',
+              }}
+            >
+              Transcript
+            </button>
+            {collection && (
+              <button
+                onClick={() => setSidebarTab('collection')}
+                style={{
+                  flex: 1,
+                  padding: '14px 16px',
+                  background: 'transparent',
+                  border: 'none',
+                  borderBottom: sidebarTab === 'collection' ? '2px solid #00a1d6' : '2px solid transparent',
+                  color: sidebarTab === 'collection' ? '#fff' : '#888',
+                  fontSize: '14px',
+                  fontWeight: 500,
+                  cursor: 'pointer',
+                  transition: 'all 0.2s',
+                }}
+              >
+                Collection
+              </button>
+            )}
           </div>
 
           {/* Tab content */}
@@ -1159,6 +1552,8 @@ export function VideoPlayer({ video, onClose, onAddToPlaylist, onWatched, onFavo
                       key={comment.rpid}
                       comment={comment}
                       showTranslation={translateComments}
+                      display={translationDisplay}
+                      learning={learning}
                     />
                   ))}
 
@@ -1212,6 +1607,175 @@ export function VideoPlayer({ video, onClose, onAddToPlaylist, onWatched, onFavo
                 </div>
               )}
             </div>
+          ) : sidebarTab === 'transcript' ? (
+            /* Transcript content */
+            <div style={{
+              flex: 1,
+              overflow: 'auto',
+              padding: '12px',
+            }}>
+              {loadingSubtitles ? (
+                <div style={{
+                  display: 'flex',
+                  flexDirection: 'column',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  padding: '60px 20px',
+                  gap: '16px',
+                }}>
+                  <Spinner size={32} />
+                  <p style={{ margin: 0, fontSize: '14px', color: '#666' }}>
+                    Loading subtitles...
+                  </p>
+                </div>
+              ) : !transcriptTrack ? (
+                <div style={{
+                  textAlign: 'center',
+                  padding: '40px 20px',
+                  color: '#666',
+                }}>
+                  <p style={{ margin: 0, fontSize: '14px' }}>No subtitles for this video</p>
+                </div>
+              ) : (
+                <>
+                  <div style={{ display: 'flex', gap: '8px', marginBottom: '10px' }}>
+                    {subtitles.length > 1 && (
+                      <select
+                        value={transcriptTrack.id}
+                        onChange={(e) => setSubtitleChoice({ key: partKey, trackId: Number(e.target.value) })}
+                        aria-label="Subtitle track"
+                        style={{
+                          flex: 1,
+                          padding: '6px 8px',
+                          background: 'rgba(255, 255, 255, 0.05)',
+                          border: '1px solid rgba(255, 255, 255, 0.1)',
+                          borderRadius: '6px',
+                          color: '#fff',
+                          fontSize: '12px',
+                        }}
+                      >
+                        {subtitles.map(track => (
+                          <option key={track.id} value={track.id} style={{ background: '#1a1a1a' }}>
+                            {track.languageDoc}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    {subtitleModes.map(option => (
+                      <button
+                        key={option.value}
+                        onClick={() => setSubtitleMode(option.value)}
+                        style={{ ...menuItemStyle(subtitleMode === option.value), textAlign: 'center' }}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '10px' }}>
+                    <span style={{ fontSize: '12px', color: '#888', marginRight: 'auto' }}>Download</span>
+                    {SUBTITLE_FORMATS.map(option => (
+                      <button
+                        key={option.value}
+                        onClick={() => void handleSubtitleExport(transcriptTrack, option.value)}
+                        disabled={exportingSubtitles !== null}
+                        title={`Download ${option.label} (${subtitleModes.find(m => m.value === subtitleMode)?.label})`}
+                        style={{
+                          ...menuItemStyle(exportingSubtitles === option.value),
+                          textAlign: 'center',
+                          cursor: exportingSubtitles !== null ? 'default' : 'pointer',
+                        }}
+                      >
+                        {exportingSubtitles === option.value ? 'Saving...' : option.label}
+                      </button>
+                    ))}
+                  </div>
+                  {subtitleProgress && subtitleProgressLabel && (
+                    <div style={{ marginBottom: '10px' }}>
+                      <div style={{ fontSize: '12px', color: '#888', marginBottom: '4px' }}>
+                        {subtitleProgressLabel} ({subtitleProgress.translated}/{subtitleProgress.total} lines)
+                      </div>
+                      <div style={{ height: '3px', background: 'rgba(255, 255, 255, 0.1)', borderRadius: '2px', overflow: 'hidden' }}>
+                        <div style={{
+                          width: `${(subtitleProgress.translated / Math.max(1, subtitleProgress.total)) * 100}%`,
+                          height: '100%',
+                          background: '#00a1d6',
+                          transition: 'width 0.3s',
+                        }} />
+                      </div>
+                    </div>
+                  )}
+                  <TranscriptPanel
+                    cues={transcriptTrack.cues}
+                    mode={subtitleMode}
+                    video={useEmbed ? null : mediaElement}
+                    pinyinStyle={romanizeSubtitles ? pinyinStyle : null}
+                    learning={learning}
+                  />
+                </>
+              )}
+            </div>
+          ) : sidebarTab === 'collection' && collection ? (
+            /* Collection content */
+            <div style={{
+              flex: 1,
+              overflow: 'auto',
+              padding: '12px',
+            }}>
+              <div style={{ padding: '4px 4px 12px' }}>
+                <p style={{ margin: 0, fontSize: '14px', fontWeight: 600, color: '#fff' }}>
+                  {translateTitles && collection.titleTranslated ? collection.titleTranslated : collection.title}
+                </p>
+                <p style={{ margin: '4px 0 0', fontSize: '12px', color: '#888' }}>
+                  Episode {episodeIndex + 1} of {collectionEpisodes.length}
+                </p>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '12px', marginTop: '10px' }}>
+                  {onSaveAsPlaylist && (
+                    <button
+                      onClick={() => void handleSaveCollection()}
+                      disabled={savingCollection || savedCollectionId === collection.id}
+                      style={{
+                        padding: '6px 12px',
+                        background: 'rgba(0, 161, 214, 0.15)',
+                        border: '1px solid rgba(0, 161, 214, 0.3)',
+                        borderRadius: '6px',
+                        color: '#00a1d6',
+                        fontSize: '12px',
+                        cursor: savingCollection || savedCollectionId === collection.id ? 'default' : 'pointer',
+                      }}
+                    >
+                      {savedCollectionId === collection.id ? 'Saved to playlists' : savingCollection ? 'Saving...' : 'Save as playlist'}
+                    </button>
+                  )}
+                  <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', color: '#aaa', cursor: 'pointer' }}>
+                    <input
+                      type="checkbox"
+                      checked={autoAdvance}
+                      onChange={(e) => setAutoAdvance(e.target.checked)}
+                    />
+                    Play next episode
+                  </label>
+                </div>
+              </div>
+              {collection.sections.map(section => (
+                <div key={section.id} style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginBottom: '12px' }}>
+                  {collection.sections.length > 1 && (
+                    <p style={{ margin: '4px 4px 0', fontSize: '12px', fontWeight: 500, color: '#999' }}>
+                      {translateTitles && section.titleTranslated ? section.titleTranslated : section.title}
+                    </p>
+                  )}
+                  {section.episodes.map(episode => (
+                    <RelatedVideoItem
+                      key={episode.bvid}
+                      video={episode}
+                      onClick={() => onVideoChange?.(episode)}
+                      translateTitle={translateTitles}
+                      translateChannelName={translateChannelNames}
+                      active={episode.bvid === video.bvid}
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
           ) : (
             /* Related Videos content */
             <div style={{
@@ -1336,6 +1900,81 @@ export function VideoPlayer({ video, onClose, onAddToPlaylist, onWatched, onFavo
   );
 }
 
+function overlayPillStyle(isFullscreen: boolean) {
+  return {
+    border: '1px solid rgba(255, 255, 255, 0.2)',
+    borderRadius: '999px',
+    height: isFullscreen ? '32px' : '28px',
+    padding: '0 10px',
+    cursor: 'pointer',
+    color: '#fff',
+    fontSize: '11px',
+    fontWeight: 500,
+    transition: 'background 0.2s ease',
+  };
+}
+
+function menuItemStyle(selected: boolean) {
+  return {
+    background: selected ? 'rgba(0, 161, 214, 0.25)' : 'transparent',
+    border: 'none',
+    borderRadius: '6px',
+    padding: '6px 10px',
+    color: selected ? '#fff' : '#bbb',
+    fontSize: '12px',
+    textAlign: 'left' as const,
+    cursor: 'pointer',
+  };
+}
+
+function PartSelector({ pages, selectedCid, translateTitles, onSelect }: {
+  pages: BiliVideoPage[];
+  selectedCid: number;
+  translateTitles: boolean;
+  onSelect: (page: BiliVideoPage) => void;
+}) {
+  const selectedIndex = pages.findIndex(page => page.cid === selectedCid);
+  return (
+    <div style={{
+      marginTop: '12px',
+      background: 'rgba(255, 255, 255, 0.03)',
+      border: '1px solid rgba(255, 255, 255, 0.08)',
+      borderRadius: '10px',
+      padding: '8px',
+    }}>
+      <p style={{ margin: '2px 4px 8px', fontSize: '12px', color: '#999' }}>
+        Parts · {selectedIndex + 1}/{pages.length}
+      </p>
+      <div style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '2px',
+        maxHeight: '220px',
+        overflowY: 'auto',
+      }}>
+        {pages.map(page => {
+          const selected = page.cid === selectedCid;
+          return (
+            <button
+              key={page.cid}
+              onClick={() => onSelect(page)}
+              aria-current={selected}
+              title={page.part}
+              style={{ ...menuItemStyle(selected), display: 'flex', gap: '8px', alignItems: 'center' }}
+            >
+              <span style={{ color: selected ? '#00a1d6' : '#666', flexShrink: 0 }}>P{page.page}</span>
+              <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {translateTitles && page.partTranslated ? page.partTranslated : page.part}
+              </span>
+              <span style={{ color: '#666', flexShrink: 0 }}>{formatDuration(page.duration)}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
 function ShortcutRow({ keys, description }: { keys: string[]; description: string }) {
   return (
     <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
@@ -1363,19 +2002,34 @@ function ShortcutRow({ keys, description }: { keys: string[]; description: strin
   );
 }
 
-function CommentItem({ comment, showTranslation }: { comment: BiliComment; showTranslation: boolean }) {
+interface CommentItemProps {
+  comment: BiliComment;
+  showTranslation: boolean;
+  display: TranslationDisplay;
+  learning: LearningOptions | null;
+}
+
+function CommentItem({ comment, showTranslation, display, learning }: CommentItemProps) {
   const [expanded, setExpanded] = useState(false);
-  const displayMessage = showTranslation && comment.content.messageEn
-    ? comment.content.messageEn
-    : comment.content.message;
+  const [hovered, setHovered] = useState(false);
+  const message = useTranslatedText(
+    comment.content.message,
+    showTranslation ? comment.content.messageTranslated : null,
+    display
+  );
+  const displayMessage = message.translation ?? comment.content.message;
 
   return (
-    <div style={{
-      padding: '12px',
-      background: 'rgba(255, 255, 255, 0.03)',
-      borderRadius: '8px',
-      transition: 'background 0.2s',
-    }}>
+    <div
+      onMouseEnter={() => setHovered(true)}
+      onMouseLeave={() => setHovered(false)}
+      style={{
+        padding: '12px',
+        background: 'rgba(255, 255, 255, 0.03)',
+        borderRadius: '8px',
+        transition: 'background 0.2s',
+      }}
+    >
       {/* Comment header */}
       <div style={{
         display: 'flex',
@@ -1435,9 +2089,21 @@ function CommentItem({ comment, showTranslation }: { comment: BiliComment; showT
         color: '#ccc',
         wordBreak: 'break-word',
       }}>
-        {displayMessage}
+        {learning ? <LearningText text={comment.content.message} options={learning} /> : displayMessage}
       </p>
-
+      {/* In learning mode the original leads and the translation follows */}
+      {(learning ? message.translation : message.showOriginal) && (
+        <p style={{
+          margin: '6px 0 0 0',
+          fontSize: '12px',
+          lineHeight: 1.5,
+          color: '#888',
+          wordBreak: 'break-word',
+        }}>
+          {learning ? message.translation : comment.content.message}
+        </p>
+      )}
+      <TranslationActions view={message} showToggle={!learning} visible={hovered} />
 
       {/* Replies */}
       {comment.replies && comment.replies.length > 0 && (
@@ -1582,17 +2248,19 @@ function Spinner({ size = 24 }: { size?: number }) {
   );
 }
 
-function RelatedVideoItem({ video, onClick, translateTitle = true, translateChannelName = true }: { video: BiliVideo; onClick: () => void; translateTitle?: boolean; translateChannelName?: boolean }) {
-  const displayTitle = translateTitle && video.titleEn ? video.titleEn : video.title;
-  const displayChannelName = translateChannelName && video.owner.nameEn ? video.owner.nameEn : video.owner.name;
+function RelatedVideoItem({ video, onClick, translateTitle = true, translateChannelName = true, active = false }: { video: BiliVideo; onClick: () => void; translateTitle?: boolean; translateChannelName?: boolean; active?: boolean }) {
+  const background = active ? 'rgba(0, 161, 214, 0.15)' : 'rgba(255, 255, 255, 0.03)';
+  const displayTitle = translateTitle && video.titleTranslated ? video.titleTranslated : video.title;
+  const displayChannelName = translateChannelName && video.owner.nameTranslated ? video.owner.nameTranslated : video.owner.name;
   return (
     <button
       onClick={onClick}
+      aria-current={active}
       style={{
         display: 'flex',
         gap: '10px',
         padding: '8px',
-        background: 'rgba(255, 255, 255, 0.03)',
+        background,
         border: 'none',
         borderRadius: '8px',
         cursor: 'pointer',
@@ -1604,7 +2272,7 @@ function RelatedVideoItem({ video, onClick, translateTitle = true, translateChan
         e.currentTarget.style.background = 'rgba(255, 255, 255, 0.08)';
       }}
       onMouseLeave={(e) => {
-        e.currentTarget.style.background = 'rgba(255, 255, 255, 0.03)';
+        e.currentTarget.style.background = background;
       }}
     >
       {/* Thumbnail */}
@@ -0,0 +1,73 @@
+import { useEffect } from 'react';
+import { prepareDanmakuTranslation, translateDanmakuItems, type DanmakuItem } from '../services/danmaku';
+
+const WINDOW_SECONDS = 30;
+const LOOKAHEAD_SECONDS = 60; // Translate this far past the playhead
+const RETRY_DELAY_MS = 15 * 1000; // Before trying a window that failed again
+
+// Translates danmaku in fixed time windows just ahead of playback, so a long video
+// never sends its whole comment list at once and seeking jumps straight to the new spot
+export function useDanmakuTranslation(
+  video: HTMLVideoElement | null,
+  items: DanmakuItem[],
+  language: string,
+  enabled: boolean
+) {
+  useEffect(() => {
+    if (!enabled || !video || items.length === 0) return;
+    prepareDanmakuTranslation(items, language);
+    let cancelled = false;
+    let translating = false;
+    const done = new Set<number>();
+    const retryAt = new Map<number, number>();
+
+    const itemsInWindow = (index: number) => {
+      const start = index * WINDOW_SECONDS;
+      const end = start + WINDOW_SECONDS;
+      return items.filter(item => item.time >= start && item.time < end);
+    };
+
+    const check = async () => {
+      if (translating || cancelled) return;
+      const first = Math.floor(video.currentTime / WINDOW_SECONDS);
+      const last = Math.floor((video.currentTime + LOOKAHEAD_SECONDS) / WINDOW_SECONDS);
+      const now = Date.now();
+      let next = -1;
+      for (let index = first; index <= last; index++) {
+        if (!done.has(index) && (retryAt.get(index) ?? 0) <= now) {
+          next = index;
+          break;
+        }
+      }
+      if (next < 0) return;
+
+      translating = true;
+      let complete = false;
+      try {
+        complete = await translateDanmakuItems(itemsInWindow(next));
+      } catch (error) {
+        console.error('[Danmaku] Translation failed:', error);
+      } finally {
+        // A failed window is tried again on a later timeupdate, once the delay is up
+        if (complete) done.add(next);
+        else retryAt.set(next, Date.now() + RETRY_DELAY_MS);
+        translating = false;
+      }
+      // Keep going until the lookahead is covered
+      void check();
+    };
+
+    const handleTime = () => {
+      void check();
+    };
+
+    void check();
+    video.addEventListener('timeupdate', handleTime);
+    video.addEventListener('seeked', handleTime);
+    return () => {
+      cancelled = true;
+      video.removeEventListener('timeupdate', handleTime);
+      video.removeEventListener('seeked', handleTime);
+    };
+  }, [video, items, language, enabled]);
+}
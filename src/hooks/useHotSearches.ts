@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import type { BiliHotSearch } from '../types/bilibili';
+import { getHotSearches } from '../services/bilibili';
+
+// Trending search keywords; the query cache shares one request between the search
+// bar and the home page. Nothing loads until enabled.
+export function useHotSearches(enabled: boolean = true) {
+  const [keywords, setKeywords] = useState<BiliHotSearch[]>([]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    getHotSearches().then(result => {
+      if (!cancelled) setKeywords(result.keywords);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  return keywords;
+}
@@ -0,0 +1,85 @@
+import { useEffect, useRef, useState } from 'react';
+import { translateDanmakuItems, type DanmakuItem } from '../services/danmaku';
+import { getLiveDanmakuInfo } from '../services/live';
+import { connectLiveDanmaku, type LiveDanmakuMessage, type LiveDanmakuStatus } from '../services/liveDanmaku';
+
+const MAX_CHAT_MESSAGES = 150; // Kept for the chat list
+const MAX_OVERLAY_ITEMS = 3000; // The overlay's list starts over past this
+const TRANSLATE_WAIT_MS = 2500; // Show a message untranslated rather than hold it longer
+
+// Live chat for a room. Messages go to the overlay only once translated (or after a
+// short wait), timed at the playhead when they're released, since live danmaku have
+// no position on the video of their own.
+export function useLiveDanmaku(roomId: number | null, video: HTMLVideoElement | null, translate: boolean) {
+  const [messages, setMessages] = useState<LiveDanmakuMessage[]>([]);
+  const [overlayItems, setOverlayItems] = useState<DanmakuItem[]>([]);
+  const [status, setStatus] = useState<LiveDanmakuStatus>('connecting');
+  const [viewers, setViewers] = useState<number | null>(null);
+  // Read when messages arrive, so the socket isn't reopened when the element changes
+  const videoRef = useRef(video);
+
+  useEffect(() => {
+    videoRef.current = video;
+  }, [video]);
+
+  useEffect(() => {
+    if (!roomId) return;
+    let cancelled = false;
+    let connection: { close: () => void } | null = null;
+    let items: DanmakuItem[] = [];
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- Reset the chat when the room changes
+    setMessages([]);
+    setOverlayItems(items);
+    setViewers(null);
+
+    const release = (batch: LiveDanmakuMessage[]) => {
+      if (cancelled) return;
+      const time = videoRef.current?.currentTime ?? 0;
+      if (items.length > MAX_OVERLAY_ITEMS) {
+        items = [];
+        setOverlayItems(items);
+      }
+      for (const message of batch) {
+        message.time = time;
+        items.push(message);
+      }
+      setMessages(prev => [...prev, ...batch].slice(-MAX_CHAT_MESSAGES));
+    };
+
+    const handleMessages = (batch: LiveDanmakuMessage[]) => {
+      if (!translate) {
+        release(batch);
+        return;
+      }
+      let released = false;
+      const releaseOnce = () => {
+        if (released) return;
+        released = true;
+        release(batch);
+      };
+      const timeout = setTimeout(releaseOnce, TRANSLATE_WAIT_MS);
+      translateDanmakuItems(batch)
+        .catch(error => console.warn('[Live] Chat translation failed:', error))
+        .finally(() => {
+          clearTimeout(timeout);
+          releaseOnce();
+        });
+    };
+
+    getLiveDanmakuInfo(roomId).then(({ url, token }) => {
+      if (cancelled) return;
+      connection = connectLiveDanmaku(roomId, {
+        onMessages: handleMessages,
+        onViewers: setViewers,
+        onStatus: setStatus,
+      }, { url, token });
+    });
+
+    return () => {
+      cancelled = true;
+      connection?.close();
+    };
+  }, [roomId, translate]);
+
+  return { messages, overlayItems, status, viewers };
+}
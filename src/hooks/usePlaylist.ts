@@ -25,8 +25,8 @@ export function usePlaylist() {
     loadPlaylists();
   }, [loadPlaylists]);
 
-  const createPlaylist = useCallback(async (name: string) => {
-    const newPlaylist = await createPlaylistService(name);
+  const createPlaylist = useCallback(async (name: string, videos?: BiliVideo[]) => {
+    const newPlaylist = await createPlaylistService(name, videos);
     setPlaylists(prev => [...prev, newPlaylist]);
     return newPlaylist;
   }, []);
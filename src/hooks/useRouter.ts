@@ -0,0 +1,89 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  parseRoute,
+  buildPath,
+  isFeedRoute,
+  type AppRoute,
+  type FeedRoute,
+} from '../services/router';
+
+interface RouterState {
+  route: AppRoute;
+  // Last feed view, kept so overlays (player, channel) render on top of it
+  feedRoute: FeedRoute;
+}
+
+// Stored in history.state: how many overlay entries sit above the last feed entry
+interface HistoryEntryState {
+  overlayDepth: number;
+}
+
+function readLocation(previous?: RouterState): RouterState {
+  const route = parseRoute(window.location);
+  if (!isFeedRoute(route)) {
+    return { route, feedRoute: previous?.feedRoute ?? { name: 'home' } };
+  }
+  // Keep the same feed object when the feed didn't change, so effects keyed on it don't refire
+  const unchanged = previous && buildPath(previous.feedRoute) === buildPath(route);
+  return { route, feedRoute: unchanged ? previous.feedRoute : route };
+}
+
+function currentDepth(): number {
+  const entry = window.history.state as Partial<HistoryEntryState> | null;
+  return typeof entry?.overlayDepth === 'number' ? entry.overlayDepth : 0;
+}
+
+export function useRouter() {
+  const [state, setState] = useState<RouterState>(() => readLocation());
+
+  useEffect(() => {
+    // Deep links straight into an overlay get a home entry underneath,
+    // so closing the player or channel lands on a feed instead of leaving the app
+    const initial = parseRoute(window.location);
+    if (!isFeedRoute(initial) && !window.history.state) {
+      const path = `${window.location.pathname}${window.location.search}`;
+      window.history.replaceState({ overlayDepth: 0 } satisfies HistoryEntryState, '', buildPath({ name: 'home' }));
+      window.history.pushState({ overlayDepth: 1 } satisfies HistoryEntryState, '', path);
+    }
+
+    const handlePopState = () => {
+      setState(prev => readLocation(prev));
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const navigate = useCallback((route: AppRoute, options: { replace?: boolean } = {}) => {
+    const path = buildPath(route);
+    const current = `${window.location.pathname}${window.location.search}`;
+    if (path !== current) {
+      const base = options.replace ? Math.max(0, currentDepth() - 1) : currentDepth();
+      const entry: HistoryEntryState = {
+        overlayDepth: isFeedRoute(route) ? 0 : base + 1,
+      };
+      if (options.replace) {
+        window.history.replaceState(entry, '', path);
+      } else {
+        window.history.pushState(entry, '', path);
+      }
+    }
+    setState(prev => readLocation(prev));
+  }, []);
+
+  // Close every stacked overlay and return to the feed underneath
+  const closeOverlay = useCallback(() => {
+    const depth = currentDepth();
+    if (depth > 0) {
+      window.history.go(-depth);
+      return;
+    }
+    navigate(state.feedRoute, { replace: true });
+  }, [navigate, state.feedRoute]);
+
+  return {
+    route: state.route,
+    feedRoute: state.feedRoute,
+    navigate,
+    closeOverlay,
+  };
+}
@@ -2,19 +2,13 @@ import { useState, useEffect, useCallback } from 'react';
 import {
   getSettings,
   saveSettings,
+  DEFAULT_SETTINGS,
   type AppSettings,
 } from '../services/settings';
+import { configureTranslation } from '../services/translate';
 
 export function useSettings() {
-  const [settings, setSettings] = useState<AppSettings>({
-    defaultQuality: 80,
-    autoplay: true,
-    translateTitles: true,
-    translateDescriptions: true,
-    translateComments: true,
-    translateChannelNames: true,
-    translateSubtitles: true,
-  });
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [loading, setLoading] = useState(true);
 
   const loadSettings = useCallback(async () => {
@@ -28,6 +22,19 @@ export function useSettings() {
     loadSettings();
   }, [loadSettings]);
 
+  // Keep the translation service on the chosen backend, language and glossary
+  const { translationProvider, libreTranslateUrl, libreTranslateApiKey, translationFailover, targetLanguage, glossary } = settings;
+  useEffect(() => {
+    configureTranslation({
+      provider: translationProvider,
+      libreTranslateUrl,
+      libreTranslateApiKey,
+      failover: translationFailover,
+      targetLanguage,
+      glossary,
+    });
+  }, [translationProvider, libreTranslateUrl, libreTranslateApiKey, translationFailover, targetLanguage, glossary]);
+
   const updateSetting = useCallback(async <K extends keyof AppSettings>(
     key: K,
     value: AppSettings[K]
@@ -38,17 +45,8 @@ export function useSettings() {
   }, [settings]);
 
   const resetSettings = useCallback(async () => {
-    const defaultSettings: AppSettings = {
-      defaultQuality: 80,
-      autoplay: true,
-      translateTitles: true,
-      translateDescriptions: true,
-      translateComments: true,
-      translateChannelNames: true,
-      translateSubtitles: true,
-    };
-    setSettings(defaultSettings);
-    await saveSettings(defaultSettings);
+    setSettings(DEFAULT_SETTINGS);
+    await saveSettings(DEFAULT_SETTINGS);
   }, []);
 
   return {
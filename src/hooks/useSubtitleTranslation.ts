@@ -0,0 +1,101 @@
+import { useState, useEffect } from 'react';
+import type { SubtitleTrack } from '../services/bilibili';
+import {
+  getTranslationProgress,
+  isTranslatableTrack,
+  prepareTrackTranslation,
+  translateSubtitleCues,
+  type SubtitleTranslationProgress,
+} from '../services/subtitles';
+
+const WINDOW_SECONDS = 60;
+const LOOKAHEAD_SECONDS = 120; // Translate this far past the playhead
+const RETRY_DELAY_MS = 15 * 1000; // Before trying a window that failed again
+
+// Translates a subtitle track a window at a time around the playhead. Without a
+// <video> to follow (embedded player) the track is worked through from the start.
+// Cues are translated in place, so progress survives switching tracks or videos.
+export function useSubtitleTranslation(
+  video: HTMLVideoElement | null,
+  track: SubtitleTrack | null,
+  language: string,
+  enabled: boolean,
+): SubtitleTranslationProgress | null {
+  const [progress, setProgress] = useState<{ trackId: number; value: SubtitleTranslationProgress } | null>(null);
+  const active = enabled && track !== null && isTranslatableTrack(track, language);
+
+  useEffect(() => {
+    if (!active || !track) return;
+    prepareTrackTranslation(track, language);
+    const cues = track.cues;
+    let cancelled = false;
+    let translating = false;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    const retryAt = new Map<number, number>();
+
+    const report = () => {
+      if (!cancelled) setProgress({ trackId: track.id, value: getTranslationProgress(cues) });
+    };
+
+    const cuesInWindow = (index: number) => {
+      const start = index * WINDOW_SECONDS;
+      const end = start + WINDOW_SECONDS;
+      return cues.filter(cue => cue.from >= start && cue.from < end && cue.contentTranslated === undefined);
+    };
+
+    const nextWindow = (): number => {
+      const time = video ? video.currentTime : 0;
+      const first = Math.floor(time / WINDOW_SECONDS);
+      const last = video
+        ? Math.floor((time + LOOKAHEAD_SECONDS) / WINDOW_SECONDS)
+        : Math.floor((cues[cues.length - 1]?.from ?? 0) / WINDOW_SECONDS);
+      const now = Date.now();
+      for (let index = first; index <= last; index++) {
+        if ((retryAt.get(index) ?? 0) <= now && cuesInWindow(index).length > 0) return index;
+      }
+      return -1;
+    };
+
+    const check = async () => {
+      if (translating || cancelled) return;
+      const next = nextWindow();
+      if (next < 0) return;
+
+      translating = true;
+      let complete = false;
+      try {
+        complete = await translateSubtitleCues(cuesInWindow(next));
+      } catch (error) {
+        console.error('[Subtitles] Translation failed:', error);
+      } finally {
+        translating = false;
+      }
+      if (!complete && !cancelled) {
+        // Untranslated cues stay unset; come back to them once the delay is up,
+        // also without a <video> whose timeupdates would bring us back
+        retryAt.set(next, Date.now() + RETRY_DELAY_MS);
+        clearTimeout(retryTimer);
+        retryTimer = setTimeout(() => void check(), RETRY_DELAY_MS);
+      }
+      report();
+      void check();
+    };
+
+    const handleTime = () => {
+      void check();
+    };
+
+    report();
+    void check();
+    video?.addEventListener('timeupdate', handleTime);
+    video?.addEventListener('seeked', handleTime);
+    return () => {
+      cancelled = true;
+      clearTimeout(retryTimer);
+      video?.removeEventListener('timeupdate', handleTime);
+      video?.removeEventListener('seeked', handleTime);
+    };
+  }, [video, track, language, active]);
+
+  return active && track && progress?.trackId === track.id ? progress.value : null;
+}
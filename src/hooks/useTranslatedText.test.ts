@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { renderHook, act, waitFor } from '@testing-library/react'
+import { useTranslatedText } from './useTranslatedText'
+
+vi.mock('../services/translate', () => ({
+  correctTranslation: vi.fn(),
+  getCorrection: vi.fn(),
+  resetTranslation: vi.fn(),
+}))
+
+import { correctTranslation, getCorrection, resetTranslation } from '../services/translate'
+
+describe('useTranslatedText Hook', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    ;(getCorrection as ReturnType<typeof vi.fn>).mockResolvedValue(null)
+    ;(correctTranslation as ReturnType<typeof vi.fn>).mockResolvedValue(undefined)
+    ;(resetTranslation as ReturnType<typeof vi.fn>).mockResolvedValue(undefined)
+  })
+
+  it('should show the translation it was given', async () => {
+    const { result } = renderHook(() => useTranslatedText('你好', 'Hello', 'translated'))
+
+    await waitFor(() => expect(getCorrection).toHaveBeenCalledWith('你好'))
+    expect(result.current.translation).toBe('Hello')
+    expect(result.current.corrected).toBe(false)
+  })
+
+  it('should prefer a correction saved after the item was translated', async () => {
+    ;(getCorrection as ReturnType<typeof vi.fn>).mockResolvedValue('Hi there')
+
+    const { result } = renderHook(() => useTranslatedText('你好', 'Hello', 'translated'))
+
+    await waitFor(() => expect(result.current.translation).toBe('Hi there'))
+    expect(result.current.corrected).toBe(true)
+  })
+
+  it('should show the original when translation is off, even with a saved correction', async () => {
+    ;(getCorrection as ReturnType<typeof vi.fn>).mockResolvedValue('Hi there')
+
+    const { result } = renderHook(() => useTranslatedText('你好', null, 'translated'))
+    await act(() => Promise.resolve())
+
+    expect(getCorrection).not.toHaveBeenCalled()
+    expect(result.current.translation).toBeNull()
+    expect(result.current.corrected).toBe(false)
+  })
+
+  it('should save and reset corrections', async () => {
+    const { result } = renderHook(() => useTranslatedText('你好', 'Hello', 'translated'))
+    await waitFor(() => expect(getCorrection).toHaveBeenCalled())
+
+    await act(() => result.current.correct(' Hi there '))
+    expect(correctTranslation).toHaveBeenCalledWith('你好', 'Hi there')
+    expect(result.current.translation).toBe('Hi there')
+
+    await act(() => result.current.reset())
+    expect(resetTranslation).toHaveBeenCalledWith('你好')
+    expect(result.current.translation).toBe('Hello')
+  })
+})
@@ -0,0 +1,70 @@
+import { useState, useEffect, useCallback } from 'react';
+import { correctTranslation, getCorrection, resetTranslation } from '../services/translate';
+import type { TranslationDisplay } from '../services/settings';
+
+export interface TranslatedTextView {
+  original: string;
+  // Null when there's no translation to show (translation off, or it matches the original)
+  translation: string | null;
+  showOriginal: boolean;
+  corrected: boolean;
+  toggleOriginal: () => void;
+  correct: (translation: string) => Promise<void>;
+  reset: () => Promise<void>;
+}
+
+// One translated string with its own "show original" toggle and correction. The
+// toggle starts from the display setting; a correction shows at once and is saved
+// so every later translation of the same string uses it. Saved corrections also
+// replace translations made before them, as kept in history, favorites and playlists.
+export function useTranslatedText(
+  original: string,
+  translated: string | null | undefined,
+  display: TranslationDisplay
+): TranslatedTextView {
+  const [originalShown, setOriginalShown] = useState<boolean | null>(null);
+  const [correction, setCorrection] = useState<string | null>(null);
+
+  // Looked up again when the translation changes, as it does with the target language.
+  // With translation off there's nothing for a correction to replace.
+  useEffect(() => {
+    if (translated == null) return;
+    let cancelled = false;
+    getCorrection(original).then(saved => {
+      if (!cancelled) setCorrection(saved);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [original, translated]);
+
+  const translation = translated == null ? null : correction ?? translated;
+  const hasTranslation = translation !== null && translation !== original;
+  const showOriginal = hasTranslation && (originalShown ?? display === 'stacked');
+
+  const toggleOriginal = useCallback(() => {
+    setOriginalShown(!showOriginal);
+  }, [showOriginal]);
+
+  const correct = useCallback(async (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    await correctTranslation(original, trimmed);
+    setCorrection(trimmed);
+  }, [original]);
+
+  const reset = useCallback(async () => {
+    await resetTranslation(original);
+    setCorrection(null);
+  }, [original]);
+
+  return {
+    original,
+    translation: hasTranslation ? translation : null,
+    showOriginal,
+    corrected: translation !== null && correction !== null,
+    toggleOriginal,
+    correct,
+    reset,
+  };
+}
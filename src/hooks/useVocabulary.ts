@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { DictionaryEntry } from '../services/cedict';
+import {
+  getVocabulary,
+  addToVocabulary,
+  removeFromVocabulary,
+  clearVocabulary as clearVocabularyService,
+  createVocabularyItem,
+  type VocabularyItem,
+} from '../services/vocabulary';
+
+export function useVocabulary() {
+  const [vocabulary, setVocabulary] = useState<VocabularyItem[]>([]);
+
+  const loadVocabulary = useCallback(async () => {
+    setVocabulary(await getVocabulary());
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    getVocabulary().then(items => {
+      if (!cancelled) setVocabulary(items);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const isSaved = useCallback((word: string) => {
+    return vocabulary.some(item => item.word === word || item.traditional === word);
+  }, [vocabulary]);
+
+  // Save a looked-up word, or forget it if it's already saved
+  const toggleWord = useCallback(async (entries: DictionaryEntry[], context: string) => {
+    if (entries.length === 0) return;
+    const item = createVocabularyItem(entries, context);
+    if (vocabulary.some(existing => existing.word === item.word)) {
+      await removeFromVocabulary(item.word);
+      setVocabulary(prev => prev.filter(existing => existing.word !== item.word));
+    } else {
+      await addToVocabulary(item);
+      setVocabulary(prev => [item, ...prev]);
+    }
+  }, [vocabulary]);
+
+  const removeWord = useCallback(async (word: string) => {
+    await removeFromVocabulary(word);
+    setVocabulary(prev => prev.filter(item => item.word !== word));
+  }, []);
+
+  const clearVocabulary = useCallback(async () => {
+    await clearVocabularyService();
+    setVocabulary([]);
+  }, []);
+
+  return {
+    vocabulary,
+    isSaved,
+    toggleWord,
+    removeWord,
+    clearVocabulary,
+    refreshVocabulary: loadVocabulary,
+  };
+}
@@ -0,0 +1,440 @@
+// Trimmed copies of real Bilibili responses, one per shape the video lists come in
+
+export const rankingResponse = {
+  code: 0,
+  message: '0',
+  ttl: 1,
+  data: {
+    note: '根据稿件内容质量、近期的数据综合展示，动态更新',
+    list: [
+      {
+        aid: 113501234567890,
+        videos: 1,
+        tid: 17,
+        tname: '单机游戏',
+        copyright: 1,
+        pic: 'http://i0.hdslb.com/bfs/archive/ranking.jpg',
+        title: '【黑神话】全收集攻略',
+        pubdate: 1716544800,
+        ctime: 1716540000,
+        desc: '全流程收集',
+        state: 0,
+        duration: 1325,
+        rights: { bp: 0, elec: 0, download: 0, movie: 0, pay: 0 },
+        owner: { mid: 546195, name: '老番茄', face: 'https://i1.hdslb.com/bfs/face/owner.jpg' },
+        stat: {
+          aid: 113501234567890,
+          view: 2310456,
+          danmaku: 15321,
+          reply: 8123,
+          favorite: 120034,
+          coin: 98012,
+          share: 4521,
+          now_rank: 0,
+          his_rank: 1,
+          like: 230145,
+          dislike: 0,
+        },
+        dynamic: '',
+        cid: 1552345678,
+        short_link_v2: 'https://b23.tv/BV1xx411c7mD',
+        bvid: 'BV1xx411c7mD',
+        score: 0,
+      },
+    ],
+  },
+}
+
+export const searchResponse = {
+  code: 0,
+  message: '0',
+  data: {
+    page: 1,
+    pagesize: 20,
+    numResults: 1000,
+    numPages: 50,
+    result: [
+      {
+        type: 'video',
+        id: 113509876543210,
+        author: '影视飓风',
+        mid: 946974,
+        typeid: '95',
+        typename: '数码',
+        arcurl: 'http://www.bilibili.com/video/av113509876543210',
+        aid: 113509876543210,
+        bvid: 'BV1Ab4y1X7zQ',
+        title: '<em class="keyword">相机</em>评测',
+        description: '年度相机横评',
+        pic: '//i2.hdslb.com/bfs/archive/search.jpg',
+        play: 1043210,
+        video_review: 5210,
+        favorites: 32001,
+        tag: '相机,评测',
+        review: 3021,
+        pubdate: 1716000000,
+        senddate: 1716000100,
+        duration: '12:05',
+        like: 88012,
+        upic: 'https://i0.hdslb.com/bfs/face/upic.jpg',
+        danmaku: 5210,
+      },
+    ],
+  },
+}
+
+export const regionRankingResponse = {
+  code: 0,
+  message: '0',
+  data: [
+    {
+      aid: '113400011122233',
+      bvid: 'BV1Qz421B7cK',
+      typename: '日常',
+      title: '周末vlog',
+      subtitle: '',
+      play: 320145,
+      review: 812,
+      video_review: 1203,
+      favorites: 5012,
+      mid: 20165629,
+      author: '某up主',
+      description: '周末去了趟海边',
+      create: '2024-05-20 18:30:00',
+      pic: 'http://i0.hdslb.com/bfs/archive/region.jpg',
+      coins: 4012,
+      duration: '8:42',
+      badgepay: false,
+      pts: 501234,
+      rights: { bp: 0, elec: 0 },
+    },
+  ],
+}
+
+export const spaceVideosResponse = {
+  code: 0,
+  message: '0',
+  data: {
+    list: {
+      tlist: {},
+      vlist: [
+        {
+          comment: 1203,
+          typeid: 17,
+          play: '--',
+          pic: 'http://i0.hdslb.com/bfs/archive/space.jpg',
+          subtitle: '',
+          description: '新系列第一期',
+          copyright: '1',
+          title: '新系列 EP1',
+          review: 0,
+          author: '老番茄',
+          mid: 546195,
+          created: 1716300000,
+          length: '25:10',
+          video_review: 3012,
+          aid: 113502222333444,
+          bvid: 'BV1Hy411z7Ab',
+          hide_click: false,
+          is_union_video: 0,
+        },
+      ],
+    },
+    page: { pn: 1, ps: 30, count: 812 },
+  },
+}
+
+export const viewResponse = {
+  code: 0,
+  message: '0',
+  ttl: 1,
+  data: {
+    bvid: 'BV1Pt4y1h7Kc',
+    aid: 113503333444555,
+    videos: 2,
+    tid: 36,
+    tname: '科学科普',
+    copyright: 1,
+    pic: 'http://i0.hdslb.com/bfs/archive/view.jpg',
+    title: '线性代数 全集',
+    pubdate: 1716600000,
+    ctime: 1716590000,
+    desc: '共两讲',
+    duration: 5405,
+    rights: { bp: 0, elec: 0, download: 1, movie: 0, pay: 0, hd5: 1, no_reprint: 1, autoplay: 1, ugc_pay: 0, is_cooperation: 0, ugc_pay_preview: 0, no_background: 0, is_stein_gate: 0 },
+    owner: { mid: 777001, name: '数学老师', face: 'https://i2.hdslb.com/bfs/face/teacher.jpg' },
+    stat: { aid: 113503333444555, view: 88001, danmaku: 902, reply: 311, favorite: 5012, coin: 2210, share: 120, now_rank: 0, his_rank: 0, like: 6034, dislike: 0 },
+    cid: 1553000001,
+    pages: [
+      { cid: 1553000001, page: 1, from: 'vupload', part: '第一讲 向量', duration: 2702, vid: '', weblink: '', dimension: { width: 1920, height: 1080, rotate: 0 } },
+      { cid: 1553000002, page: 2, from: 'vupload', part: '第二讲 矩阵', duration: 2703, vid: '', weblink: '', dimension: { width: 1920, height: 1080, rotate: 0 } },
+    ],
+    honor_reply: { honor: [{ aid: 113503333444555, type: 4, desc: '百万播放', weekly_recommend_num: 0 }] },
+    ugc_season: {
+      id: 2046001,
+      title: '大学数学',
+      cover: 'http://i0.hdslb.com/bfs/archive/season.jpg',
+      mid: 777001,
+      intro: '从零开始',
+      sign_state: 0,
+      attribute: 140,
+      sections: [
+        {
+          season_id: 2046001,
+          id: 2210001,
+          title: '线性代数',
+          type: 1,
+          episodes: [
+            {
+              season_id: 2046001,
+              section_id: 2210001,
+              id: 40010001,
+              aid: 113503333444555,
+              cid: 1553000001,
+              title: '线性代数 全集',
+              attribute: 0,
+              arc: {
+                aid: 113503333444555,
+                videos: 0,
+                type_id: 0,
+                copyright: 0,
+                pic: 'http://i0.hdslb.com/bfs/archive/view.jpg',
+                title: '',
+                pubdate: 1716600000,
+                duration: 5405,
+                stat: { aid: 113503333444555, view: 88001, danmaku: 902, reply: 311, fav: 5012, coin: 2210, share: 120, like: 6034, vt: 0 },
+              },
+              page: { cid: 1553000001, page: 1, from: 'vupload', part: '第一讲 向量', duration: 2702 },
+              bvid: 'BV1Pt4y1h7Kc',
+            },
+          ],
+        },
+        {
+          season_id: 2046001,
+          id: 2210002,
+          title: '微积分',
+          type: 1,
+          episodes: [
+            {
+              season_id: 2046001,
+              section_id: 2210002,
+              id: 40010002,
+              aid: 113504444555666,
+              cid: 1554000001,
+              title: '微积分 第一讲',
+              attribute: 0,
+              arc: {
+                aid: 113504444555666,
+                videos: 0,
+                type_id: 0,
+                copyright: 0,
+                pic: 'http://i0.hdslb.com/bfs/archive/calculus.jpg',
+                title: '',
+                pubdate: 1717200000,
+                duration: 3120,
+                stat: { aid: 113504444555666, view: 40230, danmaku: 310, reply: 95, fav: 2100, coin: 870, share: 40, like: 2901, vt: 0 },
+              },
+              page: { cid: 1554000001, page: 1, from: 'vupload', part: '极限', duration: 3120 },
+              bvid: 'BV1Ck411c7Qd',
+            },
+          ],
+        },
+      ],
+      ep_count: 2,
+    },
+  },
+}
+
+export const archiveTagsResponse = {
+  code: 0,
+  message: '0',
+  ttl: 1,
+  data: [
+    { tag_id: 1009, tag_name: '数学', cover: '', likes: 0, hates: 0, attribute: 0 },
+    { tag_id: 2811, tag_name: '线性代数', cover: '', likes: 0, hates: 0, attribute: 0 },
+  ],
+}
+
+// pgc/view/web/season: a region-limited anime season with one premium episode
+export const pgcSeasonResponse = {
+  code: 0,
+  message: 'success',
+  result: {
+    season_id: 39462,
+    season_title: '第一季',
+    title: '间谍过家家',
+    cover: 'http://i0.hdslb.com/bfs/bangumi/image/spyfamily.png',
+    evaluate: '为了维护东西方的和平，间谍黄昏组建了一个临时家庭。',
+    type: 1,
+    rights: { allow_download: 0, area_limit: 1, is_preview: 0 },
+    stat: { views: 281000000, favorites: 5200000, danmakus: 3100000 },
+    rating: { count: 310000, score: 9.7 },
+    up_info: { mid: 928123, uname: '哔哩哔哩番剧', avatar: 'http://i0.hdslb.com/bfs/face/bangumi.jpg' },
+    episodes: [
+      {
+        id: 508404,
+        aid: 640000001,
+        bvid: 'BV1Ty4y1p7sE',
+        cid: 590000001,
+        title: '1',
+        long_title: '行动代号“枭”',
+        cover: 'http://i0.hdslb.com/bfs/archive/ep1.png',
+        duration: 1440000,
+        badge: '',
+        status: 2,
+      },
+      {
+        id: 508405,
+        aid: 640000002,
+        bvid: 'BV1Ty4y1p7sF',
+        cid: 590000002,
+        title: '2',
+        long_title: '为妻子找个丈夫',
+        cover: 'http://i0.hdslb.com/bfs/archive/ep2.png',
+        duration: 1420000,
+        badge: '会员',
+        status: 13,
+      },
+    ],
+  },
+}
+
+// room/v1/area/getRoomList
+export const liveRoomListResponse = {
+  code: 0,
+  message: '0',
+  data: [
+    {
+      roomid: 21452505,
+      uid: 434334701,
+      title: '今天也要开心',
+      uname: '七海Nana7mi',
+      face: 'http://i0.hdslb.com/bfs/face/nana.jpg',
+      user_cover: 'http://i0.hdslb.com/bfs/live/user_cover.jpg',
+      system_cover: 'http://i0.hdslb.com/bfs/live/system_cover.jpg',
+      online: '52000',
+      area_v2_id: 371,
+      area_v2_name: '虚拟主播',
+      area_v2_parent_id: 9,
+      area_v2_parent_name: '虚拟主播',
+    },
+    {
+      roomid: 6,
+      uid: 9617619,
+      title: '英雄联盟赛事',
+      uname: '哔哩哔哩英雄联盟赛事',
+      system_cover: 'http://i0.hdslb.com/bfs/live/lol.jpg',
+      watched_show: { num: 880000 },
+      area_v2_id: 86,
+      area_v2_name: '英雄联盟',
+      area_v2_parent_id: 2,
+      area_v2_parent_name: '网游',
+    },
+  ],
+}
+
+// xlive/web-room/v1/index/getInfoByRoom
+export const liveRoomInfoResponse = {
+  code: 0,
+  message: '0',
+  data: {
+    room_info: {
+      room_id: 21452505,
+      uid: 434334701,
+      title: '今天也要开心',
+      cover: 'http://i0.hdslb.com/bfs/live/user_cover.jpg',
+      live_status: 1,
+      live_start_time: 1760000000,
+      area_id: 371,
+      area_name: '虚拟主播',
+      parent_area_id: 9,
+      parent_area_name: '虚拟主播',
+      online: 52000,
+    },
+    anchor_info: { base_info: { uname: '七海Nana7mi', face: 'http://i0.hdslb.com/bfs/face/nana.jpg' } },
+    watched_show: { num: 61000 },
+  },
+}
+
+// xlive/web-room/v2/index/getRoomPlayInfo
+export const livePlayInfoResponse = {
+  code: 0,
+  message: '0',
+  data: {
+    room_id: 21452505,
+    live_status: 1,
+    playurl_info: {
+      playurl: {
+        g_qn_desc: [
+          { qn: 10000, desc: '原画' },
+          { qn: 150, desc: '高清' },
+        ],
+        stream: [
+          {
+            protocol_name: 'http_stream',
+            format: [{
+              format_name: 'flv',
+              codec: [{
+                codec_name: 'avc',
+                current_qn: 10000,
+                accept_qn: [10000, 150],
+                base_url: '/live-bvc/live_21452505.flv?',
+                url_info: [{ host: 'https://cn-gotcha01.bilivideo.com', extra: 'expires=1' }],
+              }],
+            }],
+          },
+          {
+            protocol_name: 'http_hls',
+            format: [
+              {
+                format_name: 'ts',
+                codec: [{
+                  codec_name: 'avc',
+                  current_qn: 10000,
+                  accept_qn: [10000, 150],
+                  base_url: '/live-bvc/live_21452505/index.m3u8?',
+                  url_info: [{ host: 'https://cn-gotcha01.bilivideo.com', extra: 'expires=2' }],
+                }],
+              },
+              {
+                format_name: 'fmp4',
+                codec: [
+                  {
+                    codec_name: 'hevc',
+                    current_qn: 10000,
+                    accept_qn: [10000, 150],
+                    base_url: '/live-bvc/live_21452505_hevc/index.m3u8?',
+                    url_info: [{ host: 'https://cn-gotcha01.bilivideo.com', extra: 'expires=3' }],
+                  },
+                  {
+                    codec_name: 'avc',
+                    current_qn: 10000,
+                    accept_qn: [10000, 150],
+                    base_url: '/live-bvc/live_21452505_fmp4/index.m3u8?',
+                    url_info: [{ host: 'https://cn-gotcha01.bilivideo.com', extra: 'expires=4' }],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    },
+  },
+}
+
+// x/web-interface/wbi/search/square
+export const hotSearchResponse = {
+  code: 0,
+  message: '0',
+  data: {
+    trending: {
+      title: 'bilibili热搜',
+      list: [
+        { keyword: '原神新版本', show_name: '原神4.0版本前瞻', icon: 'http://i0.hdslb.com/bfs/activity-plat/hot.png' },
+        { keyword: 'LOL总决赛', show_name: 'LOL总决赛' },
+        { show_name: '缺少关键词' },
+      ],
+    },
+  },
+}
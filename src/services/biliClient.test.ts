@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { biliGet } from './biliClient'
+
+function jsonResponse(body: unknown, status = 200) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    text: () => Promise.resolve(JSON.stringify(body)),
+  }
+}
+
+function htmlResponse() {
+  return {
+    ok: true,
+    status: 200,
+    text: () => Promise.resolve('<!DOCTYPE html><html><body>访问被拒绝</body></html>'),
+  }
+}
+
+// Never answers; rejects when the request is aborted
+function hangingFetch(_url: string, init: RequestInit) {
+  return new Promise((_resolve, reject) => {
+    init.signal?.addEventListener('abort', () => reject(init.signal?.reason))
+  })
+}
+
+const FAST = { retryDelayMs: 0 }
+const VIEW = 'https://api.bilibili.com/x/web-interface/view?bvid=BV1xx'
+const VIEW_FALLBACK = 'https://api.bilibili.com/x/web-interface/view/detail?bvid=BV1xx'
+
+describe('biliGet', () => {
+  let fetchMock: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    fetchMock = vi.fn()
+    window.fetch = fetchMock
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('returns the envelope through the proxy', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ code: 0, data: { aid: 1 } }))
+
+    const result = await biliGet(VIEW, FAST)
+
+    expect(result).toEqual({ ok: true, value: { code: 0, data: { aid: 1 } }, endpoint: '/x/web-interface/view' })
+    expect(fetchMock).toHaveBeenCalledWith('/api/bili/x/web-interface/view?bvid=BV1xx', expect.any(Object))
+  })
+
+  it('retries risk control codes with backoff', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ code: -352, message: '风控校验失败' }))
+      .mockResolvedValueOnce(jsonResponse({ code: 0, data: {} }))
+
+    const result = await biliGet(VIEW, FAST)
+
+    expect(result.ok).toBe(true)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('reports risk control once retries run out', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ code: -412, message: '请求被拦截' }))
+
+    const result = await biliGet(VIEW, { ...FAST, retries: 1 })
+
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error.kind).toBe('risk-control')
+      expect(result.error.code).toBe(-412)
+      expect(result.error.message).toContain('risk control')
+    }
+  })
+
+  it('treats HTTP 412 as risk control and retries 5xx', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({}, 503))
+      .mockResolvedValueOnce(jsonResponse({}, 412))
+      .mockResolvedValueOnce(jsonResponse({}, 412))
+
+    const result = await biliGet(VIEW, FAST)
+
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+    expect(!result.ok && result.error).toMatchObject({ kind: 'risk-control', status: 412 })
+  })
+
+  it('moves to the next endpoint after an HTML block page', async () => {
+    fetchMock
+      .mockResolvedValueOnce(htmlResponse())
+      .mockResolvedValueOnce(jsonResponse({ code: 0, data: { aid: 2 } }))
+
+    const result = await biliGet([VIEW, VIEW_FALLBACK], FAST)
+
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(result.ok && result.endpoint).toBe('/x/web-interface/view/detail')
+  })
+
+  it('does not retry API errors and keeps the server message', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ code: -404, message: '啥都木有' }))
+
+    const result = await biliGet(VIEW, FAST)
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(!result.ok && result.error).toEqual({
+      kind: 'api',
+      message: '啥都木有',
+      endpoint: '/x/web-interface/view',
+      status: undefined,
+      code: -404,
+    })
+  })
+
+  it('accepts codes the caller asks for', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ code: -101, data: { isLogin: false } }))
+
+    const result = await biliGet(VIEW, { ...FAST, acceptCodes: [-101] })
+
+    expect(result.ok && result.value.code).toBe(-101)
+  })
+
+  it('skips endpoints that could not be built', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ code: 0 }))
+
+    const result = await biliGet([null, VIEW], FAST)
+
+    expect(result.ok).toBe(true)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('times out slow requests', async () => {
+    fetchMock.mockImplementation(hangingFetch)
+
+    const result = await biliGet(VIEW, { ...FAST, retries: 0, timeoutMs: 10 })
+
+    expect(!result.ok && result.error.kind).toBe('timeout')
+  })
+
+  it('stops when the caller aborts', async () => {
+    fetchMock.mockImplementation(hangingFetch)
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 10)
+
+    const result = await biliGet([VIEW, VIEW_FALLBACK], { ...FAST, signal: controller.signal })
+
+    expect(!result.ok && result.error.kind).toBe('aborted')
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('reports network failures', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'))
+
+    const result = await biliGet(VIEW, FAST)
+
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+    expect(!result.ok && result.error.message).toBe("Couldn't reach Bilibili: Failed to fetch")
+  })
+})
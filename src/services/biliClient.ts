@@ -0,0 +1,199 @@
+// HTTP layer for the Bilibili JSON API. Every request goes through biliGet, which
+// handles the ways Bilibili fails in one place: risk control (-412/-352), HTML block
+// pages, slow or dropped connections and per-endpoint fallbacks. Callers get a result
+// they can branch on, and a message fit to show the user.
+
+export const API_BASE = 'https://api.bilibili.com';
+export const LIVE_API_BASE = 'https://api.live.bilibili.com';
+const PROXY_API_BASE = (import.meta.env.VITE_BILI_PROXY_BASE as string | undefined)?.replace(/\/$/, '')
+  || '/api/bili'; // Vite proxy for dev mode or user-provided proxy base
+const PROXY_LIVE_API_BASE = (import.meta.env.VITE_BILI_LIVE_PROXY_BASE as string | undefined)?.replace(/\/$/, '')
+  || '/api/live';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 500;
+const RISK_CONTROL_CODES = new Set([-412, -352]);
+
+export type BiliErrorKind =
+  | 'network' // Request never got a response
+  | 'timeout'
+  | 'aborted' // Caller's signal fired
+  | 'http' // Non-2xx status
+  | 'blocked' // HTML page instead of JSON
+  | 'risk-control' // -412 / -352, or HTTP 412
+  | 'api' // Valid JSON with a non-zero code
+  | 'invalid-response'; // Empty or unparseable body
+
+export interface BiliError {
+  kind: BiliErrorKind;
+  message: string; // Ready to show
+  endpoint: string; // Path of the endpoint that failed last
+  status?: number;
+  code?: number;
+}
+
+// Standard Bilibili envelope; PGC endpoints put their payload in result instead of data
+export interface BiliEnvelope {
+  code: number;
+  message?: string;
+  data?: unknown;
+  result?: unknown;
+}
+
+export type BiliResult<T> =
+  | { ok: true; value: T; endpoint: string }
+  | { ok: false; error: BiliError };
+
+export interface BiliRequestOptions {
+  headers?: HeadersInit;
+  signal?: AbortSignal;
+  timeoutMs?: number; // Per attempt
+  retries?: number; // Per endpoint, for failures that may pass on a second try
+  retryDelayMs?: number; // First backoff step; doubles each retry
+  // Codes that are an answer rather than a failure (e.g. -404 for "no such video")
+  acceptCodes?: number[];
+}
+
+function endpointPath(url: string): string {
+  return url.replace(API_BASE, '').replace(LIVE_API_BASE, '').replace(PROXY_API_BASE, '').split('?')[0];
+}
+
+// Use proxy for all web requests (Vercel Edge Functions handle CORS). The timeout
+// aborts the request; the caller's signal is passed through.
+export async function apiFetch(
+  url: string,
+  options: RequestInit & { timeoutMs?: number } = {}
+): Promise<Response> {
+  const proxyUrl = url.startsWith(API_BASE)
+    ? url.replace(API_BASE, PROXY_API_BASE)
+    : url.startsWith(LIVE_API_BASE) ? url.replace(LIVE_API_BASE, PROXY_LIVE_API_BASE) : url;
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, signal, ...init } = options;
+
+  // Always use proxy in web mode (not Tauri)
+  console.log('[API] Using proxy:', proxyUrl);
+  const headers = new Headers(init.headers || {});
+  if (!headers.has('Accept')) {
+    headers.set('Accept', 'application/json');
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new DOMException('Timed out', 'TimeoutError')), timeoutMs);
+  const forwardAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) forwardAbort();
+  signal?.addEventListener('abort', forwardAbort);
+
+  try {
+    return await window.fetch(proxyUrl, {
+      ...init,
+      headers,
+      signal: controller.signal,
+    });
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+}
+
+function failure(kind: BiliErrorKind, endpoint: string, detail: { status?: number; code?: number; message?: string } = {}): BiliError {
+  const messages: Record<BiliErrorKind, string> = {
+    network: `Couldn't reach Bilibili${detail.message ? `: ${detail.message}` : ''}`,
+    timeout: 'Bilibili took too long to respond',
+    aborted: 'Request cancelled',
+    http: `Bilibili returned HTTP ${detail.status}`,
+    blocked: 'Bilibili returned a block page instead of data. Try again later or sign in.',
+    'risk-control': `Bilibili's risk control rejected the request (${detail.code ?? detail.status}). Wait a minute and try again.`,
+    api: detail.message || `Bilibili error ${detail.code}`,
+    'invalid-response': detail.message || "Bilibili sent a response that couldn't be read",
+  };
+  return { kind, message: messages[kind], endpoint, status: detail.status, code: detail.code };
+}
+
+// Worth a second try on the same endpoint
+function isTransient(error: BiliError): boolean {
+  return error.kind === 'network'
+    || error.kind === 'timeout'
+    || error.kind === 'risk-control'
+    || (error.kind === 'http' && (error.status === 429 || (error.status ?? 0) >= 500));
+}
+
+async function attempt(url: string, options: BiliRequestOptions): Promise<BiliResult<BiliEnvelope>> {
+  const endpoint = endpointPath(url);
+  let response: Response;
+  try {
+    response = await apiFetch(url, { headers: options.headers, signal: options.signal, timeoutMs: options.timeoutMs });
+  } catch (error) {
+    if (options.signal?.aborted) return { ok: false, error: failure('aborted', endpoint) };
+    if (error instanceof DOMException && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+      return { ok: false, error: failure('timeout', endpoint) };
+    }
+    return { ok: false, error: failure('network', endpoint, { message: error instanceof Error ? error.message : String(error) }) };
+  }
+
+  if (!response.ok) {
+    const kind = response.status === 412 ? 'risk-control' : 'http';
+    return { ok: false, error: failure(kind, endpoint, { status: response.status }) };
+  }
+
+  const text = (await response.text()).trim();
+  if (!text) return { ok: false, error: failure('invalid-response', endpoint, { message: 'Empty response from API' }) };
+  if (text.startsWith('<')) {
+    console.error('[API] Got HTML instead of JSON from', endpoint, text.substring(0, 200));
+    return { ok: false, error: failure('blocked', endpoint) };
+  }
+
+  let body: BiliEnvelope;
+  try {
+    body = JSON.parse(text) as BiliEnvelope;
+  } catch {
+    return { ok: false, error: failure('invalid-response', endpoint) };
+  }
+
+  if (typeof body?.code === 'number' && body.code !== 0 && !options.acceptCodes?.includes(body.code)) {
+    const kind = RISK_CONTROL_CODES.has(body.code) ? 'risk-control' : 'api';
+    return { ok: false, error: failure(kind, endpoint, { code: body.code, message: body.message }) };
+  }
+  return { ok: true, value: body, endpoint };
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+// Tries each endpoint in order until one answers with code 0 (or an accepted code).
+// Transient failures are retried on the same endpoint with exponential backoff first;
+// null entries (an unsigned WBI URL that couldn't be built) are skipped.
+export async function biliGet(
+  endpoints: string | (string | null | undefined)[],
+  options: BiliRequestOptions = {}
+): Promise<BiliResult<BiliEnvelope>> {
+  const urls = (Array.isArray(endpoints) ? endpoints : [endpoints]).filter((url): url is string => Boolean(url));
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  let lastError: BiliError = failure('invalid-response', '', { message: 'No endpoint to request' });
+
+  for (const url of urls) {
+    for (let tryIndex = 0; tryIndex <= retries; tryIndex++) {
+      if (tryIndex > 0) {
+        const delay = retryDelayMs * 2 ** (tryIndex - 1);
+        await wait(delay + Math.random() * delay * 0.25, options.signal);
+      }
+      if (options.signal?.aborted) return { ok: false, error: failure('aborted', endpointPath(url)) };
+
+      const result = await attempt(url, options);
+      if (result.ok) return result;
+
+      lastError = result.error;
+      if (lastError.kind === 'aborted') return result;
+      console.warn('[API]', lastError.endpoint, 'failed:', lastError.message);
+      if (!isTransient(lastError)) break;
+    }
+  }
+  return { ok: false, error: lastError };
+}
@@ -2,21 +2,40 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import {
   getTrending,
   searchVideos,
+  getHotSearches,
   getVideosByCategory,
   getCurrentUser,
+  getVideoInfo,
+  getVideoDetail,
+  getSeason,
+  getEpisodeStreamInfo,
+  episodeToVideo,
+  getAidFromBvid,
   getVideoUrl,
   formatDuration,
   formatViewCount,
   setCookies,
   getCookies,
 } from './bilibili'
+import { invalidateQueries } from './queryCache'
+import { translateContent } from './translate'
+import { viewResponse, archiveTagsResponse, pgcSeasonResponse, hotSearchResponse } from './__fixtures__/bilibili'
 
 // Mock the translate module
 vi.mock('./translate', () => ({
-  translateToEnglish: vi.fn((text) => Promise.resolve(`EN: ${text}`)),
+  translateContent: vi.fn((text) => Promise.resolve(`EN: ${text}`)),
   translateToChinese: vi.fn((text) => Promise.resolve(`ZH: ${text}`)),
 }))
 
+function jsonResponse(body: unknown) {
+  return {
+    ok: true,
+    status: 200,
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  }
+}
+
 // Sample API response data
 const mockVideoData = {
   code: 0,
@@ -120,22 +139,32 @@ describe('Bilibili Service', () => {
 
   describe('getTrending', () => {
     it('should fetch trending videos successfully', async () => {
-      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve(mockVideoData),
-        text: () => Promise.resolve(JSON.stringify(mockVideoData)),
-      })
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(jsonResponse(mockVideoData))
 
       const result = await getTrending(1)
 
       expect(result.videos).toHaveLength(1)
       expect(result.videos[0].bvid).toBe('BV1test123')
       expect(result.videos[0].title).toBe('测试视频标题')
-      expect(result.videos[0].titleEn).toBe('EN: 测试视频标题')
+      expect(result.videos[0].titleTranslated).toBe('EN: 测试视频标题')
       expect(result.videos[0].view).toBe(100000)
       expect(result.error).toBeUndefined()
     })
 
+    it('should translate cached pages again after the target language changes', async () => {
+      invalidateQueries()
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(jsonResponse(mockVideoData))
+      expect((await getTrending(1)).videos[0].titleTranslated).toBe('EN: 测试视频标题')
+
+      const french = (text: string) => Promise.resolve(`FR: ${text}`)
+      vi.mocked(translateContent).mockImplementationOnce(french).mockImplementationOnce(french)
+      const result = await getTrending(1)
+
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+      expect(result.videos[0].titleTranslated).toBe('FR: 测试视频标题')
+      expect(result.videos[0].owner.nameTranslated).toBe('FR: 测试UP主')
+    })
+
     it('should handle API error response', async () => {
       ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
         ok: true,
@@ -188,10 +217,7 @@ describe('Bilibili Service', () => {
 
   describe('searchVideos', () => {
     it('should search videos with translation', async () => {
-      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve(mockSearchData),
-      })
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(jsonResponse(mockSearchData))
 
       const result = await searchVideos('test query', 1, true)
 
@@ -205,10 +231,7 @@ describe('Bilibili Service', () => {
     })
 
     it('should search without translating query', async () => {
-      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve(mockSearchData),
-      })
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(jsonResponse(mockSearchData))
 
       const result = await searchVideos('中文查询', 1, false)
 
@@ -216,10 +239,7 @@ describe('Bilibili Service', () => {
     })
 
     it('should handle search API error', async () => {
-      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve({ code: -1, message: 'Error' }),
-      })
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(jsonResponse({ code: -1, message: 'Error' }))
 
       const result = await searchVideos('test', 1)
 
@@ -228,13 +248,10 @@ describe('Bilibili Service', () => {
     })
 
     it('should handle empty search results', async () => {
-      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve({
-          code: 0,
-          data: { result: null, numResults: 0 },
-        }),
-      })
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(jsonResponse({
+        code: 0,
+        data: { result: null, numResults: 0 },
+      }))
 
       const result = await searchVideos('nonexistent', 1)
 
@@ -253,10 +270,7 @@ describe('Bilibili Service', () => {
         },
       }
 
-      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve(categoryData),
-      })
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(jsonResponse(categoryData))
 
       const result = await getVideosByCategory(1, 1)
 
@@ -264,10 +278,7 @@ describe('Bilibili Service', () => {
     })
 
     it('should use popular endpoint for category 0', async () => {
-      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve(mockVideoData),
-      })
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(jsonResponse(mockVideoData))
 
       await getVideosByCategory(0, 1)
 
@@ -278,10 +289,7 @@ describe('Bilibili Service', () => {
     })
 
     it('should use paged region endpoint for other categories', async () => {
-      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve({ code: 0, data: { archives: [], page: { count: 0 } } }),
-      })
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(jsonResponse({ code: 0, data: { archives: [], page: { count: 0 } } }))
 
       await getVideosByCategory(3, 1)
 
@@ -294,10 +302,7 @@ describe('Bilibili Service', () => {
 
   describe('getCurrentUser', () => {
     it('should return user when logged in', async () => {
-      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve(mockUserData),
-      })
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(jsonResponse(mockUserData))
 
       const user = await getCurrentUser()
 
@@ -309,13 +314,10 @@ describe('Bilibili Service', () => {
     })
 
     it('should return null when not logged in', async () => {
-      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve({
-          code: 0,
-          data: { isLogin: false },
-        }),
-      })
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(jsonResponse({
+        code: 0,
+        data: { isLogin: false },
+      }))
 
       const user = await getCurrentUser()
 
@@ -323,10 +325,7 @@ describe('Bilibili Service', () => {
     })
 
     it('should return null on API error', async () => {
-      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve({ code: -1 }),
-      })
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(jsonResponse({ code: -1 }))
 
       const user = await getCurrentUser()
 
@@ -334,6 +333,151 @@ describe('Bilibili Service', () => {
     })
   })
 
+  describe('request sharing', () => {
+    it('fetches a video view once for everything that reads it', async () => {
+      const view = { code: 0, data: { ...mockVideoData.data.list[0], bvid: 'BV1shared' } }
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue(jsonResponse(view))
+
+      const [video, aid] = await Promise.all([getVideoInfo('BV1shared'), getAidFromBvid('BV1shared')])
+      const again = await getVideoInfo('BV1shared')
+
+      expect(video?.aid).toBe(123456)
+      expect(aid).toBe(123456)
+      expect(again?.cid).toBe(789)
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('getVideoDetail', () => {
+    it('returns parts with translated titles, and tags', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockImplementation((url: string) =>
+        Promise.resolve(jsonResponse(url.includes('/x/tag/archive/tags') ? archiveTagsResponse : viewResponse))
+      )
+
+      const detail = await getVideoDetail('BV1Pt4y1h7Kc')
+
+      expect(detail?.video.titleTranslated).toBe('EN: 线性代数 全集')
+      expect(detail?.pages.map(page => [page.cid, page.partTranslated])).toEqual([
+        [1553000001, 'EN: 第一讲 向量'],
+        [1553000002, 'EN: 第二讲 矩阵'],
+      ])
+      expect(detail?.tags.map(tag => tag.name)).toEqual(['数学', '线性代数'])
+      expect(detail?.rights.download).toBe(true)
+      expect(detail?.collection?.titleTranslated).toBe('EN: 大学数学')
+      expect(detail?.collection?.sections[1].episodes[0].titleTranslated).toBe('EN: 微积分 第一讲')
+    })
+
+    it('still returns the video when tags fail', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockImplementation((url: string) =>
+        Promise.resolve(url.includes('/x/tag/archive/tags')
+          ? jsonResponse({ code: -400, message: 'bad request' })
+          : jsonResponse({ code: 0, data: { ...viewResponse.data, bvid: 'BV1notags' } }))
+      )
+
+      const detail = await getVideoDetail('BV1notags')
+
+      expect(detail?.video.bvid).toBe('BV1notags')
+      expect(detail?.tags).toEqual([])
+    })
+
+    it('keeps the video when its collection changed shape', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockImplementation((url: string) =>
+        Promise.resolve(jsonResponse(url.includes('/x/tag/archive/tags')
+          ? archiveTagsResponse
+          : { code: 0, data: { ...viewResponse.data, bvid: 'BV1oddseason', ugc_season: { id: 1, title: '合集', sections: null } } }))
+      )
+
+      const detail = await getVideoDetail('BV1oddseason')
+
+      expect(detail?.pages).toHaveLength(2)
+      expect(detail?.collection).toBeUndefined()
+      expect(warn).toHaveBeenCalledWith('[Bilibili] Skipped video collection:', expect.stringContaining('data.ugc_season.sections'))
+      warn.mockRestore()
+    })
+  })
+
+  describe('getHotSearches', () => {
+    it('returns trending keywords with translated display names', async () => {
+      // The WBI-signed endpoint needs the signing keys from nav first
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockImplementation((url: string) => Promise.resolve(jsonResponse(
+        url.includes('/nav')
+          ? { code: 0, data: { wbi_img: { img_url: 'https://i0.hdslb.com/bfs/wbi/7cd084941338484aae1ad9425b84077c.png', sub_url: 'https://i0.hdslb.com/bfs/wbi/4932caff0ff746eab6f01bf08b70ac45.png' } } }
+          : hotSearchResponse
+      )))
+
+      const result = await getHotSearches()
+
+      expect(result.error).toBeUndefined()
+      // The entry without a keyword is dropped
+      expect(result.keywords).toEqual([
+        {
+          keyword: '原神新版本',
+          showName: '原神4.0版本前瞻',
+          showNameTranslated: 'EN: 原神4.0版本前瞻',
+          icon: 'https://i0.hdslb.com/bfs/activity-plat/hot.png',
+        },
+        { keyword: 'LOL总决赛', showName: 'LOL总决赛', showNameTranslated: 'EN: LOL总决赛', icon: '' },
+      ])
+    })
+  })
+
+  describe('PGC seasons', () => {
+    it('returns a season with translated episode titles', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(jsonResponse(pgcSeasonResponse))
+
+      const result = await getSeason('ss', 39462)
+
+      expect(result.error).toBeUndefined()
+      expect(result.season?.titleTranslated).toBe('EN: 间谍过家家')
+      expect(result.season?.episodes.map(episode => episode.longTitleTranslated)).toEqual([
+        'EN: 行动代号“枭”',
+        'EN: 为妻子找个丈夫',
+      ])
+    })
+
+    it('explains a region lock', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
+        jsonResponse({ code: -10403, message: '抱歉您所在地区不可观看！' })
+      )
+
+      const result = await getSeason('ep', 508499)
+
+      expect(result.season).toBeNull()
+      expect(result.error).toContain("isn't available in your region")
+    })
+
+    it('turns an episode into a video that plays through the PGC endpoint', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(jsonResponse(pgcSeasonResponse))
+      const { season } = await getSeason('ss', 39463)
+
+      const video = episodeToVideo(season!, season!.episodes[1])
+
+      expect(video).toMatchObject({
+        bvid: 'BV1Ty4y1p7sF',
+        cid: 590000002,
+        epId: 508405,
+        title: '间谍过家家 EP2 为妻子找个丈夫',
+        titleTranslated: 'EN: 间谍过家家 EP2 EN: 为妻子找个丈夫',
+        owner: { mid: 928123, name: '哔哩哔哩番剧' },
+      })
+    })
+
+    it('explains a premium-only episode instead of returning no stream', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
+        jsonResponse({ code: 6002105, message: '开通大会员观看' })
+      )
+
+      const result = await getEpisodeStreamInfo({ epId: 508405, cid: 590000002 })
+
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.error.kind).toBe('api')
+        expect(result.error.message).toContain('Bilibili Premium')
+      }
+    })
+  })
+
   describe('getVideoUrl', () => {
     it('should generate correct video URL', () => {
       const url = getVideoUrl('BV1test123')
@@ -8,19 +8,59 @@ import type {
   BiliCommentsResult,
   BiliChannel,
   BiliChannelVideosResult,
+  BiliVideoDetail,
+  BiliCollection,
+  BiliEpisode,
+  BiliSeason,
+  BiliSeasonResult,
+  BiliSeasonSummary,
+  BiliHotSearchResult,
 } from '../types/bilibili';
-import { translateToEnglish, translateToChinese } from './translate';
+import { translateContent, translateToChinese } from './translate';
+import {
+  parseDanmakuSegment,
+  parseDanmakuXml,
+  sortDanmaku,
+  DANMAKU_SEGMENT_SECONDS,
+  type DanmakuItem,
+} from './danmaku';
+import {
+  ARCHIVE_SCHEMA,
+  CHANNEL_VIDEO_SCHEMA,
+  COLLECTION_SCHEMA,
+  HOT_SEARCH_SCHEMA,
+  REGION_ARCHIVE_SCHEMA,
+  SEARCH_RESULT_SCHEMA,
+  SEASON_RANK_SCHEMA,
+  SEASON_SCHEMA,
+  VIDEO_DETAIL_SCHEMA,
+  VIDEO_TAG_SCHEMA,
+  normalizeCollection,
+  normalizeHotSearch,
+  normalizeSeason,
+  normalizeSeasonSummary,
+  normalizeVideo,
+  normalizeVideoDetail,
+  parseList,
+  parseResponse,
+} from './bilibiliSchemas';
+import {
+  API_BASE,
+  apiFetch,
+  biliGet,
+  type BiliEnvelope,
+  type BiliError,
+  type BiliRequestOptions,
+  type BiliResult,
+} from './biliClient';
+import { cachedQuery, invalidateQueries, setQueryData, type QueryPolicy } from './queryCache';
 
-const API_BASE = 'https://api.bilibili.com';
 const WWW_BASE = 'https://www.bilibili.com';
 const SPACE_BASE = 'https://space.bilibili.com';
-const PROXY_API_BASE = (import.meta.env.VITE_BILI_PROXY_BASE as string | undefined)?.replace(/\/$/, '')
-  || '/api/bili'; // Vite proxy for dev mode or user-provided proxy base
 const BVID_TABLE = 'fZodR9XQDSUm21yCkr6zBqiveYah8bt4xsWpHnJE7jL5VG3guMTKNPAwcF';
 const BVID_POSITIONS = [11, 10, 3, 8, 4, 6];
 const BVID_XOR = 177451812n;
 const BVID_ADD = 8728348608n;
-const aidCache = new Map<string, number>();
 
 // Check isTauri dynamically (Tauri 2.0 uses __TAURI_INTERNALS__)
 function checkIsTauri(): boolean {
@@ -47,22 +87,6 @@ type WbiKeys = {
   fetchedAt: number;
 };
 
-// Use proxy for all web requests (Vercel Edge Functions handle CORS)
-async function apiFetch(url: string, options: RequestInit = {}): Promise<Response> {
-  const proxyUrl = url.startsWith(API_BASE) ? url.replace(API_BASE, PROXY_API_BASE) : url;
-
-  // Always use proxy in web mode (not Tauri)
-  console.log('[API] Using proxy:', proxyUrl);
-  const headers = new Headers(options.headers || {});
-  if (!headers.has('Accept')) {
-    headers.set('Accept', 'application/json');
-  }
-  return window.fetch(proxyUrl, {
-    ...options,
-    headers,
-  });
-}
-
 let storedCookies: string = '';
 
 // Generate buvid cookies for anonymous API access (prevents -352 error)
@@ -89,6 +113,8 @@ export function getBuvidCookies(): string {
 }
 
 export function setCookies(cookies: string) {
+  // Signed-in and anonymous sessions get different answers
+  if (cookies !== storedCookies) invalidateQueries();
   storedCookies = cookies;
 }
 
@@ -110,15 +136,15 @@ async function translateVideoDetails(videos: BiliVideo[]): Promise<void> {
       uniqueNames.get(video.owner.name)!.push(String(i));
     });
 
-    // Translate titles and unique channel names in parallel
+    // Translate titles and unique channel names; the scheduler merges these into a few requests
     const [translatedTitles, translatedNames] = await Promise.all([
-      Promise.all(videos.map(v => translateToEnglish(v.title).catch(() => v.title))),
-      Promise.all([...uniqueNames.keys()].map(name => translateToEnglish(name).catch(() => name))),
+      Promise.all(videos.map(v => translateContent(v.title).catch(() => v.title))),
+      Promise.all([...uniqueNames.keys()].map(name => translateContent(name).catch(() => name))),
     ]);
 
     // Apply translated titles
     videos.forEach((video, i) => {
-      video.titleEn = translatedTitles[i];
+      video.titleTranslated = translatedTitles[i];
     });
 
     // Apply translated channel names
@@ -126,7 +152,7 @@ async function translateVideoDetails(videos: BiliVideo[]): Promise<void> {
     nameEntries.forEach((originalName, i) => {
       const translatedName = translatedNames[i];
       uniqueNames.get(originalName)!.forEach(indexStr => {
-        videos[Number(indexStr)].owner.nameEn = translatedName;
+        videos[Number(indexStr)].owner.nameTranslated = translatedName;
       });
     });
   } catch (error) {
@@ -166,6 +192,48 @@ function getHeaders(options?: { includeCookies?: boolean; includeBuvid?: boolean
   return headers;
 }
 
+const MINUTE = 60 * 1000;
+
+// Reads worth sharing between callers, by path. Anything not listed (comments,
+// playurl, nav) is always fetched.
+const CACHE_POLICIES: Record<string, QueryPolicy> = {
+  '/x/web-interface/view': { ttlMs: 10 * MINUTE, staleMs: 50 * MINUTE },
+  '/x/player/v2': { ttlMs: 5 * MINUTE },
+  '/x/tag/archive/tags': { ttlMs: 30 * MINUTE, staleMs: 2 * 60 * MINUTE },
+  '/x/web-interface/archive/related': { ttlMs: 10 * MINUTE, staleMs: 20 * MINUTE },
+  '/x/web-interface/popular': { ttlMs: 5 * MINUTE, staleMs: 10 * MINUTE },
+  '/x/web-interface/dynamic/region': { ttlMs: 5 * MINUTE, staleMs: 10 * MINUTE },
+  '/x/web-interface/ranking/v2': { ttlMs: 10 * MINUTE, staleMs: 20 * MINUTE },
+  '/x/web-interface/ranking/region': { ttlMs: 10 * MINUTE, staleMs: 20 * MINUTE },
+  '/x/web-interface/search/type': { ttlMs: 5 * MINUTE },
+  '/x/web-interface/wbi/search/square': { ttlMs: 5 * MINUTE, staleMs: 10 * MINUTE },
+  '/x/space/wbi/acc/info': { ttlMs: 30 * MINUTE, staleMs: 2 * 60 * MINUTE },
+  '/x/space/acc/info': { ttlMs: 30 * MINUTE, staleMs: 2 * 60 * MINUTE },
+  '/x/relation/stat': { ttlMs: 10 * MINUTE, staleMs: 60 * MINUTE },
+  '/x/space/wbi/arc/search': { ttlMs: 5 * MINUTE, staleMs: 10 * MINUTE },
+  '/x/space/arc/search': { ttlMs: 5 * MINUTE, staleMs: 10 * MINUTE },
+  '/pgc/view/web/season': { ttlMs: 10 * MINUTE, staleMs: 50 * MINUTE },
+  '/pgc/web/rank/list': { ttlMs: 10 * MINUTE, staleMs: 20 * MINUTE },
+};
+
+// A bvid's aid never changes
+const AID_POLICY: QueryPolicy = { ttlMs: Infinity };
+
+// The WBI signature changes every call; the request it signs doesn't
+function queryKey(urls: string[]): string {
+  return urls.map(url => url.replace(API_BASE, '').replace(/&?\b(wts|w_rid)=[^&]*/g, '')).join(' | ');
+}
+
+// biliGet with this session's headers, through the query cache when the first
+// endpoint has a policy (a list of fallbacks is cached as one read)
+function getJson(endpoints: string | (string | null | undefined)[], options: BiliRequestOptions = {}) {
+  const urls = (Array.isArray(endpoints) ? endpoints : [endpoints]).filter((url): url is string => Boolean(url));
+  const load = () => biliGet(urls, { headers: getHeaders(), ...options });
+  const policy = urls.length > 0 ? CACHE_POLICIES[new URL(urls[0]).pathname] : undefined;
+  if (!policy) return load();
+  return cachedQuery(queryKey(urls), load, policy, result => result.ok);
+}
+
 function extractWbiKey(url: unknown): string {
   if (typeof url !== 'string') return '';
   const last = url.split('/').pop() || '';
@@ -309,9 +377,14 @@ async function getWbiKeys(): Promise<WbiKeys | null> {
   }
 
   try {
-    const response = await apiFetch(`${API_BASE}/x/web-interface/nav`, { headers: getHeaders() });
-    const data = await response.json();
-    const wbi = data.data?.wbi_img;
+    // nav answers -101 when logged out but still carries the keys
+    const result = await getJson(`${API_BASE}/x/web-interface/nav`, { acceptCodes: [-101] });
+    if (!result.ok) {
+      console.error('Failed to get WBI keys:', result.error.message);
+      return null;
+    }
+    const data = result.value.data as { wbi_img?: Record<string, unknown> } | undefined;
+    const wbi = data?.wbi_img;
     const imgKey = extractWbiKey(wbi?.img_url || wbi?.img);
     const subKey = extractWbiKey(wbi?.sub_url || wbi?.sub);
 
@@ -328,7 +401,12 @@ async function getWbiKeys(): Promise<WbiKeys | null> {
   }
 }
 
-async function buildWbiUrl(path: string, params: Record<string, string | number | undefined>): Promise<string | null> {
+// Signed URL for a WBI-protected endpoint, or null when the keys can't be fetched
+export async function buildWbiUrl(
+  path: string,
+  params: Record<string, string | number | undefined>,
+  base: string = API_BASE
+): Promise<string | null> {
   const wbiKeys = await getWbiKeys();
   if (!wbiKeys) return null;
 
@@ -342,7 +420,7 @@ async function buildWbiUrl(path: string, params: Record<string, string | number
     .map(([key, value]) => `${encodeWbiComponent(key)}=${encodeWbiComponent(value)}`)
     .join('&');
   const wRid = md5(`${query}${wbiKeys.mixinKey}`);
-  return `${API_BASE}${path}?${query}&w_rid=${wRid}`;
+  return `${base}${path}?${query}&w_rid=${wRid}`;
 }
 
 // Debug helper - exposes last error to window for visibility
@@ -403,68 +481,30 @@ if (typeof window !== 'undefined') {
   };
 }
 
-// Cache for ranking videos (fetched once, paginated client-side)
-let rankingCache: BiliVideo[] = [];
-let rankingCacheTime = 0;
-const RANKING_CACHE_TTL = 10 * 60 * 1000; // 10 minutes
+// The whole ranking comes in one response, cached as sent and paginated client-side
+async function getRanking(): Promise<BiliResult<BiliVideo[]>> {
+  const result = await getJson(`${API_BASE}/x/web-interface/ranking/v2?rid=0&type=all`);
+  if (!result.ok) return result;
+
+  const data = result.value.data as { list?: unknown } | undefined;
+  const videos = parseList('ranking/v2', ARCHIVE_SCHEMA, data?.list).map(item => normalizeVideo(item));
+  return { ok: true, value: videos, endpoint: result.endpoint };
+}
 
 export async function getTrending(pageNum: number = 1): Promise<BiliTrendingResult> {
   try {
     const pageSize = 20;
-    const now = Date.now();
-
-    // Fetch ranking if cache is empty or expired
-    if (rankingCache.length === 0 || now - rankingCacheTime > RANKING_CACHE_TTL) {
-      console.log('[Bilibili] Fetching ranking...');
-      const url = `${API_BASE}/x/web-interface/ranking/v2?rid=0&type=all`;
-
-      const response = await apiFetch(url, {
-        method: 'GET',
-        headers: getHeaders()
-      });
-
-      if (!response.ok) {
-        return { videos: [], error: `HTTP error: ${response.status}` };
-      }
-
-      const data = JSON.parse(await response.text());
-
-      if (data.code !== 0) {
-        return { videos: [], error: data.message };
-      }
-
-      const allVideos: BiliVideo[] = data.data.list.map((item: Record<string, unknown>) => ({
-        bvid: item.bvid as string,
-        aid: Number(item.aid) || 0,
-        title: item.title as string,
-        desc: item.desc as string,
-        pic: normalizeImageUrl(item.pic),
-        duration: item.duration as number,
-        view: (item.stat as Record<string, number>).view,
-        danmaku: (item.stat as Record<string, number>).danmaku,
-        reply: (item.stat as Record<string, number>).reply,
-        favorite: (item.stat as Record<string, number>).favorite,
-        coin: (item.stat as Record<string, number>).coin,
-        share: (item.stat as Record<string, number>).share,
-        like: (item.stat as Record<string, number>).like,
-        owner: item.owner as { mid: number; name: string; face: string },
-        pubdate: item.pubdate as number,
-        cid: item.cid as number,
-      }));
-
-      // Translate all videos
-      await translateVideoDetails(allVideos);
-
-      rankingCache = allVideos;
-      rankingCacheTime = now;
-      console.log('[Bilibili] Cached', rankingCache.length, 'ranking videos');
+    const ranking = await getRanking();
+    if (!ranking.ok) {
+      return { videos: [], error: ranking.error.message };
     }
 
     // Paginate from cache
     const start = (pageNum - 1) * pageSize;
     const end = start + pageSize;
-    const videos = rankingCache.slice(start, end);
-    const hasMore = end < rankingCache.length;
+    const videos = ranking.value.slice(start, end);
+    const hasMore = end < ranking.value.length;
+    await translateVideoDetails(videos);
 
     console.log('[Bilibili] Returning page', pageNum, ':', videos.length, 'videos, hasMore:', hasMore);
 
@@ -486,10 +526,6 @@ export interface SearchFilters {
   duration?: 0 | 1 | 2 | 3 | 4; // 0=all, 1=<10min, 2=10-30, 3=30-60, 4=>60
 }
 
-function hasCjkCharacters(value: string): boolean {
-  return /[\u4E00-\u9FFF]/.test(value);
-}
-
 export async function searchVideos(
   query: string,
   page: number = 1,
@@ -497,9 +533,8 @@ export async function searchVideos(
   filters?: SearchFilters
 ): Promise<BiliSearchResult> {
   try {
-    // Translate English query to Chinese
-    const shouldTranslate = translateQuery && !hasCjkCharacters(query);
-    const searchQuery = shouldTranslate ? await translateToChinese(query) : query;
+    // Queries that are already Chinese come back from translateToChinese unchanged
+    const searchQuery = translateQuery ? await translateToChinese(query) : query;
 
     // Build URL with optional filters
     let url = `${API_BASE}/x/web-interface/search/type?search_type=video&keyword=${encodeURIComponent(searchQuery)}&page=${page}&page_size=20`;
@@ -511,63 +546,57 @@ export async function searchVideos(
       url += `&duration=${filters.duration}`;
     }
 
-    const response = await apiFetch(url, { headers: getHeaders() });
-
-    const data = await response.json();
-
-    if (data.code !== 0) {
-      console.error('Bilibili search error:', data.message);
-      return { videos: [], total: 0, page, pageSize: 20 };
+    const result = await getJson(url);
+    if (!result.ok) {
+      console.error('Bilibili search error:', result.error.message);
+      return { videos: [], total: 0, page, pageSize: 20, error: result.error.message };
     }
 
-    const results = data.data.result || [];
-
-    const videos: BiliVideo[] = results.map((item: Record<string, unknown>) => ({
-      bvid: item.bvid as string,
-      aid: Number(item.aid) || 0,
-      title: (item.title as string).replace(/<[^>]*>/g, ''), // Remove HTML tags from search results
-      desc: item.description as string || '',
-      pic: normalizeImageUrl(item.pic),
-      duration: parseDuration(item.duration as string),
-      view: parseCount(item.play),
-      danmaku: parseCount(item.danmaku),
-      reply: 0,
-      favorite: parseCount(item.favorites),
-      coin: 0,
-      share: 0,
-      like: parseCount(item.like),
-      owner: {
-        mid: item.mid as number,
-        name: item.author as string,
-        face: item.upic as string || '',
-      },
-      pubdate: item.pubdate as number,
-    }));
+    const data = result.value.data as { result?: unknown; numResults?: number } | undefined;
+    const videos = parseList('search', SEARCH_RESULT_SCHEMA, data?.result ?? [], 'data.result')
+      .map(item => normalizeVideo(item));
 
     // Translate titles and channel names
     await translateVideoDetails(videos);
 
     return {
       videos,
-      total: data.data.numResults || 0,
+      total: data?.numResults || 0,
       page,
       pageSize: 20,
     };
   } catch (error) {
     console.error('Error searching:', error);
-    return { videos: [], total: 0, page, pageSize: 20 };
+    const message = error instanceof Error ? error.message : String(error);
+    return { videos: [], total: 0, page, pageSize: 20, error: message };
   }
 }
 
-function normalizeImageUrl(value: unknown): string {
-  if (typeof value !== 'string') return '';
-  const trimmed = value.trim();
-  if (!trimmed) return '';
-  if (trimmed.startsWith('//')) return `https:${trimmed}`;
-  return trimmed.replace(/^http:/, 'https:');
+// What people are searching for right now, with English display names. Search with
+// the original keyword; translating it back to Chinese could change it.
+export async function getHotSearches(limit: number = 10): Promise<BiliHotSearchResult> {
+  try {
+    const result = await getJson([
+      await buildWbiUrl('/x/web-interface/wbi/search/square', { limit }),
+      `${API_BASE}/x/web-interface/search/square?limit=${limit}`,
+    ]);
+    if (!result.ok) {
+      return { keywords: [], error: result.error.message };
+    }
+    const list = (result.value.data as { trending?: { list?: unknown } } | undefined)?.trending?.list;
+    const keywords = parseList('search/square', HOT_SEARCH_SCHEMA, list, 'data.trending.list').map(normalizeHotSearch);
+    const names = await Promise.all(keywords.map(item => translateContent(item.showName).catch(() => item.showName)));
+    keywords.forEach((item, i) => {
+      item.showNameTranslated = names[i];
+    });
+    return { keywords };
+  } catch (error) {
+    console.error('Error getting hot searches:', error);
+    return { keywords: [], error: error instanceof Error ? error.message : String(error) };
+  }
 }
 
-function extractCategoryList(data: Record<string, unknown>): { list: Record<string, unknown>[]; total?: number } {
+function extractCategoryList(data: BiliEnvelope): { list: Record<string, unknown>[]; total?: number } {
   const payload = data.data as Record<string, unknown> | unknown[] | undefined;
   if (Array.isArray(payload)) {
     return { list: payload as Record<string, unknown>[] };
@@ -594,38 +623,6 @@ function extractCategoryList(data: Record<string, unknown>): { list: Record<stri
   return { list, total };
 }
 
-function mapCategoryItem(item: Record<string, unknown>): BiliVideo {
-  const stat = item.stat as Record<string, unknown> | undefined;
-  const owner = item.owner as Record<string, unknown> | undefined;
-  const rawTitle = typeof item.title === 'string' ? item.title : '';
-  const durationValue = item.duration as string | number | undefined;
-  const duration = typeof durationValue === 'string' || typeof durationValue === 'number'
-    ? parseDuration(durationValue)
-    : 0;
-
-  return {
-    bvid: (item.bvid as string) || '',
-    aid: (item.aid as number) || 0,
-    title: rawTitle.replace(/<[^>]*>/g, ''),
-    desc: (item.desc as string) || (item.description as string) || '',
-    pic: normalizeImageUrl(item.pic),
-    duration,
-    view: parseCount(stat?.view ?? item.play ?? item.view),
-    danmaku: parseCount(stat?.danmaku ?? item.danmaku ?? item.video_review),
-    reply: parseCount(stat?.reply ?? item.reply),
-    favorite: parseCount(stat?.favorite ?? item.favorites),
-    coin: parseCount(stat?.coin ?? item.coins),
-    share: parseCount(stat?.share ?? item.share),
-    like: parseCount(stat?.like ?? item.like),
-    owner: {
-      mid: (owner?.mid as number) || (item.mid as number) || 0,
-      name: (owner?.name as string) || (item.author as string) || '',
-      face: normalizeImageUrl(owner?.face ?? item.face ?? item.upic),
-    },
-    pubdate: (item.pubdate as number) || (item.create as number) || (item.ctime as number) || 0,
-  };
-}
-
 export async function getVideosByCategory(
   tid: number,
   page: number = 1
@@ -633,43 +630,15 @@ export async function getVideosByCategory(
   try {
     const pageSize = 20;
 
-    const fetchCategory = async (url: string) => {
-      const response = await apiFetch(url, { headers: getHeaders() });
-      const data = await response.json();
-      if (data.code !== 0) {
-        return null;
-      }
-      return extractCategoryList(data);
-    };
-
     if (tid === 0) {
-      const url = `${API_BASE}/x/web-interface/popular?ps=${pageSize}&pn=${page}`;
-      const response = await apiFetch(url, { headers: getHeaders() });
-      const data = await response.json();
-
-      if (data.code !== 0) {
-        console.error('Bilibili API error:', data.message);
-        return { videos: [] };
+      const result = await getJson(`${API_BASE}/x/web-interface/popular?ps=${pageSize}&pn=${page}`);
+      if (!result.ok) {
+        console.error('Bilibili API error:', result.error.message);
+        return { videos: [], error: result.error.message };
       }
 
-      const list = Array.isArray(data.data?.list) ? data.data.list : [];
-      const videos: BiliVideo[] = list.map((item: Record<string, unknown>) => ({
-        bvid: item.bvid as string,
-        aid: Number(item.aid) || 0,
-        title: item.title as string,
-        desc: item.desc as string || item.description as string || '',
-        pic: item.pic as string,
-        duration: typeof item.duration === 'string' ? parseDuration(item.duration) : item.duration as number,
-        view: item.stat ? parseCount((item.stat as Record<string, number>).view) : parseCount(item.play),
-        danmaku: item.stat ? parseCount((item.stat as Record<string, number>).danmaku) : parseCount(item.video_review),
-        reply: item.stat ? parseCount((item.stat as Record<string, number>).reply) : 0,
-        favorite: item.stat ? parseCount((item.stat as Record<string, number>).favorite) : parseCount(item.favorites),
-        coin: item.stat ? parseCount((item.stat as Record<string, number>).coin) : parseCount(item.coins),
-        share: item.stat ? parseCount((item.stat as Record<string, number>).share) : 0,
-        like: item.stat ? parseCount((item.stat as Record<string, number>).like) : 0,
-        owner: item.owner || { mid: item.mid, name: item.author, face: '' },
-        pubdate: item.pubdate as number || item.create as number || 0,
-      }));
+      const data = result.value.data as { list?: unknown } | undefined;
+      const videos = parseList('popular', ARCHIVE_SCHEMA, data?.list ?? []).map(item => normalizeVideo(item));
 
       // Translate titles and channel names
       await translateVideoDetails(videos);
@@ -682,34 +651,29 @@ export async function getVideosByCategory(
       };
     }
 
-    const pagedEndpoints = [
+    let result = await getJson([
       `${API_BASE}/x/web-interface/dynamic/region?rid=${tid}&pn=${page}&ps=${pageSize}`,
       `${API_BASE}/x/web-interface/newlist?rid=${tid}&pn=${page}&ps=${pageSize}`,
-    ];
-
-    let listData: { list: Record<string, unknown>[]; total?: number } | null = null;
+    ]);
     let usesPagedEndpoint = true;
 
-    for (const endpoint of pagedEndpoints) {
-      listData = await fetchCategory(endpoint);
-      if (listData) {
-        break;
-      }
-    }
-
-    if (!listData) {
+    if (!result.ok) {
       if (page > 1) {
         return { videos: [], page, pageSize, hasMore: false };
       }
+      // The weekly region ranking has no pages, but is one more list to show
       usesPagedEndpoint = false;
-      listData = await fetchCategory(`${API_BASE}/x/web-interface/ranking/region?rid=${tid}&day=7&original=0`)
-        || { list: [] };
+      result = await getJson(`${API_BASE}/x/web-interface/ranking/region?rid=${tid}&day=7&original=0`);
+    }
+
+    if (!result.ok) {
+      console.error('Bilibili API error:', result.error.message);
+      return { videos: [], page, pageSize, hasMore: false, error: result.error.message };
     }
 
-    const list = listData.list;
-    const total = listData.total;
+    const { list, total } = extractCategoryList(result.value);
 
-    const videos: BiliVideo[] = list.map(mapCategoryItem);
+    const videos = parseList('region', REGION_ARCHIVE_SCHEMA, list).map(item => normalizeVideo(item));
 
     // Translate titles and channel names
     await translateVideoDetails(videos);
@@ -723,29 +687,28 @@ export async function getVideosByCategory(
     return { videos, page, pageSize, total, hasMore };
   } catch (error) {
     console.error('Error fetching category:', error);
-    return { videos: [] };
+    return { videos: [], error: error instanceof Error ? error.message : String(error) };
   }
 }
 
 export async function getCurrentUser(): Promise<BiliUser | null> {
   try {
-    const response = await apiFetch(
-      `${API_BASE}/x/web-interface/nav`,
-      { headers: getHeaders() }
-    );
-
-    const data = await response.json();
+    const result = await getJson(`${API_BASE}/x/web-interface/nav`);
+    if (!result.ok) {
+      return null;
+    }
 
-    if (data.code !== 0 || !data.data.isLogin) {
+    const data = result.value.data as Record<string, unknown> | undefined;
+    if (!data?.isLogin) {
       return null;
     }
 
     return {
-      mid: data.data.mid,
-      name: data.data.uname,
-      face: data.data.face,
-      sign: data.data.sign || '',
-      level: data.data.level_info?.current_level || 0,
+      mid: data.mid as number,
+      name: data.uname as string,
+      face: data.face as string,
+      sign: (data.sign as string) || '',
+      level: (data.level_info as Record<string, number> | undefined)?.current_level || 0,
       isLogin: true,
     };
   } catch (error) {
@@ -786,18 +749,6 @@ export function formatViewCount(count: number): string {
   return count.toString();
 }
 
-function parseDuration(duration: string | number): number {
-  if (typeof duration === 'number') return duration;
-  const parts = duration.split(':').map(Number);
-  if (parts.length === 3) {
-    return parts[0] * 3600 + parts[1] * 60 + parts[2];
-  }
-  if (parts.length === 2) {
-    return parts[0] * 60 + parts[1];
-  }
-  return 0;
-}
-
 function decodeAidFromBvid(bvid: string): number | null {
   if (!bvid || !bvid.startsWith('BV') || bvid.length < 12) return null;
   let r = 0n;
@@ -814,29 +765,26 @@ function decodeAidFromBvid(bvid: string): number | null {
 }
 
 // Get aid from bvid
-export async function getAidFromBvid(bvid: string): Promise<number | null> {
-  const cached = aidCache.get(bvid);
-  if (cached) {
-    return cached;
-  }
+export function getAidFromBvid(bvid: string): Promise<number | null> {
+  return cachedQuery(`aid:${bvid}`, () => fetchAid(bvid), AID_POLICY, aid => aid !== null);
+}
+
+async function fetchAid(bvid: string): Promise<number | null> {
   const decoded = decodeAidFromBvid(bvid);
   try {
     console.log('[getAidFromBvid] Fetching aid for bvid:', bvid);
-    const url = `${API_BASE}/x/web-interface/view?bvid=${bvid}`;
-    const response = await apiFetch(url, { headers: getHeaders() });
-    const data = await response.json();
-    console.log('[getAidFromBvid] Response code:', data.code, 'aid:', data.data?.aid);
-    if (data.code === 0 && data.data?.aid) {
-      const aid = Number(data.data.aid);
+    const result = await getJson(`${API_BASE}/x/web-interface/view?bvid=${bvid}`);
+    const data = result.ok ? result.value.data as { aid?: unknown } | undefined : undefined;
+    console.log('[getAidFromBvid] aid:', data?.aid);
+    if (data?.aid) {
+      const aid = Number(data.aid);
       if (Number.isSafeInteger(aid) && aid > 0) {
-        aidCache.set(bvid, aid);
         return aid;
       }
     }
-    console.error('[getAidFromBvid] Failed to get aid:', data.message || 'No aid in response');
+    console.error('[getAidFromBvid] Failed to get aid:', result.ok ? 'No aid in response' : result.error.message);
     if (decoded) {
       console.warn('[getAidFromBvid] Falling back to decoded aid:', decoded);
-      aidCache.set(bvid, decoded);
       return decoded;
     }
     return null;
@@ -844,13 +792,113 @@ export async function getAidFromBvid(bvid: string): Promise<number | null> {
     console.error('[getAidFromBvid] Error:', err);
     if (decoded) {
       console.warn('[getAidFromBvid] Falling back to decoded aid:', decoded);
-      aidCache.set(bvid, decoded);
       return decoded;
     }
     return null;
   }
 }
 
+// Full video metadata for a bvid (used when opening a video from a link)
+export async function getVideoInfo(bvid: string): Promise<BiliVideo | null> {
+  try {
+    const result = await getJson(`${API_BASE}/x/web-interface/view?bvid=${bvid}`);
+    if (!result.ok) {
+      console.error('Failed to get video info:', result.error.message);
+      return null;
+    }
+
+    const video = normalizeVideo(parseResponse('view', ARCHIVE_SCHEMA, result.value.data));
+
+    if (video.aid > 0) {
+      setQueryData(`aid:${video.bvid}`, video.aid);
+    }
+
+    await translateVideoDetails([video]);
+    return video;
+  } catch (error) {
+    console.error('Error getting video info:', error);
+    return null;
+  }
+}
+
+// A video's tags; a video without them (or a failed lookup) just shows none
+async function getVideoTags(bvid: string) {
+  try {
+    const result = await getJson(`${API_BASE}/x/tag/archive/tags?bvid=${bvid}`);
+    if (!result.ok || !result.value.data) return [];
+    return parseList('archive/tags', VIDEO_TAG_SCHEMA, result.value.data, 'data');
+  } catch (error) {
+    console.warn('[Bilibili] Failed to get video tags:', error);
+    return [];
+  }
+}
+
+// The collection a video belongs to. A collection that can't be read leaves the
+// video without one rather than failing the whole detail.
+function readCollection(data: unknown, owner: BiliVideo['owner']): BiliCollection | undefined {
+  const season = (data as { ugc_season?: unknown } | undefined)?.ugc_season;
+  if (!season) return undefined;
+  try {
+    const raw = parseResponse('view', COLLECTION_SCHEMA, season, 'data.ugc_season');
+    return normalizeCollection(raw, { mid: owner.mid, name: owner.name, face: owner.face });
+  } catch (error) {
+    console.warn('[Bilibili] Skipped video collection:', error instanceof Error ? error.message : error);
+    return undefined;
+  }
+}
+
+async function translateCollection(collection: BiliCollection): Promise<void> {
+  const episodes = collection.sections.flatMap(section => section.episodes);
+  const [title, sectionTitles] = await Promise.all([
+    translateContent(collection.title).catch(() => collection.title),
+    Promise.all(collection.sections.map(section => translateContent(section.title).catch(() => section.title))),
+    translateVideoDetails(episodes),
+  ]);
+  collection.titleTranslated = title;
+  collection.sections.forEach((section, i) => {
+    section.titleTranslated = sectionTitles[i];
+  });
+}
+
+// Video metadata plus its parts (分P), tags, rights, honours and collection (合集).
+// Part titles are translated when there's more than one to choose between.
+export async function getVideoDetail(bvid: string): Promise<BiliVideoDetail | null> {
+  try {
+    const [result, tags] = await Promise.all([
+      getJson(`${API_BASE}/x/web-interface/view?bvid=${bvid}`),
+      getVideoTags(bvid),
+    ]);
+    if (!result.ok) {
+      console.error('Failed to get video detail:', result.error.message);
+      return null;
+    }
+
+    const video = normalizeVideo(parseResponse('view', ARCHIVE_SCHEMA, result.value.data));
+    const extras = parseResponse('view', VIDEO_DETAIL_SCHEMA, result.value.data);
+    const detail = normalizeVideoDetail(video, extras, tags);
+    const collection = readCollection(result.value.data, video.owner);
+    if (collection) detail.collection = collection;
+
+    if (video.aid > 0) {
+      setQueryData(`aid:${video.bvid}`, video.aid);
+    }
+
+    const parts = detail.pages.length > 1 ? detail.pages : [];
+    const [translatedParts] = await Promise.all([
+      Promise.all(parts.map(page => translateContent(page.part).catch(() => page.part))),
+      translateVideoDetails([video]),
+      detail.collection ? translateCollection(detail.collection) : undefined,
+    ]);
+    parts.forEach((page, i) => {
+      page.partTranslated = translatedParts[i];
+    });
+    return detail;
+  } catch (error) {
+    console.error('Error getting video detail:', error);
+    return null;
+  }
+}
+
 export async function getVideoComments(
   aid: number,
   cursor: number = 0,
@@ -899,58 +947,13 @@ export async function getVideoComments(
     const mainUrl = `${API_BASE}/x/v2/reply/main?oid=${effectiveAid}&type=1&mode=3&next=${pageCursor}&ps=${pageSize}&plat=1&web_location=1315875`;
     const legacyUrl = `${API_BASE}/x/v2/reply?oid=${effectiveAid}&type=1&pn=${pageNum}&ps=${pageSize}&sort=0`;
 
-    const urlsToTry = [
-      ...(wbiUrl ? [{ url: wbiUrl, label: 'wbi' as const }] : []),
-      { url: mainUrl, label: 'main' as const },
-      { url: legacyUrl, label: 'legacy' as const },
-    ];
-
-    let data: Record<string, unknown> | null = null;
-    let lastError: string | undefined;
-
-    for (const { url, label } of urlsToTry) {
-      console.log('[Comments] Fetching', label, 'endpoint:', url.replace(API_BASE, ''));
-      const response = await apiFetch(url, { headers: getHeaders() });
-
-      if (!response.ok) {
-        console.error('[Comments] HTTP error:', response.status, response.statusText);
-        lastError = `HTTP ${response.status}`;
-        continue;
-      }
-
-      const text = await response.text();
-      if (text.startsWith('<!') || text.startsWith('<html')) {
-        console.error('[Comments] Got HTML instead of JSON (likely 403 block):', text.substring(0, 200));
-        lastError = 'API returned HTML (blocked)';
-        continue;
-      }
-
-      let parsed: Record<string, unknown>;
-      try {
-        parsed = JSON.parse(text) as Record<string, unknown>;
-      } catch (parseErr) {
-        console.error('[Comments] JSON parse error:', parseErr, 'Response:', text.substring(0, 200));
-        lastError = 'Invalid JSON response';
-        continue;
-      }
-
-      console.log('[Comments] Response code:', parsed?.code, 'message:', parsed?.message);
-
-      if (parsed?.code !== 0) {
-        console.warn('[Comments] API error:', parsed?.message);
-        lastError = String(parsed?.message || 'API error');
-        continue;
-      }
-
-      data = parsed;
-      break;
+    const result = await getJson([wbiUrl, mainUrl, legacyUrl]);
+    if (!result.ok) {
+      return { comments: [], total: 0, page: pageNum, pageSize, hasMore: false, error: result.error.message };
     }
+    console.log('[Comments] Loaded from', result.endpoint);
 
-    if (!data) {
-      return { comments: [], total: 0, page: pageNum, pageSize, hasMore: false, error: lastError || 'Failed to load comments' };
-    }
-
-    const dataPayload = data.data as Record<string, unknown> | undefined;
+    const dataPayload = result.value.data as Record<string, unknown> | undefined;
     const replyContainer = dataPayload?.reply as Record<string, unknown> | undefined;
     const repliesArr = Array.isArray(dataPayload?.replies)
       ? dataPayload?.replies as unknown[]
@@ -999,10 +1002,10 @@ export async function getVideoComments(
     // Translate comments
     try {
       const translatedMessages = await Promise.all(
-        comments.map(c => translateToEnglish(c.content.message).catch(() => c.content.message))
+        comments.map(c => translateContent(c.content.message).catch(() => c.content.message))
       );
       comments.forEach((comment, i) => {
-        comment.content.messageEn = translatedMessages[i];
+        comment.content.messageTranslated = translatedMessages[i];
       });
     } catch {
       console.warn('[Comments] Translation failed');
@@ -1099,72 +1102,33 @@ function parseComment(item: Record<string, unknown>): BiliComment {
   };
 }
 
-function parseCount(value: unknown): number {
-  if (typeof value === 'number') return value;
-  if (typeof value !== 'string') return 0;
-  const trimmed = value.trim();
-  if (!trimmed) return 0;
-  const last = trimmed.slice(-1);
-  const num = parseFloat(trimmed);
-  if (Number.isNaN(num)) return 0;
-  if (last === '万') return Math.round(num * 10000);
-  if (last === '亿') return Math.round(num * 100000000);
-  if (last === 'K' || last === 'k') return Math.round(num * 1000);
-  if (last === 'M' || last === 'm') return Math.round(num * 1000000);
-  return Math.round(num);
-}
-
 export async function getChannelInfo(mid: number): Promise<BiliChannel | null> {
   try {
     // Try multiple endpoints - prefer WBI signed API when possible
-    const endpoints: string[] = [];
-    const wbiUrl = await buildWbiUrl('/x/space/wbi/acc/info', { mid });
-    if (wbiUrl) {
-      endpoints.push(wbiUrl);
-    }
-    endpoints.push(
+    const result = await getJson([
+      await buildWbiUrl('/x/space/wbi/acc/info', { mid }),
       `${API_BASE}/x/space/acc/info?mid=${mid}`,
       `${API_BASE}/x/web-interface/card?mid=${mid}`,
-    );
-
-    let infoData: { code: number; data?: Record<string, unknown>; message?: string } | null = null;
-
-    for (const endpoint of endpoints) {
-      try {
-        const response = await apiFetch(endpoint, { headers: getHeaders() });
-        const data = await response.json();
-        if (data.code === 0 && data.data) {
-          infoData = data;
-          break;
-        }
-      } catch {
-        continue;
-      }
-    }
+    ]);
 
-    if (!infoData?.data) {
-      console.error('Bilibili channel info: all endpoints failed');
+    const infoData = result.ok ? result.value.data as Record<string, unknown> | undefined : undefined;
+    if (!infoData) {
+      console.error('Bilibili channel info failed:', result.ok ? 'no data' : result.error.message);
       return null;
     }
 
     // Handle different response formats
-    const info = infoData.data.card || infoData.data;
-    const cardData = info as Record<string, unknown>;
+    const cardData = (infoData.card || infoData) as Record<string, unknown>;
 
     // Get follower stats separately
     let follower = 0;
     let following = 0;
-    try {
-      const statResponse = await apiFetch(
-        `${API_BASE}/x/relation/stat?vmid=${mid}`,
-        { headers: getHeaders() }
-      );
-      const statData = await statResponse.json();
-      if (statData.code === 0 && statData.data) {
-        follower = statData.data.follower || 0;
-        following = statData.data.following || 0;
-      }
-    } catch {
+    const statResult = await getJson(`${API_BASE}/x/relation/stat?vmid=${mid}`, { retries: 0 });
+    const statData = statResult.ok ? statResult.value.data as Record<string, number> | undefined : undefined;
+    if (statData) {
+      follower = statData.follower || 0;
+      following = statData.following || 0;
+    } else {
       // Use inline stats if available
       follower = (cardData.fans as number) || (cardData.follower as number) || 0;
       following = (cardData.attention as number) || (cardData.following as number) || 0;
@@ -1186,39 +1150,8 @@ export async function getChannelInfo(mid: number): Promise<BiliChannel | null> {
   }
 }
 
-function mapChannelVideo(
-  item: Record<string, unknown>,
-  channelInfo: BiliChannel | null,
-  mid: number
-): BiliVideo {
-  const stat = item.stat as Record<string, unknown> | undefined;
-  const title = (item.title as string) || '';
-  const durationValue = item.length ?? item.duration;
-  const duration = typeof durationValue === 'string' || typeof durationValue === 'number'
-    ? parseDuration(durationValue)
-    : 0;
-
-  return {
-    bvid: (item.bvid as string) || '',
-    aid: (item.aid as number) || 0,
-    title: title.replace(/<[^>]*>/g, ''),
-    desc: (item.description as string) || (item.desc as string) || '',
-    pic: normalizeImageUrl(item.pic),
-    duration,
-    view: parseCount(stat?.view ?? item.play ?? item.view),
-    danmaku: parseCount(stat?.danmaku ?? item.video_review ?? item.danmaku),
-    reply: parseCount(stat?.reply ?? item.reply),
-    favorite: parseCount(stat?.favorite ?? item.favorites),
-    coin: parseCount(stat?.coin ?? item.coins),
-    share: parseCount(stat?.share ?? item.share),
-    like: parseCount(stat?.like ?? item.like),
-    owner: {
-      mid: mid || (item.mid as number) || 0,
-      name: (item.author as string) || channelInfo?.name || '',
-      face: channelInfo?.face || '',
-    },
-    pubdate: (item.created as number) || (item.pubdate as number) || (item.ctime as number) || 0,
-  };
+function channelOwner(channelInfo: BiliChannel | null, mid: number) {
+  return { mid, name: channelInfo?.name || '', face: channelInfo?.face || '' };
 }
 
 export async function getChannelVideos(
@@ -1230,106 +1163,60 @@ export async function getChannelVideos(
   const channelInfo = await getChannelInfo(mid);
   console.log('[Channel] Channel info:', channelInfo?.name || 'unknown');
 
-  const wbiUrl = await buildWbiUrl('/x/space/wbi/arc/search', {
-    mid,
-    pn: page,
-    ps: pageSize,
-    order: 'pubdate',
-  });
-  console.log('[Channel] WBI URL:', wbiUrl ? 'built successfully' : 'failed to build');
+  const result = await getJson([
+    await buildWbiUrl('/x/space/wbi/arc/search', { mid, pn: page, ps: pageSize, order: 'pubdate' }),
+    `${API_BASE}/x/space/arc/search?mid=${mid}&pn=${page}&ps=${pageSize}&order=pubdate`,
+  ]);
 
-  if (wbiUrl) {
+  if (result.ok) {
     try {
-      const response = await apiFetch(wbiUrl, { headers: getHeaders() });
-      const data = await response.json();
-      console.log('[Channel] WBI response code:', data.code, 'message:', data.message);
-      if (data.code === 0 && data.data) {
-        const list = data.data?.list?.vlist
-          || data.data?.list?.archives
-          || data.data?.list?.result
-          || [];
-        console.log('[Channel] Got', list.length, 'videos from WBI API');
-        const pageInfo = data.data?.page;
-        const total = (pageInfo?.count as number) || (pageInfo?.total as number) || list.length;
-        const videos: BiliVideo[] = list.map((item: Record<string, unknown>) =>
-          mapChannelVideo(item, channelInfo, mid)
-        );
-        await translateVideoDetails(videos);
-        return { videos, total, page, pageSize };
-      }
+      const data = result.value.data as { list?: { vlist?: unknown }; page?: Record<string, number> } | undefined;
+      const videos = parseList('space/arc/search', CHANNEL_VIDEO_SCHEMA, data?.list?.vlist ?? [], 'data.list.vlist')
+        .map(item => normalizeVideo(item, channelOwner(channelInfo, mid)));
+      console.log('[Channel] Got', videos.length, 'videos from', result.endpoint);
+      const total = data?.page?.count || data?.page?.total || videos.length;
+      await translateVideoDetails(videos);
+      return { videos, total, page, pageSize };
     } catch (error) {
-      console.warn('[Channel] WBI channel videos failed, falling back:', error);
+      console.warn('[Channel] Space videos changed shape, falling back:', error);
     }
+  } else {
+    console.warn('[Channel] Space videos failed, falling back:', result.error.message);
   }
 
-  console.log('[Channel] Falling back to search-based method');
-  return await getChannelVideosViaSearch(mid, page, pageSize);
+  return await getChannelVideosViaSearch(mid, channelInfo, page, pageSize);
 }
 
-// Fallback: try multiple methods to get channel videos
+// Fallback: find the channel's videos through keyword search on its name
 async function getChannelVideosViaSearch(
   mid: number,
+  channelInfo: BiliChannel | null,
   page: number,
   pageSize: number
 ): Promise<BiliChannelVideosResult> {
-  console.log('[Channel] Trying fallback methods for mid:', mid);
-
-  // First get channel info
-  const channelInfo = await getChannelInfo(mid);
-
-  // Try unsigned space API first
-  try {
-    const url = `${API_BASE}/x/space/arc/search?mid=${mid}&pn=${page}&ps=${pageSize}&order=pubdate`;
-    console.log('[Channel] Trying unsigned space API');
-    const response = await apiFetch(url, { headers: getHeaders() });
-    const data = await response.json();
-
-    if (data.code === 0 && data.data?.list?.vlist?.length > 0) {
-      console.log('[Channel] Unsigned API worked, got', data.data.list.vlist.length, 'videos');
-      const list = data.data.list.vlist;
-      const videos: BiliVideo[] = list.map((item: Record<string, unknown>) =>
-        mapChannelVideo(item, channelInfo, mid)
-      );
-      await translateVideoDetails(videos);
-      return {
-        videos,
-        total: data.data.page?.count || videos.length,
-        page,
-        pageSize,
-      };
-    }
-    console.log('[Channel] Unsigned API failed:', data.code, data.message);
-  } catch (err) {
-    console.log('[Channel] Unsigned API error:', err);
-  }
-
-  // Try search fallback
   try {
     if (!channelInfo?.name) {
       console.log('[Channel] No channel info found for mid:', mid);
-      return { videos: [], total: 0, page, pageSize };
+      return { videos: [], total: 0, page, pageSize, error: "Couldn't load this channel" };
     }
 
     console.log('[Channel] Searching videos for:', channelInfo.name);
 
     // Search by uploader mid directly
-    const url = `${API_BASE}/x/web-interface/search/type?search_type=video&keyword=${encodeURIComponent(channelInfo.name)}&page=${page}&page_size=${pageSize}&order=pubdate`;
-    const response = await apiFetch(url, { headers: getHeaders() });
-    const data = await response.json();
-
-    if (data.code !== 0) {
-      console.log('[Channel] Search failed:', data.message);
-      return { videos: [], total: 0, page, pageSize };
+    const result = await getJson(
+      `${API_BASE}/x/web-interface/search/type?search_type=video&keyword=${encodeURIComponent(channelInfo.name)}&page=${page}&page_size=${pageSize}&order=pubdate`
+    );
+    if (!result.ok) {
+      console.log('[Channel] Search failed:', result.error.message);
+      return { videos: [], total: 0, page, pageSize, error: result.error.message };
     }
 
-    const allResults = data.data?.result || [];
+    const data = result.value.data as { result?: unknown; numResults?: number } | undefined;
+    const allResults = parseList('search', SEARCH_RESULT_SCHEMA, data?.result ?? [], 'data.result');
     console.log('[Channel] Search returned', allResults.length, 'results');
 
-    // Filter by mid - check both 'mid' and 'author_mid' fields
-    let results = allResults.filter((item: Record<string, unknown>) => {
-      const itemMid = Number(item.mid) || Number(item.author_mid);
-      return itemMid === mid;
-    });
+    // Keyword search also finds other uploaders; keep this channel's videos
+    let results = allResults.filter(item => item.mid === mid);
 
     if (results.length === 0 && allResults.length > 0) {
       console.log('[Channel] Mid filter removed all results, using first 20');
@@ -1338,39 +1225,19 @@ async function getChannelVideosViaSearch(
 
     console.log('[Channel] Using', results.length, 'videos');
 
-    const videos: BiliVideo[] = results.map((item: Record<string, unknown>) => ({
-      bvid: item.bvid as string,
-      aid: Number(item.aid) || 0,
-      title: (item.title as string).replace(/<[^>]*>/g, ''),
-      desc: (item.description as string) || '',
-      pic: normalizeImageUrl(item.pic),
-      duration: parseDuration(item.duration as string),
-      view: parseCount(item.play),
-      danmaku: parseCount(item.danmaku),
-      reply: 0,
-      favorite: parseCount(item.favorites),
-      coin: 0,
-      share: 0,
-      like: parseCount(item.like),
-      owner: {
-        mid: Number(item.mid) || mid,
-        name: (item.author as string) || channelInfo.name,
-        face: normalizeImageUrl(channelInfo.face),
-      },
-      pubdate: (item.pubdate as number) || 0,
-    }));
+    const videos = results.map(item => normalizeVideo(item, channelOwner(channelInfo, mid)));
 
     await translateVideoDetails(videos);
 
     return {
       videos,
-      total: data.data?.numResults || results.length,
+      total: data?.numResults || results.length,
       page,
       pageSize,
     };
   } catch (error) {
     console.error('Error fetching channel videos via search:', error);
-    return { videos: [], total: 0, page, pageSize };
+    return { videos: [], total: 0, page, pageSize, error: error instanceof Error ? error.message : String(error) };
   }
 }
 
@@ -1380,6 +1247,19 @@ export interface VideoQuality {
   description: string;
 }
 
+// One DASH representation (a single quality/codec of the video or audio track)
+export interface DashStream {
+  id: number;
+  url: string;
+  backupUrls: string[];
+  mimeType: string; // Includes codecs, ready for MediaSource.isTypeSupported
+  bandwidth: number;
+  width?: number;
+  height?: number;
+  initRange?: string; // Byte range of the init segment, e.g. "0-927"
+  indexRange?: string; // Byte range of the sidx box
+}
+
 export interface VideoStreamInfo {
   videoUrl: string;
   audioUrl?: string;
@@ -1391,142 +1271,360 @@ export interface VideoStreamInfo {
   availableQualities: VideoQuality[];
   size?: number;
   duration?: number;
+  // Every DASH representation, so a player can pick one the browser can decode
+  videoStreams?: DashStream[];
+  audioStreams?: DashStream[];
+}
+
+function parseDashStreams(list: unknown): DashStream[] {
+  if (!Array.isArray(list)) return [];
+  return list
+    .map((item: Record<string, unknown>) => {
+      const rawMime = (item.mimeType || item.mime_type) as string | undefined;
+      const codecs = item.codecs as string | undefined;
+      const segmentBase = (item.segment_base || item.SegmentBase) as Record<string, string> | undefined;
+      const backup = (item.backupUrl || item.backup_url) as string[] | undefined;
+      return {
+        id: Number(item.id) || 0,
+        url: String(item.baseUrl || item.base_url || ''),
+        backupUrls: Array.isArray(backup) ? backup : [],
+        mimeType: rawMime && codecs ? `${rawMime}; codecs="${codecs}"` : (rawMime || ''),
+        bandwidth: Number(item.bandwidth) || 0,
+        width: item.width as number | undefined,
+        height: item.height as number | undefined,
+        initRange: segmentBase?.initialization || segmentBase?.Initialization,
+        indexRange: segmentBase?.index_range || segmentBase?.indexRange,
+      };
+    })
+    .filter(stream => stream.url && stream.mimeType);
+}
+
+// Media hosts need a bilibili Referer and send no CORS headers, so stream them through our proxy
+export function getMediaProxyUrl(url: string): string {
+  const httpsUrl = url.replace(/^http:/, 'https:');
+  return `/api/media?url=${encodeURIComponent(httpsUrl)}`;
+}
+
+interface RawDashItem {
+  id?: number;
+  baseUrl?: string;
+  base_url?: string;
+  mimeType?: string;
+  mime_type?: string;
+  codecs?: string;
+  size?: number;
+}
+
+// The parts of a playurl payload read below
+interface RawPlayUrl {
+  quality?: number;
+  accept_quality?: number[];
+  accept_description?: string[];
+  timelength?: number; // Milliseconds
+  durl?: { url: string; size?: number }[];
+  dash?: { video?: RawDashItem[]; audio?: RawDashItem[] };
+}
+
+// Picks the stream out of a playurl payload (UGC data or PGC result; same shape),
+// asking again in the other format when the first answer has neither the preferred
+// format nor DASH
+async function readPlayUrl(
+  first: RawPlayUrl,
+  refetch: (fnval: number) => Promise<RawPlayUrl | null>,
+  quality: number,
+  preferProgressive: boolean,
+  viewDuration?: number
+): Promise<VideoStreamInfo | null> {
+  let data = first;
+  let fallbackData: RawPlayUrl | null = null;
+  const hasDurl = Array.isArray(data.durl) && data.durl.length > 0;
+
+  if (preferProgressive && !hasDurl) {
+    fallbackData = await refetch(16);
+    if (fallbackData) {
+      data = fallbackData;
+    }
+  }
+
+  if (!preferProgressive && !data.dash && !hasDurl) {
+    fallbackData = await refetch(0);
+    if (fallbackData) {
+      data = fallbackData;
+    }
+  }
+
+  const buildQualities = (source: RawPlayUrl | null) => {
+    const acceptQuality = source?.accept_quality;
+    const acceptDescription = source?.accept_description;
+    if (!Array.isArray(acceptQuality)) return [];
+    return acceptQuality.map((q, i) => ({
+      quality: q,
+      description: acceptDescription?.[i] || `${q}p`,
+    }));
+  };
+
+  // timelength is the part being played; view's duration covers every part
+  const duration = data.timelength ? data.timelength / 1000 : viewDuration;
+
+  let availableQualities = buildQualities(data);
+  if (availableQualities.length === 0) {
+    availableQualities = buildQualities(fallbackData);
+  }
+
+  const durlList = data.durl;
+  if (preferProgressive && Array.isArray(durlList) && durlList.length > 0) {
+    const qualityValue = data.quality || quality;
+    return {
+      videoUrl: durlList[0].url,
+      format: 'progressive',
+      quality: qualityValue,
+      qualityDescription: availableQualities.find(q => q.quality === qualityValue)?.description || `${qualityValue}p`,
+      availableQualities,
+      size: durlList[0].size,
+      duration,
+    };
+  }
+
+  // DASH format (preferred when progressive isn't available)
+  if (data.dash) {
+    const video = data.dash.video?.[0];
+    const audio = data.dash.audio?.[0];
+
+    if (video) {
+      const rawVideoMime = video.mimeType || video.mime_type;
+      const rawAudioMime = audio?.mimeType || audio?.mime_type;
+      const videoMimeType = rawVideoMime && video.codecs
+        ? `${rawVideoMime}; codecs="${video.codecs}"`
+        : rawVideoMime;
+      const audioMimeType = rawAudioMime && audio?.codecs
+        ? `${rawAudioMime}; codecs="${audio?.codecs}"`
+        : rawAudioMime;
+
+      return {
+        videoUrl: video.baseUrl || video.base_url || '',
+        audioUrl: audio?.baseUrl || audio?.base_url,
+        format: 'dash',
+        videoMimeType,
+        audioMimeType,
+        quality: video.id || quality,
+        qualityDescription: availableQualities.find(q => q.quality === video.id)?.description || `${video.id}p`,
+        availableQualities,
+        size: (video.size || 0) + (audio?.size || 0),
+        duration,
+        videoStreams: parseDashStreams(data.dash.video),
+        audioStreams: parseDashStreams(data.dash.audio),
+      };
+    }
+  }
+
+  // FLV format fallback
+  if (Array.isArray(durlList) && durlList.length > 0) {
+    const qualityValue = data.quality || quality;
+    return {
+      videoUrl: durlList[0].url,
+      format: 'progressive',
+      videoMimeType: 'video/mp4',
+      quality: qualityValue,
+      qualityDescription: availableQualities.find(q => q.quality === qualityValue)?.description || `${qualityValue}p`,
+      availableQualities,
+      size: durlList[0].size,
+      duration,
+    };
+  }
+
+  return null;
 }
 
 export async function getVideoStreamInfo(
   bvid: string,
   quality: number = 80,
-  options: { preferProgressive?: boolean } = {}
+  // cid picks a part of a multi-part video; without one the first part plays
+  options: { preferProgressive?: boolean; cid?: number } = {}
 ): Promise<VideoStreamInfo | null> {
   try {
-    // First get the CID (content ID) for the video
-    const infoUrl = `${API_BASE}/x/web-interface/view?bvid=${bvid}`;
-    const infoResponse = await apiFetch(infoUrl, { headers: getHeaders() });
-    const infoData = await infoResponse.json();
-
-    if (infoData.code !== 0 || !infoData.data?.cid) {
-      console.error('Failed to get video info:', infoData.message);
-      return null;
+    let cid = options.cid;
+    let viewDuration: number | undefined;
+    if (!cid) {
+      // First get the CID (content ID) for the video
+      const infoResult = await getJson(`${API_BASE}/x/web-interface/view?bvid=${bvid}`);
+      const info = infoResult.ok ? infoResult.value.data as { cid?: number; duration?: number } | undefined : undefined;
+
+      if (!info?.cid) {
+        console.error('Failed to get video info:', infoResult.ok ? 'no cid' : infoResult.error.message);
+        return null;
+      }
+      cid = info.cid;
+      viewDuration = info.duration;
     }
 
-    const cid = infoData.data.cid;
     const preferProgressive = options.preferProgressive === true;
 
     const fetchPlayData = async (fnval: number) => {
-      const playUrl = `${API_BASE}/x/player/playurl?bvid=${bvid}&cid=${cid}&qn=${quality}&fnval=${fnval}&fourk=1`;
-      const playResponse = await apiFetch(playUrl, { headers: getHeaders() });
-      const playData = await playResponse.json();
+      const playResult = await getJson(`${API_BASE}/x/player/playurl?bvid=${bvid}&cid=${cid}&qn=${quality}&fnval=${fnval}&fourk=1`);
 
-      if (playData.code !== 0) {
-        console.error('Failed to get play URL:', playData.message);
+      if (!playResult.ok) {
+        console.error('Failed to get play URL:', playResult.error.message);
         return null;
       }
 
-      return playData.data;
+      return (playResult.value.data ?? null) as RawPlayUrl | null;
     };
 
-    let data = await fetchPlayData(preferProgressive ? 0 : 16);
+    const data = await fetchPlayData(preferProgressive ? 0 : 16);
     if (!data) {
       return null;
     }
+    return await readPlayUrl(data, fetchPlayData, quality, preferProgressive, viewDuration);
+  } catch (error) {
+    console.error('Error getting video stream:', error);
+    return null;
+  }
+}
 
-    let fallbackData: Record<string, unknown> | null = null;
-    const hasDurl = Array.isArray((data as Record<string, unknown>).durl)
-      && ((data as Record<string, unknown>).durl as unknown[]).length > 0;
+// PGC: licensed anime, film and TV, organised as seasons of episodes (ss / ep ids)
+// rather than uploads. Payloads sit in result instead of data.
 
-    if (preferProgressive && !hasDurl) {
-      fallbackData = await fetchPlayData(16);
-      if (fallbackData) {
-        data = fallbackData;
-      }
-    }
+// Categories whose main content is PGC, and the season_type Bilibili files them under
+export const PGC_SEASON_TYPES: Record<number, number> = {
+  13: 1, // Anime
+  23: 2, // Movies
+  177: 3, // Documentary
+  167: 4, // Chinese Anime
+  11: 5, // TV Series
+};
 
-    if (!preferProgressive && !data.dash && !hasDurl) {
-      fallbackData = await fetchPlayData(0);
-      if (fallbackData) {
-        data = fallbackData;
-      }
-    }
+// PGC refusals come back as -10403 or 6002xxx with a Chinese message saying why
+function describePgcError(error: BiliError): string {
+  const message = error.kind === 'api' ? error.message : '';
+  if (/地区|区域/.test(message)) {
+    return "This title isn't available in your region. Bilibili only licenses it for some countries.";
+  }
+  if (message.includes('会员') || error.code === 6002105) {
+    return 'This episode is for Bilibili Premium (大会员) members. Sign in with a Premium account to watch it.';
+  }
+  if (/付费|购买|承包/.test(message)) {
+    return 'This episode has to be bought on Bilibili before it can be played.';
+  }
+  if (error.code === -404) {
+    return 'This season or episode no longer exists on Bilibili.';
+  }
+  return error.message;
+}
 
-    const buildQualities = (source: Record<string, unknown> | null) => {
-      const acceptQuality = source?.accept_quality as number[] | undefined;
-      const acceptDescription = source?.accept_description as string[] | undefined;
-      if (!Array.isArray(acceptQuality)) return [];
-      return acceptQuality.map((q, i) => ({
-        quality: q,
-        description: acceptDescription?.[i] || `${q}p`,
-      }));
-    };
+async function translateSeason(season: BiliSeason): Promise<void> {
+  const translate = (text: string) => (text ? translateContent(text).catch(() => text) : Promise.resolve(text));
+  const [title, evaluate, longTitles] = await Promise.all([
+    translate(season.title),
+    translate(season.evaluate),
+    Promise.all(season.episodes.map(episode => translate(episode.longTitle))),
+  ]);
+  season.titleTranslated = title;
+  season.evaluateTranslated = evaluate;
+  season.episodes.forEach((episode, i) => {
+    episode.longTitleTranslated = longTitles[i];
+  });
+}
 
-    let availableQualities = buildQualities(data as Record<string, unknown>);
-    if (availableQualities.length === 0) {
-      availableQualities = buildQualities(fallbackData);
+// A season by its ss id, or the season an ep id belongs to
+export async function getSeason(ref: 'ss' | 'ep', id: number): Promise<BiliSeasonResult> {
+  try {
+    const param = ref === 'ss' ? `season_id=${id}` : `ep_id=${id}`;
+    const result = await getJson(`${API_BASE}/pgc/view/web/season?${param}`);
+    if (!result.ok) {
+      return { season: null, error: describePgcError(result.error) };
     }
+    const season = normalizeSeason(parseResponse('pgc/season', SEASON_SCHEMA, result.value.result, 'result'));
+    await translateSeason(season);
+    return { season };
+  } catch (error) {
+    console.error('Error getting season:', error);
+    return { season: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
 
-    const durlList = data.durl as { url: string; size?: number }[] | undefined;
-    if (preferProgressive && Array.isArray(durlList) && durlList.length > 0) {
-      const qualityValue = (data.quality as number) || quality;
-      return {
-        videoUrl: durlList[0].url,
-        format: 'progressive',
-        quality: qualityValue,
-        qualityDescription: availableQualities.find(q => q.quality === qualityValue)?.description || `${qualityValue}p`,
-        availableQualities,
-        size: durlList[0].size,
-        duration: infoData.data.duration,
-      };
+// Top seasons of one season_type over the last three days
+export async function getSeasonRanking(seasonType: number): Promise<{ seasons: BiliSeasonSummary[]; error?: string }> {
+  try {
+    const result = await getJson(`${API_BASE}/pgc/web/rank/list?season_type=${seasonType}&day=3`);
+    if (!result.ok) {
+      return { seasons: [], error: describePgcError(result.error) };
     }
+    const list = (result.value.result as { list?: unknown } | undefined)?.list;
+    const seasons = parseList('pgc/rank', SEASON_RANK_SCHEMA, list, 'result.list').map(normalizeSeasonSummary);
+    const titles = await Promise.all(seasons.map(season => translateContent(season.title).catch(() => season.title)));
+    seasons.forEach((season, i) => {
+      season.titleTranslated = titles[i];
+    });
+    return { seasons };
+  } catch (error) {
+    console.error('Error getting season ranking:', error);
+    return { seasons: [], error: error instanceof Error ? error.message : String(error) };
+  }
+}
 
-    // DASH format (preferred when progressive isn't available)
-    if (data.dash) {
-      const video = data.dash.video?.[0];
-      const audio = data.dash.audio?.[0];
-
-      if (video) {
-        const rawVideoMime = (video.mimeType || video.mime_type) as string | undefined;
-        const rawAudioMime = (audio?.mimeType || audio?.mime_type) as string | undefined;
-        const videoMimeType = rawVideoMime && video.codecs
-          ? `${rawVideoMime}; codecs="${video.codecs}"`
-          : rawVideoMime;
-        const audioMimeType = rawAudioMime && audio?.codecs
-          ? `${rawAudioMime}; codecs="${audio?.codecs}"`
-          : rawAudioMime;
-
-        return {
-          videoUrl: video.baseUrl || video.base_url,
-          audioUrl: audio?.baseUrl || audio?.base_url,
-          format: 'dash',
-          videoMimeType,
-          audioMimeType,
-          quality: video.id || quality,
-          qualityDescription: availableQualities.find(q => q.quality === video.id)?.description || `${video.id}p`,
-          availableQualities,
-          size: (video.size || 0) + (audio?.size || 0),
-          duration: infoData.data.duration,
-        };
-      }
-    }
+function episodeLabel(episode: BiliEpisode): string {
+  return /^\d+$/.test(episode.title) ? `EP${episode.title}` : episode.title;
+}
 
-    // FLV format fallback
-    if (Array.isArray(durlList) && durlList.length > 0) {
-      const qualityValue = (data.quality as number) || quality;
-      return {
-        videoUrl: durlList[0].url,
-        format: 'progressive',
-        videoMimeType: 'video/mp4',
-        quality: qualityValue,
-        qualityDescription: availableQualities.find(q => q.quality === qualityValue)?.description || `${qualityValue}p`,
-        availableQualities,
-        size: durlList[0].size,
-        duration: infoData.data.duration,
-      };
-    }
+// An episode as a video the player can open; epId sends its stream through the PGC
+// playurl. Films (a single "正片") keep the season title alone.
+export function episodeToVideo(season: BiliSeason, episode: BiliEpisode): BiliVideo {
+  const single = season.episodes.length === 1;
+  const title = (seasonTitle: string, longTitle: string) => (single
+    ? seasonTitle
+    : [seasonTitle, episodeLabel(episode), longTitle].filter(Boolean).join(' '));
+  return {
+    bvid: episode.bvid,
+    aid: episode.aid,
+    cid: episode.cid,
+    epId: episode.epId,
+    title: title(season.title, episode.longTitle),
+    titleTranslated: season.titleTranslated
+      ? title(season.titleTranslated, episode.longTitleTranslated ?? episode.longTitle)
+      : undefined,
+    desc: season.evaluate,
+    descTranslated: season.evaluateTranslated,
+    pic: episode.cover || season.cover,
+    duration: episode.duration,
+    view: 0,
+    danmaku: 0,
+    reply: 0,
+    favorite: 0,
+    coin: 0,
+    share: 0,
+    like: 0,
+    owner: season.publisher ?? { mid: 0, name: season.title, face: '' },
+    pubdate: 0,
+  };
+}
 
-    return null;
-  } catch (error) {
-    console.error('Error getting video stream:', error);
-    return null;
+// Stream for a PGC episode. Unlike getVideoStreamInfo the failure is kept: region
+// locks and premium-only episodes need saying, and the embed can't play them either.
+export async function getEpisodeStreamInfo(
+  episode: { epId: number; cid?: number },
+  quality: number = 80,
+  options: { preferProgressive?: boolean } = {}
+): Promise<BiliResult<VideoStreamInfo>> {
+  const preferProgressive = options.preferProgressive === true;
+  const url = (fnval: number) => `${API_BASE}/pgc/player/web/playurl?ep_id=${episode.epId}${episode.cid ? `&cid=${episode.cid}` : ''}&qn=${quality}&fnval=${fnval}&fourk=1`;
+  const first = await getJson(url(preferProgressive ? 0 : 16));
+  if (!first.ok) {
+    return { ok: false, error: { ...first.error, message: describePgcError(first.error) } };
   }
+
+  const refetch = async (fnval: number) => {
+    const result = await getJson(url(fnval));
+    return result.ok ? (result.value.result ?? null) as RawPlayUrl | null : null;
+  };
+  const payload = first.value.result as RawPlayUrl | undefined;
+  const info = payload ? await readPlayUrl(payload, refetch, quality, preferProgressive) : null;
+  if (!info) {
+    return {
+      ok: false,
+      error: { kind: 'invalid-response', message: 'Bilibili returned no playable stream for this episode', endpoint: first.endpoint },
+    };
+  }
+  return { ok: true, value: info, endpoint: first.endpoint };
 }
 
 // Subtitle types
@@ -1534,7 +1632,7 @@ export interface SubtitleCue {
   from: number;
   to: number;
   content: string;
-  contentEn?: string;
+  contentTranslated?: string;
 }
 
 export interface SubtitleTrack {
@@ -1543,31 +1641,48 @@ export interface SubtitleTrack {
   languageDoc: string;
   url: string;
   cues: SubtitleCue[];
+  // Target language of the cues' contentTranslated
+  translationLanguage?: string;
+}
+
+// Fetched tracks by id. Cues are translated in place as they play, so keeping the
+// track objects around means reopening a video doesn't translate it again.
+const MAX_CACHED_SUBTITLE_TRACKS = 20;
+const subtitleTrackCache = new Map<number, SubtitleTrack>();
+
+function cacheSubtitleTrack(track: SubtitleTrack): void {
+  if (subtitleTrackCache.size >= MAX_CACHED_SUBTITLE_TRACKS) {
+    const oldest = subtitleTrackCache.keys().next().value;
+    if (oldest !== undefined) subtitleTrackCache.delete(oldest);
+  }
+  subtitleTrackCache.set(track.id, track);
+}
+
+interface RawSubtitleInfo {
+  subtitles?: { id: number; lan: string; lan_doc: string; subtitle_url: string }[];
 }
 
-export async function getVideoSubtitles(bvid: string): Promise<SubtitleTrack[]> {
+// Tracks for one part of the video; the first part when no cid is given
+export async function getVideoSubtitles(bvid: string, partCid?: number): Promise<SubtitleTrack[]> {
   try {
-    // Get video info to find CID and subtitle list
-    const infoUrl = `${API_BASE}/x/web-interface/view?bvid=${bvid}`;
-    const infoResponse = await apiFetch(infoUrl, { headers: getHeaders() });
-    const infoData = await infoResponse.json();
+    let cid = partCid;
+    if (!cid) {
+      const infoResult = await getJson(`${API_BASE}/x/web-interface/view?bvid=${bvid}`);
+      cid = infoResult.ok ? (infoResult.value.data as { cid?: number } | undefined)?.cid : undefined;
+    }
 
-    if (infoData.code !== 0 || !infoData.data?.cid) {
+    if (!cid) {
       return [];
     }
 
-    const cid = infoData.data.cid;
-
     // Get player info which contains subtitle list
-    const playerUrl = `${API_BASE}/x/player/v2?bvid=${bvid}&cid=${cid}`;
-    const playerResponse = await apiFetch(playerUrl, { headers: getHeaders() });
-    const playerData = await playerResponse.json();
+    const playerResult = await getJson(`${API_BASE}/x/player/v2?bvid=${bvid}&cid=${cid}`);
 
-    if (playerData.code !== 0) {
+    if (!playerResult.ok) {
       return [];
     }
 
-    const subtitleInfo = playerData.data?.subtitle;
+    const subtitleInfo = (playerResult.value.data as { subtitle?: RawSubtitleInfo } | undefined)?.subtitle;
     if (!subtitleInfo?.subtitles || subtitleInfo.subtitles.length === 0) {
       return [];
     }
@@ -1582,6 +1697,13 @@ export async function getVideoSubtitles(bvid: string): Promise<SubtitleTrack[]>
           ? `https:${sub.subtitle_url}`
           : sub.subtitle_url;
 
+        // Reuse a cached track so translations already done for it carry over
+        const cachedTrack = subtitleTrackCache.get(sub.id);
+        if (cachedTrack) {
+          tracks.push(cachedTrack);
+          continue;
+        }
+
         const subResponse = await apiFetch(subUrl, { headers: getHeaders() });
         const subData = await subResponse.json();
 
@@ -1592,29 +1714,15 @@ export async function getVideoSubtitles(bvid: string): Promise<SubtitleTrack[]>
             content: item.content,
           }));
 
-          // Translate cues if Chinese
-          if (sub.lan === 'zh-CN' || sub.lan === 'zh-Hans') {
-            try {
-              const translations = await Promise.all(
-                cues.slice(0, 100).map(cue =>
-                  translateToEnglish(cue.content).catch(() => cue.content)
-                )
-              );
-              cues.slice(0, 100).forEach((cue, i) => {
-                cue.contentEn = translations[i];
-              });
-            } catch {
-              // Ignore translation errors
-            }
-          }
-
-          tracks.push({
+          const track: SubtitleTrack = {
             id: sub.id,
             language: sub.lan,
             languageDoc: sub.lan_doc,
             url: subUrl,
             cues,
-          });
+          };
+          cacheSubtitleTrack(track);
+          tracks.push(track);
         }
       } catch (e) {
         console.error('Failed to fetch subtitle:', e);
@@ -1628,44 +1736,69 @@ export async function getVideoSubtitles(bvid: string): Promise<SubtitleTrack[]>
   }
 }
 
-export async function getRelatedVideos(bvid: string): Promise<BiliVideo[]> {
+// Danmaku: segmented protobuf first, legacy XML list as fallback
+const MAX_DANMAKU_SEGMENTS = 20; // Two hours of video
+
+export async function getVideoDanmaku(bvid: string, cid?: number, duration?: number): Promise<DanmakuItem[]> {
   try {
-    const url = `${API_BASE}/x/web-interface/archive/related?bvid=${bvid}`;
-    const response = await apiFetch(url, { headers: getHeaders() });
-    const data = await response.json();
+    let resolvedCid = cid;
+    let resolvedDuration = duration;
+    if (!resolvedCid) {
+      const infoResult = await getJson(`${API_BASE}/x/web-interface/view?bvid=${bvid}`);
+      const info = infoResult.ok ? infoResult.value.data as { cid?: number; duration?: number } | undefined : undefined;
+      if (!info?.cid) {
+        return [];
+      }
+      resolvedCid = info.cid;
+      resolvedDuration = resolvedDuration || info.duration;
+    }
 
-    if (data.code !== 0) {
-      console.error('Failed to get related videos:', data.message);
+    const segmentCount = Math.min(
+      MAX_DANMAKU_SEGMENTS,
+      Math.max(1, Math.ceil((resolvedDuration || 0) / DANMAKU_SEGMENT_SECONDS))
+    );
+    const segments = await Promise.all(
+      Array.from({ length: segmentCount }, async (_, i) => {
+        try {
+          const segUrl = `${API_BASE}/x/v2/dm/web/seg.so?type=1&oid=${resolvedCid}&segment_index=${i + 1}`;
+          const response = await apiFetch(segUrl, { headers: getHeaders() });
+          if (!response.ok) return null;
+          // Errors come back as JSON, segments as protobuf
+          if (response.headers.get('content-type')?.includes('json')) return null;
+          return parseDanmakuSegment(await response.arrayBuffer());
+        } catch {
+          return null;
+        }
+      })
+    );
+
+    if (segments.some(segment => segment !== null)) {
+      const items = sortDanmaku(segments.flatMap(segment => segment || []));
+      console.log('[Danmaku] Loaded', items.length, 'from', segmentCount, 'segments');
+      return items;
+    }
+
+    const listUrl = `${API_BASE}/x/v1/dm/list.so?oid=${resolvedCid}`;
+    const listResponse = await apiFetch(listUrl, { headers: getHeaders() });
+    if (!listResponse.ok) return [];
+    const items = parseDanmakuXml(await listResponse.text());
+    console.log('[Danmaku] Loaded', items.length, 'from XML list');
+    return items;
+  } catch (error) {
+    console.error('Error getting danmaku:', error);
+    return [];
+  }
+}
+
+export async function getRelatedVideos(bvid: string): Promise<BiliVideo[]> {
+  try {
+    const result = await getJson(`${API_BASE}/x/web-interface/archive/related?bvid=${bvid}`);
+    if (!result.ok) {
+      console.error('Failed to get related videos:', result.error.message);
       return [];
     }
 
-    const list = data.data || [];
-    const videos: BiliVideo[] = list.map((item: Record<string, unknown>) => {
-      const stat = item.stat as Record<string, unknown> | undefined;
-      const owner = item.owner as Record<string, unknown> | undefined;
-      return {
-        bvid: (item.bvid as string) || '',
-        aid: (item.aid as number) || 0,
-        title: (item.title as string) || '',
-        desc: (item.desc as string) || '',
-        pic: normalizeImageUrl(item.pic),
-        duration: (item.duration as number) || 0,
-        view: parseCount(stat?.view),
-        danmaku: parseCount(stat?.danmaku),
-        reply: parseCount(stat?.reply),
-        favorite: parseCount(stat?.favorite),
-        coin: parseCount(stat?.coin),
-        share: parseCount(stat?.share),
-        like: parseCount(stat?.like),
-        owner: {
-          mid: (owner?.mid as number) || 0,
-          name: (owner?.name as string) || '',
-          face: normalizeImageUrl(owner?.face),
-        },
-        pubdate: (item.pubdate as number) || 0,
-        cid: (item.cid as number) || 0,
-      };
-    });
+    const videos = parseList('archive/related', ARCHIVE_SCHEMA, result.value.data ?? [], 'data').map(item => normalizeVideo(item));
 
     // Translate titles and channel names
     await translateVideoDetails(videos);
@@ -0,0 +1,206 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  ARCHIVE_SCHEMA,
+  CHANNEL_VIDEO_SCHEMA,
+  COLLECTION_SCHEMA,
+  REGION_ARCHIVE_SCHEMA,
+  SEARCH_RESULT_SCHEMA,
+  SEASON_SCHEMA,
+  VIDEO_DETAIL_SCHEMA,
+  VIDEO_TAG_SCHEMA,
+  BiliSchemaError,
+  normalizeCollection,
+  normalizeSeason,
+  normalizeVideo,
+  normalizeVideoDetail,
+  parseList,
+  parseResponse,
+} from './bilibiliSchemas'
+import {
+  rankingResponse,
+  searchResponse,
+  regionRankingResponse,
+  spaceVideosResponse,
+  viewResponse,
+  archiveTagsResponse,
+  pgcSeasonResponse,
+} from './__fixtures__/bilibili'
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value))
+}
+
+describe('bilibili response schemas', () => {
+  it('normalizes ranking archives', () => {
+    const [video] = parseList('ranking/v2', ARCHIVE_SCHEMA, rankingResponse.data.list).map(item => normalizeVideo(item))
+
+    expect(video).toEqual({
+      bvid: 'BV1xx411c7mD',
+      aid: 113501234567890,
+      title: '【黑神话】全收集攻略',
+      desc: '全流程收集',
+      pic: 'https://i0.hdslb.com/bfs/archive/ranking.jpg',
+      duration: 1325,
+      view: 2310456,
+      danmaku: 15321,
+      reply: 8123,
+      favorite: 120034,
+      coin: 98012,
+      share: 4521,
+      like: 230145,
+      owner: { mid: 546195, name: '老番茄', face: 'https://i1.hdslb.com/bfs/face/owner.jpg' },
+      pubdate: 1716544800,
+      cid: 1552345678,
+    })
+  })
+
+  it('normalizes search results', () => {
+    const [video] = parseList('search', SEARCH_RESULT_SCHEMA, searchResponse.data.result, 'data.result')
+      .map(item => normalizeVideo(item))
+
+    expect(video.title).toBe('相机评测')
+    expect(video.desc).toBe('年度相机横评')
+    expect(video.pic).toBe('https://i2.hdslb.com/bfs/archive/search.jpg')
+    expect(video.duration).toBe(725)
+    expect(video.view).toBe(1043210)
+    expect(video.favorite).toBe(32001)
+    expect(video.owner).toEqual({ mid: 946974, name: '影视飓风', face: 'https://i0.hdslb.com/bfs/face/upic.jpg' })
+    expect(video.cid).toBeUndefined()
+  })
+
+  it('normalizes region ranking items with string aid and Beijing create time', () => {
+    const [video] = parseList('region', REGION_ARCHIVE_SCHEMA, regionRankingResponse.data, 'data')
+      .map(item => normalizeVideo(item))
+
+    expect(video.aid).toBe(113400011122233)
+    expect(video.duration).toBe(522)
+    expect(video.view).toBe(320145)
+    expect(video.danmaku).toBe(1203)
+    expect(video.coin).toBe(4012)
+    expect(video.owner.name).toBe('某up主')
+    expect(video.pubdate).toBe(Date.parse('2024-05-20T10:30:00Z') / 1000)
+  })
+
+  it('normalizes space videos with the channel as owner', () => {
+    const [video] = parseList('space/arc/search', CHANNEL_VIDEO_SCHEMA, spaceVideosResponse.data.list.vlist, 'data.list.vlist')
+      .map(item => normalizeVideo(item, { mid: 546195, name: '老番茄', face: 'https://i1.hdslb.com/face.jpg' }))
+
+    expect(video.view).toBe(0) // Hidden play counts come as "--"
+    expect(video.reply).toBe(1203)
+    expect(video.duration).toBe(1510)
+    expect(video.pubdate).toBe(1716300000)
+    expect(video.owner).toEqual({ mid: 546195, name: '老番茄', face: 'https://i1.hdslb.com/face.jpg' })
+  })
+
+  it('reads parts, tags, rights and honours from a video view', () => {
+    const video = normalizeVideo(parseResponse('view', ARCHIVE_SCHEMA, viewResponse.data))
+    const extras = parseResponse('view', VIDEO_DETAIL_SCHEMA, viewResponse.data)
+    const tags = parseList('archive/tags', VIDEO_TAG_SCHEMA, archiveTagsResponse.data, 'data')
+
+    const detail = normalizeVideoDetail(video, extras, tags)
+
+    expect(detail.pages).toEqual([
+      { cid: 1553000001, page: 1, part: '第一讲 向量', duration: 2702 },
+      { cid: 1553000002, page: 2, part: '第二讲 矩阵', duration: 2703 },
+    ])
+    expect(detail.tags).toEqual([{ id: 1009, name: '数学' }, { id: 2811, name: '线性代数' }])
+    expect(detail.rights).toEqual({ download: true, noReprint: true, paid: false, cooperation: false, interactive: false })
+    expect(detail.honours).toEqual([{ type: 4, desc: '百万播放' }])
+  })
+
+  it('treats a view without a pages list as a single part', () => {
+    const single: Partial<typeof viewResponse.data> = clone(viewResponse.data)
+    delete single.pages
+    delete single.honor_reply
+    const video = normalizeVideo(parseResponse('view', ARCHIVE_SCHEMA, single))
+
+    const detail = normalizeVideoDetail(video, parseResponse('view', VIDEO_DETAIL_SCHEMA, single), [])
+
+    expect(detail.pages).toEqual([{ cid: 1553000001, page: 1, part: '线性代数 全集', duration: 5405 }])
+    expect(detail.honours).toEqual([])
+  })
+
+  it('reads a collection in section and episode order', () => {
+    const owner = { mid: 777001, name: '数学老师', face: 'https://i2.hdslb.com/bfs/face/teacher.jpg' }
+    const collection = normalizeCollection(
+      parseResponse('view', COLLECTION_SCHEMA, viewResponse.data.ugc_season, 'data.ugc_season'),
+      owner
+    )
+
+    expect(collection.title).toBe('大学数学')
+    expect(collection.cover).toBe('https://i0.hdslb.com/bfs/archive/season.jpg')
+    expect(collection.sections.map(section => section.title)).toEqual(['线性代数', '微积分'])
+    const [episode] = collection.sections[1].episodes
+    expect(episode).toMatchObject({
+      bvid: 'BV1Ck411c7Qd',
+      aid: 113504444555666,
+      cid: 1554000001,
+      title: '微积分 第一讲',
+      duration: 3120,
+      view: 40230,
+      favorite: 2100,
+      owner,
+    })
+  })
+
+  it('reads a PGC season with region lock and premium episodes', () => {
+    const season = normalizeSeason(parseResponse('pgc/season', SEASON_SCHEMA, pgcSeasonResponse.result, 'result'))
+
+    expect(season).toMatchObject({
+      seasonId: 39462,
+      title: '间谍过家家',
+      cover: 'https://i0.hdslb.com/bfs/bangumi/image/spyfamily.png',
+      areaLimited: true,
+      views: 281000000,
+      rating: 9.7,
+      publisher: { mid: 928123, name: '哔哩哔哩番剧', face: 'https://i0.hdslb.com/bfs/face/bangumi.jpg' },
+    })
+    expect(season.episodes.map(episode => [episode.epId, episode.cid, episode.duration, episode.vipOnly])).toEqual([
+      [508404, 590000001, 1440, false],
+      [508405, 590000002, 1420, true],
+    ])
+  })
+
+  it('reports drift with the endpoint and path', () => {
+    const drifted = clone(rankingResponse)
+    delete (drifted.data.list[0].stat as Partial<typeof drifted.data.list[0]['stat']>).view
+
+    expect(() => parseList('ranking/v2', ARCHIVE_SCHEMA, drifted.data.list)).toThrow(BiliSchemaError)
+    try {
+      parseList('ranking/v2', ARCHIVE_SCHEMA, drifted.data.list)
+    } catch (error) {
+      expect((error as BiliSchemaError).endpoint).toBe('ranking/v2')
+      expect((error as BiliSchemaError).issues).toEqual([
+        { path: 'data.list[0].stat.view', expected: 'number | string', received: 'undefined' },
+      ])
+      expect((error as Error).message).toBe(
+        'ranking/v2 response changed shape: data.list[0].stat.view: expected number | string, got undefined'
+      )
+    }
+  })
+
+  it('throws when the list itself is missing', () => {
+    expect(() => parseList('popular', ARCHIVE_SCHEMA, undefined)).toThrow(
+      'popular response changed shape: data.list: expected object[], got undefined'
+    )
+  })
+
+  it('drops single odd items and keeps the rest', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const list = [...clone(rankingResponse).data.list, { bvid: 'BV1ad', title: 'ad card' }]
+
+    const items = parseList('ranking/v2', ARCHIVE_SCHEMA, list)
+
+    expect(items).toHaveLength(1)
+    expect(warn).toHaveBeenCalledWith('[Bilibili] Skipped items that changed shape:', expect.stringContaining('data.list[1].aid'))
+    warn.mockRestore()
+  })
+
+  it('validates a single payload strictly', () => {
+    const drifted = { ...rankingResponse.data.list[0], owner: { mid: '546195', name: '老番茄' } }
+
+    expect(() => parseResponse('view', ARCHIVE_SCHEMA, drifted)).toThrow(
+      'view response changed shape: data.owner.mid: expected number, got "546195"'
+    )
+  })
+})
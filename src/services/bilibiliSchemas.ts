@@ -0,0 +1,645 @@
+import type {
+  BiliCollection,
+  BiliEpisode,
+  BiliHotSearch,
+  BiliLiveRoom,
+  BiliSeason,
+  BiliSeasonSummary,
+  BiliVideo,
+  BiliVideoDetail,
+  BiliVideoPage,
+} from '../types/bilibili';
+import {
+  array,
+  number,
+  object,
+  optional,
+  string,
+  union,
+  validate,
+  type Infer,
+  type Schema,
+  type SchemaIssue,
+} from '../utils/schema';
+
+// Shapes of the raw Bilibili responses we read videos from, and the one place they
+// become a BiliVideo. When Bilibili changes a field, validation names the endpoint and
+// the path instead of letting undefined slip through as a 0-view video.
+
+// Thrown when a response no longer has the shape we read
+export class BiliSchemaError extends Error {
+  endpoint: string;
+  issues: SchemaIssue[];
+
+  constructor(endpoint: string, issues: SchemaIssue[]) {
+    const [first] = issues;
+    const more = issues.length > 1 ? ` (+${issues.length - 1} more)` : '';
+    super(`${endpoint} response changed shape: ${first.path}: expected ${first.expected}, got ${first.received}${more}`);
+    this.name = 'BiliSchemaError';
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
+// Counts arrive as numbers, or as display strings ("1.2万", "--") in search and space lists
+const count = union(number(), string());
+
+const RAW_STAT = object({
+  view: count,
+  danmaku: count,
+  reply: count,
+  favorite: count,
+  coin: count,
+  share: count,
+  like: count,
+});
+
+const RAW_OWNER = object({
+  mid: number(),
+  name: string(),
+  face: optional(string()),
+});
+
+// ranking/v2, popular, archive/related and view
+export const ARCHIVE_SCHEMA = object({
+  bvid: string(),
+  aid: number(),
+  title: string(),
+  desc: optional(string()),
+  pic: string(),
+  duration: number(),
+  stat: RAW_STAT,
+  owner: RAW_OWNER,
+  pubdate: number(),
+  cid: optional(number()),
+});
+
+// search/type?search_type=video
+export const SEARCH_RESULT_SCHEMA = object({
+  bvid: string(),
+  aid: number(),
+  title: string(),
+  description: optional(string()),
+  pic: string(),
+  duration: union(string(), number()),
+  play: count,
+  danmaku: optional(count),
+  favorites: optional(count),
+  like: optional(count),
+  mid: number(),
+  author: string(),
+  upic: optional(string()),
+  pubdate: number(),
+});
+
+// dynamic/region and newlist send archives; ranking/region sends flat items with
+// play, author and a "2024-05-01 12:00:00" create time, and aid as a string
+export const REGION_ARCHIVE_SCHEMA = object({
+  bvid: string(),
+  aid: optional(count),
+  title: string(),
+  desc: optional(string()),
+  description: optional(string()),
+  pic: optional(string()),
+  duration: optional(union(number(), string())),
+  stat: optional(RAW_STAT),
+  owner: optional(RAW_OWNER),
+  play: optional(count),
+  video_review: optional(count),
+  favorites: optional(count),
+  coins: optional(count),
+  mid: optional(number()),
+  author: optional(string()),
+  pubdate: optional(number()),
+  create: optional(union(string(), number())),
+});
+
+// space/arc/search vlist
+export const CHANNEL_VIDEO_SCHEMA = object({
+  bvid: string(),
+  aid: number(),
+  title: string(),
+  description: optional(string()),
+  pic: string(),
+  length: optional(string()),
+  play: count,
+  video_review: optional(count),
+  comment: optional(count),
+  mid: optional(number()),
+  author: optional(string()),
+  created: number(),
+});
+
+// Fields of view read next to the archive itself: parts, rights and honours. Rights
+// are 0/1 flags.
+const flag = optional(number());
+
+export const VIDEO_DETAIL_SCHEMA = object({
+  pages: optional(array(object({
+    cid: number(),
+    page: number(),
+    part: string(),
+    duration: number(),
+  }))),
+  rights: optional(object({
+    download: flag,
+    no_reprint: flag,
+    pay: flag,
+    ugc_pay: flag,
+    is_cooperation: flag,
+    is_stein_gate: flag,
+  })),
+  honor_reply: optional(object({
+    honor: optional(array(object({
+      type: number(),
+      desc: string(),
+    }))),
+  })),
+});
+
+// ugc_season of view: the collection (合集) the video is part of. Episode stats use
+// fav rather than favorite.
+export const COLLECTION_SCHEMA = object({
+  id: number(),
+  title: string(),
+  cover: optional(string()),
+  intro: optional(string()),
+  sections: array(object({
+    id: number(),
+    title: string(),
+    episodes: array(object({
+      bvid: string(),
+      aid: number(),
+      cid: number(),
+      title: string(),
+      arc: object({
+        pic: string(),
+        duration: number(),
+        pubdate: number(),
+        stat: object({
+          view: count,
+          danmaku: optional(count),
+          reply: optional(count),
+          fav: optional(count),
+          coin: optional(count),
+          like: optional(count),
+        }),
+      }),
+    })),
+  })),
+});
+
+// pgc/view/web/season result. Episode durations are in milliseconds; title is the
+// episode number and long_title its name.
+export const SEASON_SCHEMA = object({
+  season_id: number(),
+  title: string(),
+  cover: string(),
+  evaluate: optional(string()),
+  type: number(),
+  rights: optional(object({
+    area_limit: flag,
+  })),
+  stat: optional(object({
+    views: optional(count),
+  })),
+  rating: optional(object({
+    score: number(),
+  })),
+  up_info: optional(object({
+    mid: number(),
+    uname: string(),
+    avatar: optional(string()),
+  })),
+  episodes: array(object({
+    id: number(),
+    aid: number(),
+    bvid: optional(string()),
+    cid: number(),
+    title: string(),
+    long_title: optional(string()),
+    cover: optional(string()),
+    duration: optional(number()),
+    badge: optional(string()),
+    status: optional(number()),
+  })),
+});
+
+// pgc/web/rank/list list
+export const SEASON_RANK_SCHEMA = object({
+  season_id: number(),
+  title: string(),
+  cover: string(),
+  badge: optional(string()),
+  new_ep: optional(object({
+    index_show: optional(string()),
+  })),
+  stat: optional(object({
+    view: optional(count),
+  })),
+});
+
+// search/square trending list
+export const HOT_SEARCH_SCHEMA = object({
+  keyword: string(),
+  show_name: optional(string()),
+  icon: optional(string()),
+});
+
+// tag/archive/tags
+export const VIDEO_TAG_SCHEMA = object({
+  tag_id: number(),
+  tag_name: string(),
+});
+
+// Live rooms: xlive/web-room/v1/index/getInfoByRoom
+export const LIVE_ROOM_INFO_SCHEMA = object({
+  room_info: object({
+    room_id: number(),
+    uid: number(),
+    title: string(),
+    cover: optional(string()),
+    keyframe: optional(string()),
+    live_status: number(), // 0 offline, 1 live, 2 replaying recordings
+    live_start_time: optional(number()),
+    area_id: number(),
+    area_name: string(),
+    parent_area_id: number(),
+    parent_area_name: string(),
+    online: optional(count),
+  }),
+  anchor_info: optional(object({
+    base_info: object({
+      uname: string(),
+      face: optional(string()),
+    }),
+  })),
+  watched_show: optional(object({
+    num: optional(count),
+  })),
+});
+
+// Rooms as listed by webMain/getMoreRecList and area/getRoomList
+export const LIVE_LIST_ROOM_SCHEMA = object({
+  roomid: number(),
+  uid: number(),
+  title: string(),
+  uname: string(),
+  face: optional(string()),
+  cover: optional(string()),
+  user_cover: optional(string()),
+  system_cover: optional(string()),
+  keyframe: optional(string()),
+  online: optional(count),
+  area_v2_id: optional(number()),
+  area_v2_name: optional(string()),
+  area_v2_parent_id: optional(number()),
+  area_v2_parent_name: optional(string()),
+  watched_show: optional(object({
+    num: optional(count),
+  })),
+});
+
+// room/v1/Area/getList; sub-area ids come as strings
+export const LIVE_AREA_SCHEMA = object({
+  id: number(),
+  name: string(),
+  list: optional(array(object({
+    id: count,
+    name: string(),
+  }))),
+});
+
+// xlive/web-room/v2/index/getRoomPlayInfo; playurl_info is null while offline
+export const LIVE_PLAY_INFO_SCHEMA = object({
+  room_id: number(),
+  live_status: number(),
+  playurl_info: optional(object({
+    playurl: object({
+      g_qn_desc: optional(array(object({
+        qn: number(),
+        desc: string(),
+      }))),
+      stream: array(object({
+        protocol_name: string(), // http_stream (FLV) or http_hls
+        format: array(object({
+          format_name: string(), // flv, ts or fmp4
+          codec: array(object({
+            codec_name: string(), // avc or hevc
+            current_qn: number(),
+            accept_qn: optional(array(number())),
+            base_url: string(),
+            url_info: array(object({
+              host: string(),
+              extra: string(),
+            })),
+          })),
+        })),
+      })),
+    }),
+  })),
+});
+
+export type RawArchive = Infer<typeof ARCHIVE_SCHEMA>;
+export type RawSearchResult = Infer<typeof SEARCH_RESULT_SCHEMA>;
+export type RawRegionArchive = Infer<typeof REGION_ARCHIVE_SCHEMA>;
+export type RawChannelVideo = Infer<typeof CHANNEL_VIDEO_SCHEMA>;
+export type RawCollection = Infer<typeof COLLECTION_SCHEMA>;
+export type RawSeason = Infer<typeof SEASON_SCHEMA>;
+export type RawSeasonRankItem = Infer<typeof SEASON_RANK_SCHEMA>;
+export type RawHotSearch = Infer<typeof HOT_SEARCH_SCHEMA>;
+export type RawLiveRoomInfo = Infer<typeof LIVE_ROOM_INFO_SCHEMA>;
+export type RawLiveListRoom = Infer<typeof LIVE_LIST_ROOM_SCHEMA>;
+export type RawLiveArea = Infer<typeof LIVE_AREA_SCHEMA>;
+export type RawLivePlayInfo = Infer<typeof LIVE_PLAY_INFO_SCHEMA>;
+
+// Checks one response payload; path is where it sits in the response, for the error
+export function parseResponse<T>(endpoint: string, schema: Schema<T>, value: unknown, path = 'data'): T {
+  const result = validate(schema, value, path);
+  if (!result.ok) throw new BiliSchemaError(endpoint, result.issues);
+  return result.value;
+}
+
+// Checks a list item by item. An odd item (an ad, a deleted video) is dropped with a
+// warning; when none of them match, the list itself has changed and that's an error.
+export function parseList<T>(endpoint: string, item: Schema<T>, value: unknown, path = 'data.list'): T[] {
+  if (!Array.isArray(value)) {
+    throw new BiliSchemaError(endpoint, [{ path, expected: `${item.expected}[]`, received: value === null ? 'null' : typeof value }]);
+  }
+
+  const items: T[] = [];
+  const issues: SchemaIssue[] = [];
+  value.forEach((entry, i) => {
+    const result = validate(item, entry, `${path}[${i}]`);
+    if (result.ok) items.push(result.value);
+    else issues.push(...result.issues);
+  });
+
+  if (value.length > 0 && items.length === 0) throw new BiliSchemaError(endpoint, issues);
+  if (issues.length > 0) {
+    console.warn('[Bilibili] Skipped items that changed shape:', new BiliSchemaError(endpoint, issues).message);
+  }
+  return items;
+}
+
+export function normalizeImageUrl(value: unknown): string {
+  if (typeof value !== 'string') return '';
+  const trimmed = value.trim();
+  if (!trimmed) return '';
+  if (trimmed.startsWith('//')) return `https:${trimmed}`;
+  return trimmed.replace(/^http:/, 'https:');
+}
+
+export function parseCount(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return 0;
+  const trimmed = value.trim();
+  if (!trimmed) return 0;
+  const last = trimmed.slice(-1);
+  const num = parseFloat(trimmed);
+  if (Number.isNaN(num)) return 0;
+  if (last === '万') return Math.round(num * 10000);
+  if (last === '亿') return Math.round(num * 100000000);
+  if (last === 'K' || last === 'k') return Math.round(num * 1000);
+  if (last === 'M' || last === 'm') return Math.round(num * 1000000);
+  return Math.round(num);
+}
+
+export function parseDuration(duration: string | number): number {
+  if (typeof duration === 'number') return duration;
+  const parts = duration.split(':').map(Number);
+  if (parts.length === 3) {
+    return parts[0] * 3600 + parts[1] * 60 + parts[2];
+  }
+  if (parts.length === 2) {
+    return parts[0] * 60 + parts[1];
+  }
+  return 0;
+}
+
+// Unix seconds, from a timestamp or a Beijing-time "YYYY-MM-DD HH:MM:SS"
+function parseTimestamp(value: string | number | undefined): number {
+  if (typeof value === 'number') return value;
+  if (!value) return 0;
+  const ms = Date.parse(`${value.trim().replace(' ', 'T')}+08:00`);
+  return Number.isNaN(ms) ? 0 : Math.floor(ms / 1000);
+}
+
+type RawCount = number | string;
+
+// Every field any of the video schemas above can carry
+export interface RawVideoFields {
+  bvid: string;
+  aid?: RawCount;
+  title: string;
+  desc?: string;
+  description?: string;
+  pic?: string;
+  duration?: number | string;
+  length?: string;
+  stat?: Record<'view' | 'danmaku' | 'reply' | 'favorite' | 'coin' | 'share' | 'like', RawCount>;
+  owner?: { mid: number; name: string; face?: string };
+  play?: RawCount;
+  danmaku?: RawCount;
+  video_review?: RawCount;
+  comment?: RawCount;
+  favorites?: RawCount;
+  coins?: RawCount;
+  like?: RawCount;
+  mid?: number;
+  author?: string;
+  upic?: string;
+  pubdate?: number;
+  created?: number;
+  create?: string | number;
+  cid?: number;
+}
+
+// Fills in the uploader where the list doesn't carry one (a channel's own videos)
+export interface OwnerFallback {
+  mid: number;
+  name: string;
+  face: string;
+}
+
+export function normalizeVideo(raw: RawVideoFields, fallbackOwner?: OwnerFallback): BiliVideo {
+  const stat = raw.stat;
+  const duration = raw.duration ?? raw.length;
+  const video: BiliVideo = {
+    bvid: raw.bvid,
+    aid: Number(raw.aid) || 0,
+    title: raw.title.replace(/<[^>]*>/g, ''), // Search highlights matches with <em>
+    desc: raw.desc || raw.description || '',
+    pic: normalizeImageUrl(raw.pic),
+    duration: duration === undefined ? 0 : parseDuration(duration),
+    view: parseCount(stat?.view ?? raw.play),
+    danmaku: parseCount(stat?.danmaku ?? raw.danmaku ?? raw.video_review),
+    reply: parseCount(stat?.reply ?? raw.comment),
+    favorite: parseCount(stat?.favorite ?? raw.favorites),
+    coin: parseCount(stat?.coin ?? raw.coins),
+    share: parseCount(stat?.share),
+    like: parseCount(stat?.like ?? raw.like),
+    owner: {
+      mid: raw.owner?.mid || raw.mid || fallbackOwner?.mid || 0,
+      name: raw.owner?.name || raw.author || fallbackOwner?.name || '',
+      face: normalizeImageUrl(raw.owner?.face || raw.upic || fallbackOwner?.face),
+    },
+    pubdate: raw.pubdate || raw.created || parseTimestamp(raw.create),
+  };
+  if (raw.cid) video.cid = raw.cid;
+  return video;
+}
+
+export function normalizeVideoDetail(
+  video: BiliVideo,
+  extras: Infer<typeof VIDEO_DETAIL_SCHEMA>,
+  tags: Infer<typeof VIDEO_TAG_SCHEMA>[]
+): BiliVideoDetail {
+  const rights = extras.rights ?? {};
+  const pages: BiliVideoPage[] = (extras.pages ?? []).map(page => ({
+    cid: page.cid,
+    page: page.page,
+    part: page.part,
+    duration: page.duration,
+  }));
+  // Older uploads can come without a pages list; they're a single part
+  if (pages.length === 0 && video.cid) {
+    pages.push({ cid: video.cid, page: 1, part: video.title, duration: video.duration });
+  }
+  return {
+    video,
+    pages,
+    tags: tags.map(tag => ({ id: tag.tag_id, name: tag.tag_name })),
+    rights: {
+      download: rights.download === 1,
+      noReprint: rights.no_reprint === 1,
+      paid: rights.pay === 1 || rights.ugc_pay === 1,
+      cooperation: rights.is_cooperation === 1,
+      interactive: rights.is_stein_gate === 1,
+    },
+    honours: (extras.honor_reply?.honor ?? []).map(honour => ({ type: honour.type, desc: honour.desc })),
+  };
+}
+
+// Episodes are uploads by the collection's owner, who isn't repeated on each one
+export function normalizeCollection(raw: RawCollection, owner: OwnerFallback): BiliCollection {
+  return {
+    id: raw.id,
+    title: raw.title,
+    cover: normalizeImageUrl(raw.cover),
+    intro: raw.intro || '',
+    sections: raw.sections.map(section => ({
+      id: section.id,
+      title: section.title,
+      episodes: section.episodes.map(episode => normalizeVideo({
+        bvid: episode.bvid,
+        aid: episode.aid,
+        title: episode.title,
+        pic: episode.arc.pic,
+        duration: episode.arc.duration,
+        play: episode.arc.stat.view,
+        danmaku: episode.arc.stat.danmaku,
+        comment: episode.arc.stat.reply,
+        favorites: episode.arc.stat.fav,
+        coins: episode.arc.stat.coin,
+        like: episode.arc.stat.like,
+        pubdate: episode.arc.pubdate,
+        cid: episode.cid,
+      }, owner)),
+    })),
+  };
+}
+
+// Status 13 marks premium-only episodes; the badge says so too on older seasons
+const VIP_EPISODE_STATUS = 13;
+
+export function normalizeSeason(raw: RawSeason): BiliSeason {
+  const episodes: BiliEpisode[] = raw.episodes.map(episode => ({
+    epId: episode.id,
+    aid: episode.aid,
+    bvid: episode.bvid || '',
+    cid: episode.cid,
+    title: episode.title,
+    longTitle: episode.long_title || '',
+    cover: normalizeImageUrl(episode.cover),
+    duration: Math.round((episode.duration ?? 0) / 1000),
+    badge: episode.badge || '',
+    vipOnly: episode.status === VIP_EPISODE_STATUS || (episode.badge ?? '').includes('会员'),
+  }));
+  const season: BiliSeason = {
+    seasonId: raw.season_id,
+    title: raw.title,
+    cover: normalizeImageUrl(raw.cover),
+    evaluate: raw.evaluate || '',
+    type: raw.type,
+    areaLimited: raw.rights?.area_limit === 1,
+    views: parseCount(raw.stat?.views),
+    episodes,
+  };
+  if (raw.rating) season.rating = raw.rating.score;
+  if (raw.up_info) {
+    season.publisher = { mid: raw.up_info.mid, name: raw.up_info.uname, face: normalizeImageUrl(raw.up_info.avatar) };
+  }
+  return season;
+}
+
+export function normalizeSeasonSummary(raw: RawSeasonRankItem): BiliSeasonSummary {
+  return {
+    seasonId: raw.season_id,
+    title: raw.title,
+    cover: normalizeImageUrl(raw.cover),
+    latestEpisode: raw.new_ep?.index_show || '',
+    views: parseCount(raw.stat?.view),
+    badge: raw.badge || '',
+  };
+}
+
+export function normalizeHotSearch(raw: RawHotSearch): BiliHotSearch {
+  return {
+    keyword: raw.keyword,
+    showName: raw.show_name || raw.keyword,
+    icon: normalizeImageUrl(raw.icon),
+  };
+}
+
+export function normalizeLiveRoom(raw: RawLiveRoomInfo): BiliLiveRoom {
+  const info = raw.room_info;
+  const room: BiliLiveRoom = {
+    roomId: info.room_id,
+    uid: info.uid,
+    title: info.title,
+    cover: normalizeImageUrl(info.cover || info.keyframe),
+    anchor: {
+      name: raw.anchor_info?.base_info.uname || '',
+      face: normalizeImageUrl(raw.anchor_info?.base_info.face),
+    },
+    online: parseCount(info.online) || parseCount(raw.watched_show?.num),
+    areaId: info.area_id,
+    areaName: info.area_name,
+    parentAreaId: info.parent_area_id,
+    parentAreaName: info.parent_area_name,
+    live: info.live_status === 1,
+  };
+  if (info.live_start_time) room.liveSince = info.live_start_time;
+  return room;
+}
+
+// Listed rooms are always live
+export function normalizeLiveListRoom(raw: RawLiveListRoom): BiliLiveRoom {
+  return {
+    roomId: raw.roomid,
+    uid: raw.uid,
+    title: raw.title,
+    cover: normalizeImageUrl(raw.user_cover || raw.cover || raw.keyframe || raw.system_cover),
+    anchor: {
+      name: raw.uname,
+      face: normalizeImageUrl(raw.face),
+    },
+    online: parseCount(raw.online) || parseCount(raw.watched_show?.num),
+    areaId: raw.area_v2_id ?? 0,
+    areaName: raw.area_v2_name || '',
+    parentAreaId: raw.area_v2_parent_id ?? 0,
+    parentAreaName: raw.area_v2_parent_name || '',
+    live: true,
+  };
+}
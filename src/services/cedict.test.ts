@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import { parseCedict, lookupWord, segmentText, importDictionary, getDictionaryInfo } from './cedict'
+
+describe('Dictionary', () => {
+  describe('parseCedict', () => {
+    it('should parse entries and skip comments', () => {
+      const entries = parseCedict([
+        '# CC-CEDICT',
+        '#! version=1',
+        '電腦 电脑 [dian4 nao3] /computer/CL:臺|台[tai2]/',
+        'not an entry',
+      ].join('\r\n'))
+
+      expect(entries).toEqual([{
+        traditional: '電腦',
+        simplified: '电脑',
+        pinyin: 'dian4 nao3',
+        definitions: ['computer', 'CL:臺|台[tai2]'],
+      }])
+    })
+
+    it('should return nothing for text that is not CC-CEDICT', () => {
+      expect(parseCedict('word,translation\n弹幕,danmaku')).toEqual([])
+    })
+  })
+
+  describe('lookupWord', () => {
+    it('should find words by simplified and traditional form', () => {
+      expect(lookupWord('弹幕')[0].pinyin).toBe('dan4 mu4')
+      expect(lookupWord('彈幕')[0].simplified).toBe('弹幕')
+      expect(lookupWord('龘')).toEqual([])
+    })
+  })
+
+  describe('segmentText', () => {
+    it('should prefer the longest word', () => {
+      const segments = segmentText('一键三连')
+
+      expect(segments).toHaveLength(1)
+      expect(segments[0].entries[0].pinyin).toBe('yi1 jian4 san1 lian2')
+    })
+
+    it('should split a sentence into words and keep other text together', () => {
+      const segments = segmentText('这个视频太好看了!! 233')
+
+      expect(segments.map(s => s.text)).toEqual(['这个', '视频', '太', '好看', '了', '!! 233'])
+      expect(segments.map(s => s.isWord)).toEqual([true, true, true, true, true, false])
+    })
+
+    it('should turn unknown characters into single-character words', () => {
+      const segments = segmentText('龘龘')
+
+      expect(segments).toEqual([
+        { text: '龘', entries: [], isWord: true },
+        { text: '龘', entries: [], isWord: true },
+      ])
+    })
+  })
+
+  describe('importDictionary', () => {
+    it('should reject files that are not CC-CEDICT', async () => {
+      expect(await importDictionary('hello world')).toBe(0)
+      expect((await getDictionaryInfo()).importedEntries).toBe(0)
+    })
+
+    it('should add imported entries to the starter dictionary', async () => {
+      const count = await importDictionary('龘 龘 [da2] /appearance of a dragon in flight/')
+
+      expect(count).toBe(1)
+      expect(lookupWord('龘')[0].definitions).toEqual(['appearance of a dragon in flight'])
+      expect(lookupWord('弹幕')).toHaveLength(1)
+      expect((await getDictionaryInfo()).importedEntries).toBe(1)
+    })
+  })
+})
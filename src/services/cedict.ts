@@ -0,0 +1,230 @@
+import { STARTER_DICTIONARY } from './cedictData';
+
+// Offline Chinese-English dictionary in CC-CEDICT format, used to split Chinese text
+// into words for learning mode. A small starter dictionary is bundled; the full
+// CC-CEDICT file can be imported and is kept in IndexedDB.
+
+export interface DictionaryEntry {
+  traditional: string;
+  simplified: string;
+  pinyin: string; // Numbered, as CC-CEDICT writes it: "ni3 hao3"
+  definitions: string[];
+}
+
+export interface TextSegment {
+  text: string;
+  // Every dictionary entry for this word; empty for unknown characters and non-Chinese text
+  entries: DictionaryEntry[];
+  // Chinese that can be looked up, as opposed to punctuation, Latin text and emoji
+  isWord: boolean;
+}
+
+export interface DictionaryInfo {
+  starterEntries: number;
+  importedEntries: number;
+  importedAt: number | null;
+}
+
+const DB_NAME = 'bilibili-dictionary';
+const DB_VERSION = 1;
+const STORE_NAME = 'files';
+const IMPORTED_KEY = 'cedict';
+// Longest word we try to match; CC-CEDICT has longer idioms, but they're rare in comments
+const MAX_WORD_LENGTH = 8;
+
+const LINE_PATTERN = /^(\S+)\s+(\S+)\s+\[([^\]]*)\]\s+\/(.*)\/\s*$/;
+const HAN_PATTERN = /[㐀-鿿]/;
+
+interface ImportedDictionary {
+  key: string;
+  text: string;
+  entries: number;
+  importedAt: number;
+}
+
+// "Traditional Simplified [pin1 yin1] /definition/another/", one per line; # lines are comments
+export function parseCedict(text: string): DictionaryEntry[] {
+  const entries: DictionaryEntry[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if (!line || line.startsWith('#')) continue;
+    const match = LINE_PATTERN.exec(line);
+    if (!match) continue;
+    entries.push({
+      traditional: match[1],
+      simplified: match[2],
+      pinyin: match[3].trim(),
+      definitions: match[4].split('/').filter(Boolean),
+    });
+  }
+  return entries;
+}
+
+let words: Map<string, DictionaryEntry[]> | null = null;
+let starterCount = 0;
+let imported: { entries: number; importedAt: number } | null = null;
+let importedLoad: Promise<void> | null = null;
+
+function addEntries(entries: DictionaryEntry[]): void {
+  const index = getWords();
+  for (const entry of entries) {
+    for (const form of new Set([entry.simplified, entry.traditional])) {
+      const existing = index.get(form);
+      // The same entry can come from both dictionaries
+      if (existing?.some(e => e.pinyin === entry.pinyin && e.definitions.join('/') === entry.definitions.join('/'))) continue;
+      if (existing) existing.push(entry);
+      else index.set(form, [entry]);
+    }
+  }
+}
+
+function getWords(): Map<string, DictionaryEntry[]> {
+  if (words) return words;
+  words = new Map();
+  const starter = parseCedict(STARTER_DICTIONARY);
+  starterCount = starter.length;
+  addEntries(starter);
+  return words;
+}
+
+export function lookupWord(word: string): DictionaryEntry[] {
+  return getWords().get(word) ?? [];
+}
+
+// Longest match first, left to right. Characters the dictionary doesn't know become
+// one-character words so they can still show pinyin.
+export function segmentText(text: string): TextSegment[] {
+  const index = getWords();
+  const segments: TextSegment[] = [];
+  let plain = '';
+  const flushPlain = () => {
+    if (plain) segments.push({ text: plain, entries: [], isWord: false });
+    plain = '';
+  };
+
+  for (let i = 0; i < text.length;) {
+    let matched = 0;
+    for (let size = Math.min(MAX_WORD_LENGTH, text.length - i); size >= 1; size--) {
+      if (index.has(text.slice(i, i + size))) {
+        matched = size;
+        break;
+      }
+    }
+    if (matched > 0) {
+      flushPlain();
+      const word = text.slice(i, i + matched);
+      segments.push({ text: word, entries: index.get(word)!, isWord: true });
+      i += matched;
+    } else if (HAN_PATTERN.test(text[i])) {
+      flushPlain();
+      segments.push({ text: text[i], entries: [], isWord: true });
+      i++;
+    } else {
+      plain += text[i];
+      i++;
+    }
+  }
+  flushPlain();
+  return segments;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('[Dictionary] Failed to open database:', request.error);
+        resolve(null);
+      };
+    } catch (error) {
+      console.error('[Dictionary] IndexedDB unavailable:', error);
+      resolve(null);
+    }
+  });
+  return dbPromise;
+}
+
+// Merge an imported CC-CEDICT file into the dictionary, once per session
+export function loadImportedDictionary(): Promise<void> {
+  if (importedLoad) return importedLoad;
+  importedLoad = (async () => {
+    const db = await openDatabase();
+    if (!db) return;
+    try {
+      const record = await requestToPromise<ImportedDictionary | undefined>(
+        db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(IMPORTED_KEY)
+      );
+      if (!record) return;
+      addEntries(parseCedict(record.text));
+      imported = { entries: record.entries, importedAt: record.importedAt };
+      console.log(`[Dictionary] Loaded ${record.entries} imported entries`);
+    } catch (error) {
+      console.error('[Dictionary] Failed to load imported dictionary:', error);
+    }
+  })();
+  return importedLoad;
+}
+
+// Store a CC-CEDICT file (cedict_ts.u8) and start using it. Returns the number of
+// entries found, 0 if the file isn't CC-CEDICT.
+export async function importDictionary(text: string): Promise<number> {
+  const entries = parseCedict(text);
+  if (entries.length === 0) return 0;
+
+  await loadImportedDictionary();
+  const importedAt = Date.now();
+  const db = await openDatabase();
+  if (db) {
+    try {
+      const record: ImportedDictionary = { key: IMPORTED_KEY, text, entries: entries.length, importedAt };
+      await requestToPromise(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(record));
+    } catch (error) {
+      console.error('[Dictionary] Failed to store imported dictionary:', error);
+    }
+  }
+  // Replace whatever was imported before
+  words = null;
+  addEntries(entries);
+  imported = { entries: entries.length, importedAt };
+  return entries.length;
+}
+
+export async function removeImportedDictionary(): Promise<void> {
+  const db = await openDatabase();
+  if (db) {
+    try {
+      await requestToPromise(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).delete(IMPORTED_KEY));
+    } catch (error) {
+      console.error('[Dictionary] Failed to remove imported dictionary:', error);
+    }
+  }
+  words = null;
+  imported = null;
+}
+
+export async function getDictionaryInfo(): Promise<DictionaryInfo> {
+  await loadImportedDictionary();
+  getWords();
+  return {
+    starterEntries: starterCount,
+    importedEntries: imported?.entries ?? 0,
+    importedAt: imported?.importedAt ?? null,
+  };
+}
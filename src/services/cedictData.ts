@@ -0,0 +1,355 @@
+// Starter dictionary in CC-CEDICT format: everyday words plus Bilibili and internet slang.
+// Importing the full CC-CEDICT file in settings adds the other ~120,000 entries.
+export const STARTER_DICTIONARY = [
+  '彈幕 弹幕 [dan4 mu4] /bullet comments/comments overlaid on a video (lit. barrage)/',
+  '點贊 点赞 [dian3 zan4] /to like (on social media)/',
+  '投幣 投币 [tou2 bi4] /to insert a coin/to give a coin (Bilibili)/',
+  '收藏 收藏 [shou1 cang2] /to collect/to add to favorites/',
+  '轉發 转发 [zhuan3 fa1] /to forward/to share (a post)/',
+  '三連 三连 [san1 lian2] /like, coin and favorite (Bilibili)/three in a row/',
+  '一鍵三連 一键三连 [yi1 jian4 san1 lian2] /like, coin and favorite in one tap (Bilibili)/',
+  '關注 关注 [guan1 zhu4] /to follow (an account)/to pay attention to/',
+  '粉絲 粉丝 [fen3 si1] /fan/follower/',
+  '評論 评论 [ping2 lun4] /comment/to comment on/',
+  '視頻 视频 [shi4 pin2] /video/',
+  '直播 直播 [zhi2 bo1] /live broadcast/livestream/',
+  '番劇 番剧 [fan1 ju4] /anime series (Bilibili)/',
+  '鬼畜 鬼畜 [gui3 chu4] /remix video with rhythmic edits (Bilibili genre)/kichiku/',
+  'UP主 UP主 [UP zhu3] /uploader/content creator (Bilibili)/',
+  '主播 主播 [zhu3 bo1] /streamer/host/',
+  '博主 博主 [bo2 zhu3] /blogger/',
+  '網友 网友 [wang3 you3] /netizen/online friend/',
+  '大佬 大佬 [da4 lao3] /big shot/expert/',
+  '前方高能 前方高能 [qian2 fang1 gao1 neng2] /high energy ahead (warning in danmaku)/',
+  '好耶 好耶 [hao3 ye1] /yay/hooray (slang)/',
+  '絕了 绝了 [jue2 le5] /amazing/incredible (slang)/',
+  '牛逼 牛逼 [niu2 bi1] /awesome (vulgar slang)/',
+  '永遠的神 永远的神 [yong3 yuan3 de5 shen2] /GOAT/forever the best (slang)/',
+  '破防 破防 [po4 fang2] /to be emotionally overwhelmed (slang)/to break through defenses/',
+  '整活 整活 [zheng3 huo2] /to do something funny or creative (slang)/',
+  '名場面 名场面 [ming2 chang3 mian4] /iconic scene/',
+  '梗 梗 [geng3] /meme/running joke/stem (of a plant)/',
+  '下飯 下饭 [xia4 fan4] /entertaining to watch while eating/to go well with rice/',
+  '催更 催更 [cui1 geng1] /to urge a creator to post an update/',
+  '更新 更新 [geng1 xin1] /to update/update/',
+  '爺青回 爷青回 [ye2 qing1 hui2] /my youth is back (nostalgia slang)/',
+  '淚目 泪目 [lei4 mu4] /moved to tears (slang)/',
+  '哈哈哈 哈哈哈 [ha1 ha1 ha1] /hahaha/',
+  '哈哈 哈哈 [ha1 ha1] /haha/',
+  '你好 你好 [ni3 hao3] /hello/hi/',
+  '謝謝 谢谢 [xie4 xie5] /thanks/thank you/',
+  "不客氣 不客气 [bu4 ke4 qi5] /you're welcome/",
+  "對不起 对不起 [dui4 bu5 qi3] /sorry/I'm sorry/",
+  "沒關係 没关系 [mei2 guan1 xi5] /it doesn't matter/never mind/",
+  '再見 再见 [zai4 jian4] /goodbye/',
+  '大家 大家 [da4 jia1] /everyone/',
+  '大家好 大家好 [da4 jia1 hao3] /hello everyone/',
+  '今天 今天 [jin1 tian1] /today/',
+  '明天 明天 [ming2 tian1] /tomorrow/',
+  '昨天 昨天 [zuo2 tian1] /yesterday/',
+  '現在 现在 [xian4 zai4] /now/at present/',
+  '時候 时候 [shi2 hou5] /time/moment/(the time) when/',
+  '時間 时间 [shi2 jian1] /time/period/',
+  '已經 已经 [yi3 jing1] /already/',
+  '還是 还是 [hai2 shi4] /or/still/had better/',
+  '但是 但是 [dan4 shi4] /but/however/',
+  '因為 因为 [yin1 wei4] /because/',
+  '所以 所以 [suo3 yi3] /so/therefore/',
+  '如果 如果 [ru2 guo3] /if/in case/',
+  '雖然 虽然 [sui1 ran2] /although/',
+  '然後 然后 [ran2 hou4] /then/after that/',
+  '而且 而且 [er2 qie3] /moreover/and also/',
+  '或者 或者 [huo4 zhe3] /or/possibly/',
+  '可以 可以 [ke3 yi3] /can/may/not bad/',
+  '可能 可能 [ke3 neng2] /maybe/possible/',
+  '應該 应该 [ying1 gai1] /should/ought to/',
+  '需要 需要 [xu1 yao4] /to need/needs/',
+  '知道 知道 [zhi1 dao4] /to know/to be aware of/',
+  '覺得 觉得 [jue2 de5] /to think/to feel/',
+  '喜歡 喜欢 [xi3 huan5] /to like/to be fond of/',
+  '希望 希望 [xi1 wang4] /to hope/hope/',
+  '感覺 感觉 [gan3 jue2] /feeling/to feel/',
+  '認為 认为 [ren4 wei2] /to believe/to think/',
+  '發現 发现 [fa1 xian4] /to find/to discover/',
+  '開始 开始 [kai1 shi3] /to begin/beginning/',
+  '結束 结束 [jie2 shu4] /to end/to finish/',
+  '完成 完成 [wan2 cheng2] /to complete/to accomplish/',
+  '準備 准备 [zhun3 bei4] /to prepare/to intend/',
+  '繼續 继续 [ji4 xu4] /to continue/',
+  '告訴 告诉 [gao4 su5] /to tell/',
+  '看到 看到 [kan4 dao4] /to see/',
+  '聽到 听到 [ting1 dao4] /to hear/',
+  '出來 出来 [chu1 lai5] /to come out/',
+  '起來 起来 [qi3 lai5] /to get up/(verb complement) up/start to/',
+  '回來 回来 [hui2 lai5] /to come back/',
+  '甚麼 什么 [shen2 me5] /what/something/',
+  '怎麼 怎么 [zen3 me5] /how/why/',
+  '為甚麼 为什么 [wei4 shen2 me5] /why/',
+  '怎麼樣 怎么样 [zen3 me5 yang4] /how about it/how is it/',
+  '哪裡 哪里 [na3 li3] /where/',
+  '這裡 这里 [zhe4 li3] /here/',
+  '那裡 那里 [na4 li3] /there/',
+  '這個 这个 [zhe4 ge5] /this/this one/',
+  '那個 那个 [na4 ge5] /that/that one/',
+  '一個 一个 [yi1 ge4] /a/one/',
+  '一下 一下 [yi1 xia4] /a bit/once/briefly/',
+  '一起 一起 [yi1 qi3] /together/',
+  '一樣 一样 [yi1 yang4] /same/alike/',
+  '一直 一直 [yi1 zhi2] /always/all along/straight/',
+  '一定 一定 [yi1 ding4] /surely/certainly/fixed/',
+  '一點 一点 [yi1 dian3] /a little/a bit/',
+  '有點 有点 [you3 dian3] /a little/somewhat/',
+  '非常 非常 [fei1 chang2] /very/extremely/',
+  '真的 真的 [zhen1 de5] /really/truly/',
+  '其實 其实 [qi2 shi2] /actually/in fact/',
+  '當然 当然 [dang1 ran2] /of course/',
+  '特別 特别 [te4 bie2] /especially/special/',
+  '最後 最后 [zui4 hou4] /final/last/finally/',
+  '第一 第一 [di4 yi1] /first/number one/',
+  '第一次 第一次 [di4 yi1 ci4] /the first time/',
+  '東西 东西 [dong1 xi5] /thing/stuff/',
+  '事情 事情 [shi4 qing5] /affair/matter/thing/',
+  '問題 问题 [wen4 ti2] /question/problem/',
+  '辦法 办法 [ban4 fa3] /method/way/',
+  '意思 意思 [yi4 si5] /meaning/idea/interest/',
+  '朋友 朋友 [peng2 you5] /friend/',
+  '老師 老师 [lao3 shi1] /teacher/',
+  '學生 学生 [xue2 sheng5] /student/',
+  '同學 同学 [tong2 xue2] /classmate/',
+  '孩子 孩子 [hai2 zi5] /child/',
+  '媽媽 妈妈 [ma1 ma5] /mom/mother/',
+  '爸爸 爸爸 [ba4 ba5] /dad/father/',
+  '男生 男生 [nan2 sheng1] /boy/male student/',
+  '女生 女生 [nu:3 sheng1] /girl/female student/',
+  '老婆 老婆 [lao3 po5] /wife (colloquial)/',
+  '老公 老公 [lao3 gong1] /husband (colloquial)/',
+  '小姐姐 小姐姐 [xiao3 jie3 jie5] /young lady/pretty girl (internet slang)/',
+  '小哥哥 小哥哥 [xiao3 ge1 ge5] /young man/handsome guy (internet slang)/',
+  '中國 中国 [Zhong1 guo2] /China/',
+  '日本 日本 [Ri4 ben3] /Japan/',
+  '美國 美国 [Mei3 guo2] /United States/',
+  '北京 北京 [Bei3 jing1] /Beijing/',
+  '上海 上海 [Shang4 hai3] /Shanghai/',
+  '中文 中文 [Zhong1 wen2] /Chinese (language)/',
+  '英語 英语 [Ying1 yu3] /English (language)/',
+  '漢語 汉语 [Han4 yu3] /Chinese language/',
+  '學習 学习 [xue2 xi2] /to learn/to study/',
+  '工作 工作 [gong1 zuo4] /to work/job/',
+  '生活 生活 [sheng1 huo2] /life/to live/',
+  '世界 世界 [shi4 jie4] /world/',
+  '國家 国家 [guo2 jia1] /country/nation/',
+  '城市 城市 [cheng2 shi4] /city/',
+  '地方 地方 [di4 fang5] /place/area/',
+  "家裡 家里 [jia1 li3] /at home/one's family/",
+  '電影 电影 [dian4 ying3] /movie/film/',
+  '電視劇 电视剧 [dian4 shi4 ju4] /TV series/',
+  '動畫 动画 [dong4 hua4] /animation/cartoon/',
+  '動漫 动漫 [dong4 man4] /anime and manga/',
+  '音樂 音乐 [yin1 yue4] /music/',
+  '歌曲 歌曲 [ge1 qu3] /song/',
+  '唱歌 唱歌 [chang4 ge1] /to sing/',
+  '跳舞 跳舞 [tiao4 wu3] /to dance/',
+  '舞蹈 舞蹈 [wu3 dao3] /dance/',
+  '游戲 游戏 [you2 xi4] /game/',
+  '玩家 玩家 [wan2 jia1] /player (of a game)/',
+  '手機 手机 [shou3 ji1] /mobile phone/',
+  '電腦 电脑 [dian4 nao3] /computer/',
+  '網絡 网络 [wang3 luo4] /network/internet/',
+  '科技 科技 [ke1 ji4] /technology/',
+  '美食 美食 [mei3 shi2] /delicious food/gourmet/',
+  '好吃 好吃 [hao3 chi1] /tasty/delicious/',
+  '好看 好看 [hao3 kan4] /good-looking/interesting (to watch)/',
+  '好聽 好听 [hao3 ting1] /pleasant to hear/nice (sound)/',
+  '好玩 好玩 [hao3 wan2] /fun/amusing/',
+  '可愛 可爱 [ke3 ai4] /cute/lovely/',
+  '漂亮 漂亮 [piao4 liang5] /pretty/beautiful/',
+  '厲害 厉害 [li4 hai5] /amazing/formidable/severe/',
+  '有趣 有趣 [you3 qu4] /interesting/fun/',
+  '無聊 无聊 [wu2 liao2] /bored/boring/',
+  '開心 开心 [kai1 xin1] /happy/to have a good time/',
+  '高興 高兴 [gao1 xing4] /happy/glad/',
+  '難過 难过 [nan2 guo4] /sad/to feel bad/',
+  '生氣 生气 [sheng1 qi4] /angry/to get angry/',
+  '害怕 害怕 [hai4 pa4] /to be afraid/',
+  '簡單 简单 [jian3 dan1] /simple/',
+  '困難 困难 [kun4 nan5] /difficulty/difficult/',
+  '重要 重要 [zhong4 yao4] /important/',
+  '主要 主要 [zhu3 yao4] /main/mainly/',
+  '一般 一般 [yi1 ban1] /ordinary/general/generally/',
+  '以後 以后 [yi3 hou4] /after/afterwards/in the future/',
+  '以前 以前 [yi3 qian2] /before/formerly/',
+  '之前 之前 [zhi1 qian2] /before/prior to/',
+  '之後 之后 [zhi1 hou4] /afterwards/after/',
+  '最近 最近 [zui4 jin4] /recently/lately/',
+  '馬上 马上 [ma3 shang4] /immediately/right away/',
+  '突然 突然 [tu1 ran2] /sudden/suddenly/',
+  '終於 终于 [zhong1 yu2] /at last/finally/',
+  '可是 可是 [ke3 shi4] /but/however/',
+  '不過 不过 [bu4 guo4] /but/however/only/',
+  '只是 只是 [zhi3 shi4] /merely/only/just/',
+  '就是 就是 [jiu4 shi4] /exactly/precisely/that is/',
+  '還有 还有 [hai2 you3] /there is still/and also/',
+  "沒有 没有 [mei2 you3] /not have/there is not/haven't/",
+  '不是 不是 [bu4 shi4] /no/is not/',
+  "不要 不要 [bu4 yao4] /don't/must not/",
+  '不會 不会 [bu4 hui4] /will not/not able to/',
+  '不錯 不错 [bu4 cuo4] /not bad/pretty good/',
+  "不行 不行 [bu4 xing2] /won't do/no good/",
+  '不用 不用 [bu4 yong4] /need not/',
+  '別人 别人 [bie2 ren2] /other people/',
+  "自己 自己 [zi4 ji3] /oneself/one's own/",
+  '我們 我们 [wo3 men5] /we/us/',
+  '你們 你们 [ni3 men5] /you (plural)/',
+  '他們 他们 [ta1 men5] /they/them/',
+  '她們 她们 [ta1 men5] /they/them (for females)/',
+  '大哥 大哥 [da4 ge1] /eldest brother/big brother/',
+  '兄弟 兄弟 [xiong1 di4] /brothers/bro/',
+  '家人 家人 [jia1 ren2] /family member/',
+  '觀眾 观众 [guan1 zhong4] /audience/viewers/',
+  '節目 节目 [jie2 mu4] /program/show/',
+  '作品 作品 [zuo4 pin3] /work (of art)/creation/',
+  '內容 内容 [nei4 rong2] /content/',
+  '標題 标题 [biao1 ti2] /title/heading/',
+  '封面 封面 [feng1 mian4] /cover (of a book or video)/',
+  '字幕 字幕 [zi4 mu4] /subtitles/captions/',
+  '翻譯 翻译 [fan1 yi4] /to translate/translation/translator/',
+  '原版 原版 [yuan2 ban3] /original version/',
+  '中字 中字 [zhong1 zi4] /Chinese subtitles (abbr.)/',
+  '合集 合集 [he2 ji2] /collection/compilation/',
+  '系列 系列 [xi4 lie4] /series/',
+  '教程 教程 [jiao4 cheng2] /tutorial/',
+  '攻略 攻略 [gong1 lu:e4] /guide/walkthrough/',
+  '測評 测评 [ce4 ping2] /review/evaluation/',
+  '開箱 开箱 [kai1 xiang1] /unboxing/',
+  '挑戰 挑战 [tiao3 zhan4] /challenge/to challenge/',
+  '日常 日常 [ri4 chang2] /daily/everyday life/',
+  '翻唱 翻唱 [fan1 chang4] /cover (of a song)/to cover a song/',
+  '原創 原创 [yuan2 chuang4] /original (creation)/',
+  '剪輯 剪辑 [jian3 ji2] /to edit (film)/editing/',
+  '搬運 搬运 [ban1 yun4] /to reupload (content from another platform)/to transport/',
+  '熱門 热门 [re4 men2] /popular/hot/',
+  '排行榜 排行榜 [pai2 hang2 bang3] /ranking list/chart/',
+  '推薦 推荐 [tui1 jian4] /to recommend/recommendation/',
+  '分享 分享 [fen1 xiang3] /to share/',
+  '支持 支持 [zhi1 chi2] /to support/',
+  '加油 加油 [jia1 you2] /come on!/keep it up!/to refuel/',
+  '感謝 感谢 [gan3 xie4] /to thank/thanks/',
+  '辛苦了 辛苦了 [xin1 ku3 le5] /thanks for your hard work/',
+  '恭喜 恭喜 [gong1 xi3] /congratulations/',
+  '生日快樂 生日快乐 [sheng1 ri4 kuai4 le4] /happy birthday/',
+  '新年快樂 新年快乐 [xin1 nian2 kuai4 le4] /happy new year/',
+  "來了 来了 [lai2 le5] /here it comes/(I'm) here/",
+  '打卡 打卡 [da3 ka3] /to check in (e.g. to show one was here)/',
+  '前排 前排 [qian2 pai2] /front row (first commenters)/',
+  '空降 空降 [kong1 jiang4] /to skip to (a timestamp)/airdrop/',
+  '高能 高能 [gao1 neng2] /high energy/intense moment/',
+  '名字 名字 [ming2 zi5] /name/',
+  '聲音 声音 [sheng1 yin1] /sound/voice/',
+  '畫面 画面 [hua4 mian4] /scene/picture/frame/',
+  '顏值 颜值 [yan2 zhi2] /good looks (slang)/',
+  '技術 技术 [ji4 shu4] /technology/skill/technique/',
+  '水平 水平 [shui3 ping2] /level/standard/',
+  '真實 真实 [zhen1 shi2] /real/true/',
+  '相信 相信 [xiang1 xin4] /to believe/',
+  '記得 记得 [ji4 de5] /to remember/',
+  '忘記 忘记 [wang4 ji4] /to forget/',
+  '等等 等等 [deng3 deng3] /wait a moment/and so on/',
+  '哪個 哪个 [na3 ge5] /which/which one/',
+  '多少 多少 [duo1 shao5] /how many/how much/',
+  '為了 为了 [wei4 le5] /in order to/for the sake of/',
+  '關於 关于 [guan1 yu2] /about/regarding/',
+  '通過 通过 [tong1 guo4] /through/to pass/',
+  '成為 成为 [cheng2 wei2] /to become/',
+  '變成 变成 [bian4 cheng2] /to change into/to become/',
+  '出現 出现 [chu1 xian4] /to appear/to emerge/',
+  '發生 发生 [fa1 sheng1] /to happen/to occur/',
+  '帶來 带来 [dai4 lai2] /to bring/',
+  '回家 回家 [hui2 jia1] /to return home/',
+  '睡覺 睡觉 [shui4 jiao4] /to sleep/to go to bed/',
+  '吃飯 吃饭 [chi1 fan4] /to eat/to have a meal/',
+  '喝水 喝水 [he1 shui3] /to drink water/',
+  '看書 看书 [kan4 shu1] /to read a book/',
+  '上班 上班 [shang4 ban1] /to go to work/',
+  '下班 下班 [xia4 ban1] /to get off work/',
+  '放假 放假 [fang4 jia4] /to have a holiday/',
+  '週末 周末 [zhou1 mo4] /weekend/',
+  '晚上 晚上 [wan3 shang5] /evening/night/',
+  '早上 早上 [zao3 shang5] /morning/',
+  '中午 中午 [zhong1 wu3] /noon/',
+  '晚安 晚安 [wan3 an1] /good night/',
+  '早安 早安 [zao3 an1] /good morning/',
+  '我 我 [wo3] /I/me/',
+  '你 你 [ni3] /you/',
+  '他 他 [ta1] /he/him/',
+  '她 她 [ta1] /she/her/',
+  '它 它 [ta1] /it/',
+  '的 的 [de5] /(possessive particle)/of/',
+  '了 了 [le5] /(completed action marker)/',
+  '是 是 [shi4] /is/are/to be/yes/',
+  '不 不 [bu4] /not/no/',
+  '在 在 [zai4] /at/in/to be located/(in the middle of doing)/',
+  '有 有 [you3] /to have/there is/',
+  '和 和 [he2] /and/with/',
+  '也 也 [ye3] /also/too/',
+  '都 都 [dou1] /all/both/already/',
+  '就 就 [jiu4] /then/just/right away/',
+  '很 很 [hen3] /very/',
+  '太 太 [tai4] /too (much)/extremely/',
+  '還 还 [hai2] /still/yet/also/',
+  '又 又 [you4] /again/also/',
+  '要 要 [yao4] /to want/will/must/',
+  '會 会 [hui4] /can/will/to be able to/meeting/',
+  '能 能 [neng2] /can/to be able to/',
+  '想 想 [xiang3] /to think/to want/to miss/',
+  '說 说 [shuo1] /to say/to speak/',
+  '看 看 [kan4] /to look/to see/to watch/',
+  '聽 听 [ting1] /to listen/to hear/',
+  '來 来 [lai2] /to come/',
+  '去 去 [qu4] /to go/',
+  '做 做 [zuo4] /to do/to make/',
+  '吃 吃 [chi1] /to eat/',
+  '喝 喝 [he1] /to drink/',
+  '買 买 [mai3] /to buy/',
+  '賣 卖 [mai4] /to sell/',
+  '好 好 [hao3] /good/well/',
+  '大 大 [da4] /big/large/',
+  '小 小 [xiao3] /small/little/',
+  '多 多 [duo1] /many/much/',
+  '少 少 [shao3] /few/little/',
+  '新 新 [xin1] /new/',
+  '老 老 [lao3] /old/',
+  '人 人 [ren2] /person/people/',
+  '這 这 [zhe4] /this/',
+  '那 那 [na4] /that/',
+  '嗎 吗 [ma5] /(question particle)/',
+  '呢 呢 [ne5] /(question or emphasis particle)/',
+  '吧 吧 [ba5] /(suggestion particle)/',
+  '啊 啊 [a5] /(interjection or modal particle)/',
+  '呀 呀 [ya5] /(modal particle)/',
+  '哦 哦 [o4] /oh/I see/',
+  '嗯 嗯 [ng4] /um/uh-huh/',
+  '個 个 [ge4] /(general measure word)/',
+  '上 上 [shang4] /on/up/above/previous/',
+  '下 下 [xia4] /down/below/next/',
+  '里 里 [li3] /inside/in/',
+  '中 中 [zhong1] /middle/in/China/',
+  '年 年 [nian2] /year/',
+  '月 月 [yue4] /month/moon/',
+  '日 日 [ri4] /day/sun/',
+  '天 天 [tian1] /day/sky/',
+  "點 点 [dian3] /point/dot/o'clock/to click/",
+  '一 一 [yi1] /one/',
+  '二 二 [er4] /two/',
+  '三 三 [san1] /three/',
+  '真 真 [zhen1] /really/true/',
+  '給 给 [gei3] /to give/for/',
+  '讓 让 [rang4] /to let/to allow/',
+  '被 被 [bei4] /by (passive marker)/quilt/',
+  '把 把 [ba3] /(object marker)/to hold/',
+  '對 对 [dui4] /correct/right/towards/',
+  '比 比 [bi3] /than/to compare/',
+  '從 从 [cong2] /from/',
+  '到 到 [dao4] /to arrive/until/to/',
+  '跟 跟 [gen1] /with/to follow/',
+  '等 等 [deng3] /to wait/etc./',
+].join('\n');
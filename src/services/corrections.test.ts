@@ -0,0 +1,41 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { findCorrection, getCorrections, saveCorrection, removeCorrection, clearCorrections } from './corrections'
+
+describe('Corrections', () => {
+  beforeEach(async () => {
+    await clearCorrections()
+  })
+
+  it('should save a correction per language', async () => {
+    await saveCorrection('老番茄', 'en', 'Old Tomato')
+    await saveCorrection('老番茄', 'es', 'Viejo Tomate')
+
+    expect(await findCorrection('老番茄', 'en')).toBe('Old Tomato')
+    expect(await findCorrection('老番茄', 'es')).toBe('Viejo Tomate')
+    expect(await findCorrection('老番茄', 'ja')).toBeNull()
+  })
+
+  it('should replace an earlier correction of the same string', async () => {
+    await saveCorrection('下次一定', 'en', 'Next time')
+    await saveCorrection('下次一定', 'en', 'Next time for sure')
+
+    const corrections = await getCorrections()
+    expect(corrections).toHaveLength(1)
+    expect(corrections[0].translation).toBe('Next time for sure')
+  })
+
+  it('should persist to storage', async () => {
+    await saveCorrection('名场面', 'en', 'Iconic scene')
+
+    const stored = JSON.parse(window.localStorage.getItem('bilibili_corrections') || '[]')
+    expect(stored).toEqual([expect.objectContaining({ text: '名场面', language: 'en', translation: 'Iconic scene' })])
+  })
+
+  it('should remove corrections', async () => {
+    await saveCorrection('破防了', 'en', 'Emotionally wrecked')
+    await removeCorrection('破防了', 'en')
+
+    expect(await findCorrection('破防了', 'en')).toBeNull()
+    expect(await getCorrections()).toEqual([])
+  })
+})
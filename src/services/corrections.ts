@@ -0,0 +1,113 @@
+import { Store } from '@tauri-apps/plugin-store';
+
+// Translations the reader has fixed by hand ("report bad translation"). They take the
+// place of whatever a provider or the translation cache would return for that string.
+
+const STORE_PATH = 'corrections.json';
+const LOCAL_STORAGE_KEY = 'bilibili_corrections';
+const isTauri = typeof window !== 'undefined'
+  && Boolean((window as unknown as { __TAURI__?: unknown }).__TAURI__);
+
+export interface TranslationCorrection {
+  text: string; // The original
+  language: string; // Target language the correction is in
+  translation: string;
+  correctedAt: number;
+}
+
+let store: Store | null = null;
+// Loaded once, then kept in step with every change; translate.ts checks it for each string
+let corrections: Map<string, TranslationCorrection> | null = null;
+
+function correctionKey(text: string, language: string): string {
+  return `${language}\u0000${text}`;
+}
+
+async function getStore(): Promise<Store | null> {
+  if (!isTauri) return null;
+  if (store) return store;
+  try {
+    store = await Store.load(STORE_PATH);
+    return store;
+  } catch (error) {
+    console.error('Failed to load corrections store:', error);
+    return null;
+  }
+}
+
+async function readCorrections(): Promise<TranslationCorrection[]> {
+  try {
+    if (!isTauri) {
+      const raw = window.localStorage.getItem(LOCAL_STORAGE_KEY);
+      return raw ? JSON.parse(raw) : [];
+    }
+    const s = await getStore();
+    if (!s) return [];
+    const items = await s.get<TranslationCorrection[]>('corrections');
+    return items || [];
+  } catch (error) {
+    console.error('Failed to get corrections:', error);
+    return [];
+  }
+}
+
+async function loadCorrections(): Promise<Map<string, TranslationCorrection>> {
+  if (corrections) return corrections;
+  const items = await readCorrections();
+  // Another call may have finished loading while this one waited
+  if (!corrections) {
+    corrections = new Map(items.map(item => [correctionKey(item.text, item.language), item]));
+  }
+  return corrections;
+}
+
+async function writeCorrections(): Promise<void> {
+  const items = [...(await loadCorrections()).values()];
+  if (!isTauri) {
+    window.localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(items));
+    return;
+  }
+  const s = await getStore();
+  if (!s) return;
+  await s.set('corrections', items);
+  await s.save();
+}
+
+// Newest first
+export async function getCorrections(): Promise<TranslationCorrection[]> {
+  const items = [...(await loadCorrections()).values()];
+  return items.sort((a, b) => b.correctedAt - a.correctedAt);
+}
+
+export async function findCorrection(text: string, language: string): Promise<string | null> {
+  return (await loadCorrections()).get(correctionKey(text, language))?.translation ?? null;
+}
+
+export async function saveCorrection(text: string, language: string, translation: string): Promise<void> {
+  try {
+    const items = await loadCorrections();
+    items.set(correctionKey(text, language), { text, language, translation, correctedAt: Date.now() });
+    await writeCorrections();
+  } catch (error) {
+    console.error('Failed to save correction:', error);
+  }
+}
+
+export async function removeCorrection(text: string, language: string): Promise<void> {
+  try {
+    const items = await loadCorrections();
+    items.delete(correctionKey(text, language));
+    await writeCorrections();
+  } catch (error) {
+    console.error('Failed to remove correction:', error);
+  }
+}
+
+export async function clearCorrections(): Promise<void> {
+  try {
+    (await loadCorrections()).clear();
+    await writeCorrections();
+  } catch (error) {
+    console.error('Failed to clear corrections:', error);
+  }
+}
@@ -0,0 +1,213 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  parseDanmakuXml,
+  parseDanmakuSegment,
+  danmakuColor,
+  isDanmakuBlocked,
+  prepareDanmakuTranslation,
+  translateDanmakuItems,
+  type DanmakuItem,
+} from './danmaku'
+
+// Protobuf encoding helpers for building seg.so fixtures
+function varint(value: number): number[] {
+  const bytes: number[] = []
+  while (value > 0x7f) {
+    bytes.push((value % 128) | 0x80)
+    value = Math.floor(value / 128)
+  }
+  bytes.push(value)
+  return bytes
+}
+
+function field(num: number, value: number | string | number[]): number[] {
+  if (typeof value === 'number') {
+    return [...varint(num * 8), ...varint(value)]
+  }
+  const bytes = typeof value === 'string' ? Array.from(new TextEncoder().encode(value)) : value
+  return [...varint(num * 8 + 2), ...varint(bytes.length), ...bytes]
+}
+
+function elem(opts: { id: number; progress: number; mode: number; size: number; color: number; content: string }): number[] {
+  return [
+    ...field(1, opts.id),
+    ...field(2, opts.progress),
+    ...field(3, opts.mode),
+    ...field(4, opts.size),
+    ...field(5, opts.color),
+    ...field(6, 'abcd1234'),
+    ...field(7, opts.content),
+    ...field(9, 5),
+  ]
+}
+
+describe('Danmaku Service', () => {
+  describe('parseDanmakuXml', () => {
+    it('should parse items and sort them by time', () => {
+      const xml = `<?xml version="1.0" encoding="UTF-8"?><i>
+        <d p="12.5,1,25,16777215,1700000000,0,abc,111,10">第二条</d>
+        <d p="3.2,5,36,16711680,1700000000,0,def,222,10">顶部弹幕</d>
+        <d p="7,4,18,65280,1700000000,0,ghi,333,10">底部</d>
+      </i>`
+
+      const items = parseDanmakuXml(xml)
+
+      expect(items).toEqual([
+        { id: '222', time: 3.2, mode: 'top', size: 36, color: 0xff0000, content: '顶部弹幕' },
+        { id: '333', time: 7, mode: 'bottom', size: 18, color: 0x00ff00, content: '底部' },
+        { id: '111', time: 12.5, mode: 'scroll', size: 25, color: 0xffffff, content: '第二条' },
+      ])
+    })
+
+    it('should decode XML entities', () => {
+      const items = parseDanmakuXml('<d p="1,1,25,0,0,0,x,1,0">a &amp; b &lt;3 &#x4F60;</d>')
+      expect(items[0].content).toBe('a & b <3 你')
+    })
+
+    it('should skip advanced and empty danmaku', () => {
+      const xml = '<d p="1,7,25,0,0,0,x,1,0">[0,0,"1-1",4.5,"script"]</d><d p="2,1,25,0,0,0,x,2,0">  </d>'
+      expect(parseDanmakuXml(xml)).toEqual([])
+    })
+  })
+
+  describe('parseDanmakuSegment', () => {
+    it('should parse DmSegMobileReply elements', () => {
+      const bytes = new Uint8Array([
+        ...field(1, elem({ id: 5, progress: 61500, mode: 1, size: 25, color: 0xffffff, content: '哈哈哈' })),
+        ...field(1, elem({ id: 6, progress: 1000, mode: 5, size: 25, color: 0xfe0302, content: 'top' })),
+      ])
+
+      const items = parseDanmakuSegment(bytes)
+
+      expect(items).toEqual([
+        { id: '6', time: 1, mode: 'top', size: 25, color: 0xfe0302, content: 'top' },
+        { id: '5', time: 61.5, mode: 'scroll', size: 25, color: 0xffffff, content: '哈哈哈' },
+      ])
+    })
+
+    it('should prefer idStr for ids beyond double precision', () => {
+      const bytes = new Uint8Array(field(1, [
+        ...elem({ id: 1, progress: 0, mode: 1, size: 25, color: 0, content: 'x' }),
+        ...field(12, '1234567890123456789'),
+      ]))
+      expect(parseDanmakuSegment(bytes)[0].id).toBe('1234567890123456789')
+    })
+
+    it('should ignore unknown top-level fields', () => {
+      const bytes = new Uint8Array([
+        ...field(2, 'state'),
+        ...field(1, elem({ id: 1, progress: 0, mode: 4, size: 25, color: 0, content: 'bottom' })),
+      ])
+      expect(parseDanmakuSegment(bytes)).toHaveLength(1)
+    })
+
+    it('should return no items for an empty segment', () => {
+      expect(parseDanmakuSegment(new ArrayBuffer(0))).toEqual([])
+    })
+  })
+
+  describe('danmakuColor', () => {
+    it('should format colors as hex', () => {
+      expect(danmakuColor(0xfe0302)).toBe('#fe0302')
+      expect(danmakuColor(255)).toBe('#0000ff')
+    })
+  })
+
+  describe('isDanmakuBlocked', () => {
+    const item: DanmakuItem = { id: '1', time: 0, mode: 'scroll', size: 25, color: 0, content: '前方高能', contentTranslated: 'High energy ahead' }
+
+    it('should match the original text', () => {
+      expect(isDanmakuBlocked(item, ['高能'])).toBe(true)
+    })
+
+    it('should match the translation case-insensitively', () => {
+      expect(isDanmakuBlocked(item, ['ENERGY'])).toBe(true)
+    })
+
+    it('should ignore blank keywords', () => {
+      expect(isDanmakuBlocked(item, ['  '])).toBe(false)
+      expect(isDanmakuBlocked(item, [])).toBe(false)
+    })
+  })
+
+  describe('translateDanmakuItems', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+      const fetchMock = vi.fn()
+      global.fetch = fetchMock
+      window.fetch = fetchMock
+    })
+
+    function danmaku(id: string, content: string): DanmakuItem {
+      return { id, time: 0, mode: 'scroll', size: 25, color: 0, content }
+    }
+
+    it('should translate distinct texts in one merged request', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve([[['Awesome\n', '太强了\n'], ['Came here', '来了']]]),
+      })
+      const items = [danmaku('1', '太强了'), danmaku('2', '来了'), danmaku('3', '太强了')]
+
+      await translateDanmakuItems(items)
+
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+      expect(items.map(item => item.contentTranslated)).toEqual(['Awesome', 'Came here', 'Awesome'])
+    })
+
+    it('should not send text without Chinese characters', async () => {
+      const items = [danmaku('1', '233333'), danmaku('2', 'hhhh')]
+
+      await translateDanmakuItems(items)
+
+      expect(global.fetch).not.toHaveBeenCalled()
+      expect(items[0].contentTranslated).toBe('233333')
+    })
+
+    it('should split the batch when lines do not line up', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve([[['One line only', '第一条\n第二条']]]),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve([[['First', '第一条']]]),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve([[['Second', '第二条']]]),
+        })
+      const items = [danmaku('1', '第一条'), danmaku('2', '第二条')]
+
+      await translateDanmakuItems(items)
+
+      expect(global.fetch).toHaveBeenCalledTimes(3)
+      expect(items.map(item => item.contentTranslated)).toEqual(['First', 'Second'])
+    })
+
+    it('should leave items untranslated when every provider fails, so they can be retried', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockRejectedValue(new Error('Offline'))
+      const items = [danmaku('1', '前方高能')]
+
+      const complete = await translateDanmakuItems(items)
+
+      expect(complete).toBe(false)
+      expect(items[0].contentTranslated).toBeUndefined()
+    })
+  })
+
+  describe('prepareDanmakuTranslation', () => {
+    it('should drop translations when the target language changes', () => {
+      const items: DanmakuItem[] = [{ id: '1', time: 0, mode: 'scroll', size: 25, color: 0, content: '来了' }]
+
+      prepareDanmakuTranslation(items, 'en')
+      items[0].contentTranslated = 'Came here'
+      prepareDanmakuTranslation(items, 'en')
+      expect(items[0].contentTranslated).toBe('Came here')
+
+      prepareDanmakuTranslation(items, 'ja')
+      expect(items[0].contentTranslated).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,220 @@
+import { needsTranslation, translateBatchSettled } from './translate';
+
+// Danmaku (bullet comments) parsing for both Bilibili formats:
+// the legacy XML list (list.so) and the segmented protobuf feed (seg.so)
+
+export type DanmakuMode = 'scroll' | 'top' | 'bottom';
+
+export interface DanmakuItem {
+  id: string;
+  time: number; // Seconds into the video
+  mode: DanmakuMode;
+  color: number; // 0xRRGGBB
+  size: number; // Bilibili font size: 18 small, 25 normal, 36 large
+  content: string;
+  contentTranslated?: string;
+}
+
+// Each seg.so segment covers six minutes of video
+export const DANMAKU_SEGMENT_SECONDS = 360;
+
+// Bilibili mode numbers: 1-3 scrolling, 4 bottom, 5 top, 6 reverse, 7+ advanced/scripted
+function toMode(mode: number): DanmakuMode | null {
+  if (mode >= 1 && mode <= 3) return 'scroll';
+  if (mode === 4) return 'bottom';
+  if (mode === 5) return 'top';
+  return null;
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return XML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+export function sortDanmaku(items: DanmakuItem[]): DanmakuItem[] {
+  return items.sort((a, b) => a.time - b.time);
+}
+
+// <d p="time,mode,size,color,timestamp,pool,userHash,dmid,weight">text</d>
+export function parseDanmakuXml(xml: string): DanmakuItem[] {
+  const items: DanmakuItem[] = [];
+  const pattern = /<d p="([^"]*)">([\s\S]*?)<\/d>/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml)) !== null) {
+    const fields = match[1].split(',');
+    const mode = toMode(Number(fields[1]));
+    const content = decodeXmlEntities(match[2]).trim();
+    if (!mode || !content) continue;
+    items.push({
+      id: fields[7] || `${fields[0]}-${items.length}`,
+      time: Number(fields[0]) || 0,
+      mode,
+      size: Number(fields[2]) || 25,
+      color: Number(fields[3]) || 0xffffff,
+      content,
+    });
+  }
+  return sortDanmaku(items);
+}
+
+// Minimal protobuf reader: just enough wire-format support for DmSegMobileReply
+class ProtoReader {
+  pos = 0;
+  private bytes: Uint8Array;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+  }
+
+  get done(): boolean {
+    return this.pos >= this.bytes.length;
+  }
+
+  varint(): number {
+    let result = 0;
+    let shift = 0;
+    while (this.pos < this.bytes.length) {
+      const byte = this.bytes[this.pos++];
+      // Multiply instead of shifting so values above 2^31 (int64 ids) don't overflow
+      result += (byte & 0x7f) * 2 ** shift;
+      if ((byte & 0x80) === 0) return result;
+      shift += 7;
+    }
+    throw new Error('Truncated varint');
+  }
+
+  bytesField(): Uint8Array {
+    const length = this.varint();
+    const end = this.pos + length;
+    if (end > this.bytes.length) throw new Error('Truncated field');
+    const slice = this.bytes.subarray(this.pos, end);
+    this.pos = end;
+    return slice;
+  }
+
+  skip(wireType: number) {
+    switch (wireType) {
+      case 0: this.varint(); break;
+      case 1: this.pos += 8; break;
+      case 2: this.bytesField(); break;
+      case 5: this.pos += 4; break;
+      default: throw new Error(`Unsupported wire type ${wireType}`);
+    }
+  }
+}
+
+const textDecoder = new TextDecoder();
+
+function parseDanmakuElem(bytes: Uint8Array): DanmakuItem | null {
+  const reader = new ProtoReader(bytes);
+  let id = '';
+  let progress = 0;
+  let modeNumber = 1;
+  let size = 25;
+  let color = 0xffffff;
+  let content = '';
+
+  while (!reader.done) {
+    const tag = reader.varint();
+    const field = Math.floor(tag / 8);
+    const wireType = tag & 7;
+    switch (field) {
+      case 1: id = id || String(reader.varint()); break;
+      case 2: progress = reader.varint(); break;
+      case 3: modeNumber = reader.varint(); break;
+      case 4: size = reader.varint(); break;
+      case 5: color = reader.varint(); break;
+      case 7: content = textDecoder.decode(reader.bytesField()); break;
+      case 12: id = textDecoder.decode(reader.bytesField()); break; // idStr, exact for large ids
+      default: reader.skip(wireType);
+    }
+  }
+
+  const mode = toMode(modeNumber);
+  const text = content.trim();
+  if (!mode || !text) return null;
+  return { id, time: progress / 1000, mode, size, color, content: text };
+}
+
+// DmSegMobileReply { repeated DanmakuElem elems = 1; }
+export function parseDanmakuSegment(data: ArrayBuffer | Uint8Array): DanmakuItem[] {
+  const reader = new ProtoReader(data instanceof Uint8Array ? data : new Uint8Array(data));
+  const items: DanmakuItem[] = [];
+  while (!reader.done) {
+    const tag = reader.varint();
+    if (tag >>> 3 === 1 && (tag & 7) === 2) {
+      const item = parseDanmakuElem(reader.bytesField());
+      if (item) items.push(item);
+    } else {
+      reader.skip(tag & 7);
+    }
+  }
+  return sortDanmaku(items);
+}
+
+export function danmakuColor(color: number): string {
+  return `#${(color & 0xffffff).toString(16).padStart(6, '0')}`;
+}
+
+export function isDanmakuBlocked(item: DanmakuItem, blockedKeywords: string[]): boolean {
+  if (blockedKeywords.length === 0) return false;
+  const haystack = `${item.content}\n${item.contentTranslated || ''}`.toLowerCase();
+  return blockedKeywords.some(keyword => {
+    const needle = keyword.trim().toLowerCase();
+    return needle !== '' && haystack.includes(needle);
+  });
+}
+
+// Target language the items' contentTranslated is in, per danmaku list
+const translationLanguages = new WeakMap<DanmakuItem[], string>();
+
+// Item translations belong to one target language; drop them when the reader switches
+export function prepareDanmakuTranslation(items: DanmakuItem[], language: string): void {
+  if (translationLanguages.get(items) === language) return;
+  for (const item of items) delete item.contentTranslated;
+  translationLanguages.set(items, language);
+}
+
+// Translate every untranslated item, sending each distinct text once.
+// Results are written onto `contentTranslated` so the overlay picks them up when the item appears.
+// Items no provider could translate are left unset; false when there were any.
+export async function translateDanmakuItems(items: DanmakuItem[]): Promise<boolean> {
+  const pending = new Map<string, DanmakuItem[]>();
+  for (const item of items) {
+    if (item.contentTranslated !== undefined) continue;
+    if (!needsTranslation(item.content)) {
+      item.contentTranslated = item.content;
+      continue;
+    }
+    const group = pending.get(item.content);
+    if (group) group.push(item);
+    else pending.set(item.content, [item]);
+  }
+
+  const texts = Array.from(pending.keys());
+  if (texts.length === 0) return true;
+  const translated = await translateBatchSettled(texts);
+  texts.forEach((text, i) => {
+    const result = translated[i];
+    if (result === null) return;
+    pending.get(text)?.forEach(item => {
+      item.contentTranslated = result;
+    });
+  });
+  return translated.every(result => result !== null);
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest'
+import { parseByteRange, parseSidx, selectDashStreams } from './dash'
+import type { DashStream, VideoStreamInfo } from './bilibili'
+
+// Build a version 0 sidx box with the given (size, duration) references
+function buildSidx(timescale: number, firstOffset: number, refs: [number, number][]): ArrayBuffer {
+  const size = 32 + refs.length * 12
+  const view = new DataView(new ArrayBuffer(size))
+  view.setUint32(0, size)
+  'sidx'.split('').forEach((c, i) => view.setUint8(4 + i, c.charCodeAt(0)))
+  view.setUint32(8, 0) // version + flags
+  view.setUint32(12, 1) // reference_ID
+  view.setUint32(16, timescale)
+  view.setUint32(20, 0) // earliest_presentation_time
+  view.setUint32(24, firstOffset)
+  view.setUint16(28, 0) // reserved
+  view.setUint16(30, refs.length)
+  refs.forEach(([refSize, duration], i) => {
+    view.setUint32(32 + i * 12, refSize)
+    view.setUint32(36 + i * 12, duration)
+    view.setUint32(40 + i * 12, 0x90000000)
+  })
+  return view.buffer
+}
+
+function stream(overrides: Partial<DashStream>): DashStream {
+  return {
+    id: 80,
+    url: 'https://upos-sz-mirror.bilivideo.com/video.m4s',
+    backupUrls: [],
+    mimeType: 'video/mp4; codecs="avc1.640032"',
+    bandwidth: 1000,
+    initRange: '0-927',
+    indexRange: '928-1299',
+    ...overrides,
+  }
+}
+
+describe('DASH Service', () => {
+  describe('parseByteRange', () => {
+    it('should parse valid ranges', () => {
+      expect(parseByteRange('0-927')).toEqual({ start: 0, end: 927 })
+    })
+
+    it('should reject malformed ranges', () => {
+      expect(parseByteRange(undefined)).toBeNull()
+      expect(parseByteRange('abc')).toBeNull()
+      expect(parseByteRange('10-5')).toBeNull()
+    })
+  })
+
+  describe('parseSidx', () => {
+    it('should compute segment byte ranges and times', () => {
+      const box = buildSidx(1000, 0, [[5000, 2000], [3000, 1500]])
+      const segments = parseSidx(box, 928)
+
+      // First segment starts right after the sidx box
+      const boxEnd = 928 + box.byteLength
+      expect(segments).toEqual([
+        { start: boxEnd, end: boxEnd + 4999, time: 0, duration: 2 },
+        { start: boxEnd + 5000, end: boxEnd + 7999, time: 2, duration: 1.5 },
+      ])
+    })
+
+    it('should honour first_offset', () => {
+      const box = buildSidx(1000, 100, [[10, 1000]])
+      const segments = parseSidx(box, 0)
+      expect(segments[0].start).toBe(box.byteLength + 100)
+    })
+
+    it('should return no segments without a sidx box', () => {
+      const view = new DataView(new ArrayBuffer(16))
+      view.setUint32(0, 16)
+      'free'.split('').forEach((c, i) => view.setUint8(4 + i, c.charCodeAt(0)))
+      expect(parseSidx(view.buffer, 0)).toEqual([])
+    })
+  })
+
+  describe('selectDashStreams', () => {
+    const info: VideoStreamInfo = {
+      videoUrl: '',
+      format: 'dash',
+      quality: 80,
+      qualityDescription: '1080P',
+      availableQualities: [],
+      videoStreams: [
+        stream({ id: 80, mimeType: 'video/mp4; codecs="hev1.1.6.L150.90"' }),
+        stream({ id: 80 }),
+        stream({ id: 64 }),
+        stream({ id: 32 }),
+      ],
+      audioStreams: [
+        stream({ id: 30216, mimeType: 'audio/mp4; codecs="mp4a.40.2"', bandwidth: 64000 }),
+        stream({ id: 30280, mimeType: 'audio/mp4; codecs="mp4a.40.2"', bandwidth: 192000 }),
+      ],
+    }
+    const avcOnly = (mime: string) => !mime.includes('hev1')
+
+    it('should skip codecs the browser cannot decode', () => {
+      const selection = selectDashStreams(info, 80, avcOnly)
+      expect(selection?.video.mimeType).toContain('avc1')
+      expect(selection?.video.id).toBe(80)
+    })
+
+    it('should pick the best quality at or below the request', () => {
+      expect(selectDashStreams(info, 72, avcOnly)?.video.id).toBe(64)
+    })
+
+    it('should fall back to the lowest quality when the request is below all streams', () => {
+      expect(selectDashStreams(info, 16, avcOnly)?.video.id).toBe(32)
+    })
+
+    it('should pick the highest bandwidth audio', () => {
+      expect(selectDashStreams(info, 80, avcOnly)?.audio?.id).toBe(30280)
+    })
+
+    it('should return null when nothing is decodable', () => {
+      expect(selectDashStreams(info, 80, () => false)).toBeNull()
+    })
+  })
+})
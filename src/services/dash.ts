@@ -0,0 +1,361 @@
+import { getMediaProxyUrl, type DashStream, type VideoStreamInfo } from './bilibili';
+
+// A byte range of one media segment, as listed in the stream's sidx box
+export interface DashSegment {
+  start: number;
+  end: number; // Inclusive
+  time: number; // Seconds
+  duration: number;
+}
+
+export interface DashSelection {
+  video: DashStream;
+  audio?: DashStream;
+}
+
+export interface DashPlayback {
+  destroy: () => void;
+}
+
+interface DashPlaybackOptions {
+  bufferAhead?: number; // Seconds to keep buffered past the playhead
+  onError?: (error: Error) => void;
+}
+
+interface TrackState {
+  stream: DashStream;
+  buffer: SourceBuffer;
+  segments: DashSegment[];
+  next: number;
+  loading: boolean;
+  generation: number;
+  controller: AbortController | null;
+}
+
+const DEFAULT_BUFFER_AHEAD = 30;
+const BUFFER_BEHIND = 30;
+
+export function canUseMediaSource(): boolean {
+  return typeof window !== 'undefined' && typeof window.MediaSource !== 'undefined';
+}
+
+export function parseByteRange(range?: string): { start: number; end: number } | null {
+  const match = range?.match(/^(\d+)-(\d+)$/);
+  if (!match) return null;
+  const start = Number(match[1]);
+  const end = Number(match[2]);
+  return end >= start ? { start, end } : null;
+}
+
+// Parse an ISO BMFF sidx box. `offset` is the file position of the first byte in `data`.
+export function parseSidx(data: ArrayBuffer, offset: number): DashSegment[] {
+  const view = new DataView(data);
+  let pos = 0;
+
+  // Walk top-level boxes until we hit the sidx
+  while (pos + 8 <= view.byteLength) {
+    const size = view.getUint32(pos);
+    const type = String.fromCharCode(
+      view.getUint8(pos + 4), view.getUint8(pos + 5), view.getUint8(pos + 6), view.getUint8(pos + 7)
+    );
+    if (size < 8) return [];
+    if (type !== 'sidx') {
+      pos += size;
+      continue;
+    }
+
+    const version = view.getUint8(pos + 8);
+    const timescale = view.getUint32(pos + 16);
+    let cursor = pos + 20;
+    let earliestTime: number;
+    let firstOffset: number;
+    if (version === 0) {
+      earliestTime = view.getUint32(cursor);
+      firstOffset = view.getUint32(cursor + 4);
+      cursor += 8;
+    } else {
+      earliestTime = Number(view.getBigUint64(cursor));
+      firstOffset = Number(view.getBigUint64(cursor + 8));
+      cursor += 16;
+    }
+    cursor += 2; // reserved
+    const referenceCount = view.getUint16(cursor);
+    cursor += 2;
+
+    if (!timescale || cursor + referenceCount * 12 > view.byteLength) return [];
+
+    const segments: DashSegment[] = [];
+    let byteOffset = offset + pos + size + firstOffset;
+    let time = earliestTime;
+    for (let i = 0; i < referenceCount; i++) {
+      const referencedSize = view.getUint32(cursor) & 0x7fffffff;
+      const duration = view.getUint32(cursor + 4);
+      segments.push({
+        start: byteOffset,
+        end: byteOffset + referencedSize - 1,
+        time: time / timescale,
+        duration: duration / timescale,
+      });
+      byteOffset += referencedSize;
+      time += duration;
+      cursor += 12;
+    }
+    return segments;
+  }
+
+  return [];
+}
+
+// Pick the best representation the browser can decode, at or below the requested quality
+export function selectDashStreams(
+  info: VideoStreamInfo,
+  quality: number,
+  isTypeSupported: (mimeType: string) => boolean = (type) => MediaSource.isTypeSupported(type)
+): DashSelection | null {
+  const videos = (info.videoStreams || [])
+    .filter(stream => stream.initRange && stream.indexRange && isTypeSupported(stream.mimeType))
+    .sort((a, b) => b.id - a.id || b.bandwidth - a.bandwidth);
+  if (videos.length === 0) return null;
+
+  const video = videos.find(stream => stream.id <= quality) || videos[videos.length - 1];
+  const audio = (info.audioStreams || [])
+    .filter(stream => stream.initRange && stream.indexRange && isTypeSupported(stream.mimeType))
+    .sort((a, b) => b.bandwidth - a.bandwidth)[0];
+
+  return { video, audio };
+}
+
+async function fetchRange(stream: DashStream, start: number, end: number, signal?: AbortSignal): Promise<ArrayBuffer> {
+  let lastError: unknown = null;
+  for (const url of [stream.url, ...stream.backupUrls]) {
+    try {
+      const response = await fetch(getMediaProxyUrl(url), {
+        headers: { Range: `bytes=${start}-${end}` },
+        signal,
+      });
+      if (!response.ok) {
+        throw new Error(`Media request failed: ${response.status}`);
+      }
+      return await response.arrayBuffer();
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      lastError = error;
+    }
+  }
+  throw lastError instanceof Error ? lastError : new Error('Media request failed');
+}
+
+export function appendToBuffer(buffer: SourceBuffer, data: ArrayBuffer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      buffer.removeEventListener('updateend', handleEnd);
+      buffer.removeEventListener('error', handleError);
+    };
+    const handleEnd = () => {
+      cleanup();
+      resolve();
+    };
+    const handleError = () => {
+      cleanup();
+      reject(new Error('Failed to append media data'));
+    };
+    buffer.addEventListener('updateend', handleEnd);
+    buffer.addEventListener('error', handleError);
+    try {
+      buffer.appendBuffer(data);
+    } catch (error) {
+      cleanup();
+      reject(error);
+    }
+  });
+}
+
+export function removeFromBuffer(buffer: SourceBuffer, start: number, end: number): Promise<void> {
+  return new Promise((resolve) => {
+    buffer.addEventListener('updateend', () => resolve(), { once: true });
+    try {
+      buffer.remove(start, end);
+    } catch {
+      resolve();
+    }
+  });
+}
+
+function bufferedEndAt(buffer: SourceBuffer, time: number): number | null {
+  const ranges = buffer.buffered;
+  for (let i = 0; i < ranges.length; i++) {
+    // Small tolerance: segment boundaries rarely line up exactly with the playhead
+    if (time >= ranges.start(i) - 0.1 && time <= ranges.end(i)) {
+      return ranges.end(i);
+    }
+  }
+  return null;
+}
+
+function segmentIndexAt(segments: DashSegment[], time: number): number {
+  for (let i = segments.length - 1; i >= 0; i--) {
+    if (segments[i].time <= time) return i;
+  }
+  return 0;
+}
+
+// Play separate DASH video/audio tracks through Media Source Extensions.
+// Segments are fetched on demand from the sidx index, so seeking only downloads what's needed.
+export function attachDashPlayback(
+  video: HTMLVideoElement,
+  selection: DashSelection,
+  duration: number | undefined,
+  options: DashPlaybackOptions = {}
+): DashPlayback {
+  const bufferAhead = options.bufferAhead ?? DEFAULT_BUFFER_AHEAD;
+  const mediaSource = new MediaSource();
+  const objectUrl = URL.createObjectURL(mediaSource);
+  const tracks: TrackState[] = [];
+  let destroyed = false;
+
+  const fail = (error: unknown) => {
+    if (destroyed) return;
+    console.error('[DASH] Playback error:', error);
+    options.onError?.(error instanceof Error ? error : new Error(String(error)));
+  };
+
+  const maybeEndStream = () => {
+    if (mediaSource.readyState !== 'open') return;
+    const finished = tracks.every(track =>
+      track.next >= track.segments.length && !track.loading && !track.buffer.updating
+    );
+    if (finished) {
+      try {
+        mediaSource.endOfStream();
+      } catch {
+        // Already ended or a buffer started updating again
+      }
+    }
+  };
+
+  const pump = async (track: TrackState) => {
+    if (track.loading || destroyed) return;
+    track.loading = true;
+    try {
+      while (!destroyed && track.next < track.segments.length) {
+        const currentTime = video.currentTime;
+        const bufferedEnd = bufferedEndAt(track.buffer, currentTime);
+        if (bufferedEnd !== null && bufferedEnd - currentTime >= bufferAhead) break;
+
+        // Drop data far behind the playhead so long videos don't hit the buffer quota
+        const ranges = track.buffer.buffered;
+        if (ranges.length > 0 && ranges.start(0) < currentTime - BUFFER_BEHIND * 2) {
+          await removeFromBuffer(track.buffer, 0, currentTime - BUFFER_BEHIND);
+        }
+
+        const generation = track.generation;
+        const segment = track.segments[track.next];
+        track.controller = new AbortController();
+        let data: ArrayBuffer;
+        try {
+          data = await fetchRange(track.stream, segment.start, segment.end, track.controller.signal);
+        } catch (error) {
+          // A seek aborted this request; carry on from the new position
+          if (generation !== track.generation && !destroyed) continue;
+          throw error;
+        }
+        if (destroyed) return;
+        if (generation !== track.generation) continue;
+
+        await appendToBuffer(track.buffer, data);
+        if (generation === track.generation) {
+          track.next++;
+        }
+      }
+    } catch (error) {
+      fail(error);
+    } finally {
+      track.loading = false;
+      track.controller = null;
+    }
+    maybeEndStream();
+  };
+
+  const pumpAll = () => {
+    tracks.forEach(track => {
+      void pump(track);
+    });
+  };
+
+  const handleSeeking = () => {
+    const time = video.currentTime;
+    tracks.forEach(track => {
+      const bufferedEnd = bufferedEndAt(track.buffer, time);
+      track.generation++;
+      track.controller?.abort();
+      track.next = segmentIndexAt(track.segments, bufferedEnd ?? time);
+      // The segment containing bufferedEnd is already appended
+      if (bufferedEnd !== null && track.segments[track.next]
+        && track.segments[track.next].time + track.segments[track.next].duration <= bufferedEnd + 0.1) {
+        track.next++;
+      }
+    });
+    pumpAll();
+  };
+
+  const openTrack = async (stream: DashStream): Promise<TrackState> => {
+    const initRange = parseByteRange(stream.initRange);
+    const indexRange = parseByteRange(stream.indexRange);
+    if (!initRange || !indexRange) {
+      throw new Error('Stream has no segment index');
+    }
+
+    // The init segment and sidx are adjacent at the start of the file, so fetch them together
+    const start = Math.min(initRange.start, indexRange.start);
+    const end = Math.max(initRange.end, indexRange.end);
+    const header = await fetchRange(stream, start, end);
+    const init = header.slice(initRange.start - start, initRange.end - start + 1);
+    const index = header.slice(indexRange.start - start, indexRange.end - start + 1);
+    const segments = parseSidx(index, indexRange.start);
+    if (segments.length === 0) {
+      throw new Error('Could not read segment index');
+    }
+
+    const buffer = mediaSource.addSourceBuffer(stream.mimeType);
+    await appendToBuffer(buffer, init);
+    return { stream, buffer, segments, next: 0, loading: false, generation: 0, controller: null };
+  };
+
+  const handleSourceOpen = async () => {
+    try {
+      const streams = selection.audio ? [selection.video, selection.audio] : [selection.video];
+      const opened = await Promise.all(streams.map(openTrack));
+      if (destroyed) return;
+      tracks.push(...opened);
+      if (duration && Number.isFinite(duration)) {
+        mediaSource.duration = duration;
+      }
+      video.addEventListener('timeupdate', pumpAll);
+      video.addEventListener('seeking', handleSeeking);
+      if (video.currentTime > 0) {
+        handleSeeking();
+      } else {
+        pumpAll();
+      }
+    } catch (error) {
+      fail(error);
+    }
+  };
+
+  mediaSource.addEventListener('sourceopen', () => {
+    void handleSourceOpen();
+  }, { once: true });
+  video.src = objectUrl;
+
+  return {
+    destroy: () => {
+      destroyed = true;
+      tracks.forEach(track => track.controller?.abort());
+      video.removeEventListener('timeupdate', pumpAll);
+      video.removeEventListener('seeking', handleSeeking);
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(objectUrl);
+    },
+  };
+}
@@ -1,5 +1,7 @@
 import { fetch as tauriFetch } from '@tauri-apps/plugin-http';
-import { getVideoStreamInfo, type VideoQuality } from './bilibili';
+import { getVideoStreamInfo, getMediaProxyUrl, type VideoQuality } from './bilibili';
+import { isTranslatableTrack, prepareTrackTranslation, serializeSubtitles, translateSubtitleCues, SUBTITLE_FORMATS, type SubtitleDisplayMode, type SubtitleFormat } from './subtitles';
+import type { SubtitleTrack } from './bilibili';
 import type { BiliVideo } from '../types/bilibili';
 
 export type { VideoQuality };
@@ -73,13 +75,7 @@ export async function downloadVideo(
     const controller = new AbortController();
     activeDownloads.set(bvid, controller);
 
-    // Sanitize filename
-    const title = (video.titleEn || video.title)
-      .replace(/[<>:"/\\|?*]/g, '')
-      .replace(/\s+/g, ' ')
-      .trim()
-      .slice(0, 100);
-    const fileName = `${title} [${bvid}].mp4`;
+    const fileName = `${baseFileName(video)}.mp4`;
 
     onProgress?.({
       bvid,
@@ -113,15 +109,7 @@ export async function downloadVideo(
       progress: 95,
     });
 
-    // Create blob and trigger browser download
-    const url = URL.createObjectURL(videoBlob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = fileName;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    saveBlob(videoBlob, fileName);
 
     activeDownloads.delete(bvid);
 
@@ -149,6 +137,57 @@ export async function downloadVideo(
   }
 }
 
+// Export a CC track as a subtitle file. Translated and bilingual exports translate whatever
+// part of the track playback hasn't reached yet, so the file is complete.
+export async function downloadSubtitles(
+  video: BiliVideo,
+  track: SubtitleTrack,
+  format: SubtitleFormat,
+  mode: SubtitleDisplayMode,
+  targetLanguage: string
+): Promise<string | null> {
+  try {
+    if (mode !== 'original' && isTranslatableTrack(track, targetLanguage)) {
+      prepareTrackTranslation(track, targetLanguage);
+      await translateSubtitleCues(track.cues);
+    }
+
+    const languageTag = mode === 'original'
+      ? track.language
+      : mode === 'translated' ? targetLanguage : `${track.language}+${targetLanguage}`;
+    const fileName = `${baseFileName(video)}.${languageTag}.${format}`;
+    const mimeType = SUBTITLE_FORMATS.find(option => option.value === format)?.mimeType || 'text/plain';
+    // BOM so Windows players don't misread the Chinese text
+    saveBlob(new Blob(['\ufeff', serializeSubtitles(track, format, mode)], { type: `${mimeType};charset=utf-8` }), fileName);
+    return fileName;
+  } catch (error) {
+    console.error('Subtitle download failed:', error);
+    return null;
+  }
+}
+
+// "Title [BV...]" with characters file systems reject removed
+function baseFileName(video: BiliVideo): string {
+  const title = (video.titleTranslated || video.title)
+    .replace(/[<>:"/\\|?*]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 100);
+  return `${title} [${video.bvid}]`;
+}
+
+// Create blob URL and trigger browser download
+export function saveBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
 // Check isTauri dynamically (Tauri 2.0 uses __TAURI_INTERNALS__)
 function checkIsTauri(): boolean {
   return typeof window !== 'undefined'
@@ -172,9 +211,10 @@ async function downloadWithProgress(
       },
       signal,
     };
+    // Browsers can't set the Referer the CDN requires, so go through the media proxy
     const response = checkIsTauri()
       ? await tauriFetch(url, requestInit)
-      : await window.fetch(url, requestInit);
+      : await window.fetch(getMediaProxyUrl(url), { signal });
 
     if (!response.ok) {
       throw new Error(`HTTP ${response.status}`);
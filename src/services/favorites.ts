@@ -1,5 +1,5 @@
 import { Store } from '@tauri-apps/plugin-store';
-import type { BiliVideo } from '../types/bilibili';
+import { migrateLegacyTranslations, type BiliVideo } from '../types/bilibili';
 
 const STORE_PATH = 'favorites.json';
 const LOCAL_STORAGE_KEY = 'bilibili_favorites';
@@ -29,12 +29,12 @@ export async function getFavorites(): Promise<FavoriteItem[]> {
   try {
     if (!isTauri) {
       const raw = window.localStorage.getItem(LOCAL_STORAGE_KEY);
-      return raw ? (JSON.parse(raw) as FavoriteItem[]) : [];
+      return raw ? migrateLegacyTranslations(JSON.parse(raw) as FavoriteItem[]) : [];
     }
     const s = await getStore();
     if (!s) return [];
     const favorites = await s.get<FavoriteItem[]>('favorites');
-    return favorites || [];
+    return migrateLegacyTranslations(favorites || []);
   } catch (error) {
     console.error('Failed to get favorites:', error);
     return [];
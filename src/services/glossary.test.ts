@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import {
+  protectGlossaryTerms,
+  protectGlossaryTargets,
+  normalizeGlossary,
+  glossaryToCsv,
+  parseGlossaryCsv,
+} from './glossary'
+
+describe('Glossary', () => {
+  describe('protectGlossaryTerms', () => {
+    it('should replace terms with numbered placeholders', () => {
+      const prepared = protectGlossaryTerms('一键三连UP主', [
+        { source: '一键三连', target: 'smash that like' },
+        { source: 'UP主', target: '' },
+      ])
+
+      expect(prepared.text).toBe('⟦0⟧⟦1⟧')
+      expect(prepared.termsOnly).toBe(true)
+      expect(prepared.restore('⟦0⟧ ⟦1⟧')).toBe('smash that like UP主')
+    })
+
+    it('should prefer the longest matching term', () => {
+      const prepared = protectGlossaryTerms('给UP主三连', [
+        { source: 'UP', target: 'up' },
+        { source: 'UP主', target: 'uploader' },
+      ])
+
+      expect(prepared.restore(prepared.text)).toBe('给uploader三连')
+    })
+
+    it('should tolerate spaces the provider adds around placeholders', () => {
+      const prepared = protectGlossaryTerms('我爱鬼畜视频', [{ source: '鬼畜', target: 'Kichiku' }])
+
+      expect(prepared.termsOnly).toBe(false)
+      expect(prepared.restore('I love ⟦ 0 ⟧ videos')).toBe('I love Kichiku videos')
+    })
+
+    it('should return null when a placeholder goes missing', () => {
+      const prepared = protectGlossaryTerms('鬼畜区', [{ source: '鬼畜', target: 'Kichiku' }])
+
+      expect(prepared.restore('Ghost zone')).toBeNull()
+    })
+
+    it('should leave text without terms alone', () => {
+      const prepared = protectGlossaryTerms('你好', [{ source: '鬼畜', target: 'Kichiku' }])
+
+      expect(prepared.text).toBe('你好')
+      expect(prepared.restore('Hello')).toBe('Hello')
+    })
+  })
+
+  describe('protectGlossaryTargets', () => {
+    it('should match translations as whole words, ignoring case', () => {
+      const glossary = [{ source: '原神', target: 'Genshin' }]
+
+      expect(protectGlossaryTargets('genshin guide', glossary).text).toBe('⟦0⟧ guide')
+      expect(protectGlossaryTargets('genshinfan', glossary).text).toBe('genshinfan')
+    })
+
+    it('should restore the Chinese term', () => {
+      const prepared = protectGlossaryTargets('Genshin guide', [{ source: '原神', target: 'Genshin' }])
+
+      expect(prepared.restore('⟦0⟧攻略')).toBe('原神攻略')
+    })
+  })
+
+  describe('normalizeGlossary', () => {
+    it('should trim entries, drop blank terms and keep the last duplicate', () => {
+      expect(normalizeGlossary([
+        { source: ' 三连 ', target: 'triple' },
+        { source: '  ', target: 'nothing' },
+        { source: '三连', target: ' like, coin, fav ' },
+      ])).toEqual([{ source: '三连', target: 'like, coin, fav' }])
+    })
+  })
+
+  describe('CSV', () => {
+    it('should round-trip entries with commas and quotes', () => {
+      const entries = [
+        { source: '三连', target: 'like, coin and favorite' },
+        { source: '老番茄', target: '' },
+        { source: '梗', target: 'the "meme"' },
+      ]
+
+      const csv = glossaryToCsv(entries)
+
+      expect(csv.split('\r\n')[0]).toBe('source,target')
+      expect(parseGlossaryCsv(csv)).toEqual(entries)
+    })
+
+    it('should accept files without a header, with a BOM and LF line endings', () => {
+      expect(parseGlossaryCsv('\ufeff鬼畜,Kichiku\n弹幕\n\n')).toEqual([
+        { source: '鬼畜', target: 'Kichiku' },
+        { source: '弹幕', target: '' },
+      ])
+    })
+  })
+})
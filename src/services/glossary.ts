@@ -0,0 +1,111 @@
+import { parseCsv, toCsv } from '../utils/csv';
+
+// User glossary: Chinese terms with a fixed translation, or protected terms that
+// must come through untranslated (an empty target). Terms are swapped for numbered
+// placeholders before the text goes to a provider and swapped back afterwards, so
+// the provider never gets a chance to mangle them.
+
+export interface GlossaryEntry {
+  source: string; // Chinese term
+  target: string; // Translation to use; empty keeps the term as-is
+}
+
+export interface ProtectedText {
+  text: string;
+  // The text was nothing but glossary terms, so there's nothing left to translate
+  termsOnly: boolean;
+  // Put the terms back into the provider's output; null if a placeholder went missing
+  restore: (translated: string) => string | null;
+}
+
+const PLACEHOLDER = (index: number) => `⟦${index}⟧`;
+// Providers sometimes add spaces inside or around the brackets
+const PLACEHOLDER_PATTERN = /\s*⟦\s*(\d+)\s*⟧\s*/g;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Latin terms match whole words, case-insensitively; CJK has no word boundaries
+function termPattern(term: string): string {
+  const escaped = escapeRegExp(term);
+  return /^[\w\s'-]+$/.test(term) ? `\\b${escaped}\\b` : escaped;
+}
+
+interface Replacement {
+  match: string;
+  output: string;
+}
+
+function protect(text: string, replacements: Replacement[]): ProtectedText {
+  const usable = replacements
+    .filter(r => r.match.trim() !== '')
+    // Longest first so "UP主" wins over "UP"
+    .sort((a, b) => b.match.length - a.match.length);
+  if (usable.length === 0) return { text, termsOnly: false, restore: translated => translated };
+
+  const pattern = new RegExp(usable.map(r => termPattern(r.match)).join('|'), 'gi');
+  const outputs: string[] = [];
+  const prepared = text.replace(pattern, found => {
+    const replacement = usable.find(r => r.match.toLowerCase() === found.toLowerCase());
+    outputs.push(replacement ? replacement.output : found);
+    return PLACEHOLDER(outputs.length - 1);
+  });
+  if (outputs.length === 0) return { text, termsOnly: false, restore: translated => translated };
+
+  return {
+    text: prepared,
+    termsOnly: prepared.replace(PLACEHOLDER_PATTERN, '').trim() === '',
+    restore: translated => {
+      const seen = new Set<number>();
+      const restored = translated.replace(PLACEHOLDER_PATTERN, (whole, index: string) => {
+        const i = Number(index);
+        if (i >= outputs.length) return whole;
+        seen.add(i);
+        // Keep a single space on each side where the provider left one, none next to CJK
+        const before = /^\s/.test(whole) ? ' ' : '';
+        const after = /\s$/.test(whole) ? ' ' : '';
+        return `${before}${outputs[i]}${after}`;
+      });
+      return seen.size === outputs.length ? restored : null;
+    },
+  };
+}
+
+// Before translating Chinese: mapped terms come back as their target, protected ones unchanged
+export function protectGlossaryTerms(text: string, glossary: GlossaryEntry[]): ProtectedText {
+  return protect(text, glossary.map(entry => ({
+    match: entry.source,
+    output: entry.target.trim() || entry.source,
+  })));
+}
+
+// Before translating into Chinese (search queries): mapped targets go back to their source term
+export function protectGlossaryTargets(text: string, glossary: GlossaryEntry[]): ProtectedText {
+  return protect(text, glossary.map(entry => ({
+    match: entry.target.trim() || entry.source,
+    output: entry.source,
+  })));
+}
+
+// Tidy user input: trim, drop blank sources, later duplicates replace earlier ones
+export function normalizeGlossary(entries: GlossaryEntry[]): GlossaryEntry[] {
+  const bySource = new Map<string, GlossaryEntry>();
+  for (const entry of entries) {
+    const source = entry.source.trim();
+    if (!source) continue;
+    bySource.delete(source);
+    bySource.set(source, { source, target: entry.target.trim() });
+  }
+  return [...bySource.values()];
+}
+
+export function glossaryToCsv(entries: GlossaryEntry[]): string {
+  return toCsv([['source', 'target'], ...entries.map(entry => [entry.source, entry.target])]);
+}
+
+export function parseGlossaryCsv(csv: string): GlossaryEntry[] {
+  const rows = parseCsv(csv).filter(row => row.some(cell => cell.trim() !== ''));
+  if (rows.length > 0 && rows[0][0]?.trim().toLowerCase() === 'source') rows.shift();
+  return normalizeGlossary(rows.map(row => ({ source: row[0] ?? '', target: row[1] ?? '' })));
+}
@@ -1,5 +1,5 @@
 import { Store } from '@tauri-apps/plugin-store';
-import type { BiliVideo } from '../types/bilibili';
+import { migrateLegacyTranslations, type BiliVideo } from '../types/bilibili';
 
 const STORE_PATH = 'history.json';
 const MAX_HISTORY_ITEMS = 100;
@@ -32,12 +32,12 @@ export async function getWatchHistory(): Promise<WatchHistoryItem[]> {
   try {
     if (!isTauri) {
       const raw = window.localStorage.getItem(LOCAL_STORAGE_KEY);
-      return raw ? (JSON.parse(raw) as WatchHistoryItem[]) : [];
+      return raw ? migrateLegacyTranslations(JSON.parse(raw) as WatchHistoryItem[]) : [];
     }
     const s = await getStore();
     if (!s) return [];
     const history = await s.get<WatchHistoryItem[]>('history');
-    return history || [];
+    return migrateLegacyTranslations(history || []);
   } catch (error) {
     console.error('Failed to get watch history:', error);
     return [];
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { guessLanguage } from './languageDetection'
+
+describe('Language detection', () => {
+  describe('guessLanguage', () => {
+    it('should tell Simplified from Traditional Chinese', () => {
+      expect(guessLanguage('这个视频太好看了')).toEqual({ language: 'zh', confident: true })
+      expect(guessLanguage('這個視頻太好看了')).toEqual({ language: 'zh-TW', confident: true })
+      // Nothing script-specific in it, so the default
+      expect(guessLanguage('大家好')).toEqual({ language: 'zh', confident: true })
+    })
+
+    it('should read kana as Japanese, but not a borrowed の', () => {
+      expect(guessLanguage('【初音ミク】千本桜を歌ってみた')).toEqual({ language: 'ja', confident: true })
+      expect(guessLanguage('我の世界第一期')).toEqual({ language: 'zh', confident: true })
+    })
+
+    it('should go by script for Korean, Thai and Russian', () => {
+      expect(guessLanguage('안녕하세요 여러분').language).toBe('ko')
+      expect(guessLanguage('สวัสดีครับ').language).toBe('th')
+      expect(guessLanguage('Привет всем').language).toBe('ru')
+    })
+
+    it('should weigh mixed-script text towards the CJK part', () => {
+      expect(guessLanguage('【4K】iPhone 15 Pro Max 深度评测').language).toBe('zh')
+      expect(guessLanguage('This is a video about the 长城 and its history').language).toBe('en')
+    })
+
+    it('should recognise Latin languages by their common words', () => {
+      expect(guessLanguage('This is the best video on the site')).toEqual({ language: 'en', confident: true })
+      expect(guessLanguage('Es el mejor video que he visto')).toEqual({ language: 'es', confident: true })
+      expect(guessLanguage('Video này hay quá, cảm ơn bạn')).toEqual({ language: 'vi', confident: true })
+    })
+
+    it('should be unsure about Latin text without telltale words', () => {
+      expect(guessLanguage('awsl')).toEqual({ language: null, confident: false })
+      expect(guessLanguage('Minecraft speedrun world record')).toEqual({ language: null, confident: false })
+    })
+
+    it('should find no language in numbers and emoji', () => {
+      expect(guessLanguage('233333')).toEqual({ language: null, confident: true })
+      expect(guessLanguage('🤣🤣 !!!')).toEqual({ language: null, confident: true })
+    })
+  })
+})
@@ -0,0 +1,95 @@
+import { SIMPLIFIED_ONLY, TRADITIONAL_ONLY } from './languageDetectionData';
+
+// Offline language detection from scripts and characters. Chinese, Japanese, Korean,
+// Thai and Russian are told apart by script alone; Latin text needs telltale words,
+// and when it has none the guess is marked unsure so a provider can be asked.
+
+export interface LanguageGuess {
+  // Code from languages.ts; null when there's no language in the text ("233", emoji)
+  // or nothing in it points to one
+  language: string | null;
+  confident: boolean;
+}
+
+const HAN = /[\u3400-\u9fff\uf900-\ufaff]/;
+// Kana, except の (Chinese titles borrow it for 的) and the marks ー and ・
+const KANA = /[\u3041-\u306d\u306f-\u309f\u30a0-\u30fa\u30fd-\u30ff]/;
+const HANGUL = /[\u1100-\u11ff\u3130-\u318f\uac00-\ud7af]/;
+const THAI = /[\u0e00-\u0e7f]/;
+const CYRILLIC = /[\u0400-\u04ff]/;
+const LATIN = /[a-z\u00c0-\u024f\u1e00-\u1eff]/i;
+const VIETNAMESE = /[ăđơưạảấầẩẫậắằẳẵặẹẻẽếềểễệỉịọỏốồổỗộớờởỡợụủứừửữựỳỵỷỹ]/i;
+
+// A CJK character carries about as much as a short word, so it outweighs a Latin letter.
+// "iPhone 15 深度评测" is Chinese; "a video about 长城" is English.
+const CJK_WEIGHT = 4;
+// Share of kana among CJK characters from which text reads as Japanese
+const KANA_SHARE = 0.2;
+
+const STOPWORDS: Record<string, Set<string>> = {
+  en: new Set('the and is are was of to in this that it you for with my not what how be have'.split(' ')),
+  es: new Set('el los las que y es un una por para con lo del se muy pero como está'.split(' ')),
+  fr: new Set('le les des et est une pas pour dans ce je il du avec sur qui très mais'.split(' ')),
+  de: new Set('der die das und ist nicht ich ein eine zu mit den von auf sie auch wie sehr'.split(' ')),
+  pt: new Set('os que e do da em um uma para com não é muito mas eu você isso'.split(' ')),
+  it: new Set('il di che è un una per non sono con mi gli della ma questo molto'.split(' ')),
+  id: new Set('yang dan di ini itu dengan untuk tidak saya ada dari ke akan bisa juga sangat'.split(' ')),
+};
+
+const simplifiedOnly = new Set(SIMPLIFIED_ONLY);
+const traditionalOnly = new Set(TRADITIONAL_ONLY);
+
+function chineseScript(text: string): string {
+  let simplified = 0;
+  let traditional = 0;
+  for (const ch of text) {
+    if (simplifiedOnly.has(ch)) simplified++;
+    else if (traditionalOnly.has(ch)) traditional++;
+  }
+  return traditional > simplified ? 'zh-TW' : 'zh';
+}
+
+function latinLanguage(text: string): LanguageGuess {
+  const diacritics = text.match(new RegExp(VIETNAMESE.source, 'gi'))?.length ?? 0;
+  if (diacritics >= 2) return { language: 'vi', confident: true };
+
+  const words = text.toLowerCase().match(/[a-zà-ÿ]+/g) ?? [];
+  const scores = Object.entries(STOPWORDS)
+    .map(([language, stopwords]) => ({ language, score: words.filter(word => stopwords.has(word)).length }))
+    .sort((a, b) => b.score - a.score);
+  const [best, second] = scores;
+  if (best.score === 0) return { language: null, confident: false };
+  return { language: best.language, confident: best.score >= 2 && best.score >= second.score * 2 };
+}
+
+export function guessLanguage(text: string): LanguageGuess {
+  let han = 0;
+  let kana = 0;
+  let hangul = 0;
+  let thai = 0;
+  let cyrillic = 0;
+  let latin = 0;
+  for (const ch of text) {
+    if (HAN.test(ch)) han++;
+    else if (KANA.test(ch)) kana++;
+    else if (HANGUL.test(ch)) hangul++;
+    else if (THAI.test(ch)) thai++;
+    else if (CYRILLIC.test(ch)) cyrillic++;
+    else if (LATIN.test(ch)) latin++;
+  }
+
+  const scripts = [
+    { script: 'cjk', weight: (han + kana) * CJK_WEIGHT },
+    { script: 'ko', weight: hangul * CJK_WEIGHT },
+    { script: 'th', weight: thai },
+    { script: 'ru', weight: cyrillic },
+    { script: 'latin', weight: latin },
+  ].sort((a, b) => b.weight - a.weight);
+  const [dominant] = scripts;
+
+  if (dominant.weight === 0) return { language: null, confident: true };
+  if (dominant.script === 'latin') return latinLanguage(text);
+  if (dominant.script !== 'cjk') return { language: dominant.script, confident: true };
+  if (kana > 0 && kana >= (han + kana) * KANA_SHARE) return { language: 'ja', confident: true };
+  return { language: chineseScript(text), confident: true };
+}
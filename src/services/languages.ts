@@ -0,0 +1,72 @@
+// Languages we can translate Bilibili content into. Codes are our own; each provider
+// maps them to what its API expects.
+
+export interface TargetLanguage {
+  code: string;
+  label: string;
+  nativeLabel: string;
+  google: string;
+  libreTranslate: string;
+}
+
+// Most Bilibili content is Simplified Chinese
+export const SOURCE_LANGUAGE = 'zh';
+export const DEFAULT_TARGET_LANGUAGE = 'en';
+// Detected, but not a language we have codes for; providers work it out themselves
+export const AUTO_LANGUAGE = 'auto';
+
+export const TARGET_LANGUAGES: TargetLanguage[] = [
+  { code: 'en', label: 'English', nativeLabel: 'English', google: 'en', libreTranslate: 'en' },
+  { code: 'ja', label: 'Japanese', nativeLabel: '日本語', google: 'ja', libreTranslate: 'ja' },
+  { code: 'ko', label: 'Korean', nativeLabel: '한국어', google: 'ko', libreTranslate: 'ko' },
+  { code: 'es', label: 'Spanish', nativeLabel: 'Español', google: 'es', libreTranslate: 'es' },
+  { code: 'fr', label: 'French', nativeLabel: 'Français', google: 'fr', libreTranslate: 'fr' },
+  { code: 'de', label: 'German', nativeLabel: 'Deutsch', google: 'de', libreTranslate: 'de' },
+  { code: 'pt', label: 'Portuguese', nativeLabel: 'Português', google: 'pt', libreTranslate: 'pt' },
+  { code: 'it', label: 'Italian', nativeLabel: 'Italiano', google: 'it', libreTranslate: 'it' },
+  { code: 'ru', label: 'Russian', nativeLabel: 'Русский', google: 'ru', libreTranslate: 'ru' },
+  { code: 'vi', label: 'Vietnamese', nativeLabel: 'Tiếng Việt', google: 'vi', libreTranslate: 'vi' },
+  { code: 'th', label: 'Thai', nativeLabel: 'ไทย', google: 'th', libreTranslate: 'th' },
+  { code: 'id', label: 'Indonesian', nativeLabel: 'Bahasa Indonesia', google: 'id', libreTranslate: 'id' },
+  { code: 'zh-TW', label: 'Traditional Chinese', nativeLabel: '繁體中文', google: 'zh-TW', libreTranslate: 'zt' },
+];
+
+const SOURCE: TargetLanguage = {
+  code: SOURCE_LANGUAGE,
+  label: 'Chinese',
+  nativeLabel: '中文',
+  google: 'zh-CN',
+  libreTranslate: 'zh',
+};
+
+const AUTO: TargetLanguage = {
+  code: AUTO_LANGUAGE,
+  label: 'Detected language',
+  nativeLabel: 'Detected language',
+  google: 'auto',
+  libreTranslate: 'auto',
+};
+
+export function getLanguage(code: string): TargetLanguage {
+  if (code === SOURCE_LANGUAGE) return SOURCE;
+  if (code === AUTO_LANGUAGE) return AUTO;
+  return TARGET_LANGUAGES.find(language => language.code === code) || TARGET_LANGUAGES[0];
+}
+
+export function getLanguageLabel(code: string): string {
+  return getLanguage(code).label;
+}
+
+export function isChineseLanguage(code: string): boolean {
+  return code === SOURCE_LANGUAGE || code === 'zh-TW';
+}
+
+// Our code for a language tag from elsewhere: Bilibili subtitle tracks ("zh-Hant",
+// "ai-en"), or a provider's detection ("zh-CN", "zt")
+export function languageFromCode(code: string): string {
+  const tag = code.trim().toLowerCase().replace(/^ai-/, '').replace(/_/g, '-');
+  if (/^(zh-(tw|hk|mo|hant)|zt)\b/.test(tag)) return 'zh-TW';
+  if (/^(zh|cmn)\b/.test(tag)) return SOURCE_LANGUAGE;
+  const primary = tag.split('-')[0];
+  return TARGET_LANGUAGES.find(language => language.code === primary)?.code ?? AUTO_LANGUAGE;
+}
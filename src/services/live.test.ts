@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { getLiveRooms, getLiveRoom, getLiveStreamInfo } from './live'
+import { invalidateQueries } from './queryCache'
+import { liveRoomListResponse, liveRoomInfoResponse, livePlayInfoResponse } from './__fixtures__/bilibili'
+
+vi.mock('./translate', () => ({
+  translateContent: vi.fn((text) => Promise.resolve(`EN: ${text}`)),
+}))
+
+function jsonResponse(body: unknown) {
+  return {
+    ok: true,
+    status: 200,
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  }
+}
+
+describe('Live Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    invalidateQueries()
+    const fetchMock = vi.fn()
+    global.fetch = fetchMock
+    window.fetch = fetchMock
+  })
+
+  describe('getLiveRooms', () => {
+    it('normalizes listed rooms with covers, online counts and translations', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(jsonResponse(liveRoomListResponse))
+
+      const result = await getLiveRooms(9)
+
+      expect(result.error).toBeUndefined()
+      expect(result.hasMore).toBe(false)
+      expect(result.rooms[0]).toMatchObject({
+        roomId: 21452505,
+        title: '今天也要开心',
+        titleTranslated: 'EN: 今天也要开心',
+        cover: 'https://i0.hdslb.com/bfs/live/user_cover.jpg',
+        anchor: { name: '七海Nana7mi', nameTranslated: 'EN: 七海Nana7mi' },
+        online: 52000,
+        areaName: '虚拟主播',
+        live: true,
+      })
+      // No user cover or online figure: falls back to the system cover and watched count
+      expect(result.rooms[1]).toMatchObject({
+        cover: 'https://i0.hdslb.com/bfs/live/lol.jpg',
+        online: 880000,
+      })
+    })
+
+    it('reads the recommended list for area 0', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(jsonResponse({
+        code: 0,
+        data: { recommend_room_list: liveRoomListResponse.data },
+      }))
+
+      const result = await getLiveRooms(0)
+
+      expect(result.rooms.map(room => room.roomId)).toEqual([21452505, 6])
+      expect(String((global.fetch as ReturnType<typeof vi.fn>).mock.calls[0][0])).toContain('getMoreRecList')
+    })
+
+    it('returns the error when the request fails', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue(jsonResponse({ code: -400, message: 'bad request' }))
+
+      const result = await getLiveRooms(2)
+
+      expect(result.rooms).toEqual([])
+      expect(result.error).toBeTruthy()
+    })
+  })
+
+  describe('getLiveRoom', () => {
+    it('returns a live room with its anchor', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(jsonResponse(liveRoomInfoResponse))
+
+      const { room } = await getLiveRoom(21452505)
+
+      expect(room).toMatchObject({
+        roomId: 21452505,
+        anchor: { name: '七海Nana7mi', face: 'https://i0.hdslb.com/bfs/face/nana.jpg' },
+        online: 52000,
+        live: true,
+        liveSince: 1760000000,
+      })
+    })
+  })
+
+  describe('getLiveStreamInfo', () => {
+    it('puts fMP4 HLS first, AVC before HEVC, then TS and FLV', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(jsonResponse(livePlayInfoResponse))
+
+      const { info } = await getLiveStreamInfo(21452505)
+
+      expect(info?.quality).toBe(10000)
+      expect(info?.qualities).toEqual([
+        { quality: 10000, description: 'Source' },
+        { quality: 150, description: 'HD' },
+      ])
+      expect(info?.streams.map(stream => `${stream.protocol}/${stream.format}/${stream.codec}`)).toEqual([
+        'hls/fmp4/avc',
+        'hls/fmp4/hevc',
+        'hls/ts/avc',
+        'flv/flv/avc',
+      ])
+      expect(info?.streams[0].url).toBe('https://cn-gotcha01.bilivideo.com/live-bvc/live_21452505_fmp4/index.m3u8?expires=4')
+    })
+
+    it('explains an offline room', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(jsonResponse({
+        code: 0,
+        data: { room_id: 21452505, live_status: 0, playurl_info: null },
+      }))
+
+      const result = await getLiveStreamInfo(21452505)
+
+      expect(result.info).toBeNull()
+      expect(result.error).toBe('This room is offline right now.')
+    })
+  })
+})
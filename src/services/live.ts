@@ -0,0 +1,257 @@
+import type {
+  BiliLiveArea,
+  BiliLiveRoom,
+  BiliLiveRoomResult,
+  BiliLiveRoomsResult,
+} from '../types/bilibili';
+import { translateContent } from './translate';
+import { buildWbiUrl } from './bilibili';
+import {
+  LIVE_AREA_SCHEMA,
+  LIVE_LIST_ROOM_SCHEMA,
+  LIVE_PLAY_INFO_SCHEMA,
+  LIVE_ROOM_INFO_SCHEMA,
+  normalizeLiveListRoom,
+  normalizeLiveRoom,
+  parseList,
+  parseResponse,
+  type RawLivePlayInfo,
+} from './bilibiliSchemas';
+import { LIVE_API_BASE, biliGet } from './biliClient';
+import { cachedQuery, type QueryPolicy } from './queryCache';
+
+// live.bilibili.com: rooms, areas, stream URLs and the chat server to connect to.
+// Same client and cache as the video API, on the live API host.
+
+const MINUTE = 60 * 1000;
+export const LIVE_ROOMS_PAGE_SIZE = 30;
+
+const CACHE_POLICIES: Record<string, QueryPolicy> = {
+  '/room/v1/Area/getList': { ttlMs: 60 * MINUTE, staleMs: 23 * 60 * MINUTE },
+  '/xlive/web-interface/v1/webMain/getMoreRecList': { ttlMs: MINUTE, staleMs: 4 * MINUTE },
+  '/room/v1/area/getRoomList': { ttlMs: MINUTE, staleMs: 4 * MINUTE },
+  '/xlive/web-room/v1/index/getInfoByRoom': { ttlMs: 30 * 1000 },
+};
+
+// Top-level areas; anything Bilibili adds later shows its Chinese name
+const LIVE_AREA_NAMES: Record<number, string> = {
+  1: 'Entertainment',
+  2: 'PC Games',
+  3: 'Mobile Games',
+  5: 'Radio',
+  6: 'Console & Indie',
+  9: 'VTubers',
+  10: 'Lifestyle',
+  11: 'Knowledge',
+  13: 'Esports',
+  14: 'Chat Rooms',
+  15: 'Interactive',
+  300: 'Shopping',
+};
+
+const LIVE_QUALITY_NAMES: Record<number, string> = {
+  30000: 'Dolby',
+  20000: '4K',
+  10000: 'Source',
+  400: 'Blu-ray',
+  250: 'Ultra HD',
+  150: 'HD',
+  80: 'Smooth',
+};
+
+// Set VITE_LIVE_DANMAKU_WS to use another chat server, e.g. a local stand-in
+const LIVE_DANMAKU_WS = (import.meta.env.VITE_LIVE_DANMAKU_WS as string | undefined) || '';
+const DEFAULT_DANMAKU_WS = 'wss://broadcastlv.chat.bilibili.com/sub';
+
+function getLiveJson(url: string) {
+  const load = () => biliGet(url);
+  const policy = CACHE_POLICIES[new URL(url).pathname];
+  if (!policy) return load();
+  return cachedQuery(url.replace(LIVE_API_BASE, ''), load, policy, result => result.ok);
+}
+
+async function translateLiveRooms(rooms: BiliLiveRoom[]): Promise<void> {
+  const names = [...new Set(rooms.map(room => room.anchor.name))];
+  const [titles, translatedNames] = await Promise.all([
+    Promise.all(rooms.map(room => translateContent(room.title).catch(() => room.title))),
+    Promise.all(names.map(name => translateContent(name).catch(() => name))),
+  ]);
+  const nameMap = new Map(names.map((name, i) => [name, translatedNames[i]]));
+  rooms.forEach((room, i) => {
+    room.titleTranslated = titles[i];
+    room.anchor.nameTranslated = nameMap.get(room.anchor.name);
+  });
+}
+
+export async function getLiveAreas(): Promise<BiliLiveArea[]> {
+  try {
+    const result = await getLiveJson(`${LIVE_API_BASE}/room/v1/Area/getList`);
+    if (!result.ok) {
+      console.warn('[Live] Could not load areas:', result.error.message);
+      return [];
+    }
+    return parseList('live/areas', LIVE_AREA_SCHEMA, result.value.data, 'data').map(area => ({
+      id: area.id,
+      name: area.name,
+      nameEn: LIVE_AREA_NAMES[area.id] || area.name,
+      children: (area.list || []).map(child => ({ id: Number(child.id), name: child.name })),
+    }));
+  } catch (error) {
+    console.error('Error getting live areas:', error);
+    return [];
+  }
+}
+
+// Rooms live now in one top-level area, busiest first. Area 0 is the recommended
+// list, which comes as a single page.
+export async function getLiveRooms(areaId: number, page: number = 1): Promise<BiliLiveRoomsResult> {
+  try {
+    const recommended = areaId === 0;
+    const url = recommended
+      ? `${LIVE_API_BASE}/xlive/web-interface/v1/webMain/getMoreRecList?platform=web`
+      : `${LIVE_API_BASE}/room/v1/area/getRoomList?platform=web&parent_area_id=${areaId}&cate_id=0&area_id=0&sort_type=online&page=${page}&page_size=${LIVE_ROOMS_PAGE_SIZE}`;
+    const result = await getLiveJson(url);
+    if (!result.ok) {
+      return { rooms: [], page, hasMore: false, error: result.error.message };
+    }
+
+    const data = result.value.data;
+    const list = recommended ? (data as { recommend_room_list?: unknown } | undefined)?.recommend_room_list : data;
+    const rooms = parseList('live/rooms', LIVE_LIST_ROOM_SCHEMA, list, recommended ? 'data.recommend_room_list' : 'data')
+      .map(normalizeLiveListRoom);
+    await translateLiveRooms(rooms);
+    return {
+      rooms,
+      page,
+      hasMore: !recommended && Array.isArray(list) && list.length >= LIVE_ROOMS_PAGE_SIZE,
+    };
+  } catch (error) {
+    console.error('Error getting live rooms:', error);
+    return { rooms: [], page, hasMore: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// A room by its long or short id
+export async function getLiveRoom(roomId: number): Promise<BiliLiveRoomResult> {
+  try {
+    const result = await getLiveJson(`${LIVE_API_BASE}/xlive/web-room/v1/index/getInfoByRoom?room_id=${roomId}`);
+    if (!result.ok) {
+      return { room: null, error: result.error.message };
+    }
+    const room = normalizeLiveRoom(parseResponse('live/room', LIVE_ROOM_INFO_SCHEMA, result.value.data));
+    await translateLiveRooms([room]);
+    return { room };
+  } catch (error) {
+    console.error('Error getting live room:', error);
+    return { room: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export interface LiveStream {
+  url: string;
+  protocol: 'hls' | 'flv';
+  format: string; // fmp4, ts or flv
+  codec: string;
+}
+
+export interface LiveStreamInfo {
+  quality: number;
+  qualities: { quality: number; description: string }[];
+  streams: LiveStream[]; // fMP4 HLS first, which MSE can play without remuxing
+}
+
+export interface LiveStreamResult {
+  info: LiveStreamInfo | null;
+  error?: string; // Offline room or fetch failure, ready to show
+}
+
+const FORMAT_ORDER = ['fmp4', 'ts', 'flv'];
+
+export function readLivePlayInfo(raw: RawLivePlayInfo): LiveStreamInfo | null {
+  const playurl = raw.playurl_info?.playurl;
+  if (!playurl) return null;
+
+  const streams: LiveStream[] = [];
+  let quality = 0;
+  let accepted: number[] = [];
+  for (const stream of playurl.stream) {
+    const protocol = stream.protocol_name === 'http_hls' ? 'hls' : 'flv';
+    for (const format of stream.format) {
+      for (const codec of format.codec) {
+        quality = quality || codec.current_qn;
+        if (accepted.length === 0) accepted = codec.accept_qn || [];
+        for (const info of codec.url_info) {
+          streams.push({
+            url: `${info.host}${codec.base_url}${info.extra}`,
+            protocol,
+            format: format.format_name,
+            codec: codec.codec_name,
+          });
+        }
+      }
+    }
+  }
+  if (streams.length === 0) return null;
+
+  const rank = (stream: LiveStream) => {
+    const index = FORMAT_ORDER.indexOf(stream.format);
+    return (index < 0 ? FORMAT_ORDER.length : index) * 2 + (stream.codec === 'avc' ? 0 : 1);
+  };
+  const descriptions = new Map((playurl.g_qn_desc || []).map(entry => [entry.qn, entry.desc]));
+  return {
+    quality,
+    qualities: accepted.map(qn => ({ quality: qn, description: LIVE_QUALITY_NAMES[qn] || descriptions.get(qn) || String(qn) })),
+    streams: streams.map((stream, i) => ({ stream, i }))
+      .sort((a, b) => rank(a.stream) - rank(b.stream) || a.i - b.i)
+      .map(({ stream }) => stream),
+  };
+}
+
+// Stream URLs for a room at the requested quality (10000 is the source)
+export async function getLiveStreamInfo(roomId: number, quality: number = 10000): Promise<LiveStreamResult> {
+  try {
+    const result = await getLiveJson(
+      `${LIVE_API_BASE}/xlive/web-room/v2/index/getRoomPlayInfo?room_id=${roomId}&protocol=0,1&format=0,1,2&codec=0,1&qn=${quality}&platform=web&ptype=8`
+    );
+    if (!result.ok) {
+      return { info: null, error: result.error.message };
+    }
+    const raw = parseResponse('live/playinfo', LIVE_PLAY_INFO_SCHEMA, result.value.data);
+    if (raw.live_status !== 1) {
+      return { info: null, error: 'This room is offline right now.' };
+    }
+    const info = readLivePlayInfo(raw);
+    return info ? { info } : { info: null, error: 'Bilibili returned no playable stream for this room' };
+  } catch (error) {
+    console.error('Error getting live stream:', error);
+    return { info: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function defaultDanmakuUrl(hosts: { host: string; wss_port?: number }[] | undefined): string {
+  if (import.meta.env.DEV && typeof window !== 'undefined') {
+    // Vite proxies this to Bilibili's chat server
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    return `${protocol}//${window.location.host}/api/live-ws`;
+  }
+  const host = hosts?.[0];
+  return host ? `wss://${host.host}:${host.wss_port ?? 443}/sub` : DEFAULT_DANMAKU_WS;
+}
+
+// Where to connect for a room's live chat, and the token to authenticate with. Without
+// a token the server still lets anonymous viewers in, with names masked.
+export async function getLiveDanmakuInfo(roomId: number): Promise<{ url: string; token: string }> {
+  const path = '/xlive/web-room/v1/index/getDanmuInfo';
+  const result = await biliGet([
+    await buildWbiUrl(path, { id: roomId, type: 0 }, LIVE_API_BASE),
+    `${LIVE_API_BASE}${path}?id=${roomId}&type=0`,
+  ]);
+  const data = result.ok
+    ? result.value.data as { token?: string; host_list?: { host: string; wss_port?: number }[] } | undefined
+    : undefined;
+  if (!result.ok) console.warn('[Live] No chat token:', result.error.message);
+  return {
+    url: LIVE_DANMAKU_WS || defaultDanmakuUrl(data?.host_list),
+    token: data?.token || '',
+  };
+}
@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { LIVE_OP, connectLiveDanmaku, decodePackets, encodePacket, parseDanmuMsg } from './liveDanmaku'
+
+const textDecoder = new TextDecoder()
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Response(data.slice()).body!.pipeThrough(new CompressionStream('deflate'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    out.set(part, offset)
+    offset += part.length
+  }
+  return out
+}
+
+function danmuCommand(text: string, uid = 1001, uname = '观众') {
+  return JSON.stringify({
+    cmd: 'DANMU_MSG',
+    info: [[0, 1, 25, 0xff6699, 1760000000000], text, [uid, uname]],
+  })
+}
+
+// Stands in for the chat server: records what the client sends and lets the test
+// push frames or drop the connection
+class FakeSocket {
+  static instances: FakeSocket[] = []
+  binaryType = 'blob'
+  sent: Uint8Array[] = []
+  onopen: (() => void) | null = null
+  onmessage: ((event: { data: ArrayBuffer }) => void) | null = null
+  onclose: (() => void) | null = null
+  url: string
+
+  constructor(url: string) {
+    this.url = url
+    FakeSocket.instances.push(this)
+  }
+
+  send(data: Uint8Array) {
+    this.sent.push(data)
+  }
+
+  close() {
+    this.onclose?.()
+  }
+
+  receive(data: Uint8Array) {
+    this.onmessage?.({ data: data.slice().buffer })
+  }
+}
+
+function createFakeSocket(url: string) {
+  return new FakeSocket(url) as unknown as WebSocket
+}
+
+describe('Live danmaku', () => {
+  afterEach(() => {
+    FakeSocket.instances = []
+    vi.useRealTimers()
+  })
+
+  describe('packets', () => {
+    it('round-trips a packet through the header', async () => {
+      const packet = encodePacket(LIVE_OP.message, '{"cmd":"PING"}')
+
+      expect(packet.length).toBe(16 + 14)
+      const [decoded] = await decodePackets(packet)
+      expect(decoded.op).toBe(LIVE_OP.message)
+      expect(textDecoder.decode(decoded.body)).toBe('{"cmd":"PING"}')
+    })
+
+    it('splits a frame holding several packets', async () => {
+      const frame = concat(encodePacket(LIVE_OP.heartbeatReply, new Uint8Array([0, 0, 0, 42])), encodePacket(LIVE_OP.message, '{}'))
+
+      const packets = await decodePackets(frame)
+
+      expect(packets.map(packet => packet.op)).toEqual([LIVE_OP.heartbeatReply, LIVE_OP.message])
+    })
+
+    it('unpacks a zlib-compressed batch', async () => {
+      const inner = concat(encodePacket(LIVE_OP.message, danmuCommand('第一')), encodePacket(LIVE_OP.message, danmuCommand('第二')))
+      const frame = encodePacket(LIVE_OP.message, await deflate(inner), 2)
+
+      const packets = await decodePackets(frame)
+
+      expect(packets.map(packet => JSON.parse(textDecoder.decode(packet.body)).info[1])).toEqual(['第一', '第二'])
+    })
+  })
+
+  describe('parseDanmuMsg', () => {
+    it('reads the mode, color, text and sender', () => {
+      const message = parseDanmuMsg([[0, 5, 25, 0xffffff, 1760000000000], ' 你好 ', [42, '小明']], 3)
+
+      expect(message).toMatchObject({
+        id: 'live-1760000000000-42-3',
+        mode: 'top',
+        color: 0xffffff,
+        content: '你好',
+        uid: 42,
+        uname: '小明',
+        sentAt: 1760000000000,
+      })
+    })
+
+    it('skips malformed or empty messages', () => {
+      expect(parseDanmuMsg(null, 0)).toBeNull()
+      expect(parseDanmuMsg([[0, 1], '  ', [1, 'a']], 0)).toBeNull()
+    })
+  })
+
+  describe('connectLiveDanmaku', () => {
+    it('authenticates and delivers chat messages and viewer counts', async () => {
+      const onMessages = vi.fn()
+      const onViewers = vi.fn()
+      const onStatus = vi.fn()
+      const connection = connectLiveDanmaku(21452505, { onMessages, onViewers, onStatus }, {
+        url: 'ws://localhost:9000/sub',
+        token: 'secret',
+        createSocket: createFakeSocket,
+      })
+      const socket = FakeSocket.instances[0]
+      expect(socket.url).toBe('ws://localhost:9000/sub')
+      expect(socket.binaryType).toBe('arraybuffer')
+
+      socket.onopen?.()
+      const [auth] = await decodePackets(socket.sent[0])
+      expect(auth.op).toBe(LIVE_OP.auth)
+      expect(JSON.parse(textDecoder.decode(auth.body))).toMatchObject({ roomid: 21452505, key: 'secret', protover: 2 })
+
+      socket.receive(encodePacket(LIVE_OP.authReply, '{"code":0}'))
+      const batch = concat(
+        encodePacket(LIVE_OP.message, danmuCommand('好耶')),
+        encodePacket(LIVE_OP.message, JSON.stringify({ cmd: 'WATCHED_CHANGE', data: { num: 1234 } }))
+      )
+      socket.receive(encodePacket(LIVE_OP.message, await deflate(batch), 2))
+
+      await vi.waitFor(() => expect(onMessages).toHaveBeenCalled())
+      expect(onStatus).toHaveBeenCalledWith('open')
+      expect(onViewers).toHaveBeenCalledWith(1234)
+      expect(onMessages.mock.calls[0][0]).toEqual([expect.objectContaining({ content: '好耶', uname: '观众' })])
+      connection.close()
+    })
+
+    it('reconnects after the socket drops, and stops once closed', () => {
+      vi.useFakeTimers()
+      const onStatus = vi.fn()
+      const connection = connectLiveDanmaku(1, { onMessages: vi.fn(), onStatus }, {
+        url: 'ws://localhost:9000/sub',
+        token: '',
+        createSocket: createFakeSocket,
+      })
+
+      FakeSocket.instances[0].close()
+      expect(onStatus).toHaveBeenLastCalledWith('closed')
+      vi.advanceTimersByTime(1000)
+      expect(FakeSocket.instances).toHaveLength(2)
+
+      connection.close()
+      vi.advanceTimersByTime(60000)
+      expect(FakeSocket.instances).toHaveLength(2)
+    })
+  })
+})
@@ -0,0 +1,210 @@
+import type { DanmakuItem, DanmakuMode } from './danmaku';
+
+// Live chat over Bilibili's danmaku WebSocket. Every frame is one or more packets:
+// a 16-byte big-endian header (total length, header length, protocol version,
+// operation, sequence) and a body. Version 2 bodies are zlib-compressed packets.
+
+export const LIVE_OP = {
+  heartbeat: 2,
+  heartbeatReply: 3, // Body is a uint32 popularity figure
+  message: 5, // Body is a JSON command
+  auth: 7,
+  authReply: 8,
+} as const;
+
+const HEADER_LENGTH = 16;
+const PROTOCOL_ZLIB = 2;
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10000, 30000];
+
+export interface LivePacket {
+  op: number;
+  version: number;
+  body: Uint8Array;
+}
+
+// A chat message, ready for the danmaku overlay once it has a time on the video
+export interface LiveDanmakuMessage extends DanmakuItem {
+  uid: number;
+  uname: string;
+  sentAt: number; // Unix ms
+}
+
+export type LiveDanmakuStatus = 'connecting' | 'open' | 'closed';
+
+export interface LiveDanmakuHandlers {
+  onMessages: (messages: LiveDanmakuMessage[]) => void;
+  onViewers?: (count: number) => void;
+  onStatus?: (status: LiveDanmakuStatus) => void;
+}
+
+export interface LiveDanmakuOptions {
+  url: string;
+  token: string;
+  uid?: number; // 0 for anonymous viewers
+  // For tests, which stand a fake server in for the socket
+  createSocket?: (url: string) => WebSocket;
+}
+
+export interface LiveDanmakuConnection {
+  close: () => void;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export function encodePacket(op: number, body: string | Uint8Array = '', version = 1): Uint8Array {
+  const payload = typeof body === 'string' ? textEncoder.encode(body) : body;
+  const packet = new Uint8Array(HEADER_LENGTH + payload.length);
+  const view = new DataView(packet.buffer);
+  view.setUint32(0, packet.length);
+  view.setUint16(4, HEADER_LENGTH);
+  view.setUint16(6, version);
+  view.setUint32(8, op);
+  view.setUint32(12, 1);
+  packet.set(payload, HEADER_LENGTH);
+  return packet;
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Response(data.slice()).body!.pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Splits a frame into packets, unpacking compressed batches
+export async function decodePackets(data: ArrayBuffer | Uint8Array): Promise<LivePacket[]> {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const packets: LivePacket[] = [];
+  let offset = 0;
+  while (offset + HEADER_LENGTH <= bytes.length) {
+    const length = view.getUint32(offset);
+    const headerLength = view.getUint16(offset + 4);
+    if (length < headerLength || offset + length > bytes.length) break;
+    const version = view.getUint16(offset + 6);
+    const op = view.getUint32(offset + 8);
+    const body = bytes.subarray(offset + headerLength, offset + length);
+    if (op === LIVE_OP.message && version === PROTOCOL_ZLIB) {
+      packets.push(...await decodePackets(await inflate(body)));
+    } else {
+      packets.push({ op, version, body });
+    }
+    offset += length;
+  }
+  return packets;
+}
+
+function toMode(mode: unknown): DanmakuMode {
+  if (mode === 4) return 'bottom';
+  if (mode === 5) return 'top';
+  return 'scroll';
+}
+
+// DANMU_MSG info: [[_, mode, size, color, sentAt, ...], text, [uid, uname, ...], ...]
+export function parseDanmuMsg(info: unknown, sequence: number): LiveDanmakuMessage | null {
+  if (!Array.isArray(info)) return null;
+  const [meta, text, user] = info as [unknown[] | undefined, unknown, unknown[] | undefined];
+  const content = typeof text === 'string' ? text.trim() : '';
+  if (!content || !Array.isArray(meta)) return null;
+  const sentAt = typeof meta[4] === 'number' ? meta[4] : Date.now();
+  const uid = Array.isArray(user) && typeof user[0] === 'number' ? user[0] : 0;
+  return {
+    id: `live-${sentAt}-${uid}-${sequence}`,
+    time: 0,
+    mode: toMode(meta[1]),
+    size: typeof meta[2] === 'number' ? meta[2] : 25,
+    color: typeof meta[3] === 'number' ? meta[3] : 0xffffff,
+    content,
+    uid,
+    uname: Array.isArray(user) && typeof user[1] === 'string' ? user[1] : '',
+    sentAt,
+  };
+}
+
+// Connects to a room's chat, authenticates, keeps the heartbeat going and reconnects
+// with backoff when the socket drops
+export function connectLiveDanmaku(
+  roomId: number,
+  handlers: LiveDanmakuHandlers,
+  options: LiveDanmakuOptions
+): LiveDanmakuConnection {
+  const createSocket = options.createSocket ?? ((url: string) => new WebSocket(url));
+  let socket: WebSocket | null = null;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let attempts = 0;
+  let sequence = 0;
+  let closed = false;
+
+  const handleCommand = (command: { cmd?: string; info?: unknown; data?: { num?: unknown } }, batch: LiveDanmakuMessage[]) => {
+    // DANMU_MSG sometimes carries a suffix, e.g. DANMU_MSG:4:0:2:2:2:0
+    if (command.cmd?.startsWith('DANMU_MSG')) {
+      const message = parseDanmuMsg(command.info, sequence++);
+      if (message) batch.push(message);
+    } else if (command.cmd === 'WATCHED_CHANGE' && typeof command.data?.num === 'number') {
+      handlers.onViewers?.(command.data.num);
+    }
+  };
+
+  const handleFrame = async (data: ArrayBuffer) => {
+    const packets = await decodePackets(data);
+    const batch: LiveDanmakuMessage[] = [];
+    for (const packet of packets) {
+      if (packet.op === LIVE_OP.authReply) {
+        attempts = 0;
+        handlers.onStatus?.('open');
+      } else if (packet.op === LIVE_OP.message) {
+        try {
+          handleCommand(JSON.parse(textDecoder.decode(packet.body)), batch);
+        } catch {
+          // Not every command is JSON we can read; skip it
+        }
+      }
+    }
+    if (batch.length > 0 && !closed) handlers.onMessages(batch);
+  };
+
+  const connect = () => {
+    handlers.onStatus?.('connecting');
+    const current = createSocket(options.url);
+    current.binaryType = 'arraybuffer';
+    socket = current;
+
+    current.onopen = () => {
+      const auth = JSON.stringify({
+        uid: options.uid ?? 0,
+        roomid: roomId,
+        protover: PROTOCOL_ZLIB,
+        platform: 'web',
+        type: 2,
+        key: options.token,
+      });
+      current.send(encodePacket(LIVE_OP.auth, auth));
+      current.send(encodePacket(LIVE_OP.heartbeat));
+      heartbeat = setInterval(() => current.send(encodePacket(LIVE_OP.heartbeat)), HEARTBEAT_INTERVAL_MS);
+    };
+    current.onmessage = (event: MessageEvent) => {
+      if (event.data instanceof ArrayBuffer) {
+        handleFrame(event.data).catch(error => console.warn('[Live] Unreadable chat frame:', error));
+      }
+    };
+    current.onclose = () => {
+      clearInterval(heartbeat);
+      if (closed) return;
+      handlers.onStatus?.('closed');
+      const delay = RECONNECT_DELAYS_MS[Math.min(attempts++, RECONNECT_DELAYS_MS.length - 1)];
+      reconnectTimer = setTimeout(connect, delay);
+    };
+  };
+
+  connect();
+
+  return {
+    close: () => {
+      closed = true;
+      clearInterval(heartbeat);
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    },
+  };
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { mimeTypeForInit, parseHlsPlaylist } from './liveHls'
+
+const BASE = 'https://cn-gotcha01.bilivideo.com/live-bvc/live_1/index.m3u8?expires=1'
+
+// Just enough of an init segment for the box scan: an avcC record and an mp4a entry
+function buildInit(profile: number, compat: number, level: number, withAudio: boolean): ArrayBuffer {
+  const bytes = [
+    0, 0, 0, 16, ...'avcC'.split('').map(c => c.charCodeAt(0)), 1, profile, compat, level,
+    ...(withAudio ? [0, 0, 0, 8, ...'mp4a'.split('').map(c => c.charCodeAt(0))] : []),
+  ]
+  return new Uint8Array(bytes).buffer
+}
+
+describe('Live HLS', () => {
+  describe('parseHlsPlaylist', () => {
+    it('reads the init segment and numbers segments from the media sequence', () => {
+      const playlist = parseHlsPlaylist([
+        '#EXTM3U',
+        '#EXT-X-VERSION:7',
+        '#EXT-X-TARGETDURATION:1',
+        '#EXT-X-MEDIA-SEQUENCE:1200',
+        '#EXT-X-MAP:URI="h1760000000.m4s"',
+        '#EXTINF:1.00,',
+        '1200.m4s',
+        '#EXTINF:0.98,',
+        '1201.m4s',
+      ].join('\n'), BASE)
+
+      expect(playlist.initUrl).toBe('https://cn-gotcha01.bilivideo.com/live-bvc/live_1/h1760000000.m4s')
+      expect(playlist.targetDuration).toBe(1)
+      expect(playlist.ended).toBe(false)
+      expect(playlist.segments).toEqual([
+        { url: 'https://cn-gotcha01.bilivideo.com/live-bvc/live_1/1200.m4s', duration: 1, sequence: 1200 },
+        { url: 'https://cn-gotcha01.bilivideo.com/live-bvc/live_1/1201.m4s', duration: 0.98, sequence: 1201 },
+      ])
+    })
+
+    it('lists variants from a master playlist', () => {
+      const playlist = parseHlsPlaylist([
+        '#EXTM3U',
+        '#EXT-X-STREAM-INF:BANDWIDTH=8000000',
+        '/live-bvc/live_1_source/index.m3u8',
+      ].join('\r\n'), BASE)
+
+      expect(playlist.segments).toEqual([])
+      expect(playlist.variants).toEqual(['https://cn-gotcha01.bilivideo.com/live-bvc/live_1_source/index.m3u8'])
+    })
+
+    it('notices the end of a stream', () => {
+      expect(parseHlsPlaylist('#EXTM3U\n#EXT-X-ENDLIST\n', BASE).ended).toBe(true)
+    })
+  })
+
+  describe('mimeTypeForInit', () => {
+    it('builds the codec string from the avcC box', () => {
+      expect(mimeTypeForInit(buildInit(0x64, 0x00, 0x28, true))).toBe('video/mp4; codecs="avc1.640028,mp4a.40.2"')
+      expect(mimeTypeForInit(buildInit(0x4d, 0x40, 0x1f, false))).toBe('video/mp4; codecs="avc1.4d401f"')
+    })
+
+    it('returns null without an AVC track', () => {
+      expect(mimeTypeForInit(new Uint8Array([0, 0, 0, 8, 0x68, 0x76, 0x63, 0x43]).buffer)).toBeNull()
+    })
+  })
+})
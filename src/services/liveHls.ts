@@ -0,0 +1,212 @@
+import { getMediaProxyUrl } from './bilibili';
+import { appendToBuffer, canUseMediaSource, removeFromBuffer } from './dash';
+
+// Live HLS with fMP4 segments, played through Media Source Extensions. The playlist
+// is polled for new segments, which are appended in order; there's no remuxing, so
+// TS and FLV streams aren't handled here.
+
+export interface HlsSegment {
+  url: string;
+  duration: number;
+  sequence: number; // Media sequence number, increasing across refreshes
+}
+
+export interface HlsPlaylist {
+  initUrl?: string; // EXT-X-MAP
+  segments: HlsSegment[];
+  targetDuration: number;
+  ended: boolean;
+  variants: string[]; // Set on a master playlist instead of segments
+}
+
+export interface LivePlayback {
+  destroy: () => void;
+}
+
+interface LivePlaybackOptions {
+  onError?: (error: Error) => void;
+}
+
+const LIVE_EDGE_SEGMENTS = 3; // Start this many segments behind the newest
+const MAX_LATENCY_SEGMENTS = 5; // Jump ahead when playback falls further behind than this
+const BUFFER_BEHIND = 30;
+const MAX_FAILURES = 5;
+const RETRY_DELAY_MS = 2000;
+
+function readAttribute(line: string, name: string): string | undefined {
+  return line.match(new RegExp(`${name}="([^"]*)"`))?.[1];
+}
+
+export function parseHlsPlaylist(text: string, baseUrl: string): HlsPlaylist {
+  const playlist: HlsPlaylist = { segments: [], targetDuration: 1, ended: false, variants: [] };
+  const resolve = (uri: string) => new URL(uri, baseUrl).toString();
+  let sequence = 0;
+  let duration = 0;
+  let variantNext = false;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) continue;
+    if (line.startsWith('#EXT-X-TARGETDURATION:')) {
+      playlist.targetDuration = Number(line.slice(22)) || 1;
+    } else if (line.startsWith('#EXT-X-MEDIA-SEQUENCE:')) {
+      sequence = Number(line.slice(22)) || 0;
+    } else if (line.startsWith('#EXT-X-MAP:')) {
+      const uri = readAttribute(line, 'URI');
+      if (uri) playlist.initUrl = resolve(uri);
+    } else if (line.startsWith('#EXTINF:')) {
+      duration = parseFloat(line.slice(8)) || 0;
+    } else if (line.startsWith('#EXT-X-STREAM-INF')) {
+      variantNext = true;
+    } else if (line === '#EXT-X-ENDLIST') {
+      playlist.ended = true;
+    } else if (!line.startsWith('#')) {
+      if (variantNext) {
+        playlist.variants.push(resolve(line));
+        variantNext = false;
+      } else {
+        playlist.segments.push({ url: resolve(line), duration, sequence: sequence++ });
+      }
+    }
+  }
+  return playlist;
+}
+
+function findBox(bytes: Uint8Array, type: string): number {
+  const codes = [...type].map(char => char.charCodeAt(0));
+  for (let i = 0; i + 4 <= bytes.length; i++) {
+    if (codes.every((code, j) => bytes[i + j] === code)) return i;
+  }
+  return -1;
+}
+
+// MIME type for the init segment: the avcC box gives profile and level, and muxed
+// audio is AAC-LC
+export function mimeTypeForInit(init: ArrayBuffer): string | null {
+  const bytes = new Uint8Array(init);
+  const avcC = findBox(bytes, 'avcC');
+  if (avcC < 0 || avcC + 8 > bytes.length) return null;
+  const hex = (value: number) => value.toString(16).padStart(2, '0');
+  const codecs = [`avc1.${hex(bytes[avcC + 5])}${hex(bytes[avcC + 6])}${hex(bytes[avcC + 7])}`];
+  if (findBox(bytes, 'mp4a') >= 0) codecs.push('mp4a.40.2');
+  return `video/mp4; codecs="${codecs.join(',')}"`;
+}
+
+export function attachLiveHls(
+  video: HTMLVideoElement,
+  playlistUrl: string,
+  options: LivePlaybackOptions = {}
+): LivePlayback {
+  if (!canUseMediaSource()) {
+    queueMicrotask(() => options.onError?.(new Error('Live playback needs Media Source Extensions')));
+    return { destroy: () => {} };
+  }
+
+  const mediaSource = new MediaSource();
+  const objectUrl = URL.createObjectURL(mediaSource);
+  const controller = new AbortController();
+  let buffer: SourceBuffer | null = null;
+  let url = playlistUrl;
+  let initUrl = '';
+  let lastSequence = -1;
+  let failures = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let destroyed = false;
+
+  const fail = (error: unknown) => {
+    if (destroyed) return;
+    console.error('[Live] Playback error:', error);
+    options.onError?.(error instanceof Error ? error : new Error(String(error)));
+  };
+
+  const fetchMedia = async (target: string): Promise<Response> => {
+    const response = await fetch(getMediaProxyUrl(target), { cache: 'no-store', signal: controller.signal });
+    if (!response.ok) throw new Error(`Live request failed: ${response.status}`);
+    return response;
+  };
+
+  const openBuffer = (init: ArrayBuffer): SourceBuffer => {
+    const mimeType = mimeTypeForInit(init);
+    if (!mimeType || !MediaSource.isTypeSupported(mimeType)) {
+      throw new Error(`This browser can't play the live stream (${mimeType ?? 'unknown codec'})`);
+    }
+    return mediaSource.addSourceBuffer(mimeType);
+  };
+
+  // Keep near the live edge: start inside the buffer, and skip ahead after a stall
+  const catchUp = (targetDuration: number) => {
+    const ranges = buffer?.buffered;
+    if (!ranges || ranges.length === 0) return;
+    const start = ranges.start(0);
+    const end = ranges.end(ranges.length - 1);
+    if (video.currentTime < start) {
+      video.currentTime = start;
+    } else if (!video.paused && end - video.currentTime > targetDuration * MAX_LATENCY_SEGMENTS) {
+      video.currentTime = Math.max(start, end - targetDuration * LIVE_EDGE_SEGMENTS);
+    }
+  };
+
+  const refresh = async () => {
+    timer = undefined;
+    try {
+      const playlist = parseHlsPlaylist(await (await fetchMedia(url)).text(), url);
+      if (playlist.variants.length > 0) {
+        url = playlist.variants[0];
+        return refresh();
+      }
+      if (playlist.initUrl && playlist.initUrl !== initUrl) {
+        const init = await (await fetchMedia(playlist.initUrl)).arrayBuffer();
+        if (destroyed) return;
+        buffer = buffer ?? openBuffer(init);
+        await appendToBuffer(buffer, init);
+        initUrl = playlist.initUrl;
+      }
+      if (!buffer) throw new Error('Live stream has no fMP4 init segment');
+
+      const fresh = playlist.segments.filter(segment => segment.sequence > lastSequence);
+      for (const segment of lastSequence < 0 ? fresh.slice(-LIVE_EDGE_SEGMENTS) : fresh) {
+        const data = await (await fetchMedia(segment.url)).arrayBuffer();
+        if (destroyed) return;
+        const ranges = buffer.buffered;
+        if (ranges.length > 0 && ranges.start(0) < video.currentTime - BUFFER_BEHIND * 2) {
+          await removeFromBuffer(buffer, 0, video.currentTime - BUFFER_BEHIND);
+        }
+        await appendToBuffer(buffer, data);
+        lastSequence = segment.sequence;
+      }
+      catchUp(playlist.targetDuration);
+      failures = 0;
+
+      if (playlist.ended) {
+        if (mediaSource.readyState === 'open') mediaSource.endOfStream();
+        return;
+      }
+      // Poll at half the target duration, as the HLS spec suggests for live playlists
+      timer = setTimeout(() => void refresh(), Math.max(500, playlist.targetDuration * 500));
+    } catch (error) {
+      if (destroyed) return;
+      if (++failures >= MAX_FAILURES) {
+        fail(error);
+        return;
+      }
+      console.warn('[Live] Retrying after:', error);
+      timer = setTimeout(() => void refresh(), RETRY_DELAY_MS);
+    }
+  };
+
+  mediaSource.addEventListener('sourceopen', () => {
+    void refresh();
+  }, { once: true });
+  video.src = objectUrl;
+
+  return {
+    destroy: () => {
+      destroyed = true;
+      clearTimeout(timer);
+      controller.abort();
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(objectUrl);
+    },
+  };
+}
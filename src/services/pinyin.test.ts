@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { romanize, formatPinyin } from './pinyin'
+
+describe('Pinyin', () => {
+  describe('romanize', () => {
+    it('should romanize with tone marks by default', () => {
+      expect(romanize('你好世界')).toBe('nǐ hǎo shì jiè')
+    })
+
+    it('should romanize with tone numbers', () => {
+      expect(romanize('你好世界', 'numbers')).toBe('ni3 hao3 shi4 jie4')
+    })
+
+    it('should mark neutral tones and ü correctly', () => {
+      expect(romanize('绿色的女生')).toBe('lǜ sè de nǚ shēng')
+      expect(romanize('绿色的女生', 'numbers')).toBe('lü4 se4 de5 nü3 sheng1')
+    })
+
+    it('should put the tone on the o of "ou" and the last vowel otherwise', () => {
+      expect(romanize('走就对')).toBe('zǒu jiù duì')
+    })
+
+    it('should use word readings for common polyphones', () => {
+      expect(romanize('我觉得银行很重要')).toBe('wǒ jué de yín háng hěn zhòng yào')
+      expect(romanize('长大以后重新来')).toBe('zhǎng dà yǐ hòu chóng xīn lái')
+    })
+
+    it('should keep other text and turn full-width punctuation into ASCII', () => {
+      expect(romanize('求三连！UP主太强了，2024年')).toBe('qiú sān lián! UP zhǔ tài qiáng le, 2024 nián')
+      expect(romanize('《原神》攻略')).toBe('"yuán shén" gōng lüè')
+    })
+
+    it('should keep line breaks', () => {
+      expect(romanize('第一行\n第二行')).toBe('dì yī xíng\ndì èr xíng')
+    })
+
+    it('should return null when there is no Chinese', () => {
+      expect(romanize('hello 233')).toBeNull()
+      expect(romanize('')).toBeNull()
+    })
+  })
+
+  describe('formatPinyin', () => {
+    it('should format dictionary pinyin in either style', () => {
+      expect(formatPinyin('ni3 hao3', 'marks')).toBe('nǐ hǎo')
+      expect(formatPinyin('lu:4 se4', 'numbers')).toBe('lü4 se4')
+      expect(formatPinyin('Bei3 jing1', 'marks')).toBe('Běi jīng')
+    })
+
+    it('should leave tokens that are not syllables alone', () => {
+      expect(formatPinyin('A A zhi4', 'marks')).toBe('A A zhì')
+    })
+  })
+})
@@ -0,0 +1,298 @@
+import { PINYIN_READINGS } from './pinyinData';
+
+// Offline Mandarin romanization. Characters get their most common reading; common
+// words whose characters read differently in context are listed in PHRASES.
+
+export type PinyinStyle = 'marks' | 'numbers';
+
+export const PINYIN_STYLE_OPTIONS: { value: PinyinStyle; label: string; example: string }[] = [
+  { value: 'marks', label: 'Tone marks', example: 'nǐ hǎo' },
+  { value: 'numbers', label: 'Tone numbers', example: 'ni3 hao3' },
+];
+
+// Where the generated table picks a reading that's rarer on Bilibili than another one
+const CHARACTER_OVERRIDES: Record<string, string> = {
+  '长': 'chang2',
+  '地': 'di4',
+  '似': 'si4',
+  '咯': 'lo5',
+  '拓': 'tuo4',
+  '泊': 'bo2',
+};
+
+// Words whose characters don't take their usual reading
+const PHRASES: Record<string, string> = {
+  '银行': 'yin2 hang2',
+  '行业': 'hang2 ye4',
+  '行情': 'hang2 qing2',
+  '内行': 'nei4 hang2',
+  '同行': 'tong2 hang2',
+  '排行': 'pai2 hang2',
+  '重庆': 'chong2 qing4',
+  '重新': 'chong2 xin1',
+  '重复': 'chong2 fu4',
+  '重来': 'chong2 lai2',
+  '长大': 'zhang3 da4',
+  '成长': 'cheng2 zhang3',
+  '生长': 'sheng1 zhang3',
+  '增长': 'zeng1 zhang3',
+  '校长': 'xiao4 zhang3',
+  '家长': 'jia1 zhang3',
+  '部长': 'bu4 zhang3',
+  '市长': 'shi4 zhang3',
+  '队长': 'dui4 zhang3',
+  '班长': 'ban1 zhang3',
+  '院长': 'yuan4 zhang3',
+  '组长': 'zu3 zhang3',
+  '社长': 'she4 zhang3',
+  '会长': 'hui4 zhang3',
+  '学长': 'xue2 zhang3',
+  '董事长': 'dong3 shi4 zhang3',
+  '觉得': 'jue2 de5',
+  '记得': 'ji4 de5',
+  '值得': 'zhi2 de5',
+  '懂得': 'dong3 de5',
+  '晓得': 'xiao3 de5',
+  '显得': 'xian3 de5',
+  '使得': 'shi3 de5',
+  '舍得': 'she3 de5',
+  '舍不得': 'she3 bu5 de5',
+  '睡觉': 'shui4 jiao4',
+  '午觉': 'wu3 jiao4',
+  '音乐': 'yin1 yue4',
+  '乐队': 'yue4 dui4',
+  '乐器': 'yue4 qi4',
+  '乐团': 'yue4 tuan2',
+  '乐曲': 'yue4 qu3',
+  '还是': 'hai2 shi4',
+  '还有': 'hai2 you3',
+  '归还': 'gui1 huan2',
+  '还钱': 'huan2 qian2',
+  '都市': 'du1 shi4',
+  '首都': 'shou3 du1',
+  '成都': 'cheng2 du1',
+  '为了': 'wei4 le5',
+  '因为': 'yin1 wei4',
+  '作为': 'zuo4 wei2',
+  '认为': 'ren4 wei2',
+  '成为': 'cheng2 wei2',
+  '以为': 'yi3 wei2',
+  '行为': 'xing2 wei2',
+  '什么': 'shen2 me5',
+  '怎么': 'zen3 me5',
+  '了解': 'liao3 jie3',
+  '了不起': 'liao3 bu5 qi3',
+  '受不了': 'shou4 bu5 liao3',
+  '不得了': 'bu4 de2 liao3',
+  '着急': 'zhao2 ji2',
+  '睡着': 'shui4 zhao2',
+  '着火': 'zhao2 huo3',
+  '好奇': 'hao4 qi2',
+  '爱好': 'ai4 hao4',
+  '会计': 'kuai4 ji4',
+  '大夫': 'dai4 fu5',
+  '差不多': 'cha4 bu5 duo1',
+  '差别': 'cha1 bie2',
+  '出差': 'chu1 chai1',
+  '相机': 'xiang4 ji1',
+  '照相': 'zhao4 xiang4',
+  '头发': 'tou2 fa5',
+  '理发': 'li3 fa4',
+  '便宜': 'pian2 yi5',
+  '西藏': 'xi1 zang4',
+  '宝藏': 'bao3 zang4',
+  '少年': 'shao4 nian2',
+  '少女': 'shao4 nv3',
+  '空调': 'kong1 tiao2',
+  '调整': 'tiao2 zheng3',
+  '朝阳': 'zhao1 yang2',
+  '给予': 'ji3 yu3',
+  '尽管': 'jin3 guan3',
+  '处理': 'chu3 li3',
+  '相处': 'xiang1 chu3',
+  '中奖': 'zhong4 jiang3',
+  '投降': 'tou2 xiang2',
+  '薄荷': 'bo4 he5',
+  '勉强': 'mian3 qiang3',
+  '倔强': 'jue2 jiang4',
+  '干净': 'gan1 jing4',
+  '饼干': 'bing3 gan1',
+  '干杯': 'gan1 bei1',
+  '部分': 'bu4 fen5',
+  '应该': 'ying1 gai1',
+  '答应': 'da1 ying5',
+  '更新': 'geng1 xin1',
+  '假期': 'jia4 qi1',
+  '放假': 'fang4 jia4',
+  '教书': 'jiao1 shu1',
+  '角色': 'jue2 se4',
+  '主角': 'zhu3 jue2',
+  '配角': 'pei4 jue2',
+  '结实': 'jie1 shi5',
+  '积累': 'ji1 lei3',
+  '商量': 'shang1 liang5',
+  '困难': 'kun4 nan5',
+  '灾难': 'zai1 nan4',
+  '歌曲': 'ge1 qu3',
+  '作曲': 'zuo4 qu3',
+  '宿舍': 'su4 she4',
+  '似的': 'shi4 de5',
+  '效率': 'xiao4 lv4',
+  '关系': 'guan1 xi5',
+  '学校': 'xue2 xiao4',
+  '高兴': 'gao1 xing4',
+  '兴奋': 'xing1 fen4',
+  '参与': 'can1 yu4',
+  '转载': 'zhuan3 zai3',
+  '石头': 'shi2 tou5',
+  '木头': 'mu4 tou5',
+  '馒头': 'man2 tou5',
+  '暖和': 'nuan3 huo5',
+  '种田': 'zhong4 tian2',
+  '弹琴': 'tan2 qin2',
+  '露出': 'lou4 chu1',
+  '模样': 'mu2 yang4',
+  '人参': 'ren2 shen1',
+  '几乎': 'ji1 hu1',
+  '对称': 'dui4 chen4',
+};
+
+const MAX_PHRASE_LENGTH = Math.max(...Object.keys(PHRASES).map(phrase => phrase.length));
+
+// Full-width punctuation and its ASCII spelling, so romanized lines read naturally
+const PUNCTUATION: Record<string, string> = {
+  '，': ', ',
+  '、': ', ',
+  '。': '. ',
+  '！': '! ',
+  '？': '? ',
+  '：': ': ',
+  '；': '; ',
+  '（': ' (',
+  '）': ') ',
+  '【': ' [',
+  '】': '] ',
+  '《': ' "',
+  '》': '" ',
+  '「': ' "',
+  '」': '" ',
+  '“': ' "',
+  '”': '" ',
+  '…': '...',
+  '～': '~',
+  '　': ' ',
+};
+
+const TONE_MARKS: Record<string, string[]> = {
+  a: ['ā', 'á', 'ǎ', 'à'],
+  e: ['ē', 'é', 'ě', 'è'],
+  i: ['ī', 'í', 'ǐ', 'ì'],
+  o: ['ō', 'ó', 'ǒ', 'ò'],
+  u: ['ū', 'ú', 'ǔ', 'ù'],
+  ü: ['ǖ', 'ǘ', 'ǚ', 'ǜ'],
+  n: ['n', 'ń', 'ň', 'ǹ'],
+};
+
+let readings: Map<string, string> | null = null;
+
+// Parse the table on first use
+function getReadings(): Map<string, string> {
+  if (readings) return readings;
+  readings = new Map();
+  for (const entry of PINYIN_READINGS.split(' ')) {
+    const match = /^([a-zü]+\d)(.+)$/.exec(entry);
+    if (!match) continue;
+    for (const char of match[2]) readings.set(char, match[1]);
+  }
+  for (const [char, reading] of Object.entries(CHARACTER_OVERRIDES)) readings.set(char, reading);
+  return readings;
+}
+
+// "hao3" -> "hǎo". The mark goes on a or e, on the o of "ou", otherwise on the last vowel.
+function markTone(syllable: string): string {
+  const base = syllable.slice(0, -1).replace(/v/g, 'ü');
+  const tone = Number(syllable.slice(-1));
+  if (tone < 1 || tone > 4) return base;
+
+  let index = base.search(/[ae]/);
+  if (index === -1) index = base.indexOf('ou');
+  if (index === -1) {
+    for (let i = base.length - 1; i >= 0; i--) {
+      if ('iouü'.includes(base[i])) {
+        index = i;
+        break;
+      }
+    }
+  }
+  // Syllabic nasals like "ng" and "m"
+  if (index === -1) index = 0;
+  const marked = TONE_MARKS[base[index]]?.[tone - 1] ?? base[index];
+  return base.slice(0, index) + marked + base.slice(index + 1);
+}
+
+function formatSyllable(syllable: string, style: PinyinStyle): string {
+  return style === 'numbers' ? syllable.replace(/v/g, 'ü') : markTone(syllable);
+}
+
+// Numbered pinyin as dictionaries write it ("Bei3 jing1", "nu:3") in the chosen style.
+// Anything that isn't a numbered syllable is kept.
+export function formatPinyin(numbered: string, style: PinyinStyle): string {
+  return numbered.split(' ').map(token => {
+    const match = /^([a-zü:]+)([1-5])$/i.exec(token);
+    if (!match) return token;
+    const formatted = formatSyllable(`${match[1].toLowerCase().replace(/u:/g, 'ü')}${match[2]}`, style);
+    return /[A-Z]/.test(token[0]) ? formatted[0].toUpperCase() + formatted.slice(1) : formatted;
+  }).join(' ');
+}
+
+// Romanize the Chinese in `text`, leaving everything else as it is.
+// Returns null when there is nothing to romanize.
+export function romanize(text: string, style: PinyinStyle = 'marks'): string | null {
+  const table = getReadings();
+  let result = '';
+  let converted = false;
+  let afterSyllable = false;
+  let afterWord = false;
+
+  for (let i = 0; i < text.length;) {
+    let syllables: string[] | null = null;
+    let length = 1;
+    for (let size = Math.min(MAX_PHRASE_LENGTH, text.length - i); size >= 2; size--) {
+      const phrase = PHRASES[text.slice(i, i + size)];
+      if (phrase) {
+        syllables = phrase.split(' ');
+        length = size;
+        break;
+      }
+    }
+    if (!syllables) {
+      const reading = table.get(text[i]);
+      if (reading) syllables = [reading];
+    }
+
+    if (syllables) {
+      if (afterSyllable || afterWord) result += ' ';
+      result += syllables.map(syllable => formatSyllable(syllable, style)).join(' ');
+      converted = true;
+      afterSyllable = true;
+      afterWord = false;
+    } else {
+      const char = text[i];
+      const isWord = /[\p{L}\p{N}]/u.test(char);
+      // "UP主" -> "UP zhǔ", "主UP" -> "zhǔ UP"
+      if (isWord && afterSyllable) result += ' ';
+      result += PUNCTUATION[char] ?? char;
+      afterSyllable = false;
+      afterWord = isWord;
+    }
+    i += length;
+  }
+
+  if (!converted) return null;
+  // Tidy spacing but keep line breaks, descriptions rely on them
+  return result
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').replace(/ ([,.!?:;)\]])/g, '$1').trim())
+    .join('\n')
+    .trim();
+}
@@ -1,5 +1,5 @@
 import { LazyStore } from '@tauri-apps/plugin-store';
-import type { Playlist, BiliVideo } from '../types/bilibili';
+import { migrateLegacyTranslations, type Playlist, type BiliVideo } from '../types/bilibili';
 
 const STORE_KEY = 'playlists';
 const STORE_PATH = 'playlists.json';
@@ -20,12 +20,12 @@ export async function getPlaylists(): Promise<Playlist[]> {
   try {
     if (!isTauri) {
       const raw = window.localStorage.getItem(LOCAL_STORAGE_KEY);
-      return raw ? (JSON.parse(raw) as Playlist[]) : [];
+      return raw ? migrateLegacyTranslations(JSON.parse(raw) as Playlist[]) : [];
     }
     const s = getStore();
     if (!s) return [];
     const playlists = await s.get<Playlist[]>(STORE_KEY);
-    return playlists || [];
+    return migrateLegacyTranslations(playlists || []);
   } catch (error) {
     console.error('Error loading playlists:', error);
     return [];
@@ -47,12 +47,13 @@ export async function savePlaylists(playlists: Playlist[]): Promise<void> {
   }
 }
 
-export async function createPlaylist(name: string): Promise<Playlist> {
+// videos seeds the playlist, e.g. with every episode of a collection
+export async function createPlaylist(name: string, videos: BiliVideo[] = []): Promise<Playlist> {
   const playlists = await getPlaylists();
   const newPlaylist: Playlist = {
     id: `playlist_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
     name,
-    videos: [],
+    videos,
     createdAt: Date.now(),
     updatedAt: Date.now(),
   };
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { cachedQuery, getQueryData, setQueryData, invalidateQueries } from './queryCache'
+
+const POLICY = { ttlMs: 1000, staleMs: 4000 }
+
+describe('queryCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    invalidateQueries()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('shares one request between concurrent callers', async () => {
+    let resolve: (value: string) => void = () => {}
+    const load = vi.fn(() => new Promise<string>(r => { resolve = r }))
+
+    const first = cachedQuery('view:BV1', load, POLICY)
+    const second = cachedQuery('view:BV1', load, POLICY)
+    resolve('info')
+
+    expect(await first).toBe('info')
+    expect(await second).toBe('info')
+    expect(load).toHaveBeenCalledTimes(1)
+  })
+
+  it('reuses a fresh value without loading again', async () => {
+    const load = vi.fn().mockResolvedValue('info')
+
+    await cachedQuery('view:BV1', load, POLICY)
+    vi.advanceTimersByTime(500)
+    await cachedQuery('view:BV1', load, POLICY)
+
+    expect(load).toHaveBeenCalledTimes(1)
+  })
+
+  it('serves a stale value while refreshing in the background', async () => {
+    const load = vi.fn().mockResolvedValueOnce('old').mockResolvedValueOnce('new')
+
+    await cachedQuery('view:BV1', load, POLICY)
+    vi.advanceTimersByTime(2000)
+
+    expect(await cachedQuery('view:BV1', load, POLICY)).toBe('old')
+    expect(load).toHaveBeenCalledTimes(2)
+    await vi.waitFor(() => expect(getQueryData('view:BV1')).toBe('new'))
+  })
+
+  it('loads again once a value is past its stale window', async () => {
+    const load = vi.fn().mockResolvedValueOnce('old').mockResolvedValueOnce('new')
+
+    await cachedQuery('view:BV1', load, POLICY)
+    vi.advanceTimersByTime(6000)
+
+    expect(await cachedQuery('view:BV1', load, POLICY)).toBe('new')
+  })
+
+  it('keeps values shouldCache rejects out of the cache', async () => {
+    const load = vi.fn()
+      .mockResolvedValueOnce({ ok: false })
+      .mockResolvedValueOnce({ ok: true })
+    const isOk = (value: { ok: boolean }) => value.ok
+
+    expect(await cachedQuery('ranking', load, POLICY, isOk)).toEqual({ ok: false })
+    expect(await cachedQuery('ranking', load, POLICY, isOk)).toEqual({ ok: true })
+    expect(load).toHaveBeenCalledTimes(2)
+  })
+
+  it('does not cache a failed load', async () => {
+    const load = vi.fn()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValueOnce('info')
+
+    await expect(cachedQuery('view:BV1', load, POLICY)).rejects.toThrow('offline')
+    expect(await cachedQuery('view:BV1', load, POLICY)).toBe('info')
+  })
+
+  it('seeds and invalidates by prefix', async () => {
+    setQueryData('aid:BV1', 170001)
+    setQueryData('view:BV1', 'info')
+    const load = vi.fn().mockResolvedValue(1)
+
+    expect(await cachedQuery('aid:BV1', load, { ttlMs: Infinity })).toBe(170001)
+    invalidateQueries('aid:')
+
+    expect(getQueryData('aid:BV1')).toBeUndefined()
+    expect(getQueryData('view:BV1')).toBe('info')
+  })
+})
@@ -0,0 +1,94 @@
+// Shared cache for API reads. Concurrent requests for the same key share one
+// promise; an answer is reused as is while fresh, then served stale while a refresh
+// runs in the background, and fetched again once it's past that too.
+
+export interface QueryPolicy {
+  ttlMs: number; // Used without asking again
+  staleMs?: number; // After the TTL, still returned at once while a refresh runs
+}
+
+interface Entry {
+  value?: unknown;
+  hasValue: boolean;
+  fetchedAt: number;
+  inFlight?: Promise<unknown>;
+}
+
+const MAX_ENTRIES = 300;
+const entries = new Map<string, Entry>();
+
+function entryFor(key: string): Entry {
+  let entry = entries.get(key);
+  if (!entry) {
+    entry = { hasValue: false, fetchedAt: 0 };
+    entries.set(key, entry);
+  }
+  return entry;
+}
+
+function store(key: string, value: unknown): void {
+  const entry = entryFor(key);
+  // Re-insert so the oldest-written keys are the first to go
+  entries.delete(key);
+  entries.set(key, { ...entry, value, hasValue: true, fetchedAt: Date.now() });
+  while (entries.size > MAX_ENTRIES) {
+    const oldest = entries.keys().next().value;
+    if (oldest === undefined) break;
+    entries.delete(oldest);
+  }
+}
+
+function refresh<T>(key: string, load: () => Promise<T>, shouldCache: (value: T) => boolean): Promise<T> {
+  const entry = entryFor(key);
+  if (entry.inFlight) return entry.inFlight as Promise<T>;
+
+  const promise = load()
+    .then(value => {
+      if (shouldCache(value)) store(key, value);
+      return value;
+    })
+    .finally(() => {
+      const current = entries.get(key);
+      if (current?.inFlight === promise) delete current.inFlight;
+    });
+  entry.inFlight = promise;
+  return promise;
+}
+
+// Loads key through the cache. shouldCache keeps failures (an error result) out of it;
+// they're still shared with callers waiting on the same request.
+export function cachedQuery<T>(
+  key: string,
+  load: () => Promise<T>,
+  policy: QueryPolicy,
+  shouldCache: (value: T) => boolean = () => true
+): Promise<T> {
+  const entry = entries.get(key);
+  if (entry?.hasValue) {
+    const age = Date.now() - entry.fetchedAt;
+    if (age < policy.ttlMs) return Promise.resolve(entry.value as T);
+    if (age < policy.ttlMs + (policy.staleMs ?? 0)) {
+      refresh(key, load, shouldCache).catch(error => {
+        console.warn('[Cache] Background refresh failed for', key, error);
+      });
+      return Promise.resolve(entry.value as T);
+    }
+  }
+  return refresh(key, load, shouldCache);
+}
+
+export function getQueryData<T>(key: string): T | undefined {
+  const entry = entries.get(key);
+  return entry?.hasValue ? entry.value as T : undefined;
+}
+
+export function setQueryData<T>(key: string, value: T): void {
+  store(key, value);
+}
+
+// Drops every key starting with prefix, or everything without one
+export function invalidateQueries(prefix = ''): void {
+  for (const key of [...entries.keys()]) {
+    if (key.startsWith(prefix)) entries.delete(key);
+  }
+}
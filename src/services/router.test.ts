@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest'
+import { parseRoute, buildPath, isFeedRoute, parseSeasonLink, type AppRoute } from './router'
+
+function parse(url: string): AppRoute {
+  const parsed = new URL(url, 'https://example.com')
+  return parseRoute({ pathname: parsed.pathname, search: parsed.search })
+}
+
+describe('Router', () => {
+  describe('parseRoute', () => {
+    it('should parse the root as home', () => {
+      expect(parse('/')).toEqual({ name: 'home' })
+    })
+
+    it('should parse video routes', () => {
+      expect(parse('/video/BV1xx411c7mD')).toEqual({ name: 'video', bvid: 'BV1xx411c7mD' })
+    })
+
+    it('should reject malformed bvids', () => {
+      expect(parse('/video/BV123')).toEqual({ name: 'home' })
+      expect(parse('/video/av170001')).toEqual({ name: 'home' })
+    })
+
+    it('should fall back to home for malformed escapes', () => {
+      expect(parseRoute({ pathname: '/video/%E0%A4%A', search: '' })).toEqual({ name: 'home' })
+    })
+
+    it('should parse search routes with filters', () => {
+      expect(parse('/search?q=%E7%8C%AB&order=click&duration=2')).toEqual({
+        name: 'search',
+        query: '猫',
+        filters: { order: 'click', duration: 2 },
+      })
+    })
+
+    it('should fall back to default filters for unknown values', () => {
+      expect(parse('/search?q=cat&order=random&duration=9')).toEqual({
+        name: 'search',
+        query: 'cat',
+        filters: { order: 'totalrank', duration: 0 },
+      })
+    })
+
+    it('should parse an exact search', () => {
+      expect(parse('/search?q=%E7%8C%AB&exact=1')).toEqual({
+        name: 'search',
+        query: '猫',
+        filters: { order: 'totalrank', duration: 0 },
+        exact: true,
+      })
+    })
+
+    it('should treat an empty search as home', () => {
+      expect(parse('/search?q=%20')).toEqual({ name: 'home' })
+    })
+
+    it('should parse category and channel routes', () => {
+      expect(parse('/category/160')).toEqual({ name: 'category', tid: 160 })
+      expect(parse('/channel/546195')).toEqual({ name: 'channel', mid: 546195 })
+    })
+
+    it('should parse season and episode routes', () => {
+      expect(parse('/bangumi/ss28747')).toEqual({ name: 'season', ref: 'ss', id: 28747 })
+      expect(parse('/bangumi/ep281280')).toEqual({ name: 'season', ref: 'ep', id: 281280 })
+      expect(parse('/bangumi/md28747')).toEqual({ name: 'home' })
+    })
+
+    it('should parse live areas and rooms', () => {
+      expect(parse('/live')).toEqual({ name: 'live', areaId: 0 })
+      expect(parse('/live?area=9')).toEqual({ name: 'live', areaId: 9 })
+      expect(parse('/live?area=games')).toEqual({ name: 'live', areaId: 0 })
+      expect(parse('/live/21452505')).toEqual({ name: 'liveRoom', roomId: 21452505 })
+      expect(parse('/live/abc')).toEqual({ name: 'home' })
+    })
+
+    it('should reject non-numeric ids', () => {
+      expect(parse('/category/music')).toEqual({ name: 'home' })
+      expect(parse('/channel/-1')).toEqual({ name: 'home' })
+      expect(parse('/channel/0')).toEqual({ name: 'home' })
+    })
+
+    it('should fall back to home for unknown paths', () => {
+      expect(parse('/settings')).toEqual({ name: 'home' })
+    })
+  })
+
+  describe('buildPath', () => {
+    it('should omit default search filters', () => {
+      expect(buildPath({ name: 'search', query: 'cat', filters: { order: 'totalrank', duration: 0 } }))
+        .toBe('/search?q=cat')
+    })
+
+    it('should include non-default search filters', () => {
+      expect(buildPath({ name: 'search', query: 'cat', filters: { order: 'pubdate', duration: 1 } }))
+        .toBe('/search?q=cat&order=pubdate&duration=1')
+    })
+
+    it('should map category 0 to the home page', () => {
+      expect(buildPath({ name: 'category', tid: 0 })).toBe('/')
+    })
+
+    it('should round-trip every route', () => {
+      const routes: AppRoute[] = [
+        { name: 'home' },
+        { name: 'search', query: '原神 攻略', filters: { order: 'dm', duration: 4 } },
+        { name: 'search', query: 'LOL 总决赛', filters: { order: 'totalrank', duration: 0 }, exact: true },
+        { name: 'category', tid: 3 },
+        { name: 'video', bvid: 'BV1GJ411x7h7' },
+        { name: 'channel', mid: 2 },
+        { name: 'season', ref: 'ep', id: 281280 },
+        { name: 'live', areaId: 0 },
+        { name: 'live', areaId: 3 },
+        { name: 'liveRoom', roomId: 6 },
+      ]
+      for (const route of routes) {
+        expect(parse(buildPath(route))).toEqual(route)
+      }
+    })
+  })
+
+  describe('parseSeasonLink', () => {
+    it('should recognise pasted ids and bangumi links', () => {
+      expect(parseSeasonLink('ss28747')).toEqual({ name: 'season', ref: 'ss', id: 28747 })
+      expect(parseSeasonLink(' https://www.bilibili.com/bangumi/play/ep281280?from=search ')).toEqual({ name: 'season', ref: 'ep', id: 281280 })
+    })
+
+    it('should leave ordinary searches alone', () => {
+      expect(parseSeasonLink('ss')).toBeNull()
+      expect(parseSeasonLink('class12')).toBeNull()
+      expect(parseSeasonLink('ep 12 recap')).toBeNull()
+    })
+  })
+
+  describe('isFeedRoute', () => {
+    it('should distinguish feeds from overlays', () => {
+      expect(isFeedRoute({ name: 'home' })).toBe(true)
+      expect(isFeedRoute({ name: 'category', tid: 1 })).toBe(true)
+      expect(isFeedRoute({ name: 'video', bvid: 'BV1GJ411x7h7' })).toBe(false)
+      expect(isFeedRoute({ name: 'channel', mid: 2 })).toBe(false)
+      expect(isFeedRoute({ name: 'live', areaId: 0 })).toBe(true)
+      expect(isFeedRoute({ name: 'liveRoom', roomId: 6 })).toBe(false)
+    })
+  })
+})
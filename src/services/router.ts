@@ -0,0 +1,146 @@
+import type { SearchFilters } from './bilibili';
+
+export type AppRoute =
+  | { name: 'home' }
+  | { name: 'search'; query: string; filters: SearchFilters; exact?: boolean } // exact: search the query untranslated
+  | { name: 'category'; tid: number }
+  | { name: 'video'; bvid: string }
+  | { name: 'channel'; mid: number }
+  | { name: 'season'; ref: SeasonRef; id: number }
+  | { name: 'live'; areaId: number } // 0 lists recommended rooms
+  | { name: 'liveRoom'; roomId: number };
+
+// PGC ids: ss is a whole season, ep one episode of it
+export type SeasonRef = 'ss' | 'ep';
+
+// Routes that replace the main feed (as opposed to overlays like the player)
+export type FeedRoute = Extract<AppRoute, { name: 'home' | 'search' | 'category' | 'live' }>;
+
+export const DEFAULT_SEARCH_FILTERS: SearchFilters = { order: 'totalrank', duration: 0 };
+
+const SEARCH_ORDERS: NonNullable<SearchFilters['order']>[] = ['totalrank', 'click', 'pubdate', 'dm', 'stow'];
+const SEARCH_DURATIONS: NonNullable<SearchFilters['duration']>[] = [0, 1, 2, 3, 4];
+const BVID_PATTERN = /^BV[0-9A-Za-z]{10}$/;
+const SEASON_ID_PATTERN = /^(ss|ep)(\d+)$/;
+// "ss12345", "ep678" or a bangumi/play link carrying one
+const SEASON_LINK_PATTERN = /(?:^|\/)(ss|ep)(\d+)(?:[/?#]|$)/;
+
+export function isFeedRoute(route: AppRoute): route is FeedRoute {
+  return route.name === 'home' || route.name === 'search' || route.name === 'category' || route.name === 'live';
+}
+
+function parseSearchFilters(params: URLSearchParams): SearchFilters {
+  const order = params.get('order') as SearchFilters['order'] | null;
+  const duration = Number(params.get('duration'));
+  return {
+    order: order && SEARCH_ORDERS.includes(order) ? order : DEFAULT_SEARCH_FILTERS.order,
+    duration: SEARCH_DURATIONS.includes(duration as NonNullable<SearchFilters['duration']>)
+      ? duration as SearchFilters['duration']
+      : DEFAULT_SEARCH_FILTERS.duration,
+  };
+}
+
+function seasonRoute(match: RegExpMatchArray | null): AppRoute | null {
+  const id = parsePositiveInt(match?.[2]);
+  return match && id ? { name: 'season', ref: match[1] as SeasonRef, id } : null;
+}
+
+// The season route for a pasted ss/ep id or Bilibili bangumi link, if that's what it is
+export function parseSeasonLink(text: string): AppRoute | null {
+  return seasonRoute(text.trim().match(SEASON_LINK_PATTERN));
+}
+
+function parsePositiveInt(value: string | undefined): number | null {
+  if (!value || !/^\d+$/.test(value)) return null;
+  const parsed = Number(value);
+  return Number.isSafeInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+export function parseRoute(location: { pathname: string; search: string }): AppRoute {
+  let segments: string[];
+  try {
+    segments = location.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    // Malformed escapes in a hand-edited or truncated link
+    return { name: 'home' };
+  }
+  const params = new URLSearchParams(location.search);
+  const [head, id] = segments;
+
+  if (head === 'video' && id && BVID_PATTERN.test(id)) {
+    return { name: 'video', bvid: id };
+  }
+
+  if (head === 'search') {
+    const query = (params.get('q') || '').trim();
+    if (query) {
+      const filters = parseSearchFilters(params);
+      return params.get('exact') === '1'
+        ? { name: 'search', query, filters, exact: true }
+        : { name: 'search', query, filters };
+    }
+  }
+
+  if (head === 'category') {
+    const tid = parsePositiveInt(id);
+    if (tid) {
+      return { name: 'category', tid };
+    }
+  }
+
+  if (head === 'channel') {
+    const mid = parsePositiveInt(id);
+    if (mid) {
+      return { name: 'channel', mid };
+    }
+  }
+
+  if (head === 'live') {
+    const roomId = parsePositiveInt(id);
+    if (roomId) {
+      return { name: 'liveRoom', roomId };
+    }
+    if (!id) {
+      return { name: 'live', areaId: parsePositiveInt(params.get('area') ?? undefined) ?? 0 };
+    }
+  }
+
+  if (head === 'bangumi' && id) {
+    const route = seasonRoute(id.match(SEASON_ID_PATTERN));
+    if (route) return route;
+  }
+
+  return { name: 'home' };
+}
+
+export function buildPath(route: AppRoute): string {
+  switch (route.name) {
+    case 'video':
+      return `/video/${encodeURIComponent(route.bvid)}`;
+    case 'search': {
+      const params = new URLSearchParams({ q: route.query });
+      if (route.filters.order && route.filters.order !== DEFAULT_SEARCH_FILTERS.order) {
+        params.set('order', route.filters.order);
+      }
+      if (route.filters.duration) {
+        params.set('duration', String(route.filters.duration));
+      }
+      if (route.exact) {
+        params.set('exact', '1');
+      }
+      return `/search?${params.toString()}`;
+    }
+    case 'category':
+      return route.tid === 0 ? '/' : `/category/${route.tid}`;
+    case 'channel':
+      return `/channel/${route.mid}`;
+    case 'season':
+      return `/bangumi/${route.ref}${route.id}`;
+    case 'live':
+      return route.areaId ? `/live?area=${route.areaId}` : '/live';
+    case 'liveRoom':
+      return `/live/${route.roomId}`;
+    default:
+      return '/';
+  }
+}
@@ -1,4 +1,16 @@
 import { Store } from '@tauri-apps/plugin-store';
+import type { TranslationProviderId } from './translationProviders';
+import { DEFAULT_TARGET_LANGUAGE } from './languages';
+import type { GlossaryEntry } from './glossary';
+import type { PinyinStyle } from './pinyin';
+
+// Titles and comments: the translation alone, or with the original under it
+export type TranslationDisplay = 'translated' | 'stacked';
+
+export const TRANSLATION_DISPLAY_OPTIONS: { value: TranslationDisplay; label: string }[] = [
+  { value: 'translated', label: 'Translation only' },
+  { value: 'stacked', label: 'Translation and original' },
+];
 
 const STORE_PATH = 'settings.json';
 const LOCAL_STORAGE_KEY = 'bilibili_settings';
@@ -8,22 +20,67 @@ const isTauri = typeof window !== 'undefined'
 export interface AppSettings {
   defaultQuality: number; // 80 (1080p), 64 (720p), 32 (480p), 16 (360p)
   autoplay: boolean;
+  targetLanguage: string; // Code from TARGET_LANGUAGES
   // Granular translation settings
   translateTitles: boolean;
   translateDescriptions: boolean;
   translateComments: boolean;
   translateChannelNames: boolean;
   translateSubtitles: boolean;
+  translateDanmaku: boolean;
+  translationDisplay: TranslationDisplay;
+  // Pinyin shown alongside the original Chinese
+  romanizeTitles: boolean;
+  romanizeDescriptions: boolean;
+  romanizeChannelNames: boolean;
+  romanizeSubtitles: boolean;
+  pinyinStyle: PinyinStyle;
+  learningMode: boolean; // Word-by-word glosses in comments, subtitles and descriptions
+  // Translation backend
+  translationProvider: TranslationProviderId;
+  libreTranslateUrl: string; // e.g. http://localhost:5000 for a self-hosted server
+  libreTranslateApiKey: string;
+  translationFailover: boolean; // Try the other providers when the chosen one fails
+  glossary: GlossaryEntry[]; // Fixed translations and do-not-translate terms
+  // Danmaku display
+  danmakuOpacity: number; // 0.1 - 1
+  danmakuDensity: number; // Max on screen at once, 0 = unlimited
+  danmakuFontScale: number; // Multiplier on Bilibili's font sizes
+  danmakuBlockedKeywords: string[];
+  danmakuShowScroll: boolean;
+  danmakuShowTop: boolean;
+  danmakuShowBottom: boolean;
 }
 
-const DEFAULT_SETTINGS: AppSettings = {
+export const DEFAULT_SETTINGS: AppSettings = {
   defaultQuality: 80,
   autoplay: true,
+  targetLanguage: DEFAULT_TARGET_LANGUAGE,
   translateTitles: true,
   translateDescriptions: true,
   translateComments: true,
   translateChannelNames: true,
   translateSubtitles: true,
+  translateDanmaku: true,
+  translationDisplay: 'translated',
+  romanizeTitles: false,
+  romanizeDescriptions: false,
+  romanizeChannelNames: false,
+  romanizeSubtitles: false,
+  pinyinStyle: 'marks',
+  learningMode: false,
+  translationProvider: 'google',
+  libreTranslateUrl: '',
+  libreTranslateApiKey: '',
+  translationFailover: true,
+  glossary: [],
+  danmakuOpacity: 0.9,
+  danmakuDensity: 0,
+  danmakuFontScale: 1,
+  danmakuBlockedKeywords: [],
+  danmakuShowScroll: true,
+  danmakuShowTop: true,
+  danmakuShowBottom: true,
 };
 
 let store: Store | null = null;
@@ -47,15 +104,15 @@ export async function getSettings(): Promise<AppSettings> {
       if (raw) {
         return { ...DEFAULT_SETTINGS, ...JSON.parse(raw) };
       }
-      return DEFAULT_SETTINGS;
+      return { ...DEFAULT_SETTINGS };
     }
     const s = await getStore();
-    if (!s) return DEFAULT_SETTINGS;
+    if (!s) return { ...DEFAULT_SETTINGS };
     const settings = await s.get<AppSettings>('settings');
-    return settings ? { ...DEFAULT_SETTINGS, ...settings } : DEFAULT_SETTINGS;
+    return settings ? { ...DEFAULT_SETTINGS, ...settings } : { ...DEFAULT_SETTINGS };
   } catch (error) {
     console.error('Failed to get settings:', error);
-    return DEFAULT_SETTINGS;
+    return { ...DEFAULT_SETTINGS };
   }
 }
 
@@ -0,0 +1,233 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  findCueIndex,
+  getCueLines,
+  getCueDisplayLines,
+  pickDefaultTrack,
+  isTranslatableTrack,
+  formatCueTime,
+  translateSubtitleCues,
+  getTranslationProgress,
+  formatSubtitleTimestamp,
+  formatAssTimestamp,
+  toSrt,
+  toVtt,
+  toAss,
+} from './subtitles'
+import type { SubtitleCue, SubtitleTrack } from './bilibili'
+
+const cues: SubtitleCue[] = [
+  { from: 0, to: 2, content: '大家好', contentTranslated: 'Hello everyone' },
+  { from: 2.5, to: 4, content: '今天' },
+  { from: 4, to: 6, content: 'OK', contentTranslated: 'OK' },
+]
+
+function track(id: number, language: string): SubtitleTrack {
+  return { id, language, languageDoc: language, url: '', cues: [] }
+}
+
+describe('Subtitles Service', () => {
+  describe('findCueIndex', () => {
+    it('should find the cue covering a time', () => {
+      expect(findCueIndex(cues, 1)).toBe(0)
+      expect(findCueIndex(cues, 3)).toBe(1)
+    })
+
+    it('should treat cue end times as exclusive', () => {
+      expect(findCueIndex(cues, 4)).toBe(2)
+    })
+
+    it('should return -1 in gaps and outside the track', () => {
+      expect(findCueIndex(cues, 2.2)).toBe(-1)
+      expect(findCueIndex(cues, 10)).toBe(-1)
+      expect(findCueIndex([], 0)).toBe(-1)
+    })
+  })
+
+  describe('getCueLines', () => {
+    it('should show both lines in dual mode', () => {
+      expect(getCueLines(cues[0], 'dual')).toEqual(['大家好', 'Hello everyone'])
+    })
+
+    it('should fall back to the original before translation arrives', () => {
+      expect(getCueLines(cues[1], 'translated')).toEqual(['今天'])
+      expect(getCueLines(cues[1], 'dual')).toEqual(['今天'])
+    })
+
+    it('should not repeat untranslatable lines', () => {
+      expect(getCueLines(cues[2], 'dual')).toEqual(['OK'])
+    })
+
+    it('should show only the original in original mode', () => {
+      expect(getCueLines(cues[0], 'original')).toEqual(['大家好'])
+    })
+  })
+
+  describe('getCueDisplayLines', () => {
+    it('should put pinyin under the original', () => {
+      expect(getCueDisplayLines(cues[0], 'dual', 'marks')).toEqual([
+        { text: '大家好', romanized: false },
+        { text: 'dà jiā hǎo', romanized: true },
+        { text: 'Hello everyone', romanized: false },
+      ])
+    })
+
+    it('should lead with pinyin when only the translation is shown', () => {
+      expect(getCueDisplayLines(cues[0], 'translated', 'numbers').map(line => line.text)).toEqual([
+        'da4 jia1 hao3',
+        'Hello everyone',
+      ])
+    })
+
+    it('should skip pinyin when it is off or there is no Chinese', () => {
+      expect(getCueDisplayLines(cues[0], 'original', null)).toEqual([{ text: '大家好', romanized: false }])
+      expect(getCueDisplayLines(cues[2], 'dual', 'marks')).toEqual([{ text: 'OK', romanized: false }])
+    })
+  })
+
+  describe('pickDefaultTrack', () => {
+    it('should prefer Chinese tracks', () => {
+      expect(pickDefaultTrack([track(1, 'en-US'), track(2, 'ai-zh')])?.id).toBe(2)
+    })
+
+    it('should fall back to the first track', () => {
+      expect(pickDefaultTrack([track(1, 'en-US'), track(2, 'ja')])?.id).toBe(1)
+      expect(pickDefaultTrack([])).toBeNull()
+    })
+  })
+
+  describe('isTranslatableTrack', () => {
+    it('should translate any track not in the target language', () => {
+      expect(isTranslatableTrack(track(1, 'ai-zh'), 'en')).toBe(true)
+      expect(isTranslatableTrack(track(2, 'zh-Hant'), 'en')).toBe(true)
+      expect(isTranslatableTrack(track(3, 'ja'), 'en')).toBe(true)
+      expect(isTranslatableTrack(track(4, 'zh-CN'), 'zh-TW')).toBe(true)
+    })
+
+    it('should skip tracks already in the target language', () => {
+      expect(isTranslatableTrack(track(1, 'en-US'), 'en')).toBe(false)
+      expect(isTranslatableTrack(track(2, 'ai-en'), 'en')).toBe(false)
+      expect(isTranslatableTrack(track(3, 'zh-HK'), 'zh-TW')).toBe(false)
+    })
+  })
+
+  describe('formatCueTime', () => {
+    it('should format minutes and hours', () => {
+      expect(formatCueTime(5.9)).toBe('0:05')
+      expect(formatCueTime(125)).toBe('2:05')
+      expect(formatCueTime(3725)).toBe('1:02:05')
+    })
+  })
+  describe('translateSubtitleCues', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+      const fetchMock = vi.fn()
+      global.fetch = fetchMock
+      window.fetch = fetchMock
+    })
+
+    it('should translate only untranslated Chinese cues', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve([[['Good morning\nSee you', '早上好\n再见']]]),
+      })
+      const track: SubtitleCue[] = [
+        { from: 0, to: 1, content: '早上好' },
+        { from: 1, to: 2, content: 'Hi' },
+        { from: 2, to: 3, content: '你好', contentTranslated: 'Hello' },
+        { from: 3, to: 4, content: '再见' },
+      ]
+
+      await translateSubtitleCues(track)
+
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+      expect(track.map(cue => cue.contentTranslated)).toEqual(['Good morning', 'Hi', 'Hello', 'See you'])
+      expect(getTranslationProgress(track)).toEqual({ translated: 4, total: 4 })
+    })
+
+    it('should leave cues unset when translation fails, so a later pass retries them', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockRejectedValue(new Error('Offline'))
+      const track: SubtitleCue[] = [{ from: 0, to: 1, content: '晚上好' }]
+
+      const complete = await translateSubtitleCues(track)
+
+      expect(complete).toBe(false)
+      expect(track[0].contentTranslated).toBeUndefined()
+      expect(getTranslationProgress(track)).toEqual({ translated: 0, total: 1 })
+    })
+  })
+  describe('timestamps', () => {
+    it('should format SRT and WebVTT timestamps', () => {
+      expect(formatSubtitleTimestamp(0, 'srt')).toBe('00:00:00,000')
+      expect(formatSubtitleTimestamp(62.345, 'srt')).toBe('00:01:02,345')
+      expect(formatSubtitleTimestamp(3725.5, 'vtt')).toBe('01:02:05.500')
+    })
+
+    it('should round to the nearest millisecond without overflowing', () => {
+      expect(formatSubtitleTimestamp(59.9996, 'srt')).toBe('00:01:00,000')
+      expect(formatSubtitleTimestamp(-1, 'vtt')).toBe('00:00:00.000')
+    })
+
+    it('should format ASS timestamps in centiseconds', () => {
+      expect(formatAssTimestamp(62.345)).toBe('0:01:02.35')
+      expect(formatAssTimestamp(3725.999)).toBe('1:02:06.00')
+    })
+  })
+
+  describe('serializers', () => {
+    const exportTrack: SubtitleTrack = {
+      ...track(7, 'zh-CN'),
+      cues: [
+        { from: 1, to: 2.5, content: '第一行\n第二行', contentTranslated: 'Line one\nLine two' },
+        { from: 3, to: 4, content: '<笑>' },
+        { from: 5, to: 6, content: '\n' },
+      ],
+    }
+
+    it('should write numbered SRT blocks with multi-line cues', () => {
+      expect(toSrt(exportTrack, 'dual')).toBe([
+        '1',
+        '00:00:01,000 --> 00:00:02,500',
+        '第一行',
+        '第二行',
+        'Line one',
+        'Line two',
+        '',
+        '2',
+        '00:00:03,000 --> 00:00:04,000',
+        '<笑>',
+        '',
+      ].join('\n'))
+    })
+
+    it('should write a WebVTT file with escaped text', () => {
+      expect(toVtt(exportTrack, 'translated')).toBe([
+        'WEBVTT',
+        '',
+        '00:00:01.000 --> 00:00:02.500',
+        'Line one',
+        'Line two',
+        '',
+        '00:00:03.000 --> 00:00:04.000',
+        '&lt;笑&gt;',
+        '',
+      ].join('\n'))
+    })
+
+    it('should write ASS dialogue lines per language style', () => {
+      const ass = toAss(exportTrack, 'dual')
+      const events = ass.split('\n').filter(line => line.startsWith('Dialogue:'))
+
+      expect(ass).toContain('[Script Info]')
+      expect(events).toEqual([
+        'Dialogue: 0,0:00:01.00,0:00:02.50,Original,,0,0,0,,第一行\\N第二行',
+        'Dialogue: 0,0:00:01.00,0:00:02.50,Translation,,0,0,0,,Line one\\NLine two',
+        'Dialogue: 0,0:00:03.00,0:00:04.00,Original,,0,0,0,,<笑>',
+      ])
+    })
+
+    it('should write only the original text in original mode', () => {
+      expect(toSrt(exportTrack, 'original')).not.toContain('Line one')
+    })
+  })
+})
@@ -0,0 +1,238 @@
+import type { SubtitleCue, SubtitleTrack } from './bilibili';
+import { needsTranslation, translateBatchSettled } from './translate';
+import { romanize, type PinyinStyle } from './pinyin';
+import { languageFromCode } from './languages';
+
+export type SubtitleDisplayMode = 'original' | 'translated' | 'dual';
+
+// Index of the cue showing at `time`, or -1. Cues are sorted by start time.
+export function findCueIndex(cues: SubtitleCue[], time: number): number {
+  let low = 0;
+  let high = cues.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (cues[mid].to <= time) {
+      low = mid + 1;
+    } else if (cues[mid].from > time) {
+      high = mid - 1;
+    } else {
+      return mid;
+    }
+  }
+  return -1;
+}
+
+// Lines to show for a cue; the translation falls back to the original until it arrives
+export function getCueLines(cue: SubtitleCue, mode: SubtitleDisplayMode): string[] {
+  const translated = cue.contentTranslated && cue.contentTranslated !== cue.content ? cue.contentTranslated : null;
+  if (mode === 'original') return [cue.content];
+  if (mode === 'translated') return [translated || cue.content];
+  return translated ? [cue.content, translated] : [cue.content];
+}
+
+export interface CueDisplayLine {
+  text: string;
+  romanized: boolean;
+}
+
+// getCueLines plus, when asked, the pinyin of the original: under it, or in its place
+// when only the translation is shown
+export function getCueDisplayLines(
+  cue: SubtitleCue,
+  mode: SubtitleDisplayMode,
+  pinyinStyle: PinyinStyle | null
+): CueDisplayLine[] {
+  const lines = getCueLines(cue, mode).map(text => ({ text, romanized: false }));
+  const pinyin = pinyinStyle ? romanize(cue.content, pinyinStyle) : null;
+  if (!pinyin) return lines;
+  const romanized = { text: pinyin, romanized: true };
+  return lines[0].text === cue.content
+    ? [lines[0], romanized, ...lines.slice(1)]
+    : [romanized, ...lines];
+}
+
+export function isChineseTrack(track: SubtitleTrack): boolean {
+  return /^(ai-)?zh/i.test(track.language);
+}
+
+// Every track not already in the reader's language gets translated: Chinese in either
+// script, Japanese, or whatever else the uploader provided
+export function isTranslatableTrack(track: SubtitleTrack, targetLanguage: string): boolean {
+  return languageFromCode(track.language) !== targetLanguage;
+}
+
+// Prefer a Chinese track: it's what creators upload and what we translate
+export function pickDefaultTrack(tracks: SubtitleTrack[]): SubtitleTrack | null {
+  return tracks.find(isChineseTrack) || tracks[0] || null;
+}
+
+export function formatCueTime(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const mm = hours > 0 ? String(minutes).padStart(2, '0') : String(minutes);
+  return `${hours > 0 ? `${hours}:` : ''}${mm}:${String(secs).padStart(2, '0')}`;
+}
+
+export interface SubtitleTranslationProgress {
+  translated: number;
+  total: number;
+}
+
+export function getTranslationProgress(cues: SubtitleCue[]): SubtitleTranslationProgress {
+  return {
+    translated: cues.filter(cue => cue.contentTranslated !== undefined).length,
+    total: cues.length,
+  };
+}
+
+// Cue translations belong to one target language; drop them when the reader switches
+export function prepareTrackTranslation(track: SubtitleTrack, language: string): void {
+  if (track.translationLanguage === language) return;
+  for (const cue of track.cues) delete cue.contentTranslated;
+  track.translationLanguage = language;
+}
+
+// Translate the untranslated cues, writing results onto `contentTranslated` in place.
+// Cues no provider could translate are left unset; false when there were any.
+export async function translateSubtitleCues(cues: SubtitleCue[]): Promise<boolean> {
+  const pending: SubtitleCue[] = [];
+  for (const cue of cues) {
+    if (cue.contentTranslated !== undefined) continue;
+    if (needsTranslation(cue.content)) pending.push(cue);
+    else cue.contentTranslated = cue.content;
+  }
+  if (pending.length === 0) return true;
+
+  const translated = await translateBatchSettled(pending.map(cue => cue.content));
+  pending.forEach((cue, i) => {
+    const result = translated[i];
+    if (result !== null) cue.contentTranslated = result;
+  });
+  return translated.every(result => result !== null);
+}
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+export const SUBTITLE_FORMATS: { value: SubtitleFormat; label: string; mimeType: string }[] = [
+  { value: 'srt', label: 'SRT', mimeType: 'application/x-subrip' },
+  { value: 'vtt', label: 'WebVTT', mimeType: 'text/vtt' },
+  { value: 'ass', label: 'ASS', mimeType: 'text/x-ssa' },
+];
+
+function splitTime(seconds: number, unit: number) {
+  const total = Math.max(0, Math.round(seconds * unit));
+  const fraction = total % unit;
+  const whole = Math.floor(total / unit);
+  return {
+    hours: Math.floor(whole / 3600),
+    minutes: Math.floor((whole % 3600) / 60),
+    seconds: whole % 60,
+    fraction,
+  };
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// 00:01:02,345 (SRT) or 00:01:02.345 (WebVTT)
+export function formatSubtitleTimestamp(seconds: number, format: 'srt' | 'vtt'): string {
+  const t = splitTime(seconds, 1000);
+  const separator = format === 'srt' ? ',' : '.';
+  return `${pad(t.hours)}:${pad(t.minutes)}:${pad(t.seconds)}${separator}${pad(t.fraction, 3)}`;
+}
+
+// 0:01:02.35 - ASS only has centisecond precision
+export function formatAssTimestamp(seconds: number): string {
+  const t = splitTime(seconds, 100);
+  return `${t.hours}:${pad(t.minutes)}:${pad(t.seconds)}.${pad(t.fraction)}`;
+}
+
+// A cue's text as separate lines, without the blank lines that end an SRT/VTT block
+function cueTextLines(text: string): string[] {
+  return text.split(/\r?\n/).map(line => line.trim()).filter(line => line !== '');
+}
+
+function exportLines(cue: SubtitleCue, mode: SubtitleDisplayMode): string[] {
+  return getCueLines(cue, mode).flatMap(cueTextLines);
+}
+
+export function toSrt(track: SubtitleTrack, mode: SubtitleDisplayMode): string {
+  const blocks: string[] = [];
+  for (const cue of track.cues) {
+    const lines = exportLines(cue, mode);
+    if (lines.length === 0) continue;
+    blocks.push([
+      String(blocks.length + 1),
+      `${formatSubtitleTimestamp(cue.from, 'srt')} --> ${formatSubtitleTimestamp(cue.to, 'srt')}`,
+      ...lines,
+    ].join('\n'));
+  }
+  return blocks.length > 0 ? `${blocks.join('\n\n')}\n` : '';
+}
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function toVtt(track: SubtitleTrack, mode: SubtitleDisplayMode): string {
+  const blocks = ['WEBVTT'];
+  for (const cue of track.cues) {
+    const lines = exportLines(cue, mode);
+    if (lines.length === 0) continue;
+    blocks.push([
+      `${formatSubtitleTimestamp(cue.from, 'vtt')} --> ${formatSubtitleTimestamp(cue.to, 'vtt')}`,
+      ...lines.map(escapeVtt),
+    ].join('\n'));
+  }
+  return `${blocks.join('\n\n')}\n`;
+}
+
+// Braces start ASS override blocks, so swap them for full-width ones
+function escapeAss(text: string): string {
+  return text.replace(/\{/g, '｛').replace(/\}/g, '｝');
+}
+
+const ASS_HEADER = [
+  '[Script Info]',
+  'ScriptType: v4.00+',
+  'PlayResX: 1920',
+  'PlayResY: 1080',
+  'WrapStyle: 0',
+  'ScaledBorderAndShadow: yes',
+  '',
+  '[V4+ Styles]',
+  'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+  'Style: Original,Arial,64,&H00FFFFFF,&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,3,1,2,60,60,110,1',
+  'Style: Translation,Arial,52,&H0066D6FF,&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,3,1,2,60,60,40,1',
+  '',
+  '[Events]',
+  'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+];
+
+// Bilingual exports put each language on its own style so editors can restyle them separately
+export function toAss(track: SubtitleTrack, mode: SubtitleDisplayMode): string {
+  const events: string[] = [];
+  const dialogue = (cue: SubtitleCue, style: string, text: string) => {
+    const lines = cueTextLines(text);
+    if (lines.length === 0) return;
+    events.push(`Dialogue: 0,${formatAssTimestamp(cue.from)},${formatAssTimestamp(cue.to)},${style},,0,0,0,,${lines.map(escapeAss).join('\\N')}`);
+  };
+
+  for (const cue of track.cues) {
+    const [first, second] = getCueLines(cue, mode);
+    if (mode === 'translated') {
+      dialogue(cue, 'Translation', first);
+    } else {
+      dialogue(cue, 'Original', first);
+      if (second) dialogue(cue, 'Translation', second);
+    }
+  }
+  return `${[...ASS_HEADER, ...events].join('\n')}\n`;
+}
+
+export function serializeSubtitles(track: SubtitleTrack, format: SubtitleFormat, mode: SubtitleDisplayMode): string {
+  if (format === 'srt') return toSrt(track, mode);
+  if (format === 'vtt') return toVtt(track, mode);
+  return toAss(track, mode);
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { translateToEnglish, translateToChinese, translateBatch } from './translate'
+import { translateContent, translateToChinese, translateBatch, configureTranslation, correctTranslation, resetTranslation } from './translate'
 
 describe('Translate Service', () => {
   beforeEach(() => {
@@ -8,16 +8,17 @@ describe('Translate Service', () => {
     const fetchMock = vi.fn()
     global.fetch = fetchMock
     window.fetch = fetchMock
+    configureTranslation({ provider: 'google', libreTranslateUrl: '', libreTranslateApiKey: '', failover: true, targetLanguage: 'en', glossary: [] })
   })
 
-  describe('translateToEnglish', () => {
+  describe('translateContent', () => {
     it('should return empty string for empty input', async () => {
-      const result = await translateToEnglish('')
+      const result = await translateContent('')
       expect(result).toBe('')
     })
 
     it('should return whitespace-only string as-is', async () => {
-      const result = await translateToEnglish('   ')
+      const result = await translateContent('   ')
       expect(result).toBe('   ')
     })
 
@@ -29,7 +30,7 @@ describe('Translate Service', () => {
         ]),
       })
 
-      const result = await translateToEnglish('你好世界')
+      const result = await translateContent('你好世界')
 
       expect(result).toBe('Hello World')
     })
@@ -43,12 +44,12 @@ describe('Translate Service', () => {
       })
 
       // First call - should fetch
-      const result1 = await translateToEnglish('缓存测试')
+      const result1 = await translateContent('缓存测试')
       expect(result1).toBe('Cached Result')
       expect(global.fetch).toHaveBeenCalledTimes(1)
 
       // Second call - should use cache
-      const result2 = await translateToEnglish('缓存测试')
+      const result2 = await translateContent('缓存测试')
       expect(result2).toBe('Cached Result')
       expect(global.fetch).toHaveBeenCalledTimes(1) // No additional fetch
     })
@@ -59,7 +60,7 @@ describe('Translate Service', () => {
         status: 500,
       })
 
-      const result = await translateToEnglish('错误测试')
+      const result = await translateContent('错误测试')
 
       expect(result).toBe('错误测试')
     })
@@ -69,7 +70,7 @@ describe('Translate Service', () => {
         new Error('Network error')
       )
 
-      const result = await translateToEnglish('网络错误')
+      const result = await translateContent('网络错误')
 
       expect(result).toBe('网络错误')
     })
@@ -80,7 +81,7 @@ describe('Translate Service', () => {
         json: () => Promise.resolve({ unexpected: 'format' }),
       })
 
-      const result = await translateToEnglish('格式错误')
+      const result = await translateContent('格式错误')
 
       expect(result).toBe('格式错误')
     })
@@ -96,7 +97,7 @@ describe('Translate Service', () => {
         ]),
       })
 
-      const result = await translateToEnglish('你好世界长文本')
+      const result = await translateContent('你好世界长文本')
 
       expect(result).toBe('Hello World')
     })
@@ -149,27 +150,17 @@ describe('Translate Service', () => {
   })
 
   describe('translateBatch', () => {
-    it('should translate multiple texts in parallel', async () => {
-      ;(global.fetch as ReturnType<typeof vi.fn>)
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () => Promise.resolve([[['First', '第一']]]),
-        })
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () => Promise.resolve([[['Second', '第二']]]),
-        })
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () => Promise.resolve([[['Third', '第三']]]),
-        })
+    function reply(text: string) {
+      return { ok: true, json: () => Promise.resolve([[[text, '']]]) }
+    }
+
+    it('should translate multiple texts in one merged request', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(reply('First\nSecond\nThird'))
 
       const results = await translateBatch(['第一', '第二', '第三'])
 
-      expect(results).toHaveLength(3)
-      expect(results[0]).toBe('First')
-      expect(results[1]).toBe('Second')
-      expect(results[2]).toBe('Third')
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+      expect(results).toEqual(['First', 'Second', 'Third'])
     })
 
     it('should handle empty array', async () => {
@@ -177,23 +168,311 @@ describe('Translate Service', () => {
       expect(results).toHaveLength(0)
     })
 
-    it('should continue on individual failures', async () => {
+    it('should report each result as it finishes', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(reply('Report one\nReport two'))
+      const onResult = vi.fn()
+
+      await translateBatch(['报告一', '报告二'], onResult)
+
+      expect(onResult).toHaveBeenCalledWith(0, 'Report one')
+      expect(onResult).toHaveBeenCalledWith(1, 'Report two')
+    })
+
+    it('should keep the original text when a split batch fails', async () => {
       ;(global.fetch as ReturnType<typeof vi.fn>)
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () => Promise.resolve([[['Success', '成功']]]),
-        })
+        .mockResolvedValueOnce(reply('Merged into one line'))
+        .mockResolvedValueOnce(reply('Success'))
         .mockRejectedValueOnce(new Error('Failed'))
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () => Promise.resolve([[['Also Success', '也成功']]]),
-        })
 
-      const results = await translateBatch(['成功', '失败', '也成功'])
+      const results = await translateBatch(['成功了', '失败了'])
+
+      expect(results).toEqual(['Success', '失败了'])
+    })
+
+    it('should split long input into size-bounded requests', async () => {
+      const long = '长'.repeat(300)
+      ;(global.fetch as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce(reply('Long A'))
+        .mockResolvedValueOnce(reply('Long B'))
+
+      const results = await translateBatch([long, `${long}二`])
+
+      expect(global.fetch).toHaveBeenCalledTimes(2)
+      expect(results).toEqual(['Long A', 'Long B'])
+    })
+
+    it('should keep the line breaks of multi-line texts', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(reply('Top\nBottom\nNext'))
+
+      const results = await translateBatch(['上面\n下面', '下一句'])
+
+      const query = decodeURIComponent((global.fetch as ReturnType<typeof vi.fn>).mock.calls[0][0])
+      expect(query).toContain('q=上面\n下面\n下一句')
+      expect(results).toEqual(['Top\nBottom', 'Next'])
+    })
+
+    it('should coalesce identical strings', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(reply('Same'))
+
+      const results = await translateBatch(['一样的', '一样的'])
+
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+      expect(results).toEqual(['Same', 'Same'])
+    })
+  })
+
+  describe('providers', () => {
+    const libreReply = (translatedText: string) => ({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve({ translatedText }),
+    })
+
+    it('should send requests to a configured LibreTranslate server', async () => {
+      configureTranslation({ provider: 'libretranslate', libreTranslateUrl: 'http://localhost:5000/', libreTranslateApiKey: 'key' })
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(libreReply('Self-hosted'))
+
+      const result = await translateContent('自建服务')
+
+      const [url, init] = (global.fetch as ReturnType<typeof vi.fn>).mock.calls[0]
+      expect(url).toBe('http://localhost:5000/translate')
+      expect(JSON.parse(init.body)).toEqual({ q: '自建服务', source: 'zh', target: 'en', format: 'text', api_key: 'key' })
+      expect(result).toBe('Self-hosted')
+    })
+
+    it('should fail over to the next provider when one errors', async () => {
+      configureTranslation({ libreTranslateUrl: 'http://localhost:5000' })
+      ;(global.fetch as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce({ ok: false, status: 503 })
+        .mockResolvedValueOnce(libreReply('Failover worked'))
+
+      const result = await translateContent('故障转移')
+
+      expect(global.fetch).toHaveBeenCalledTimes(2)
+      expect(result).toBe('Failover worked')
+    })
+
+    it('should skip a rate-limited provider until it cools down', async () => {
+      configureTranslation({ libreTranslateUrl: 'http://localhost:5000' })
+      ;(global.fetch as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce({ ok: false, status: 429 })
+        .mockResolvedValueOnce(libreReply('First'))
+        .mockResolvedValueOnce(libreReply('Second'))
+
+      await translateContent('限流一')
+      const second = await translateContent('限流二')
+
+      expect(global.fetch).toHaveBeenCalledTimes(3)
+      expect((global.fetch as ReturnType<typeof vi.fn>).mock.calls[2][0]).toContain('localhost:5000')
+      expect(second).toBe('Second')
+    })
+
+    it('should not fail over when failover is disabled', async () => {
+      configureTranslation({ libreTranslateUrl: 'http://localhost:5000', failover: false })
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({ ok: false, status: 503 })
+
+      const result = await translateContent('不要转移')
+
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+      expect(result).toBe('不要转移')
+    })
+
+    it('should translate known terms offline with the dictionary provider', async () => {
+      configureTranslation({ provider: 'dictionary' })
+
+      expect(await translateContent('弹幕')).toBe('Danmaku')
+      expect(await translateContent('没有这个词')).toBe('没有这个词')
+      expect(await translateToChinese('danmaku')).toBe('弹幕')
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
+
+    it('should report language pairs the dictionary provider cannot translate', async () => {
+      configureTranslation({ provider: 'dictionary', targetLanguage: 'ja' })
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      expect(await translateContent('弹幕')).toBe('弹幕')
+      expect(consoleError).toHaveBeenCalledWith(
+        'Translation error (Offline dictionary):',
+        expect.objectContaining({ name: 'UnsupportedLanguageError' })
+      )
+      consoleError.mockRestore()
+    })
+  })
+
+  describe('target language', () => {
+    it('should translate content into the chosen language', async () => {
+      configureTranslation({ targetLanguage: 'ja' })
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve([[['こんにちは', '你好呀']]]),
+      })
+
+      const result = await translateContent('你好呀')
+
+      const url = (global.fetch as ReturnType<typeof vi.fn>).mock.calls[0][0]
+      expect(url).toContain('sl=zh-CN&tl=ja')
+      expect(result).toBe('こんにちは')
+    })
+
+    it('should translate queries from the chosen language to Chinese', async () => {
+      configureTranslation({ targetLanguage: 'es' })
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve([[['猫', 'gato']]]),
+      })
+
+      await translateToChinese('gato')
+
+      const url = (global.fetch as ReturnType<typeof vi.fn>).mock.calls[0][0]
+      expect(url).toContain('sl=es&tl=zh-CN')
+    })
+
+    it('should keep translations for different languages apart', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve([[['Good night', '晚安啦']]]) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve([[['Buenas noches', '晚安啦']]]) })
+
+      const english = await translateContent('晚安啦')
+      configureTranslation({ targetLanguage: 'es' })
+      const spanish = await translateContent('晚安啦')
+
+      expect([english, spanish]).toEqual(['Good night', 'Buenas noches'])
+    })
+  })
+
+  describe('language detection', () => {
+    it('should leave content already in the target language alone', async () => {
+      expect(await translateContent('This is the best video on the site')).toBe('This is the best video on the site')
+      expect(await translateContent('awsl 233')).toBe('awsl 233')
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
+
+    it('should translate Japanese and Traditional Chinese from their own language', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve([[['Tried singing Senbonzakura', '千本桜を歌ってみた']]]) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve([[['This video is great', '這個視頻太好看了']]]) })
+
+      await translateContent('千本桜を歌ってみた')
+      await translateContent('這個視頻太好看了')
+
+      const calls = (global.fetch as ReturnType<typeof vi.fn>).mock.calls
+      expect(calls[0][0]).toContain('sl=ja&tl=en')
+      expect(calls[1][0]).toContain('sl=zh-TW&tl=en')
+    })
+
+    it('should ask the provider about text the script does not give away', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve([[['Minecraft speedrun record', 'Minecraft speedrun rekord']], null, 'de']) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve([[['Minecraft speedrun record', 'Minecraft speedrun rekord']]]) })
+
+      const result = await translateContent('Minecraft speedrun rekord gebrochen heute')
+
+      const calls = (global.fetch as ReturnType<typeof vi.fn>).mock.calls
+      expect(calls[0][0]).toContain('sl=auto')
+      expect(calls[1][0]).toContain('sl=de&tl=en')
+      expect(result).toBe('Minecraft speedrun record')
+    })
+
+    it('should skip queries that are already Chinese', async () => {
+      expect(await translateToChinese('原神 攻略')).toBe('原神 攻略')
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
+
+    it('should translate queries from the language they are in', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve([[['初音未来', '初音ミク']]]),
+      })
+
+      expect(await translateToChinese('初音ミク')).toBe('初音未来')
+      expect((global.fetch as ReturnType<typeof vi.fn>).mock.calls[0][0]).toContain('sl=ja&tl=zh-CN')
+    })
+  })
+
+  describe('corrections', () => {
+    it('should use a correction instead of asking a provider', async () => {
+      await correctTranslation('白嫖', 'Watching for free')
+
+      expect(await translateContent('白嫖')).toBe('Watching for free')
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
+
+    it('should only apply a correction to its own language', async () => {
+      await correctTranslation('整活', 'Doing a bit')
+      configureTranslation({ targetLanguage: 'es' })
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve([[['Hacer el tonto', '整活']]]),
+      })
+
+      expect(await translateContent('整活')).toBe('Hacer el tonto')
+    })
+
+    it('should go back to the provider translation after a reset', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve([[['Old tomato', '老番茄']]]),
+      })
+      expect(await translateContent('老番茄')).toBe('Old tomato')
+
+      await correctTranslation('老番茄', 'LaoFanQie')
+      expect(await translateContent('老番茄')).toBe('LaoFanQie')
+
+      await resetTranslation('老番茄')
+      expect(await translateContent('老番茄')).toBe('Old tomato')
+    })
+  })
+
+  describe('glossary', () => {
+    it('should send glossary terms as placeholders and restore their translation', async () => {
+      configureTranslation({ glossary: [{ source: '三连', target: 'triple combo' }] })
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve([[['Please give a ⟦0⟧ , thanks', '求⟦0⟧谢谢']]]),
+      })
+
+      const result = await translateContent('求三连谢谢')
+
+      const url = (global.fetch as ReturnType<typeof vi.fn>).mock.calls[0][0]
+      expect(decodeURIComponent(url)).toContain('q=求⟦0⟧谢谢')
+      expect(result).toBe('Please give a triple combo , thanks')
+    })
+
+    it('should keep protected terms untranslated', async () => {
+      configureTranslation({ glossary: [{ source: '老番茄', target: '' }] })
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve([[['⟦0⟧ is back', '⟦0⟧回来了']]]),
+      })
+
+      expect(await translateContent('老番茄回来了')).toBe('老番茄 is back')
+    })
+
+    it('should not call a provider when the text is only glossary terms', async () => {
+      configureTranslation({ glossary: [{ source: '鬼畜', target: 'Kichiku' }] })
+
+      expect(await translateContent('鬼畜')).toBe('Kichiku')
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
+
+    it('should retranslate without the glossary when a placeholder is lost', async () => {
+      configureTranslation({ glossary: [{ source: 'UP主', target: 'uploader' }] })
+      ;(global.fetch as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve([[['Thanks', '谢谢⟦0⟧']]]) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve([[['Thanks UP', '谢谢UP主']]]) })
+
+      expect(await translateContent('谢谢UP主')).toBe('Thanks UP')
+      expect(global.fetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('should map glossary translations back to Chinese in queries', async () => {
+      configureTranslation({ glossary: [{ source: '原神', target: 'Genshin Impact' }] })
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve([[['⟦0⟧攻略', '⟦0⟧ guide']]]),
+      })
 
-      expect(results[0]).toBe('Success')
-      expect(results[1]).toBe('失败') // Original text on failure
-      expect(results[2]).toBe('Also Success')
+      expect(await translateToChinese('genshin impact guide')).toBe('原神攻略')
     })
   })
 })
@@ -1,103 +1,310 @@
+import {
+  googleProvider,
+  dictionaryProvider,
+  createLibreTranslateProvider,
+  RateLimitError,
+  type TranslationConfig,
+  type TranslationLanguage,
+  type TranslationProvider,
+} from './translationProviders';
+import { DEFAULT_TARGET_LANGUAGE, SOURCE_LANGUAGE, isChineseLanguage, languageFromCode } from './languages';
+import { guessLanguage } from './languageDetection';
+import { createTranslationScheduler, type TranslationOutcome, type TranslationScheduler } from './translationScheduler';
+import {
+  getCachedTranslation,
+  setCachedTranslation,
+  clearPersistentTranslationCache,
+} from './translationCache';
+import { findCorrection, saveCorrection, removeCorrection } from './corrections';
+import { protectGlossaryTargets, protectGlossaryTerms, type ProtectedText } from './glossary';
+
 const MAX_CACHE_SIZE = 500;
 const TRANSLATE_CACHE = new Map<string, string>();
-const TRANSLATE_API = 'https://translate.googleapis.com';
-const TRANSLATE_PROXY = '/api/translate';
+// Languages a provider detected, for text the offline guess couldn't place
+const DETECT_CACHE = new Map<string, string>();
+// Shorter Latin text with nothing recognisable in it ("hhh", "awsl", "nb") isn't worth asking about
+const MIN_DETECT_WORDS = 4;
+// A rate-limited provider rests for 2s, 4s, 8s... up to a minute, until it succeeds again
+const RATE_LIMIT_BASE_REST_MS = 2000;
+const RATE_LIMIT_MAX_REST_MS = 60_000;
+
+let config: TranslationConfig = {
+  provider: 'google',
+  libreTranslateUrl: '',
+  libreTranslateApiKey: '',
+  failover: true,
+  targetLanguage: DEFAULT_TARGET_LANGUAGE,
+  glossary: [],
+};
+const resting = new Map<string, { until: number; strikes: number }>();
+
+const PROVIDERS: TranslationProvider[] = [
+  googleProvider,
+  createLibreTranslateProvider(() => config),
+  dictionaryProvider,
+];
+
+// Called whenever settings change. Rate-limit rests are cleared so a freshly
+// configured provider is tried straight away.
+export function configureTranslation(next: Partial<TranslationConfig>): void {
+  config = { ...config, ...next };
+  resting.clear();
+}
+
+// The chosen provider first, then (with failover on) the other online ones.
+// The dictionary only answers when chosen, or as the per-string fallback.
+function providerChain(): TranslationProvider[] {
+  const selected = PROVIDERS.find(p => p.id === config.provider) || googleProvider;
+  const chain = config.failover
+    ? [selected, ...PROVIDERS.filter(p => p !== selected && p !== dictionaryProvider)]
+    : [selected];
+  return chain.filter(p => p.isConfigured());
+}
+
+function restProvider(provider: TranslationProvider, retryAfterMs: number): void {
+  const strikes = (resting.get(provider.id)?.strikes ?? 0) + 1;
+  const rest = Math.min(RATE_LIMIT_MAX_REST_MS, Math.max(retryAfterMs, RATE_LIMIT_BASE_REST_MS * 2 ** (strikes - 1)));
+  resting.set(provider.id, { until: Date.now() + rest, strikes });
+}
+
+// Ask each available provider in turn. Throws RateLimitError when every one of
+// them is resting, so the scheduler waits and retries instead of giving up.
+async function requestTranslation(
+  text: string,
+  from: TranslationLanguage,
+  to: TranslationLanguage
+): Promise<TranslationOutcome> {
+  const now = Date.now();
+  let lastError: unknown = null;
+  let rateLimited = false;
+  for (const provider of providerChain()) {
+    const rest = resting.get(provider.id);
+    if (rest && rest.until > now) {
+      rateLimited = true;
+      continue;
+    }
+    try {
+      const translated = await provider.translate(text, from, to);
+      resting.delete(provider.id);
+      return { translated, provider: provider.cacheable ? provider.id : null };
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        restProvider(provider, error.retryAfterMs);
+        rateLimited = true;
+      }
+      console.error(`Translation error (${provider.name}):`, error);
+      lastError = error;
+    }
+  }
+  if (rateLimited) {
+    const soonest = Math.min(...[...resting.values()].map(rest => rest.until));
+    throw new RateLimitError('All providers', Math.max(0, soonest - Date.now()));
+  }
+  throw lastError ?? new Error('No translation provider available');
+}
+
+// One scheduler per language pair, so batches never mix directions
+const schedulers = new Map<string, TranslationScheduler>();
+
+function getScheduler(from: TranslationLanguage, to: TranslationLanguage): TranslationScheduler {
+  const key = `${from}:${to}`;
+  let scheduler = schedulers.get(key);
+  if (!scheduler) {
+    scheduler = createTranslationScheduler({
+      translate: text => requestTranslation(text, from, to),
+      fallback: text => (config.failover ? dictionaryProvider.translate(text, from, to) : text),
+    });
+    schedulers.set(key, scheduler);
+  }
+  return scheduler;
+}
 
 // Evict oldest entries when cache exceeds max size
-function cacheSet(key: string, value: string): void {
-  if (TRANSLATE_CACHE.size >= MAX_CACHE_SIZE) {
+function cacheSet(key: string, value: string, cache: Map<string, string> = TRANSLATE_CACHE): void {
+  if (cache.size >= MAX_CACHE_SIZE) {
     // Delete the first (oldest) entry
-    const firstKey = TRANSLATE_CACHE.keys().next().value;
+    const firstKey = cache.keys().next().value;
     if (firstKey !== undefined) {
-      TRANSLATE_CACHE.delete(firstKey);
+      cache.delete(firstKey);
     }
   }
-  TRANSLATE_CACHE.set(key, value);
+  cache.set(key, value);
 }
 
-// Always use proxy in web mode
-async function translateFetch(url: string): Promise<Response> {
-  const targetUrl = url.replace(TRANSLATE_API, TRANSLATE_PROXY);
-  return window.fetch(targetUrl);
+function wordCount(text: string): number {
+  return text.trim().split(/\s+/).length;
 }
 
-export async function translateToEnglish(text: string): Promise<string> {
-  if (!text || text.trim() === '') return text;
-
-  const cached = TRANSLATE_CACHE.get(text);
+// First provider that can detect languages and isn't resting
+async function detectWithProvider(text: string): Promise<string | null> {
+  const cached = DETECT_CACHE.get(text);
   if (cached) return cached;
 
-  try {
-    // Using Google Translate unofficial API
-    const url = `${TRANSLATE_API}/translate_a/single?client=gtx&sl=zh-CN&tl=en&dt=t&q=${encodeURIComponent(text)}`;
+  const now = Date.now();
+  for (const provider of providerChain()) {
+    if (!provider.detect) continue;
+    const rest = resting.get(provider.id);
+    if (rest && rest.until > now) continue;
+    try {
+      const language = languageFromCode(await provider.detect(text));
+      cacheSet(text, language, DETECT_CACHE);
+      return language;
+    } catch (error) {
+      if (error instanceof RateLimitError) restProvider(provider, error.retryAfterMs);
+      console.error(`Language detection error (${provider.name}):`, error);
+    }
+  }
+  return null;
+}
 
-    const response = await translateFetch(url);
+// The language of a piece of Bilibili content, offline when the script gives it away.
+// Null when there's nothing to translate.
+export async function detectLanguage(text: string): Promise<string | null> {
+  const guess = guessLanguage(text);
+  if (guess.confident || wordCount(text) < MIN_DETECT_WORDS) return guess.language;
+  return (await detectWithProvider(text)) ?? guess.language;
+}
 
-    if (!response.ok) {
-      console.error('Translation failed:', response.status);
-      return text;
-    }
+// Cheap check before queueing: false for text with no language in it, or already in the
+// reader's language. Text the offline guess can't place counts, detectLanguage decides later.
+export function needsTranslation(text: string): boolean {
+  const guess = guessLanguage(text);
+  if (guess.language === config.targetLanguage) return false;
+  if (guess.language !== null) return true;
+  return !guess.confident && wordCount(text) >= MIN_DETECT_WORDS;
+}
 
-    const data = await response.json();
+// A translation, or the fallback text when every provider failed
+interface TranslationAttempt {
+  translated: string;
+  failed: boolean;
+}
 
-    // Google Translate returns nested arrays, the translation is in the first element
-    let translated = '';
-    if (Array.isArray(data) && Array.isArray(data[0])) {
-      translated = data[0].map((item: unknown[]) => item[0]).join('');
-    }
+// Memory cache, then the on-disk cache for each provider, then the scheduler
+async function translateRaw(
+  text: string,
+  from: TranslationLanguage,
+  to: TranslationLanguage
+): Promise<TranslationAttempt> {
+  const cacheKey = `${from}>${to}:${text}`;
+  const cached = TRANSLATE_CACHE.get(cacheKey);
+  if (cached) return { translated: cached, failed: false };
 
-    if (translated) {
-      cacheSet(text, translated);
-      return translated;
+  for (const provider of providerChain()) {
+    if (!provider.cacheable) continue;
+    const stored = await getCachedTranslation(provider.id, from, to, text);
+    if (stored) {
+      cacheSet(cacheKey, stored);
+      return { translated: stored, failed: false };
     }
+  }
 
-    return text;
-  } catch (error) {
-    console.error('Translation error:', error);
-    return text;
+  const { translated, provider, failed = false } = await getScheduler(from, to).translate(text);
+  if (provider) {
+    cacheSet(cacheKey, translated);
+    void setCachedTranslation(provider, from, to, text, translated);
   }
+  return { translated, failed };
 }
 
-export async function translateToChinese(text: string): Promise<string> {
-  if (!text || text.trim() === '') return text;
+// Glossary terms become placeholders on the way out and come back on the way in.
+// Chinese sources match the glossary's Chinese side; queries into Chinese match its targets.
+function protectText(text: string, from: TranslationLanguage, to: TranslationLanguage): ProtectedText | null {
+  if (config.glossary.length === 0) return null;
+  if (isChineseLanguage(from)) return protectGlossaryTerms(text, config.glossary);
+  if (to === SOURCE_LANGUAGE) return protectGlossaryTargets(text, config.glossary);
+  return null;
+}
 
-  const cacheKey = `en2zh:${text}`;
-  const cached = TRANSLATE_CACHE.get(cacheKey);
-  if (cached) return cached;
+async function translateText(
+  text: string,
+  from: TranslationLanguage,
+  to: TranslationLanguage
+): Promise<TranslationAttempt> {
+  if (!text || text.trim() === '') return { translated: text, failed: false };
 
-  try {
-    const url = `${TRANSLATE_API}/translate_a/single?client=gtx&sl=en&tl=zh-CN&dt=t&q=${encodeURIComponent(text)}`;
+  const prepared = protectText(text, from, to);
+  if (!prepared || prepared.text === text) return translateRaw(text, from, to);
 
-    const response = await translateFetch(url);
+  // Nothing left but glossary terms, no need to ask a provider
+  if (prepared.termsOnly) {
+    return { translated: prepared.restore(prepared.text) ?? text, failed: false };
+  }
 
-    if (!response.ok) {
-      console.error('Translation failed:', response.status);
-      return text;
-    }
+  const attempt = await translateRaw(prepared.text, from, to);
+  const restored = prepared.restore(attempt.translated);
+  if (restored !== null) return { translated: restored, failed: attempt.failed };
+  // The provider dropped a placeholder, so the glossary can't be applied to this one
+  console.log('[Translate] Glossary placeholder lost, translating without it');
+  return translateRaw(text, from, to);
+}
 
-    const data = await response.json();
+// Forget every stored translation, in memory and on disk
+export async function clearTranslationCache(): Promise<void> {
+  TRANSLATE_CACHE.clear();
+  await clearPersistentTranslationCache();
+}
 
-    let translated = '';
-    if (Array.isArray(data) && Array.isArray(data[0])) {
-      translated = data[0].map((item: unknown[]) => item[0]).join('');
-    }
+// Bilibili content into the reader's language, from whatever language each string is in
+// (mostly Chinese, but also Japanese titles, Traditional Chinese subtitles...). Text already
+// in the reader's language comes back as it is. Single strings are still batched: calls
+// made close together share requests.
+export async function translateContent(text: string): Promise<string> {
+  return (await attemptContentTranslation(text)).translated;
+}
 
-    if (translated) {
-      cacheSet(cacheKey, translated);
-      return translated;
-    }
+async function attemptContentTranslation(text: string): Promise<TranslationAttempt> {
+  if (!text || text.trim() === '') return { translated: text, failed: false };
+  const corrected = await findCorrection(text, config.targetLanguage);
+  if (corrected !== null) return { translated: corrected, failed: false };
+  const from = await detectLanguage(text);
+  if (!from || from === config.targetLanguage) return { translated: text, failed: false };
+  return translateText(text, from, config.targetLanguage);
+}
 
-    return text;
-  } catch (error) {
-    console.error('Translation error:', error);
-    return text;
-  }
+// The reader's own translation of `text`, used from now on instead of any provider's
+export async function correctTranslation(text: string, translation: string): Promise<void> {
+  await saveCorrection(text, config.targetLanguage, translation);
+}
+
+// The reader's saved translation of `text` in the current language, if there is one
+export async function getCorrection(text: string): Promise<string | null> {
+  return findCorrection(text, config.targetLanguage);
+}
+
+export async function resetTranslation(text: string): Promise<void> {
+  await removeCorrection(text, config.targetLanguage);
+}
+
+// A search query into Chinese. Queries Chinese already are left alone; text nothing
+// gives away is taken to be in the reader's own language.
+export async function translateToChinese(text: string): Promise<string> {
+  if (!text || text.trim() === '') return text;
+  const guess = guessLanguage(text);
+  if (guess.confident && (guess.language === null || guess.language === SOURCE_LANGUAGE)) return text;
+  const from = guess.confident && guess.language ? guess.language : config.targetLanguage;
+  return (await translateText(text, from, SOURCE_LANGUAGE)).translated;
+}
+
+// Translate many strings, merged into as few requests as possible. `onResult` fires
+// for each string as soon as its batch finishes, in whatever order that happens.
+// Multi-line texts keep their line breaks.
+export async function translateBatch(
+  texts: string[],
+  onResult?: (index: number, translated: string) => void
+): Promise<string[]> {
+  return Promise.all(texts.map(async (text, index) => {
+    const translated = await translateContent(text);
+    onResult?.(index, translated);
+    return translated;
+  }));
 }
 
-export async function translateBatch(texts: string[]): Promise<string[]> {
-  // Translate in parallel with some concurrency limit
-  const results = await Promise.all(
-    texts.map(text => translateToEnglish(text))
-  );
-  return results;
+// Like translateBatch, but null for each string no provider could translate, so
+// callers can leave it for a later retry instead of keeping the original as final
+export async function translateBatchSettled(texts: string[]): Promise<(string | null)[]> {
+  return Promise.all(texts.map(async text => {
+    const attempt = await attemptContentTranslation(text);
+    return attempt.failed ? null : attempt.translated;
+  }));
 }
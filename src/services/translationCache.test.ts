@@ -0,0 +1,243 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  hashText,
+  translationCacheKey,
+  getCachedTranslation,
+  setCachedTranslation,
+  getTranslationCacheStats,
+  TRANSLATION_CACHE_MAX_BYTES,
+  TRANSLATION_CACHE_TTL_MS,
+} from './translationCache'
+
+type Row = Record<string, unknown>
+
+interface FakeRequest {
+  result?: unknown
+  error: null
+  onsuccess: (() => void) | null
+  onerror: (() => void) | null
+  onupgradeneeded?: (() => void) | null
+}
+
+// Just enough of IndexedDB for translationCache: one database, keyPath stores,
+// a single-field index walked by cursor, and transactions that complete once
+// their last request has fired.
+function createFakeIndexedDB() {
+  const stores = new Map<string, { keyPath: string; rows: Map<unknown, Row>; indexes: Map<string, string> }>()
+
+  const transaction = (name: string) => {
+    const store = stores.get(name)!
+    let pending = 0
+    let completed = false
+    const tx = {
+      oncomplete: null as (() => void) | null,
+      onerror: null,
+      onabort: null,
+      objectStore: () => objectStore,
+    }
+    const schedule = (step: () => void) => {
+      pending++
+      setTimeout(() => {
+        step()
+        if (--pending === 0) {
+          setTimeout(() => {
+            if (pending === 0 && !completed) {
+              completed = true
+              tx.oncomplete?.()
+            }
+          })
+        }
+      })
+    }
+    const request = (run: () => unknown) => {
+      const req: FakeRequest = { error: null, onsuccess: null, onerror: null }
+      schedule(() => {
+        req.result = run()
+        req.onsuccess?.()
+      })
+      return req
+    }
+    const objectStore = {
+      get: (key: unknown) => request(() => {
+        const row = store.rows.get(key)
+        return row && { ...row }
+      }),
+      getAll: () => request(() => [...store.rows.values()].map(row => ({ ...row }))),
+      count: () => request(() => store.rows.size),
+      put: (value: Row) => request(() => store.rows.set(value[store.keyPath], { ...value })),
+      delete: (key: unknown) => request(() => store.rows.delete(key)),
+      clear: () => request(() => store.rows.clear()),
+      index: (indexName: string) => ({
+        openCursor: () => {
+          const field = store.indexes.get(indexName)!
+          const rows = [...store.rows.values()].sort((a, b) => (a[field] as number) - (b[field] as number))
+          const req: FakeRequest = { error: null, onsuccess: null, onerror: null }
+          let position = 0
+          const step = () => schedule(() => {
+            const row = rows[position]
+            req.result = row
+              ? {
+                  value: { ...row },
+                  delete: () => store.rows.delete(row[store.keyPath]),
+                  continue: () => {
+                    position++
+                    step()
+                  },
+                }
+              : null
+            req.onsuccess?.()
+          })
+          step()
+          return req
+        },
+      }),
+    }
+    return tx
+  }
+
+  const db = {
+    createObjectStore: (name: string, options: { keyPath: string }) => {
+      const store = { keyPath: options.keyPath, rows: new Map(), indexes: new Map<string, string>() }
+      stores.set(name, store)
+      return { createIndex: (indexName: string, field: string) => store.indexes.set(indexName, field) }
+    },
+    transaction,
+  }
+
+  return {
+    open: () => {
+      const req: FakeRequest = { error: null, onsuccess: null, onerror: null, onupgradeneeded: null }
+      setTimeout(() => {
+        req.result = db
+        if (stores.size === 0) req.onupgradeneeded?.()
+        req.onsuccess?.()
+      })
+      return req
+    },
+  }
+}
+
+// A record of this text is 2 MiB, so three of them overflow the 5 MiB budget
+const LARGE_TEXT_CHARS = 1024 * 1024
+const largeText = (ch: string) => ch.repeat(LARGE_TEXT_CHARS)
+
+describe('Translation Cache', () => {
+  describe('hashText', () => {
+    it('should be stable for the same text', () => {
+      expect(hashText('你好世界')).toBe(hashText('你好世界'))
+    })
+
+    it('should differ for different texts', () => {
+      expect(hashText('你好')).not.toBe(hashText('您好'))
+      expect(hashText('')).not.toBe(hashText(' '))
+    })
+  })
+
+  describe('translationCacheKey', () => {
+    it('should key by provider, languages and text hash', () => {
+      expect(translationCacheKey('google', 'zh', 'en', '你好')).toBe(`google:zh:en:${hashText('你好')}`)
+      expect(translationCacheKey('google', 'zh', 'en', '你好')).not.toBe(translationCacheKey('libretranslate', 'zh', 'en', '你好'))
+    })
+  })
+
+  describe('without IndexedDB', () => {
+    it('should miss reads and ignore writes', async () => {
+      await setCachedTranslation('google', 'zh', 'en', '你好', 'Hello')
+      expect(await getCachedTranslation('google', 'zh', 'en', '你好')).toBeNull()
+    })
+
+    it('should report an empty cache', async () => {
+      expect(await getTranslationCacheStats()).toEqual({ entries: 0, bytes: 0, maxBytes: TRANSLATION_CACHE_MAX_BYTES })
+    })
+  })
+
+  describe('with IndexedDB', () => {
+    let cache: typeof import('./translationCache')
+    let now: number
+
+    beforeEach(async () => {
+      vi.resetModules()
+      vi.stubGlobal('indexedDB', createFakeIndexedDB())
+      now = 1_700_000_000_000
+      vi.spyOn(Date, 'now').mockImplementation(() => now)
+      cache = await import('./translationCache')
+    })
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+      vi.unstubAllGlobals()
+    })
+
+    it('should return stored translations', async () => {
+      await cache.setCachedTranslation('google', 'zh', 'en', '你好', 'Hello')
+
+      expect(await cache.getCachedTranslation('google', 'zh', 'en', '你好')).toBe('Hello')
+      expect(await cache.getCachedTranslation('libretranslate', 'zh', 'en', '你好')).toBeNull()
+      expect(await cache.getTranslationCacheStats()).toEqual({ entries: 1, bytes: (2 + 5) * 2, maxBytes: TRANSLATION_CACHE_MAX_BYTES })
+    })
+
+    it('should expire entries after the TTL and drop them', async () => {
+      await cache.setCachedTranslation('google', 'zh', 'en', '你好', 'Hello')
+
+      now += TRANSLATION_CACHE_TTL_MS
+      expect(await cache.getCachedTranslation('google', 'zh', 'en', '你好')).toBe('Hello')
+
+      now += 1
+      expect(await cache.getCachedTranslation('google', 'zh', 'en', '你好')).toBeNull()
+      expect((await cache.getTranslationCacheStats()).entries).toBe(0)
+    })
+
+    it('should not count the bytes of a replaced entry twice', async () => {
+      const text = largeText('字')
+      for (const translated of ['one', 'two', 'three', 'four']) {
+        await cache.setCachedTranslation('google', 'zh', 'en', text, translated)
+      }
+
+      // Four 2 MiB writes to one key would blow the budget and evict it if each were counted
+      expect(await cache.getCachedTranslation('google', 'zh', 'en', text)).toBe('four')
+      expect(await cache.getTranslationCacheStats()).toEqual({
+        entries: 1,
+        bytes: (LARGE_TEXT_CHARS + 4) * 2,
+        maxBytes: TRANSLATION_CACHE_MAX_BYTES,
+      })
+    })
+
+    it('should skip translations larger than the whole budget', async () => {
+      await cache.setCachedTranslation('google', 'zh', 'en', largeText('字').repeat(3), 'x')
+
+      expect((await cache.getTranslationCacheStats()).entries).toBe(0)
+    })
+
+    it('should evict the least recently used entries once over budget', async () => {
+      const [a, b, c] = [largeText('甲'), largeText('乙'), largeText('丙')]
+      await cache.setCachedTranslation('google', 'zh', 'en', a, 'A')
+      now += 1000
+      await cache.setCachedTranslation('google', 'zh', 'en', b, 'B')
+      now += 1000
+      await cache.setCachedTranslation('google', 'zh', 'en', c, 'C')
+
+      // 6 MiB is over budget; dropping the oldest gets back under 90% of it
+      expect(await cache.getCachedTranslation('google', 'zh', 'en', a)).toBeNull()
+      expect(await cache.getCachedTranslation('google', 'zh', 'en', b)).toBe('B')
+      expect(await cache.getCachedTranslation('google', 'zh', 'en', c)).toBe('C')
+      expect(await cache.getTranslationCacheStats()).toMatchObject({ entries: 2, bytes: (LARGE_TEXT_CHARS + 1) * 2 * 2 })
+    })
+
+    it('should keep entries that were read recently', async () => {
+      const [a, b, c] = [largeText('甲'), largeText('乙'), largeText('丙')]
+      await cache.setCachedTranslation('google', 'zh', 'en', a, 'A')
+      now += 1000
+      await cache.setCachedTranslation('google', 'zh', 'en', b, 'B')
+
+      // A read after the touch interval refreshes lastUsed, so B becomes the oldest
+      now += 2 * 60 * 60 * 1000
+      expect(await cache.getCachedTranslation('google', 'zh', 'en', a)).toBe('A')
+      await new Promise(resolve => setTimeout(resolve, 10))
+      await cache.setCachedTranslation('google', 'zh', 'en', c, 'C')
+
+      expect(await cache.getCachedTranslation('google', 'zh', 'en', a)).toBe('A')
+      expect(await cache.getCachedTranslation('google', 'zh', 'en', b)).toBeNull()
+      expect(await cache.getCachedTranslation('google', 'zh', 'en', c)).toBe('C')
+    })
+  })
+})
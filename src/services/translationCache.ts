@@ -0,0 +1,249 @@
+// Persistent translation cache in IndexedDB, so trending titles and common danmaku
+// aren't re-translated every session. Entries expire after a TTL and the least
+// recently used ones are evicted once the cache grows past its byte budget.
+// Every function degrades to a no-op where IndexedDB is unavailable.
+
+const DB_NAME = 'bilibili-translations';
+const DB_VERSION = 1;
+const STORE_NAME = 'translations';
+const LAST_USED_INDEX = 'lastUsed';
+
+export const TRANSLATION_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+export const TRANSLATION_CACHE_MAX_BYTES = 5 * 1024 * 1024;
+// Only rewrite lastUsed on a hit when it's this stale, so reads stay reads
+const TOUCH_INTERVAL_MS = 60 * 60 * 1000;
+
+interface CacheRecord {
+  key: string;
+  provider: string;
+  from: string;
+  to: string;
+  text: string;
+  translated: string;
+  bytes: number;
+  createdAt: number;
+  lastUsed: number;
+}
+
+export interface TranslationCacheStats {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+}
+
+// 53-bit string hash (cyrb53). Collisions are harmless: records keep their text and are checked on read.
+export function hashText(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+export function translationCacheKey(provider: string, from: string, to: string, text: string): string {
+  return `${provider}:${from}:${to}:${hashText(text)}`;
+}
+
+// UTF-16 storage size of the strings we keep, which is what dominates a record
+function recordBytes(text: string, translated: string): number {
+  return (text.length + translated.length) * 2;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+// Running total of stored bytes, loaded lazily so puts know when to evict
+let totalBytes: number | null = null;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        store.createIndex(LAST_USED_INDEX, 'lastUsed');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('[TranslationCache] Failed to open database:', request.error);
+        resolve(null);
+      };
+    } catch (error) {
+      console.error('[TranslationCache] IndexedDB unavailable:', error);
+      resolve(null);
+    }
+  });
+  return dbPromise;
+}
+
+async function loadTotalBytes(db: IDBDatabase): Promise<number> {
+  if (totalBytes !== null) return totalBytes;
+  const records = await requestToPromise(
+    db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll() as IDBRequest<CacheRecord[]>
+  );
+  totalBytes = records.reduce((sum, record) => sum + record.bytes, 0);
+  return totalBytes;
+}
+
+export async function getCachedTranslation(
+  provider: string,
+  from: string,
+  to: string,
+  text: string
+): Promise<string | null> {
+  try {
+    const db = await openDatabase();
+    if (!db) return null;
+    const key = translationCacheKey(provider, from, to, text);
+    const record = await requestToPromise(
+      db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key) as IDBRequest<CacheRecord | undefined>
+    );
+    if (!record || record.text !== text) return null;
+
+    const now = Date.now();
+    if (now - record.createdAt > TRANSLATION_CACHE_TTL_MS) {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      tx.objectStore(STORE_NAME).delete(key);
+      await transactionDone(tx);
+      if (totalBytes !== null) totalBytes -= record.bytes;
+      return null;
+    }
+    if (now - record.lastUsed > TOUCH_INTERVAL_MS) {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      tx.objectStore(STORE_NAME).put({ ...record, lastUsed: now });
+      void transactionDone(tx).catch(() => {});
+    }
+    return record.translated;
+  } catch (error) {
+    console.error('[TranslationCache] Read failed:', error);
+    return null;
+  }
+}
+
+export async function setCachedTranslation(
+  provider: string,
+  from: string,
+  to: string,
+  text: string,
+  translated: string
+): Promise<void> {
+  try {
+    const db = await openDatabase();
+    if (!db) return;
+    const bytes = recordBytes(text, translated);
+    if (bytes > TRANSLATION_CACHE_MAX_BYTES) return;
+    await loadTotalBytes(db);
+
+    const now = Date.now();
+    const record: CacheRecord = {
+      key: translationCacheKey(provider, from, to, text),
+      provider,
+      from,
+      to,
+      text,
+      translated,
+      bytes,
+      createdAt: now,
+      lastUsed: now,
+    };
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    // Replacing an entry shouldn't count its bytes twice. Put from the callback so
+    // the transaction is still active.
+    let previousBytes = 0;
+    const existing = store.get(record.key) as IDBRequest<CacheRecord | undefined>;
+    existing.onsuccess = () => {
+      previousBytes = existing.result?.bytes ?? 0;
+      store.put(record);
+    };
+    await transactionDone(tx);
+    totalBytes = (totalBytes ?? 0) + bytes - previousBytes;
+
+    if (totalBytes > TRANSLATION_CACHE_MAX_BYTES) {
+      await evictLeastRecentlyUsed(db);
+    }
+  } catch (error) {
+    console.error('[TranslationCache] Write failed:', error);
+  }
+}
+
+// Delete expired entries, then the least recently used, until we're at 90% of the budget.
+// Writes can land while the cursor runs, so the evicted bytes come off the live total.
+async function evictLeastRecentlyUsed(db: IDBDatabase): Promise<void> {
+  const target = TRANSLATION_CACHE_MAX_BYTES * 0.9;
+  const expiredBefore = Date.now() - TRANSLATION_CACHE_TTL_MS;
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const request = tx.objectStore(STORE_NAME).index(LAST_USED_INDEX).openCursor();
+  let evicted = 0;
+
+  await new Promise<void>((resolve, reject) => {
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      const record = cursor.value as CacheRecord;
+      if ((totalBytes ?? 0) - evicted > target || record.createdAt < expiredBefore) {
+        cursor.delete();
+        evicted += record.bytes;
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+  await transactionDone(tx);
+  if (totalBytes !== null) totalBytes -= evicted;
+}
+
+export async function getTranslationCacheStats(): Promise<TranslationCacheStats> {
+  const stats = { entries: 0, bytes: 0, maxBytes: TRANSLATION_CACHE_MAX_BYTES };
+  try {
+    const db = await openDatabase();
+    if (!db) return stats;
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    stats.entries = await requestToPromise(store.count());
+    totalBytes = null;
+    stats.bytes = await loadTotalBytes(db);
+    return stats;
+  } catch (error) {
+    console.error('[TranslationCache] Failed to read stats:', error);
+    return stats;
+  }
+}
+
+export async function clearPersistentTranslationCache(): Promise<void> {
+  try {
+    const db = await openDatabase();
+    if (!db) return;
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    tx.objectStore(STORE_NAME).clear();
+    await transactionDone(tx);
+    totalBytes = 0;
+  } catch (error) {
+    console.error('[TranslationCache] Failed to clear:', error);
+  }
+}
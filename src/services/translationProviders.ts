@@ -0,0 +1,225 @@
+import { getLanguage } from './languages';
+import type { GlossaryEntry } from './glossary';
+
+// Translation backends. Each provider throws when it can't translate, which lets
+// translate.ts fail over to the next one instead of silently keeping the Chinese.
+
+export type TranslationProviderId = 'google' | 'libretranslate' | 'dictionary';
+
+// Language codes from languages.ts; providers map them to their own
+export type TranslationLanguage = string;
+
+export interface TranslationProvider {
+  id: TranslationProviderId;
+  name: string;
+  // False for providers whose output isn't worth caching (it's instant, or a pass-through)
+  cacheable: boolean;
+  isConfigured(): boolean;
+  translate(text: string, from: TranslationLanguage, to: TranslationLanguage): Promise<string>;
+  // The language of `text`, as the provider's own code ("zh-CN", "zt")
+  detect?(text: string): Promise<string>;
+}
+
+export interface TranslationConfig {
+  provider: TranslationProviderId;
+  libreTranslateUrl: string;
+  libreTranslateApiKey: string;
+  failover: boolean;
+  targetLanguage: TranslationLanguage;
+  glossary: GlossaryEntry[];
+}
+
+export const TRANSLATION_PROVIDER_OPTIONS: { value: TranslationProviderId; label: string; description: string }[] = [
+  { value: 'google', label: 'Google Translate', description: 'Free public endpoint, best quality, may rate-limit' },
+  { value: 'libretranslate', label: 'LibreTranslate', description: 'Public or self-hosted LibreTranslate server' },
+  { value: 'dictionary', label: 'Offline dictionary', description: 'Common Bilibili terms between Chinese and English only, everything else stays as it is' },
+];
+
+// Thrown for HTTP 429 so the caller can rest the provider for a while
+export class RateLimitError extends Error {
+  retryAfterMs: number;
+
+  constructor(provider: string, retryAfterMs = 0) {
+    super(`${provider} rate limit reached`);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Thrown for a language pair the provider can't translate, so the caller moves on to the next one
+export class UnsupportedLanguageError extends Error {
+  constructor(provider: string, from: string, to: string) {
+    super(`${provider} can't translate ${from} to ${to}`);
+    this.name = 'UnsupportedLanguageError';
+  }
+}
+
+// Retry-After in seconds, when the server sends one
+function retryAfterMs(response: Response): number {
+  const seconds = Number(response.headers?.get('retry-after'));
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : 0;
+}
+
+const GOOGLE_API = 'https://translate.googleapis.com';
+const GOOGLE_PROXY = '/api/translate';
+
+// Always use proxy in web mode
+async function googleFetch(url: string): Promise<Response> {
+  return window.fetch(url.replace(GOOGLE_API, GOOGLE_PROXY));
+}
+
+export const googleProvider: TranslationProvider = {
+  id: 'google',
+  name: 'Google Translate',
+  cacheable: true,
+  isConfigured: () => true,
+  async translate(text, from, to) {
+    // Using Google Translate unofficial API
+    const url = `${GOOGLE_API}/translate_a/single?client=gtx&sl=${getLanguage(from).google}&tl=${getLanguage(to).google}&dt=t&q=${encodeURIComponent(text)}`;
+    const response = await googleFetch(url);
+    if (response.status === 429) throw new RateLimitError('Google Translate', retryAfterMs(response));
+    if (!response.ok) throw new Error(`Google Translate HTTP ${response.status}`);
+
+    const data = await response.json();
+    // Google Translate returns nested arrays, the translation is in the first element
+    let translated = '';
+    if (Array.isArray(data) && Array.isArray(data[0])) {
+      translated = data[0].map((item: unknown[]) => item[0]).join('');
+    }
+    if (!translated) throw new Error('Google Translate returned no translation');
+    return translated;
+  },
+  async detect(text) {
+    // With sl=auto the detected source language comes back as the third element
+    const url = `${GOOGLE_API}/translate_a/single?client=gtx&sl=auto&tl=en&dt=t&q=${encodeURIComponent(text)}`;
+    const response = await googleFetch(url);
+    if (response.status === 429) throw new RateLimitError('Google Translate', retryAfterMs(response));
+    if (!response.ok) throw new Error(`Google Translate HTTP ${response.status}`);
+
+    const data = await response.json();
+    if (!Array.isArray(data) || typeof data[2] !== 'string') {
+      throw new Error('Google Translate returned no language');
+    }
+    return data[2];
+  },
+};
+
+export function createLibreTranslateProvider(getConfig: () => TranslationConfig): TranslationProvider {
+  return {
+    id: 'libretranslate',
+    name: 'LibreTranslate',
+    cacheable: true,
+    isConfigured: () => getConfig().libreTranslateUrl.trim() !== '',
+    async translate(text, from, to) {
+      const { libreTranslateUrl, libreTranslateApiKey } = getConfig();
+      const response = await window.fetch(`${libreTranslateUrl.trim().replace(/\/+$/, '')}/translate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          q: text,
+          source: getLanguage(from).libreTranslate,
+          target: getLanguage(to).libreTranslate,
+          format: 'text',
+          ...(libreTranslateApiKey ? { api_key: libreTranslateApiKey } : {}),
+        }),
+      });
+      if (response.status === 429) throw new RateLimitError('LibreTranslate', retryAfterMs(response));
+      if (!response.ok) throw new Error(`LibreTranslate HTTP ${response.status}`);
+
+      const data = await response.json();
+      if (typeof data?.translatedText !== 'string' || !data.translatedText) {
+        throw new Error('LibreTranslate returned no translation');
+      }
+      return data.translatedText;
+    },
+    async detect(text) {
+      const { libreTranslateUrl, libreTranslateApiKey } = getConfig();
+      const response = await window.fetch(`${libreTranslateUrl.trim().replace(/\/+$/, '')}/detect`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          q: text,
+          ...(libreTranslateApiKey ? { api_key: libreTranslateApiKey } : {}),
+        }),
+      });
+      if (response.status === 429) throw new RateLimitError('LibreTranslate', retryAfterMs(response));
+      if (!response.ok) throw new Error(`LibreTranslate HTTP ${response.status}`);
+
+      // Candidates, most likely first
+      const data = await response.json();
+      if (!Array.isArray(data) || typeof data[0]?.language !== 'string') {
+        throw new Error('LibreTranslate returned no language');
+      }
+      return data[0].language;
+    },
+  };
+}
+
+// Terms that come up constantly on Bilibili, for when no online provider is reachable
+const DICTIONARY: Record<string, string> = {
+  '弹幕': 'Danmaku',
+  '投币': 'Coin',
+  '硬币': 'Coins',
+  '点赞': 'Like',
+  '收藏': 'Favorite',
+  '转发': 'Share',
+  '三连': 'Like, coin and favorite',
+  '一键三连': 'Like, coin and favorite',
+  '关注': 'Follow',
+  '粉丝': 'Followers',
+  '评论': 'Comments',
+  '番剧': 'Anime',
+  '国创': 'Chinese animation',
+  '纪录片': 'Documentary',
+  '电影': 'Movies',
+  '电视剧': 'TV series',
+  '动画': 'Animation',
+  '音乐': 'Music',
+  '舞蹈': 'Dance',
+  '游戏': 'Gaming',
+  '知识': 'Knowledge',
+  '科技': 'Tech',
+  '运动': 'Sports',
+  '汽车': 'Cars',
+  '生活': 'Life',
+  '美食': 'Food',
+  '动物圈': 'Animals',
+  '鬼畜': 'Kichiku',
+  '时尚': 'Fashion',
+  '娱乐': 'Entertainment',
+  '影视': 'Film & TV',
+  '直播': 'Live',
+  '热门': 'Popular',
+  '排行榜': 'Rankings',
+  '全部': 'All',
+  '前方高能': 'High energy ahead',
+  '哈哈哈': 'Hahaha',
+  '好耶': 'Yay',
+  '来了': 'Here',
+  '第一': 'First',
+  '谢谢': 'Thanks',
+  '你好': 'Hello',
+};
+
+const REVERSE_DICTIONARY = Object.fromEntries(
+  Object.entries(DICTIONARY).map(([zh, en]) => [en.toLowerCase(), zh])
+);
+
+// Chinese <-> English exact matches only, line by line so merged batches work; unknown lines pass
+// through untouched. Offline, so it's also the last resort during failover, but any other language
+// pair throws UnsupportedLanguageError rather than pretending the text was translated.
+export const dictionaryProvider: TranslationProvider = {
+  id: 'dictionary',
+  name: 'Offline dictionary',
+  cacheable: false,
+  isConfigured: () => true,
+  async translate(text, from, to) {
+    const lookup = from === 'zh' && to === 'en'
+      ? (key: string) => DICTIONARY[key]
+      : from === 'en' && to === 'zh'
+        ? (key: string) => REVERSE_DICTIONARY[key.toLowerCase()]
+        : null;
+    if (!lookup) throw new UnsupportedLanguageError('Offline dictionary', from, to);
+    return text.split('\n').map(line => lookup(line.trim()) ?? line).join('\n');
+  },
+};
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createTranslationScheduler, type TranslationOutcome } from './translationScheduler'
+import { RateLimitError } from './translationProviders'
+
+// Upper-cases each line, like a translator that keeps line breaks
+function echo(text: string): Promise<TranslationOutcome> {
+  return Promise.resolve({ translated: text.toUpperCase(), provider: 'google' })
+}
+
+describe('Translation Scheduler', () => {
+  it('should merge strings queued together into one request', async () => {
+    const translate = vi.fn(echo)
+    const scheduler = createTranslationScheduler({ translate, batchDelayMs: 0 })
+
+    const results = await Promise.all(['a', 'b', 'c'].map(text => scheduler.translate(text)))
+
+    expect(translate).toHaveBeenCalledTimes(1)
+    expect(translate).toHaveBeenCalledWith('a\nb\nc')
+    expect(results.map(result => result.translated)).toEqual(['A', 'B', 'C'])
+  })
+
+  it('should keep the line breaks of multi-line texts', async () => {
+    const translate = vi.fn(echo)
+    const scheduler = createTranslationScheduler({ translate, batchDelayMs: 0 })
+
+    const [description, title] = await Promise.all([
+      scheduler.translate('first line\n\nsecond line\n'),
+      scheduler.translate('title'),
+    ])
+
+    expect(translate).toHaveBeenCalledTimes(1)
+    expect(translate).toHaveBeenCalledWith('first line\nsecond line\ntitle')
+    expect(description).toEqual({ translated: 'FIRST LINE\n\nSECOND LINE', provider: 'google' })
+    expect(title.translated).toBe('TITLE')
+  })
+
+  it('should mark a multi-line text failed if any of its lines failed', async () => {
+    const translate = vi.fn(async (text: string) => {
+      if (text.includes('bad')) throw new Error('Provider down')
+      return echo(text)
+    })
+    const scheduler = createTranslationScheduler({ translate, batchDelayMs: 0, maxChars: 1 })
+
+    const result = await scheduler.translate('good\nbad')
+
+    expect(result).toEqual({ translated: 'GOOD\nbad', provider: null, failed: true })
+  })
+
+  it('should coalesce identical strings in flight', async () => {
+    const translate = vi.fn(echo)
+    const scheduler = createTranslationScheduler({ translate, batchDelayMs: 0 })
+
+    const [first, second] = await Promise.all([scheduler.translate('same'), scheduler.translate('same')])
+
+    expect(translate).toHaveBeenCalledWith('same')
+    expect(first).toBe(second)
+  })
+
+  it('should cap concurrent requests', async () => {
+    let active = 0
+    let peak = 0
+    const translate = vi.fn(async (text: string) => {
+      active++
+      peak = Math.max(peak, active)
+      await new Promise(resolve => setTimeout(resolve, 5))
+      active--
+      return echo(text)
+    })
+    const scheduler = createTranslationScheduler({ translate, batchDelayMs: 0, maxChars: 4, maxConcurrent: 2 })
+
+    const texts = ['one', 'two', 'six', 'ten', 'red']
+    const results = await Promise.all(texts.map(text => scheduler.translate(text)))
+
+    expect(translate).toHaveBeenCalledTimes(5)
+    expect(peak).toBe(2)
+    expect(results.map(result => result.translated)).toEqual(['ONE', 'TWO', 'SIX', 'TEN', 'RED'])
+  })
+
+  it('should halve batches whose lines do not line up', async () => {
+    const translate = vi.fn(async (text: string) => (
+      text.includes('\n')
+        ? { translated: 'merged', provider: 'google' as const }
+        : echo(text)
+    ))
+    const scheduler = createTranslationScheduler({ translate, batchDelayMs: 0 })
+
+    const results = await Promise.all(['x', 'y', 'z'].map(text => scheduler.translate(text)))
+
+    expect(results.map(result => result.translated)).toEqual(['X', 'Y', 'Z'])
+  })
+
+  it('should resolve each string as its batch finishes', async () => {
+    const translate = vi.fn(async (text: string) => {
+      await new Promise(resolve => setTimeout(resolve, text === 'slow' ? 20 : 0))
+      return echo(text)
+    })
+    const scheduler = createTranslationScheduler({ translate, batchDelayMs: 0, maxChars: 1 })
+    const order: string[] = []
+
+    await Promise.all(['slow', 'fast'].map(text => scheduler.translate(text).then(() => order.push(text))))
+
+    expect(order).toEqual(['fast', 'slow'])
+  })
+
+  it('should retry rate-limited batches with backoff', async () => {
+    const translate = vi.fn()
+      .mockRejectedValueOnce(new RateLimitError('Test'))
+      .mockRejectedValueOnce(new RateLimitError('Test'))
+      .mockImplementation(echo)
+    const scheduler = createTranslationScheduler({ translate, batchDelayMs: 0, baseBackoffMs: 1 })
+
+    const result = await scheduler.translate('retry')
+
+    expect(translate).toHaveBeenCalledTimes(3)
+    expect(result.translated).toBe('RETRY')
+  })
+
+  it('should use the fallback once retries run out', async () => {
+    const translate = vi.fn().mockRejectedValue(new RateLimitError('Test'))
+    const fallback = vi.fn((text: string) => `fallback:${text}`)
+    const scheduler = createTranslationScheduler({ translate, fallback, batchDelayMs: 0, baseBackoffMs: 1, maxRetries: 2 })
+
+    const result = await scheduler.translate('give up')
+
+    expect(translate).toHaveBeenCalledTimes(3)
+    expect(result).toEqual({ translated: 'fallback:give up', provider: null, failed: true })
+  })
+
+  it('should pass blank strings straight through', async () => {
+    const translate = vi.fn(echo)
+    const scheduler = createTranslationScheduler({ translate })
+
+    expect((await scheduler.translate('  ')).translated).toBe('  ')
+    expect(translate).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,166 @@
+import { RateLimitError, type TranslationProviderId } from './translationProviders';
+
+// Merges the short strings the app translates (titles, names, danmaku, cues) into a
+// few newline-joined requests. Strings are queued for a moment so callers across the
+// page share batches, identical strings in flight share one result, only a few
+// requests run at once, and rate-limited batches back off and retry.
+
+export interface TranslationOutcome {
+  translated: string;
+  // Who translated it; null for fallbacks that shouldn't be cached
+  provider: TranslationProviderId | null;
+  // Every attempt failed and `translated` is the fallback, worth retrying later
+  failed?: boolean;
+}
+
+export interface TranslationSchedulerOptions {
+  // Translate one merged text. Throw RateLimitError to back off and retry.
+  translate: (text: string) => Promise<TranslationOutcome>;
+  // Used per string once a batch has failed for good
+  fallback?: (text: string) => Promise<string> | string;
+  maxChars?: number;
+  maxConcurrent?: number;
+  batchDelayMs?: number;
+  maxRetries?: number;
+  baseBackoffMs?: number;
+}
+
+export interface TranslationScheduler {
+  translate(text: string): Promise<TranslationOutcome>;
+}
+
+interface QueuedText {
+  text: string;
+  // Trimmed single line; newlines are the batch delimiter
+  flattened: string;
+  resolve: (outcome: TranslationOutcome) => void;
+}
+
+// Keep each merged request inside the translate GET URL limit (URL-encoded CJK is ~9 bytes a character)
+const DEFAULT_MAX_CHARS = 500;
+const DEFAULT_MAX_CONCURRENT = 2;
+const DEFAULT_BATCH_DELAY_MS = 10;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_BASE_BACKOFF_MS = 1000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export function createTranslationScheduler(options: TranslationSchedulerOptions): TranslationScheduler {
+  const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS;
+  const maxConcurrent = options.maxConcurrent ?? DEFAULT_MAX_CONCURRENT;
+  const batchDelayMs = options.batchDelayMs ?? DEFAULT_BATCH_DELAY_MS;
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const baseBackoffMs = options.baseBackoffMs ?? DEFAULT_BASE_BACKOFF_MS;
+
+  const queue: QueuedText[] = [];
+  const inFlight = new Map<string, Promise<TranslationOutcome>>();
+  let active = 0;
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Take as many queued texts as fit in one request
+  const takeBatch = (): QueuedText[] => {
+    const batch: QueuedText[] = [];
+    let length = 0;
+    while (queue.length > 0) {
+      const next = queue[0];
+      if (batch.length > 0 && length + next.flattened.length + 1 > maxChars) break;
+      batch.push(queue.shift()!);
+      length += next.flattened.length + 1;
+    }
+    return batch;
+  };
+
+  const flush = () => {
+    flushTimer = null;
+    while (active < maxConcurrent && queue.length > 0) {
+      const batch = takeBatch();
+      active++;
+      void runBatch(batch).finally(() => {
+        active--;
+        flush();
+      });
+    }
+  };
+
+  const scheduleFlush = () => {
+    if (flushTimer === null) flushTimer = setTimeout(flush, batchDelayMs);
+  };
+
+  const fail = async (batch: QueuedText[]) => {
+    await Promise.all(batch.map(async item => {
+      let translated = item.text;
+      try {
+        if (options.fallback) translated = await options.fallback(item.text);
+      } catch {
+        // Keep the original
+      }
+      item.resolve({ translated, provider: null, failed: true });
+    }));
+  };
+
+  const runBatch = async (batch: QueuedText[]): Promise<void> => {
+    for (let attempt = 0; ; attempt++) {
+      let outcome: TranslationOutcome;
+      try {
+        outcome = await options.translate(batch.map(item => item.flattened).join('\n'));
+      } catch (error) {
+        if (error instanceof RateLimitError && attempt < maxRetries) {
+          const backoff = Math.max(error.retryAfterMs, baseBackoffMs * 2 ** attempt);
+          await sleep(backoff + Math.random() * baseBackoffMs * 0.25);
+          continue;
+        }
+        console.error('[Translate] Batch failed:', error);
+        await fail(batch);
+        return;
+      }
+
+      if (batch.length === 1) {
+        batch[0].resolve({ translated: outcome.translated.trim() || batch[0].text, provider: outcome.provider });
+        return;
+      }
+      const lines = outcome.translated.split('\n');
+      if (lines.length === batch.length) {
+        batch.forEach((item, i) => {
+          item.resolve({ translated: lines[i].trim() || item.text, provider: outcome.provider });
+        });
+        return;
+      }
+      // The translator merged or split lines. Halve the batch until they line up again.
+      const middle = Math.ceil(batch.length / 2);
+      await runBatch(batch.slice(0, middle));
+      await runBatch(batch.slice(middle));
+      return;
+    }
+  };
+
+  const translateLine = (text: string): Promise<TranslationOutcome> => {
+    const pending = inFlight.get(text);
+    if (pending) return pending;
+
+    const promise = new Promise<TranslationOutcome>(resolve => {
+      queue.push({ text, flattened: text.trim(), resolve });
+    });
+    inFlight.set(text, promise);
+    void promise.then(() => inFlight.delete(text));
+    scheduleFlush();
+    return promise;
+  };
+
+  const scheduler: TranslationScheduler = {
+    async translate(text: string): Promise<TranslationOutcome> {
+      if (!text || text.trim() === '') return { translated: text, provider: null };
+
+      const lines = text.trim().split('\n');
+      if (lines.length === 1) return translateLine(text);
+
+      // Descriptions and comments keep their line breaks: each line is batched on its own and rejoined
+      const outcomes = await Promise.all(lines.map(line => scheduler.translate(line)));
+      const translated = outcomes.map(outcome => outcome.translated).join('\n');
+      if (outcomes.some(outcome => outcome.failed)) return { translated, provider: null, failed: true };
+      return { translated, provider: outcomes.find(outcome => outcome.provider)?.provider ?? null };
+    },
+  };
+  return scheduler;
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import { createVocabularyItem, vocabularyToAnkiCsv } from './vocabulary'
+
+describe('Vocabulary', () => {
+  describe('createVocabularyItem', () => {
+    it('should keep the definitions of every reading', () => {
+      const item = createVocabularyItem([
+        { traditional: '行', simplified: '行', pinyin: 'xing2', definitions: ['to walk', 'OK'] },
+        { traditional: '行', simplified: '行', pinyin: 'hang2', definitions: ['row'] },
+      ], '  这样也行  ')
+
+      expect(item.word).toBe('行')
+      expect(item.pinyin).toBe('xing2')
+      expect(item.definitions).toEqual(['to walk', 'OK', 'row'])
+      expect(item.context).toBe('这样也行')
+    })
+  })
+
+  describe('vocabularyToAnkiCsv', () => {
+    it('should write Anki headers and rows oldest first', () => {
+      const csv = vocabularyToAnkiCsv([
+        { word: '弹幕', traditional: '彈幕', pinyin: 'dan4 mu4', definitions: ['bullet comments'], context: '弹幕好多', addedAt: 2 },
+        { word: '绿', traditional: '綠', pinyin: 'lu:4', definitions: ['green', 'to cheat, "betray"'], context: '', addedAt: 1 },
+      ])
+
+      expect(csv.split('\r\n')).toEqual([
+        '#separator:comma',
+        '#html:false',
+        '#columns:Simplified,Traditional,Pinyin,Meaning,Example,Tags',
+        '#tags column:6',
+        '绿,綠,lǜ,"green; to cheat, ""betray""",,bilibili',
+        '弹幕,彈幕,dàn mù,bullet comments,弹幕好多,bilibili',
+        '',
+      ])
+    })
+  })
+})
@@ -0,0 +1,128 @@
+import { Store } from '@tauri-apps/plugin-store';
+import type { DictionaryEntry } from './cedict';
+import { formatPinyin } from './pinyin';
+import { toCsv } from '../utils/csv';
+
+const STORE_PATH = 'vocabulary.json';
+const LOCAL_STORAGE_KEY = 'bilibili_vocabulary';
+const isTauri = typeof window !== 'undefined'
+  && Boolean((window as unknown as { __TAURI__?: unknown }).__TAURI__);
+
+export interface VocabularyItem {
+  word: string; // Simplified
+  traditional: string;
+  pinyin: string; // Numbered, as in the dictionary
+  definitions: string[];
+  context: string; // The line the word was saved from
+  addedAt: number;
+}
+
+let store: Store | null = null;
+
+async function getStore(): Promise<Store | null> {
+  if (!isTauri) return null;
+  if (store) return store;
+  try {
+    store = await Store.load(STORE_PATH);
+    return store;
+  } catch (error) {
+    console.error('Failed to load vocabulary store:', error);
+    return null;
+  }
+}
+
+async function saveVocabulary(items: VocabularyItem[]): Promise<void> {
+  if (!isTauri) {
+    window.localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(items));
+    return;
+  }
+  const s = await getStore();
+  if (!s) return;
+  await s.set('vocabulary', items);
+  await s.save();
+}
+
+export function createVocabularyItem(entries: DictionaryEntry[], context: string): VocabularyItem {
+  const [first] = entries;
+  return {
+    word: first.simplified,
+    traditional: first.traditional,
+    pinyin: first.pinyin,
+    // Every reading of the word, so the card covers them all
+    definitions: entries.flatMap(entry => entry.definitions),
+    context: context.trim(),
+    addedAt: Date.now(),
+  };
+}
+
+export async function getVocabulary(): Promise<VocabularyItem[]> {
+  try {
+    if (!isTauri) {
+      const raw = window.localStorage.getItem(LOCAL_STORAGE_KEY);
+      return raw ? JSON.parse(raw) : [];
+    }
+    const s = await getStore();
+    if (!s) return [];
+    const items = await s.get<VocabularyItem[]>('vocabulary');
+    return items || [];
+  } catch (error) {
+    console.error('Failed to get vocabulary:', error);
+    return [];
+  }
+}
+
+export async function addToVocabulary(item: VocabularyItem): Promise<void> {
+  try {
+    const items = await getVocabulary();
+    if (items.some(existing => existing.word === item.word)) return;
+    await saveVocabulary([item, ...items]);
+  } catch (error) {
+    console.error('Failed to add to vocabulary:', error);
+  }
+}
+
+export async function removeFromVocabulary(word: string): Promise<void> {
+  try {
+    const items = await getVocabulary();
+    await saveVocabulary(items.filter(item => item.word !== word));
+  } catch (error) {
+    console.error('Failed to remove from vocabulary:', error);
+  }
+}
+
+export async function clearVocabulary(): Promise<void> {
+  try {
+    if (!isTauri) {
+      window.localStorage.removeItem(LOCAL_STORAGE_KEY);
+      return;
+    }
+    const s = await getStore();
+    if (!s) return;
+    await s.set('vocabulary', []);
+    await s.save();
+  } catch (error) {
+    console.error('Failed to clear vocabulary:', error);
+  }
+}
+
+// CSV with Anki's import headers, so File > Import picks the right separator and
+// fields without any setup. Oldest words first, the order they were learned in.
+export function vocabularyToAnkiCsv(items: VocabularyItem[]): string {
+  const header = [
+    '#separator:comma',
+    '#html:false',
+    '#columns:Simplified,Traditional,Pinyin,Meaning,Example,Tags',
+    '#tags column:6',
+  ].join('\r\n');
+  const rows = [...items]
+    .sort((a, b) => a.addedAt - b.addedAt)
+    .map(item => [
+      item.word,
+      item.traditional,
+      formatPinyin(item.pinyin, 'marks'),
+      item.definitions.join('; '),
+      item.context,
+      'bilibili',
+    ]);
+  return `${header}\r\n${toCsv(rows)}`;
+}
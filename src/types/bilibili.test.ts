@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { CATEGORIES } from './bilibili'
+import { CATEGORIES, migrateLegacyTranslations } from './bilibili'
 import type { BiliVideo, BiliCategory, BiliUser, BiliSearchResult, BiliTrendingResult } from './bilibili'
 
 describe('Bilibili Types', () => {
@@ -68,14 +68,14 @@ describe('Bilibili Types', () => {
       expect(video.bvid).toBe('BV1test')
     })
 
-    it('should allow optional titleEn and descEn', () => {
+    it('should allow optional titleTranslated and descTranslated', () => {
       const video: BiliVideo = {
         bvid: 'BV1test',
         aid: 123,
         title: '中文标题',
-        titleEn: 'English Title',
+        titleTranslated: 'English Title',
         desc: '描述',
-        descEn: 'Description',
+        descTranslated: 'Description',
         pic: 'http://test.jpg',
         duration: 60,
         view: 1000,
@@ -93,8 +93,8 @@ describe('Bilibili Types', () => {
         pubdate: 1234567890,
       }
 
-      expect(video.titleEn).toBe('English Title')
-      expect(video.descEn).toBe('Description')
+      expect(video.titleTranslated).toBe('English Title')
+      expect(video.descTranslated).toBe('Description')
     })
 
     it('should allow optional cid field', () => {
@@ -164,4 +164,33 @@ describe('Bilibili Types', () => {
       expect(result.error).toBe('Test error')
     })
   })
+  describe('migrateLegacyTranslations', () => {
+    it('should rename saved English fields to translated fields', () => {
+      const saved = [{
+        video: {
+          bvid: 'BV1xx411c7mD',
+          title: '标题',
+          titleEn: 'Title',
+          descEn: 'Description',
+          owner: { mid: 1, name: '名字', nameEn: 'Name', face: '' },
+        },
+        favoritedAt: 1,
+      }]
+
+      const migrated = migrateLegacyTranslations(saved)
+
+      expect(migrated[0].video).toEqual({
+        bvid: 'BV1xx411c7mD',
+        title: '标题',
+        titleTranslated: 'Title',
+        descTranslated: 'Description',
+        owner: { mid: 1, name: '名字', nameTranslated: 'Name', face: '' },
+      })
+    })
+
+    it('should not overwrite newer translated fields', () => {
+      const migrated = migrateLegacyTranslations({ titleEn: 'Old', titleTranslated: 'New' })
+      expect(migrated).toEqual({ titleTranslated: 'New' })
+    })
+  })
 })
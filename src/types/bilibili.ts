@@ -2,9 +2,9 @@ export interface BiliVideo {
   bvid: string;
   aid: number;
   title: string;
-  titleEn?: string;
+  titleTranslated?: string;
   desc: string;
-  descEn?: string;
+  descTranslated?: string;
   pic: string;
   duration: number;
   view: number;
@@ -17,11 +17,168 @@ export interface BiliVideo {
   owner: {
     mid: number;
     name: string;
-    nameEn?: string;
+    nameTranslated?: string;
     face: string;
   };
   pubdate: number;
   cid?: number;
+  epId?: number; // Set on PGC episodes, which stream through the PGC endpoints
+}
+
+// One part (分P) of a multi-part upload. Each part is its own stream with its own cid,
+// subtitles and danmaku.
+export interface BiliVideoPage {
+  cid: number;
+  page: number; // 1-based, as in ?p=
+  part: string;
+  partTranslated?: string;
+  duration: number;
+}
+
+export interface BiliVideoTag {
+  id: number;
+  name: string;
+}
+
+export interface BiliVideoRights {
+  download: boolean;
+  noReprint: boolean; // Uploader forbids reposting
+  paid: boolean; // Charging or paid-preview video
+  cooperation: boolean; // Several uploaders share credit
+  interactive: boolean; // Branching "stein gate" video
+}
+
+// Badges like "全站排行榜最高第3名" or "入站必刷"
+export interface BiliVideoHonour {
+  type: number;
+  desc: string;
+}
+
+// An uploader's collection (合集) the video belongs to: ordered sections of episodes,
+// usually a series
+export interface BiliCollection {
+  id: number;
+  title: string;
+  titleTranslated?: string;
+  cover: string;
+  intro: string;
+  sections: BiliCollectionSection[];
+}
+
+export interface BiliCollectionSection {
+  id: number;
+  title: string;
+  titleTranslated?: string;
+  episodes: BiliVideo[];
+}
+
+export interface BiliVideoDetail {
+  video: BiliVideo;
+  pages: BiliVideoPage[];
+  tags: BiliVideoTag[];
+  rights: BiliVideoRights;
+  honours: BiliVideoHonour[];
+  collection?: BiliCollection;
+}
+
+// PGC (licensed anime, film and TV) episode
+export interface BiliEpisode {
+  epId: number;
+  aid: number;
+  bvid: string;
+  cid: number;
+  title: string; // Episode number ("1", "SP") or "正片" for films
+  longTitle: string;
+  longTitleTranslated?: string;
+  cover: string;
+  duration: number;
+  badge: string; // "会员", "限免", ... as Bilibili labels it
+  vipOnly: boolean; // Needs Bilibili Premium (大会员)
+}
+
+export interface BiliSeason {
+  seasonId: number;
+  title: string;
+  titleTranslated?: string;
+  cover: string;
+  evaluate: string; // Synopsis
+  evaluateTranslated?: string;
+  type: number; // 1 anime, 2 film, 3 documentary, 4 Chinese anime, 5 TV
+  areaLimited: boolean;
+  views: number;
+  rating?: number; // Out of 10
+  // Official account the season is published under, when it has one
+  publisher?: { mid: number; name: string; face: string };
+  episodes: BiliEpisode[];
+}
+
+export interface BiliSeasonResult {
+  season: BiliSeason | null;
+  error?: string; // Region lock, removed season or fetch failure, ready to show
+}
+
+// A season as listed in rankings
+export interface BiliSeasonSummary {
+  seasonId: number;
+  title: string;
+  titleTranslated?: string;
+  cover: string;
+  latestEpisode: string; // "更新至第12话", "全24话"
+  views: number;
+  badge: string;
+}
+
+// A live.bilibili.com room
+export interface BiliLiveRoom {
+  roomId: number; // Long id; short vanity ids are resolved to it
+  uid: number;
+  title: string;
+  titleTranslated?: string;
+  cover: string;
+  anchor: {
+    name: string;
+    nameTranslated?: string;
+    face: string;
+  };
+  online: number; // Viewers, or Bilibili's "watched" count where it shows that instead
+  areaId: number;
+  areaName: string;
+  parentAreaId: number;
+  parentAreaName: string;
+  live: boolean;
+  liveSince?: number; // Unix seconds
+}
+
+export interface BiliLiveArea {
+  id: number;
+  name: string;
+  nameEn: string;
+  children: { id: number; name: string }[];
+}
+
+export interface BiliLiveRoomsResult {
+  rooms: BiliLiveRoom[];
+  page: number;
+  hasMore: boolean;
+  error?: string;
+}
+
+export interface BiliLiveRoomResult {
+  room: BiliLiveRoom | null;
+  error?: string;
+}
+
+// A trending search; keyword is what to search for, showName what Bilibili displays
+export interface BiliHotSearch {
+  keyword: string;
+  showName: string;
+  showNameTranslated?: string;
+  icon: string; // "Hot"/"New" badge image, empty when there's none
+}
+
+export interface BiliHotSearchResult {
+  keywords: BiliHotSearch[];
+  error?: string;
 }
 
 export interface BiliCategory {
@@ -44,6 +201,7 @@ export interface BiliSearchResult {
   total: number;
   page: number;
   pageSize: number;
+  error?: string; // Error message if fetch failed
 }
 
 export interface BiliTrendingResult {
@@ -61,7 +219,7 @@ export interface BiliComment {
   mid: number;
   content: {
     message: string;
-    messageEn?: string;
+    messageTranslated?: string;
   };
   ctime: number;
   like: number;
@@ -91,7 +249,7 @@ export interface BiliCommentsResult {
 export interface BiliChannel {
   mid: number;
   name: string;
-  nameEn?: string;
+  nameTranslated?: string;
   face: string;
   sign: string;
   level: number;
@@ -105,6 +263,7 @@ export interface BiliChannelVideosResult {
   total: number;
   page: number;
   pageSize: number;
+  error?: string; // Error message if fetch failed
 }
 
 export interface Playlist {
@@ -115,6 +274,33 @@ export interface Playlist {
   updatedAt: number;
 }
 
+// Translations used to be saved as titleEn, descEn, nameEn and messageEn. Rename them
+// when reading favorites, history and playlists saved before that changed.
+const LEGACY_TRANSLATION_FIELDS: Record<string, string> = {
+  titleEn: 'titleTranslated',
+  descEn: 'descTranslated',
+  nameEn: 'nameTranslated',
+  messageEn: 'messageTranslated',
+};
+
+export function migrateLegacyTranslations<T>(value: T): T {
+  if (Array.isArray(value)) {
+    value.forEach(migrateLegacyTranslations);
+  } else if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of Object.keys(record)) {
+      const renamed = LEGACY_TRANSLATION_FIELDS[key];
+      if (renamed) {
+        if (record[renamed] === undefined) record[renamed] = record[key];
+        delete record[key];
+      } else {
+        migrateLegacyTranslations(record[key]);
+      }
+    }
+  }
+  return value;
+}
+
 export const CATEGORIES: BiliCategory[] = [
   { tid: 0, name: '全部', nameEn: 'All' },
   { tid: 1, name: '动画', nameEn: 'Animation' },
@@ -0,0 +1,112 @@
+// Small runtime validation for JSON we don't control. A schema checks a value and
+// records every mismatch with its path, so one bad field reports as
+// "data.list[3].stat.view: expected number, got undefined" instead of failing later.
+
+export interface SchemaIssue {
+  path: string;
+  expected: string;
+  received: string;
+}
+
+export interface Schema<T> {
+  expected: string;
+  check(value: unknown, path: string, issues: SchemaIssue[]): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+type OptionalKeys<S extends Shape> = { [K in keyof S]: undefined extends Infer<S[K]> ? K : never }[keyof S];
+type RequiredKeys<S extends Shape> = Exclude<keyof S, OptionalKeys<S>>;
+type ObjectOf<S extends Shape> =
+  { [K in RequiredKeys<S>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> };
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return value.length > 20 ? 'string' : JSON.stringify(value);
+  return typeof value;
+}
+
+function primitive<T>(expected: string, test: (value: unknown) => boolean): Schema<T> {
+  return {
+    expected,
+    check(value, path, issues) {
+      if (!test(value)) issues.push({ path, expected, received: describe(value) });
+      return value as T;
+    },
+  };
+}
+
+export const string = (): Schema<string> => primitive('string', value => typeof value === 'string');
+export const number = (): Schema<number> => primitive('number', value => typeof value === 'number' && Number.isFinite(value));
+export const boolean = (): Schema<boolean> => primitive('boolean', value => typeof value === 'boolean');
+
+export function union<A, B>(a: Schema<A>, b: Schema<B>): Schema<A | B> {
+  const expected = `${a.expected} | ${b.expected}`;
+  return {
+    expected,
+    check(value, path, issues) {
+      const attempt: SchemaIssue[] = [];
+      a.check(value, path, attempt);
+      if (attempt.length === 0) return value as A;
+      attempt.length = 0;
+      b.check(value, path, attempt);
+      if (attempt.length === 0) return value as B;
+      issues.push({ path, expected, received: describe(value) });
+      return value as A | B;
+    },
+  };
+}
+
+// Missing and null both read as undefined
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    expected: `${schema.expected}?`,
+    check(value, path, issues) {
+      if (value === undefined || value === null) return undefined;
+      return schema.check(value, path, issues);
+    },
+  };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    expected: `${item.expected}[]`,
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, expected: `${item.expected}[]`, received: describe(value) });
+        return [];
+      }
+      return value.map((entry, i) => item.check(entry, `${path}[${i}]`, issues));
+    },
+  };
+}
+
+// Keys not in the shape are dropped from the result
+export function object<S extends Shape>(shape: S): Schema<ObjectOf<S>> {
+  return {
+    expected: 'object',
+    check(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, expected: 'object', received: describe(value) });
+        return {} as ObjectOf<S>;
+      }
+      const record = value as Record<string, unknown>;
+      const result: Record<string, unknown> = {};
+      for (const [key, schema] of Object.entries(shape)) {
+        const checked = schema.check(record[key], path ? `${path}.${key}` : key, issues);
+        if (checked !== undefined) result[key] = checked;
+      }
+      return result as ObjectOf<S>;
+    },
+  };
+}
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; issues: SchemaIssue[] };
+
+export function validate<T>(schema: Schema<T>, value: unknown, path = ''): ValidationResult<T> {
+  const issues: SchemaIssue[] = [];
+  const checked = schema.check(value, path, issues);
+  return issues.length === 0 ? { ok: true, value: checked } : { ok: false, issues };
+}
@@ -1,7 +1,8 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
 import path from 'path'
+import mediaHandler from './api/media'
 
 // Generate stable buvid cookies for the dev session
 function generateBuvid(): string {
@@ -17,9 +18,22 @@ const buvid3 = generateBuvid();
 const buvid4 = generateBuvid();
 const buvidCookie = `buvid3=${buvid3}; buvid4=${buvid4}; b_nut=${Date.now()}`;
 
+// Serve /api/media with the same handler as production. The upstream CDN host
+// differs per request, which a static `server.proxy` target can't express.
+function mediaProxy(): Plugin {
+  return {
+    name: 'media-proxy',
+    configureServer(server) {
+      server.middlewares.use('/api/media', (req, res) => {
+        void mediaHandler(req, res);
+      });
+    },
+  };
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react(), tailwindcss()],
+  plugins: [react(), tailwindcss(), mediaProxy()],
   clearScreen: false,
   resolve: {
     alias: {
@@ -46,6 +60,31 @@ export default defineConfig({
           'Cookie': buvidCookie,
         },
       },
+      // Trailing slash so it doesn't also claim /api/live-ws
+      '/api/live/': {
+        target: 'https://api.live.bilibili.com',
+        changeOrigin: true,
+        rewrite: (path) => path.replace(/^\/api\/live/, ''),
+        headers: {
+          'Referer': 'https://live.bilibili.com',
+          'Origin': 'https://live.bilibili.com',
+          'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+          'Accept': 'application/json, text/plain, */*',
+          'Cookie': buvidCookie,
+        },
+      },
+      // Live chat (danmaku) socket. Point VITE_LIVE_DANMAKU_WS at a local server to
+      // stand in for Bilibili's.
+      '/api/live-ws': {
+        target: 'wss://broadcastlv.chat.bilibili.com',
+        ws: true,
+        changeOrigin: true,
+        rewrite: () => '/sub',
+        headers: {
+          'Origin': 'https://live.bilibili.com',
+          'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+        },
+      },
       '/api/translate': {
         target: 'https://translate.googleapis.com',
         changeOrigin: true,